@@ -1,9 +1,15 @@
 import { NextResponse } from "next/server";
-import { loadPublicRuntimeConfig } from "@thrivereflections/realtime-config";
+import { featureFlagManager, loadPublicRuntimeConfig } from "@thrivereflections/realtime-config";
 
 export async function GET() {
   try {
     const publicConfig = loadPublicRuntimeConfig();
+
+    // The managed flag can force the fallback on top of the environment setting
+    const forceFallback = featureFlagManager.evaluateFlag("webrtc_fallback_force");
+    if (forceFallback?.enabled && forceFallback.value === true) {
+      publicConfig.featureFlags.webrtcFallbackForce = true;
+    }
     return NextResponse.json(publicConfig);
   } catch (error) {
     console.error("Failed to load runtime config:", error);
@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { healthCheckManager, HealthCheckManager } from "@thrivereflections/realtime-sre";
 import { ConsoleLogger } from "@thrivereflections/realtime-observability";
-import { toolRegistry } from "@thrivereflections/realtime-tool-gateway";
+import { toolRegistry } from "@/lib/platform";
 
 export const runtime = "nodejs";
 
@@ -11,7 +11,7 @@ const toolGatewayHealthChecker = HealthCheckManager.createChecker(
   async () => {
     try {
       // Check if tool handlers are loaded
-      const handlerCount = Object.keys(toolRegistry).length;
+      const handlerCount = toolRegistry.getNames().length;
 
       if (handlerCount === 0) {
         return {
@@ -28,7 +28,7 @@ const toolGatewayHealthChecker = HealthCheckManager.createChecker(
         message: `Tool gateway operational with ${handlerCount} handlers`,
         metadata: {
           handlerCount,
-          handlers: Object.keys(toolRegistry),
+          handlers: toolRegistry.getNames(),
         },
       };
     } catch (error) {
@@ -55,7 +55,7 @@ const toolHandlersHealthChecker = HealthCheckManager.createChecker(
       let unhealthyCount = 0;
 
       // Test each tool handler
-      for (const [toolName, handler] of Object.entries(toolRegistry)) {
+      for (const { name: toolName, handler } of toolRegistry.list()) {
         try {
           // Simple validation - check if handler is a function
           if (typeof handler !== "function") {
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server";
+import { sessionSummarizer } from "@/lib/summarizer";
+import { ConsoleLogger } from "@thrivereflections/realtime-observability";
+
+export const runtime = "nodejs";
+
+export async function POST(request: NextRequest) {
+  const correlationId = request.headers.get("x-correlation-id") || crypto.randomUUID();
+  const logger = new ConsoleLogger(correlationId);
+
+  try {
+    const { sessionId } = await request.json();
+
+    if (!sessionId) {
+      logger.warn("Missing required fields for session end", { sessionId });
+      return NextResponse.json({ error: "Missing required fields" }, { status: 400 });
+    }
+
+    // Summarizes the stored transcript and tool events; sessions without consent are skipped
+    const outcome = await sessionSummarizer.summarizeSession(sessionId);
+
+    logger.info("Session end processed", { sessionId, summary: outcome.status });
+    return NextResponse.json(outcome);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    logger.error("Failed to process session end", { error: errorMessage, correlationId });
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isRecordingTrack, RecordingUpload } from "@thrivereflections/realtime-recording";
+import { ConsoleLogger } from "@thrivereflections/realtime-observability";
+import { recordingUploader } from "@/lib/recordings";
+
+export const runtime = "nodejs";
+
+// Multipart form: "sessionId", plus one WAV file per track named "user", "assistant" or "stereo"
+export async function POST(request: NextRequest) {
+  const correlationId = request.headers.get("x-correlation-id") || crypto.randomUUID();
+  const logger = new ConsoleLogger(correlationId);
+
+  try {
+    const form = await request.formData();
+    const sessionId = form.get("sessionId");
+
+    if (typeof sessionId !== "string" || !sessionId) {
+      logger.warn("Missing required fields for session recording", { sessionId });
+      return NextResponse.json({ error: "Missing required fields" }, { status: 400 });
+    }
+
+    const files: RecordingUpload[] = [];
+    for (const [name, value] of form.entries()) {
+      if (name !== "sessionId" && typeof value !== "string") {
+        if (!isRecordingTrack(name)) {
+          return NextResponse.json({ error: `Unknown recording track: ${name}` }, { status: 400 });
+        }
+        files.push({ track: name, data: new Uint8Array(await value.arrayBuffer()) });
+      }
+    }
+
+    // Stored only when the session's consent is ACCEPTED
+    const outcome = await recordingUploader.upload(sessionId, files);
+
+    logger.info("Session recording processed", { sessionId, recording: outcome.status });
+    return NextResponse.json(outcome, { status: outcome.status === "rejected" ? 400 : 200 });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    logger.error("Failed to process session recording", { error: errorMessage, correlationId });
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
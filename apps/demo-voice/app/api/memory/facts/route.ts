@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from "next/server";
+import { loadAuthConfig } from "@thrivereflections/realtime-config";
+import { createLoggerFromEnv } from "@thrivereflections/realtime-observability";
+import { createClient } from "@/lib/supabase/server";
+import { demoStore } from "@/lib/store";
+
+export const runtime = "nodejs";
+
+/**
+ * Facts remembered about the signed-in user ("long" memory).
+ * GET lists them; DELETE ?id=<factId> forgets one.
+ */
+
+async function getSignedInUserId(): Promise<string | null> {
+  // Facts are keyed by user, so there is nothing to list without authentication
+  if (!loadAuthConfig().supabase) {
+    return null;
+  }
+
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  return user?.id ?? null;
+}
+
+export async function GET(request: NextRequest) {
+  const correlationId = request.headers.get("x-correlation-id") || crypto.randomUUID();
+  const logger = createLoggerFromEnv(correlationId);
+
+  try {
+    const userId = await getSignedInUserId();
+    if (!userId) {
+      return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+    }
+
+    const facts = (await demoStore.listMemoryFacts?.(userId)) ?? [];
+    return NextResponse.json({ facts });
+  } catch (error) {
+    logger.error("Failed to list memory facts", {
+      correlationId,
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  const correlationId = request.headers.get("x-correlation-id") || crypto.randomUUID();
+  const logger = createLoggerFromEnv(correlationId);
+
+  try {
+    const userId = await getSignedInUserId();
+    if (!userId) {
+      return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+    }
+
+    const factId = new URL(request.url).searchParams.get("id");
+    if (!factId) {
+      return NextResponse.json({ error: "Missing fact id" }, { status: 400 });
+    }
+
+    const deleted = (await demoStore.deleteMemoryFact?.(userId, factId)) ?? false;
+    if (!deleted) {
+      return NextResponse.json({ error: "Fact not found" }, { status: 404 });
+    }
+
+    logger.info("Memory fact deleted", { correlationId, factId });
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logger.error("Failed to delete memory fact", {
+      correlationId,
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
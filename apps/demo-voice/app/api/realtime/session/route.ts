@@ -2,11 +2,18 @@ import { NextRequest, NextResponse } from "next/server";
 import {
   loadRuntimeConfig,
   loadAuthConfig,
+  loadIceConfig,
   getAgentConfigWithUser,
   featureFlagManager,
+  toSessionTurnDetection,
+  resolveMemoryMode,
+  withMemoryFacts,
+  REMEMBER_FACT_TOOL,
 } from "@thrivereflections/realtime-config";
 import { createLoggerFromEnv } from "@thrivereflections/realtime-observability";
-import { checkRateLimit, RATE_LIMITS } from "@thrivereflections/realtime-security";
+import { toolRegistry } from "@thrivereflections/realtime-tool-gateway";
+import { checkRateLimit, createTurnCredentials, RATE_LIMITS } from "@thrivereflections/realtime-security";
+import type { IceServerConfig, MemoryFact } from "@thrivereflections/realtime-contracts";
 
 export const runtime = "edge";
 
@@ -56,6 +63,7 @@ export async function POST(request: NextRequest) {
     // Load configurations
     const config = loadRuntimeConfig();
     const authConfig = loadAuthConfig();
+    const iceConfig = loadIceConfig();
 
     let user = null;
     const authHeader = request.headers.get("authorization");
@@ -103,7 +111,39 @@ export async function POST(request: NextRequest) {
     const flags = featureFlagManager.evaluateFlags(appUser.sub, userTier);
 
     // Get agent configuration using platform's config system
-    const agentConfig = await getAgentConfigWithUser(appUser, flags);
+    const baseAgentConfig = await getAgentConfigWithUser(appUser, flags);
+
+    // The client asks for a memory mode, capped by the deployment's FEATURE_MEMORY.
+    // Long memory is per user, so anonymous sessions get short memory instead.
+    const body = await request.json().catch(() => ({}));
+    let memory = resolveMemoryMode(body?.memory, config.featureFlags.memory);
+    if (memory === "long" && !user) {
+      memory = "short";
+    }
+    const agentConfig = { ...baseAgentConfig, featureFlags: { ...baseAgentConfig.featureFlags, memory } };
+
+    // Preload what was remembered about the user in earlier sessions
+    let memoryFacts: MemoryFact[] = [];
+    if (memory === "long") {
+      try {
+        const factsResponse = await fetch(`${process.env.NEXT_PUBLIC_APP_URL}/api/memory/facts`, {
+          headers: {
+            Authorization: authHeader || "",
+            Cookie: request.headers.get("cookie") || "",
+          },
+        });
+        if (factsResponse.ok) {
+          memoryFacts = (await factsResponse.json()).facts ?? [];
+        }
+      } catch (error) {
+        logger.warn("Failed to load remembered facts", {
+          clientSessionId,
+          correlationId,
+          error: error instanceof Error ? error.message : "Unknown error",
+        });
+      }
+    }
+    const instructions = withMemoryFacts(agentConfig.persona, memoryFacts);
 
     // Create token getter function
     const getToken = async () => {
@@ -117,52 +157,22 @@ export async function POST(request: NextRequest) {
         body: JSON.stringify({
           model: config.model,
           voice: agentConfig.voice,
-          instructions: agentConfig.persona,
+          instructions,
           tools: agentConfig.capabilities.includes("tools")
             ? [
-                {
-                  type: "function",
-                  name: "echo",
-                  description: "Echo back the input",
-                  parameters: {
-                    type: "object",
-                    properties: {
-                      message: {
-                        type: "string",
-                        description: "The message to echo back",
-                      },
-                    },
-                    required: ["message"],
-                  },
-                },
-                {
-                  type: "function",
-                  name: "retrieve_docs",
-                  description: "Retrieve relevant documents based on a query",
-                  parameters: {
-                    type: "object",
-                    properties: {
-                      query: {
-                        type: "string",
-                        description: "The search query",
-                      },
-                    },
-                    required: ["query"],
-                  },
-                },
+                ...(memory === "long" ? [REMEMBER_FACT_TOOL] : []),
+                ...toolRegistry.toFunctionTools(["echo", "retrieve_docs"]),
               ]
+            : memory === "long"
+            ? [REMEMBER_FACT_TOOL]
             : undefined,
           input_audio_format: "pcm16",
           output_audio_format: "pcm16",
           input_audio_transcription: {
             model: "whisper-1",
           },
-          turn_detection: {
-            type: "server_vad",
-            threshold: 0.5,
-            prefix_padding_ms: 300,
-            silence_duration_ms: 500,
-          },
+          // Manual (push-to-talk) sessions have no server turn detection; the client commits input
+          turn_detection: toSessionTurnDetection(agentConfig.turnDetection ?? config.turnDetection),
           temperature: 0.8,
         }),
       });
@@ -233,6 +243,21 @@ export async function POST(request: NextRequest) {
 
     logger.logLatencyMark("sessionCreated", Date.now());
 
+    // ICE servers for the WebRTC transport, with short-lived TURN credentials minted for this session
+    let iceServers: IceServerConfig[] | undefined;
+    if (iceConfig) {
+      iceServers = [...iceConfig.iceServers];
+      if (iceConfig.turn) {
+        const turn = await createTurnCredentials({
+          sharedSecret: iceConfig.turn.sharedSecret,
+          urls: iceConfig.turn.urls,
+          ttlSeconds: iceConfig.turn.ttlSeconds,
+          userId: appUser.sub,
+        });
+        iceServers.push({ urls: turn.urls, username: turn.username, credential: turn.credential });
+      }
+    }
+
     // Return the session configuration for the client
     const response = {
       sessionId: clientSessionId,
@@ -241,6 +266,9 @@ export async function POST(request: NextRequest) {
       timings,
       client_secret: sessionData.client_secret, // Include the client_secret for the client to use
       model: config.model,
+      ice_servers: iceServers,
+      base_url: config.baseUrl,
+      memory_facts: memoryFacts.length,
     };
 
     logger.info("Session creation completed successfully", {
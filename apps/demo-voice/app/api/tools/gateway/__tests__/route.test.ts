@@ -0,0 +1,116 @@
+import { NextRequest } from "next/server";
+import { loadRuntimeConfig } from "@thrivereflections/realtime-config";
+import { ToolCall } from "@thrivereflections/realtime-contracts";
+import {
+  mcpToolName,
+  McpToolAdapter,
+  McpTransport,
+  ToolGateway,
+  toolRegistry,
+} from "@thrivereflections/realtime-tool-gateway";
+import { POST } from "../route";
+
+// The stores need the generated Prisma client, and Supabase is only reached when configured
+jest.mock("@/lib/store", () => ({ demoStore: {} }));
+jest.mock("@/lib/supabase/server", () => ({ createClient: jest.fn() }));
+jest.mock("@thrivereflections/realtime-store-prisma", () => ({ createPrismaStore: jest.fn() }));
+
+/** An MCP server in memory with one tool, `add` */
+function createMathTransport(): McpTransport {
+  let onMessage: (message: { jsonrpc: "2.0"; id: number; result: unknown }) => void = () => undefined;
+  const results: Record<string, (params: { arguments?: Record<string, unknown> }) => unknown> = {
+    initialize: () => ({
+      protocolVersion: "2025-06-18",
+      capabilities: { tools: {} },
+      serverInfo: { name: "math", version: "1" },
+    }),
+    "tools/list": () => ({
+      tools: [
+        {
+          name: "add",
+          inputSchema: {
+            type: "object",
+            properties: { a: { type: "number" }, b: { type: "number" } },
+            required: ["a", "b"],
+          },
+        },
+      ],
+    }),
+    "tools/call": ({ arguments: args = {} }) => ({
+      content: [{ type: "text", text: String(Number(args.a) + Number(args.b)) }],
+    }),
+  };
+  return {
+    connect: async (options) => {
+      onMessage = options.onMessage;
+    },
+    send: async (message) => {
+      if (!("id" in message) || !("method" in message)) {
+        return;
+      }
+      const result = results[message.method](message.params ?? {});
+      setTimeout(() => onMessage({ jsonrpc: "2.0", id: Number(message.id), result }));
+    },
+    close: async () => undefined,
+  };
+}
+
+function postToolCall(toolCall: ToolCall) {
+  return POST(
+    new NextRequest("http://localhost/api/tools/gateway", {
+      method: "POST",
+      headers: { "content-type": "application/json", "x-client-session-id": "session_1" },
+      body: JSON.stringify(toolCall),
+    })
+  );
+}
+
+describe("POST /api/tools/gateway", () => {
+  const env = process.env;
+  let adapter: McpToolAdapter;
+
+  beforeEach(async () => {
+    process.env = { ...env, OPENAI_API_KEY: "sk-test" };
+    adapter = new McpToolAdapter({
+      name: "math",
+      createTransport: createMathTransport,
+      // Registers into the shared registry the route's gateway runs over
+      gateway: new ToolGateway({ policies: loadRuntimeConfig().policies, allowList: [], registry: toolRegistry }),
+    });
+    await adapter.connect();
+  });
+
+  afterEach(async () => {
+    process.env = env;
+    await adapter.close();
+  });
+
+  it("runs a tool registered from an MCP server", async () => {
+    const response = await postToolCall({ id: "call_add", name: mcpToolName("math", "add"), args: { a: 2, b: 3 } });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ id: "call_add", ok: true, result: "5" });
+  });
+
+  it("still runs the agent's allowed tools", async () => {
+    const response = await postToolCall({ id: "call_echo", name: "echo", args: { message: "hi" } });
+
+    expect(await response.json()).toEqual(expect.objectContaining({ id: "call_echo", ok: true }));
+  });
+
+  it("rejects registered tools the agent is not allowed", async () => {
+    toolRegistry.register({
+      name: "run_code",
+      description: "",
+      parameters: { type: "object" },
+      handler: async () => 0,
+    });
+    try {
+      const response = await postToolCall({ id: "call_run", name: "run_code", args: {} });
+
+      expect(await response.json()).toEqual({ id: "call_run", ok: false, error: "Tool 'run_code' not in allowlist" });
+    } finally {
+      toolRegistry.unregister("run_code");
+    }
+  });
+});
@@ -1,13 +1,20 @@
 import { NextRequest, NextResponse } from "next/server";
 import { ToolCall, ToolCallResponse } from "@thrivereflections/realtime-contracts";
 import { createLoggerFromEnv } from "@thrivereflections/realtime-observability";
-import { loadRuntimeConfig, loadDatabaseConfig, loadAuthConfig } from "@thrivereflections/realtime-config";
-import { ToolGateway, echoTool, retrieveTool } from "@thrivereflections/realtime-tool-gateway";
+import {
+  loadRuntimeConfig,
+  loadDatabaseConfig,
+  loadAuthConfig,
+  featureFlagManager,
+  getAgentConfigWithUser,
+} from "@thrivereflections/realtime-config";
+import { ToolGateway } from "@thrivereflections/realtime-tool-gateway";
 import { createPrismaStore } from "@thrivereflections/realtime-store-prisma";
 import { createClient } from "@/lib/supabase/server";
 import { createUserSyncService } from "@thrivereflections/realtime-auth-supabase";
 import { checkRateLimit, RATE_LIMITS } from "@thrivereflections/realtime-security";
-import { initializeToolRegistry, executeToolCall, getAllToolDefinitions } from "@/lib/platform";
+import { circuitBreakerManager, metricsCollector, sloTracker } from "@thrivereflections/realtime-sre";
+import { toolRegistry, getGatewayAllowList, MEMORY_WRITE_SCOPE } from "@/lib/platform";
 
 export const runtime = "nodejs";
 
@@ -112,22 +119,28 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "Payload too large" }, { status: 413 });
     }
 
-    // Initialize tool registry
-    initializeToolRegistry();
+    // Allow what the session offered this user, plus MCP and OpenAPI tools registered under a namespace
+    const toolUser = appUser ?? { sub: "anonymous", tenant: "default" };
+    const agentConfig = await getAgentConfigWithUser(toolUser, featureFlagManager.evaluateFlags(toolUser.sub, "free"));
 
-    // Create tool gateway with configuration
+    // Create tool gateway over the shared registry
     const toolGateway = new ToolGateway({
       policies: runtimeConfig.policies,
-      allowList: ["echo", "retrieve_docs", "get_weather", "create_calendar_event"], // Include custom tools
+      allowList: getGatewayAllowList(agentConfig),
+      registry: toolRegistry,
+      // Breakers are shared across requests, so a failing tool stays open between them
+      breakers: circuitBreakerManager,
+      metrics: metricsCollector,
+      slo: sloTracker,
       logger: logger,
     });
 
-    // Register platform tools
-    toolGateway.register("echo", echoTool);
-    toolGateway.register("retrieve_docs", retrieveTool);
-
-    // Execute tool call using registry pattern
-    const response = await executeToolCall(toolCall);
+    // Arguments are validated against each tool's parameters; remembered facts belong to the signed-in user
+    const response = await toolGateway.executeToolCall(toolCall, {
+      userId: appUser?.sub,
+      sessionId: clientSessionId || undefined,
+      scopes: appUser ? [MEMORY_WRITE_SCOPE] : [],
+    });
 
     // Persist tool event if database is configured
     if (databaseConfig) {
@@ -1,19 +1,35 @@
 "use client";
 
-import { useState, useRef, useEffect } from "react";
+import { useState, useRef, useEffect, FormEvent } from "react";
 
 // Force dynamic rendering for this page
 export const dynamic = "force-dynamic";
 import { useRouter } from "next/navigation";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Separator } from "@/components/ui/separator";
 import { useRealtimeVoice } from "@/lib/demo";
 import { getAgentConfigForContext, validateAgentConfig } from "@/lib/platform";
-import { Mic, MicOff, Phone, PhoneOff, TestTube, Copy, Download, History, Settings, LogOut, User } from "lucide-react";
+import {
+  Mic,
+  MicOff,
+  Phone,
+  PhoneOff,
+  TestTube,
+  Copy,
+  Download,
+  History,
+  Settings,
+  LogOut,
+  User,
+  Send,
+} from "lucide-react";
 import { PrivacyWarningDialog } from "@/components/ui/privacy-warning-dialog";
 import { CostDisplay } from "@/components/ui/cost-display";
+import { Checkbox } from "@/components/ui/checkbox";
+import { RememberedFacts } from "@/components/ui/remembered-facts";
 import { LiveCostTracker } from "@/components/ui/live-cost-tracker";
 import { createClient } from "@/lib/supabase/client";
 import { SupabaseAuthProvider, createAuthProvider, AuthProvider } from "@thrivereflections/realtime-auth-supabase";
@@ -23,10 +39,12 @@ export default function VoicePage() {
   const [isConnecting, setIsConnecting] = useState(false);
   const [isTestingTool, setIsTestingTool] = useState(false);
   const [memoryEnabled, setMemoryEnabled] = useState(false);
+  const [rememberAcrossSessions, setRememberAcrossSessions] = useState(false);
   const [showPrivacyDialog, setShowPrivacyDialog] = useState(false);
   const [user, setUser] = useState<{ sub: string; email?: string; name?: string; provider?: string } | null>(null);
   const [authProvider, setAuthProvider] = useState<AuthProvider | null>(null);
   const [runtimeConfig, setRuntimeConfig] = useState<any>(null);
+  const [messageText, setMessageText] = useState("");
   const scrollContainerRef = useRef<HTMLDivElement>(null);
   const router = useRouter();
   const {
@@ -40,6 +58,11 @@ export default function VoicePage() {
     usageData,
     connect,
     disconnect,
+    pushToTalk,
+    commitInput,
+    clearInput,
+    textOnly,
+    sendText,
     getTimingStats,
   } = useRealtimeVoice();
 
@@ -106,7 +129,12 @@ export default function VoicePage() {
           transport: "webrtc" as const,
           bargeIn: true,
           captions: "partial" as const,
-          memory: memoryEnabled ? ("short" as const) : ("off" as const),
+          // Remembering facts across sessions needs a signed-in user to key them by
+          memory: !memoryEnabled
+            ? ("off" as const)
+            : rememberAcrossSessions && user
+            ? ("long" as const)
+            : ("short" as const),
         },
       });
 
@@ -137,6 +165,14 @@ export default function VoicePage() {
     }
   }, [connectionStatus]);
 
+  const handleSendText = (event: FormEvent) => {
+    event.preventDefault();
+    if (!messageText.trim()) return;
+
+    sendText(messageText);
+    setMessageText("");
+  };
+
   const handleTestEchoTool = async () => {
     if (connectionStatus !== "connected") return;
 
@@ -213,6 +249,7 @@ export default function VoicePage() {
       case "connected":
         return "default";
       case "connecting":
+      case "reconnecting":
         return "secondary";
       case "error":
         return "destructive";
@@ -227,6 +264,8 @@ export default function VoicePage() {
         return "Connected";
       case "connecting":
         return "Connecting...";
+      case "reconnecting":
+        return "Reconnecting...";
       case "error":
         return "Error";
       default:
@@ -236,12 +275,18 @@ export default function VoicePage() {
 
   const timingStats = getTimingStats();
 
+  const handleRememberToggle = (checked: boolean) => {
+    setRememberAcrossSessions(checked);
+    localStorage.setItem("voice-memory-long", checked ? "true" : "false");
+  };
+
   // Load memory preference from localStorage
   useEffect(() => {
     const savedConsent = localStorage.getItem("voice-consent");
     if (savedConsent === "ACCEPTED") {
       setMemoryEnabled(true);
     }
+    setRememberAcrossSessions(localStorage.getItem("voice-memory-long") === "true");
   }, []);
 
   // Auto-scroll to bottom when new transcripts arrive
@@ -331,6 +376,17 @@ export default function VoicePage() {
                       <TestTube className="h-4 w-4" />
                       {isTestingTool ? "Testing..." : "Test Echo Tool"}
                     </Button>
+                    {pushToTalk && (
+                      <Button
+                        onPointerDown={clearInput}
+                        onPointerUp={commitInput}
+                        variant="secondary"
+                        className="flex items-center gap-2 select-none"
+                      >
+                        <Mic className="h-4 w-4" />
+                        Hold to Talk
+                      </Button>
+                    )}
                   </div>
                 )}
               </div>
@@ -403,6 +459,9 @@ export default function VoicePage() {
                             }`}
                           >
                             {transcript.text}
+                            {transcript.interrupted && (
+                              <span className="ml-2 text-xs font-normal text-muted-foreground">(interrupted)</span>
+                            )}
                           </p>
                           {transcript.usageData && transcript.type === "final" && (
                             <div className="mt-2 text-xs text-muted-foreground flex gap-4 flex-wrap">
@@ -425,10 +484,24 @@ export default function VoicePage() {
                     </div>
                   ) : (
                     <p className="text-muted-foreground text-sm">
-                      No conversation yet. Connect to start the voice chat.
+                      {textOnly
+                        ? "Text-only session. Type a message to start the chat."
+                        : "No conversation yet. Connect to start the voice chat."}
                     </p>
                   )}
                 </div>
+                <form onSubmit={handleSendText} className="mt-3 flex gap-2">
+                  <Input
+                    value={messageText}
+                    onChange={(event) => setMessageText(event.target.value)}
+                    placeholder="Type a message..."
+                    aria-label="Message"
+                  />
+                  <Button type="submit" disabled={!messageText.trim()} className="flex items-center gap-2">
+                    <Send className="h-4 w-4" />
+                    Send
+                  </Button>
+                </form>
               </CardContent>
             </Card>
           )}
@@ -514,9 +587,30 @@ export default function VoicePage() {
                   )}
                 </Button>
               </div>
+              {memoryEnabled && user && (
+                <div className="flex items-start gap-3 mt-4">
+                  <Checkbox
+                    id="remember-across-sessions"
+                    checked={rememberAcrossSessions}
+                    onCheckedChange={(checked) => handleRememberToggle(checked === true)}
+                    disabled={connectionStatus !== "disconnected" && connectionStatus !== "error"}
+                  />
+                  <div className="space-y-1">
+                    <label htmlFor="remember-across-sessions" className="font-medium text-sm">
+                      Remember me across sessions
+                    </label>
+                    <p className="text-sm text-muted-foreground">
+                      The assistant can remember facts you share and recall them next time. Takes effect on the next
+                      connection.
+                    </p>
+                  </div>
+                </div>
+              )}
             </CardContent>
           </Card>
 
+          {user && <RememberedFacts refreshKey={connectionStatus} />}
+
           <Separator />
 
           <div className="text-center text-sm text-muted-foreground">
@@ -0,0 +1,99 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import type { MemoryFact } from "@thrivereflections/realtime-contracts";
+import { Brain, RefreshCw, Trash2 } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+
+interface RememberedFactsProps {
+  /** Reload when this changes, e.g. after a session ends */
+  refreshKey?: unknown;
+  className?: string;
+}
+
+/**
+ * What the assistant remembers about the signed-in user across sessions
+ * ("long" memory), with a way to forget each fact
+ */
+export function RememberedFacts({ refreshKey, className }: RememberedFactsProps) {
+  const [facts, setFacts] = useState<MemoryFact[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadFacts = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/memory/facts");
+      if (!response.ok) {
+        throw new Error(`Failed to load remembered facts: ${response.status}`);
+      }
+      setFacts((await response.json()).facts ?? []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load remembered facts");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const forgetFact = async (id: string) => {
+    setError(null);
+    try {
+      const response = await fetch(`/api/memory/facts?id=${encodeURIComponent(id)}`, { method: "DELETE" });
+      if (!response.ok && response.status !== 404) {
+        throw new Error(`Failed to forget fact: ${response.status}`);
+      }
+      setFacts((prev) => prev.filter((fact) => fact.id !== id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to forget fact");
+    }
+  };
+
+  useEffect(() => {
+    loadFacts();
+  }, [loadFacts, refreshKey]);
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Brain className="h-5 w-5" />
+              Remembered Facts
+            </CardTitle>
+            <CardDescription>What the assistant remembers about you between conversations</CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={loadFacts} disabled={isLoading}>
+            <RefreshCw className={`h-4 w-4 ${isLoading ? "animate-spin" : ""}`} />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {error && <p className="text-sm text-red-600 mb-2">{error}</p>}
+        {facts.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Nothing remembered yet. Ask the assistant to remember something about you.
+          </p>
+        ) : (
+          <ul className="space-y-2">
+            {facts.map((fact) => (
+              <li key={fact.id} className="flex items-start justify-between gap-2 text-sm">
+                <span>{fact.text}</span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => forgetFact(fact.id)}
+                  aria-label={`Forget "${fact.text}"`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
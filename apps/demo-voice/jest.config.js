@@ -0,0 +1,14 @@
+module.exports = {
+  preset: "ts-jest",
+  testEnvironment: "node",
+  roots: ["<rootDir>/app", "<rootDir>/lib"],
+  testMatch: ["**/__tests__/**/*.test.ts"],
+  // Workspace packages build to ES modules; test against their sources instead
+  moduleNameMapper: {
+    "^@thrivereflections/realtime-([a-z-]+)$": "<rootDir>/../../packages/$1/src",
+    "^@/(.*)$": "<rootDir>/$1",
+  },
+  transform: {
+    "^.+\\.ts$": "ts-jest",
+  },
+};
@@ -1,13 +1,25 @@
 import { useState, useCallback, useRef, useEffect } from "react";
-import { AgentConfig } from "@thrivereflections/realtime-contracts";
+import {
+  AgentConfig,
+  ConversationItemState,
+  RealtimeSessionInfo,
+  RealtimeSessionSettings,
+} from "@thrivereflections/realtime-contracts";
 import { ConsoleLogger } from "@thrivereflections/realtime-observability";
+import { AudioRecorder } from "@thrivereflections/realtime-recording";
+import { metricsCollector } from "@thrivereflections/realtime-sre";
 import { demoStore } from "@/lib/store";
 import {
   initRealtime,
+  Conversation,
   RealtimeEventRouter,
+  ToolCallOrchestrator,
+  createHttpToolGatewayClient,
+  EventRecorder,
+  EventRouterCallbacks,
   Transcript as EventTranscript,
+  TransportFactory,
   UsageInfo,
-  RealtimeEvent,
 } from "@thrivereflections/realtime-core";
 import {
   calculateUsageCostForDemo as calculateUsageCost,
@@ -17,7 +29,7 @@ import {
   type UsageData,
 } from "@/lib/utils/costCalculation";
 
-export type ConnectionStatus = "disconnected" | "connecting" | "connected" | "error";
+export type ConnectionStatus = "disconnected" | "connecting" | "connected" | "reconnecting" | "error";
 
 export interface LatencyMark {
   mark: string;
@@ -38,6 +50,7 @@ export interface Transcript {
   text: string;
   type: "partial" | "final";
   timestamp: number;
+  interrupted?: boolean;
   usageData?: {
     tokensInput?: number;
     tokensOutput?: number;
@@ -47,6 +60,43 @@ export interface Transcript {
 
 // UsageData interface is now imported from costCalculation utility
 
+/**
+ * Caption lines for the conversation's messages, in conversation order. Items
+ * still streaming or awaiting transcription are partial.
+ */
+function conversationTranscripts(items: ConversationItemState[]): Transcript[] {
+  return items
+    .filter(
+      (item): item is ConversationItemState & { role: "user" | "assistant" } =>
+        item.type === "message" && (item.role === "user" || item.role === "assistant") && item.text.trim() !== ""
+    )
+    .map((item) => {
+      const type =
+        item.status === "in_progress" || item.transcriptionStatus === "pending"
+          ? ("partial" as const)
+          : ("final" as const);
+      const estimatedTokens = Math.ceil(item.text.length / 4);
+
+      return {
+        id: item.id,
+        role: item.role,
+        text: item.text.trim(),
+        type,
+        timestamp: item.createdAt,
+        interrupted: item.status === "truncated" || undefined,
+        usageData:
+          type === "final"
+            ? {
+                tokensInput: item.role === "user" ? estimatedTokens : undefined,
+                tokensOutput: item.role === "assistant" ? estimatedTokens : undefined,
+                estimatedCost: calculateTranscriptCost(item.text, item.role, type),
+              }
+            : undefined,
+      };
+    })
+    .slice(-100);
+}
+
 export interface UseRealtimeVoiceReturn {
   connectionStatus: ConnectionStatus;
   isRecording: boolean;
@@ -61,10 +111,30 @@ export interface UseRealtimeVoiceReturn {
     user?: { sub: string; email?: string; name?: string; provider?: string }
   ) => Promise<void>;
   disconnect: () => void;
+  /** Change instructions, voice, tools, turn detection or temperature mid-session */
+  updateSession: (settings: RealtimeSessionSettings) => Promise<RealtimeSessionInfo>;
+  /** True when turn detection is "manual": the user ends each turn with commitInput */
+  pushToTalk: boolean;
+  /** Commit buffered input audio and request a response */
+  commitInput: () => void;
+  /** Discard input audio buffered since the last commit */
+  clearInput: () => void;
+  /** True when the session runs without microphone or speaker */
+  textOnly: boolean;
+  /** Send a typed message and request a response */
+  sendText: (text: string) => void;
   getTimingStats: () => { ttfa?: number; totalResponseTime?: number };
 }
 
-export function useRealtimeVoice(): UseRealtimeVoiceReturn {
+export interface UseRealtimeVoiceOptions {
+  /** Record the session's transport events, e.g. to attach to a bug report */
+  recorder?: EventRecorder;
+  /** Replace the transport, e.g. with `createReplayTransport` to run the hook against a fixture */
+  transportFactory?: TransportFactory;
+}
+
+export function useRealtimeVoice(options: UseRealtimeVoiceOptions = {}): UseRealtimeVoiceReturn {
+  const { recorder, transportFactory } = options;
   const [connectionStatus, setConnectionStatus] = useState<ConnectionStatus>("disconnected");
   const [isRecording, setIsRecording] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -72,6 +142,8 @@ export function useRealtimeVoice(): UseRealtimeVoiceReturn {
   const [transcripts, setTranscripts] = useState<Transcript[]>([]);
   const [sessionId, setSessionId] = useState<string | null>(null);
   const [usageData, setUsageData] = useState<UsageData | null>(null);
+  const [pushToTalk, setPushToTalk] = useState(false);
+  const [textOnly, setTextOnly] = useState(false);
   const [retrievalMetrics, setRetrievalMetrics] = useState<RetrievalMetrics>({
     totalRetrievals: 0,
     averageRetrievalTime: 0,
@@ -85,9 +157,11 @@ export function useRealtimeVoice(): UseRealtimeVoiceReturn {
   // Refs for platform integration
   const realtimeRef = useRef<any>(null);
   const eventRouterRef = useRef<RealtimeEventRouter | null>(null);
+  const toolOrchestratorRef = useRef<ToolCallOrchestrator | null>(null);
   const loggerRef = useRef<ConsoleLogger | null>(null);
   const clientSessionIdRef = useRef<string | null>(null);
   const openaiSessionIdRef = useRef<string | null>(null);
+  const audioRecorderRef = useRef<AudioRecorder | null>(null);
 
   // Cost calculation is now handled by the shared utility
 
@@ -129,6 +203,22 @@ export function useRealtimeVoice(): UseRealtimeVoiceReturn {
     }
   }, []);
 
+  const saveConversationToStore = useCallback(async (conversation: Conversation, config: AgentConfig) => {
+    const sessionId = openaiSessionIdRef.current;
+    if (!sessionId || !config.featureFlags.memory || config.featureFlags.memory === "off") {
+      return;
+    }
+
+    try {
+      await demoStore.saveConversation?.(sessionId, conversation.snapshot());
+    } catch (error) {
+      loggerRef.current?.warn("Failed to save conversation to store", {
+        error: error instanceof Error ? error.message : "Unknown error",
+        sessionId,
+      });
+    }
+  }, []);
+
   const saveToolEventToStore = useCallback(
     async (
       toolEvent: {
@@ -165,32 +255,6 @@ export function useRealtimeVoice(): UseRealtimeVoiceReturn {
     []
   );
 
-  const playAudioResponse = useCallback(
-    async (audioData: Int16Array) => {
-      try {
-        const audioContext = new AudioContext({ sampleRate: 24000 });
-        const float32Array = new Float32Array(audioData.length);
-        for (let i = 0; i < audioData.length; i++) {
-          float32Array[i] = audioData[i] / 32768.0;
-        }
-
-        const audioBuffer = audioContext.createBuffer(1, float32Array.length, 24000);
-        audioBuffer.copyToChannel(float32Array, 0);
-
-        const source = audioContext.createBufferSource();
-        source.buffer = audioBuffer;
-        source.connect(audioContext.destination);
-        source.start();
-
-        addLatencyMark("firstAudio", Date.now());
-        loggerRef.current?.info("Playing audio response");
-      } catch (err) {
-        loggerRef.current?.error("Failed to play audio", { error: err });
-      }
-    },
-    [addLatencyMark]
-  );
-
   const connect = useCallback(
     async (config: AgentConfig, user?: { sub: string; email?: string; name?: string; provider?: string }) => {
       try {
@@ -217,8 +281,13 @@ export function useRealtimeVoice(): UseRealtimeVoiceReturn {
         const runtimeConfig = await configResponse.json();
         modelRef.current = runtimeConfig.model;
 
+        // Record the call for QA when enabled and consented; the server checks consent again before storing it
+        const consented = localStorage.getItem("voice-consent") === "ACCEPTED";
+        audioRecorderRef.current =
+          runtimeConfig.featureFlags?.recording && consented ? new AudioRecorder({ logger: loggerRef.current }) : null;
+
         // Create event router for handling realtime events
-        const eventRouter = new RealtimeEventRouter({
+        const routerCallbacks: EventRouterCallbacks = {
           onSessionCreated: async (sessionId, _session) => {
             console.log("🎉 Session created:", sessionId);
             openaiSessionIdRef.current = sessionId;
@@ -259,160 +328,16 @@ export function useRealtimeVoice(): UseRealtimeVoiceReturn {
             console.log("📊 Usage tracking started for session:", sessionId);
           },
 
+          // Captions come from the conversation; final transcripts are also appended to the store
           onTranscript: async (transcript: EventTranscript) => {
             console.log("📝 Transcript received:", transcript);
-            const estimatedTokens = Math.ceil(transcript.text.length / 4);
-            const messageCost = calculateTranscriptCost(transcript.text, transcript.role, transcript.type);
-
-            const newTranscript: Transcript = {
-              id: transcript.id,
-              role: transcript.role,
-              text: transcript.text,
-              type: transcript.type,
-              timestamp: transcript.timestamp,
-              usageData:
-                transcript.type === "final"
-                  ? {
-                      tokensInput: transcript.role === "user" ? estimatedTokens : undefined,
-                      tokensOutput: transcript.role === "assistant" ? estimatedTokens : undefined,
-                      estimatedCost: messageCost,
-                    }
-                  : undefined,
-            };
-
-            setTranscripts((prev) => {
-              const updated = [...prev, newTranscript];
-              return updated.slice(-100);
-            });
-
-            saveTranscriptToStore(newTranscript, config);
+            saveTranscriptToStore(transcript, config);
           },
 
           onPartialTranscript: (text: string) => {
             console.log("📝 Partial transcript:", text);
           },
 
-          onAudioResponse: (audioData: Int16Array) => {
-            console.log("🎵 Audio response received");
-            playAudioResponse(audioData);
-          },
-
-          onToolCall: async (toolCall) => {
-            console.log("🔧 Tool call received:", toolCall);
-            try {
-              addLatencyMark("toolCallStart", Date.now());
-              loggerRef.current?.setToolCallId(toolCall.id);
-
-              loggerRef.current?.info("Function call received", {
-                toolName: toolCall.name,
-                toolId: toolCall.id,
-                clientSessionId: clientSessionIdRef.current,
-                openaiSessionId: openaiSessionIdRef.current,
-              });
-
-              // Call the tool gateway
-              const toolCallResponse = await fetch("/api/tools/gateway", {
-                method: "POST",
-                headers: {
-                  "Content-Type": "application/json",
-                  "x-correlation-id": correlationId,
-                  "x-client-session-id": clientSessionIdRef.current || "",
-                },
-                body: JSON.stringify({
-                  id: toolCall.id,
-                  name: toolCall.name,
-                  args: toolCall.arguments,
-                  user: { sub: "anonymous" },
-                }),
-              });
-
-              if (!toolCallResponse.ok) {
-                throw new Error(`Tool gateway error: ${toolCallResponse.status}`);
-              }
-
-              const toolResult = await toolCallResponse.json();
-              addLatencyMark("toolCallEnd", Date.now());
-
-              // Track tool call usage
-              updateUsageData({
-                toolCalls: 1,
-              });
-              console.log(`📊 Tracked tool call: ${toolCall.name}`);
-
-              // Track retrieval metrics
-              if (toolCall.name === "retrieve_docs" && toolResult.ok) {
-                const retrievalStartTime = Date.now() - 1000;
-                const retrievalDuration = Date.now() - retrievalStartTime;
-
-                updateUsageData({
-                  retrievals: 1,
-                });
-                console.log(`📊 Tracked retrieval: ${toolResult.result?.chunks?.length || 0} results`);
-
-                setRetrievalMetrics((prev) => {
-                  const newTotal = prev.totalRetrievals + 1;
-                  const newAverage = (prev.averageRetrievalTime * prev.totalRetrievals + retrievalDuration) / newTotal;
-
-                  return {
-                    totalRetrievals: newTotal,
-                    averageRetrievalTime: newAverage,
-                    lastRetrievalQuery: toolCall.arguments?.query as string,
-                    lastRetrievalResults: toolResult.result?.chunks?.length || 0,
-                  };
-                });
-              }
-
-              // Save tool event to store
-              const toolEvent = {
-                id: toolCall.id,
-                name: toolCall.name,
-                args: toolCall.arguments,
-                result: toolResult.ok ? toolResult.result : undefined,
-                error: toolResult.ok ? undefined : toolResult.error,
-                timestamp: Date.now(),
-                duration: Date.now() - (Date.now() - 1000),
-              };
-              saveToolEventToStore(toolEvent, config);
-
-              loggerRef.current?.info("Tool call completed", {
-                toolName: toolCall.name,
-                toolId: toolCall.id,
-                success: toolResult.ok,
-              });
-
-              // Send tool response back to OpenAI via transport
-              if (realtimeRef.current?.transport) {
-                realtimeRef.current.transport.send({
-                  type: "conversation.item.create",
-                  item: {
-                    type: "function_call_output",
-                    call_id: toolCall.id,
-                    output: toolResult,
-                  },
-                });
-              }
-            } catch (error) {
-              const errorMessage = error instanceof Error ? error.message : "Unknown error";
-              loggerRef.current?.error("Function call failed", {
-                toolName: toolCall.name,
-                toolId: toolCall.id,
-                error: errorMessage,
-              });
-
-              // Send error response back to OpenAI
-              if (realtimeRef.current?.transport) {
-                realtimeRef.current.transport.send({
-                  type: "conversation.item.create",
-                  item: {
-                    type: "function_call_output",
-                    call_id: toolCall.id,
-                    output: { error: errorMessage },
-                  },
-                });
-              }
-            }
-          },
-
           onSpeechStarted: () => {
             console.log("🎤 Speech started");
             setIsRecording(true);
@@ -428,6 +353,9 @@ export function useRealtimeVoice(): UseRealtimeVoiceReturn {
           onResponseCompleted: () => {
             console.log("✅ Response completed");
             addLatencyMark("responseCompleted", Date.now());
+            if (eventRouterRef.current) {
+              saveConversationToStore(eventRouterRef.current.conversation, config);
+            }
           },
 
           onUsageUpdate: (usage: UsageInfo) => {
@@ -489,9 +417,14 @@ export function useRealtimeVoice(): UseRealtimeVoiceReturn {
           onLatencyMark: (mark, timestamp) => {
             addLatencyMark(mark, timestamp);
           },
-        });
+        };
+
+        const eventRouter = new RealtimeEventRouter(routerCallbacks, { logger: loggerRef.current });
 
         eventRouterRef.current = eventRouter;
+        eventRouter.conversation.subscribe(() => {
+          setTranscripts(conversationTranscripts(eventRouter.conversation.getItems()));
+        });
 
         // Create token getter function
         const getToken = async () => {
@@ -501,6 +434,8 @@ export function useRealtimeVoice(): UseRealtimeVoiceReturn {
               "Content-Type": "application/json",
               "x-client-session-id": clientSessionId,
             },
+            // "long" memory preloads the user's remembered facts into the session
+            body: JSON.stringify({ memory: config.featureFlags.memory ?? "off" }),
           });
 
           if (!response.ok) {
@@ -514,14 +449,149 @@ export function useRealtimeVoice(): UseRealtimeVoiceReturn {
         // Initialize realtime connection using platform's initRealtime
         const realtime = initRealtime(runtimeConfig, {
           getToken,
-          onEvent: (event) => eventRouter.routeEvent(event as RealtimeEvent),
+          transportFactory,
+          recorder,
+          agentConfig: config,
+          onAgentConfigChange: (updatedConfig) => {
+            const sessionId = openaiSessionIdRef.current;
+            if (!sessionId) return;
+            demoStore.updateSessionConfig?.(sessionId, updatedConfig).catch((error) => {
+              loggerRef.current?.warn("Failed to save session config change", {
+                error: error instanceof Error ? error.message : "Unknown error",
+                sessionId,
+              });
+            });
+          },
+          logging: { logger: loggerRef.current },
+          onAudio: audioRecorderRef.current?.append,
+          onEvent: (event) => eventRouter.routeEvent(event),
+          onLatencyMark: (mark, timestamp) => addLatencyMark(mark, timestamp),
+          onTransportFallback: (event) => {
+            loggerRef.current?.warn("WebRTC unavailable, using WebSocket transport", { ...event });
+          },
+          metrics: metricsCollector,
+          onIceStats: (stats) => {
+            metricsCollector.recordIceCandidatePair(openaiSessionIdRef.current || clientSessionId, stats);
+          },
+          onTextOnlyFallback: (reason) => {
+            loggerRef.current?.warn("Microphone unavailable, continuing with text only", { reason });
+          },
+          onTokenRefreshed: (event) => {
+            loggerRef.current?.info("Realtime session refreshed ahead of token expiry", { ...event });
+          },
+          bargeIn: {
+            onInterrupted: (event) => {
+              addLatencyMark("bargeIn", Date.now());
+              // Assistant audio received but cut off never played, so keep it out of the recording
+              audioRecorderRef.current?.interrupt();
+              loggerRef.current?.info("User interrupted assistant", { ...event });
+            },
+          },
+          onConnectionState: (event) => {
+            switch (event.state) {
+              case "reconnecting":
+                setConnectionStatus("reconnecting");
+                addLatencyMark(`reconnectAttempt${event.attempt}`, Date.now());
+                break;
+              case "resumed":
+                setConnectionStatus("connected");
+                addLatencyMark("resumed", Date.now());
+                break;
+              case "gave_up":
+                setError(event.error ?? "Connection lost");
+                setConnectionStatus("error");
+                break;
+            }
+          },
           logger: loggerRef.current,
         });
 
         realtimeRef.current = realtime;
+        setPushToTalk(realtime.turnDetection?.type === "manual");
+
+        // Execute model tool calls through the gateway and post results back
+        const toolOrchestrator = new ToolCallOrchestrator(
+          {
+            transport: realtime.transport,
+            gateway: createHttpToolGatewayClient({
+              headers: () => ({
+                "x-correlation-id": correlationId,
+                "x-client-session-id": clientSessionIdRef.current || "",
+              }),
+            }),
+            user: { sub: "anonymous" },
+            logger: loggerRef.current,
+          },
+          {
+            onToolCallStarted: (toolCall) => {
+              addLatencyMark("toolCallStart", Date.now());
+              loggerRef.current?.setToolCallId(toolCall.id);
+              updateUsageData({
+                toolCalls: 1,
+              });
+            },
+
+            onToolCallCompleted: (toolCall, toolResult, durationMs) => {
+              addLatencyMark("toolCallEnd", Date.now());
+
+              // Track retrieval metrics
+              if (toolCall.name === "retrieve_docs") {
+                const chunks = (toolResult.result as { chunks?: unknown[] } | undefined)?.chunks;
+
+                updateUsageData({
+                  retrievals: 1,
+                });
+
+                setRetrievalMetrics((prev) => {
+                  const newTotal = prev.totalRetrievals + 1;
+                  const newAverage = (prev.averageRetrievalTime * prev.totalRetrievals + durationMs) / newTotal;
+
+                  return {
+                    totalRetrievals: newTotal,
+                    averageRetrievalTime: newAverage,
+                    lastRetrievalQuery: toolCall.arguments?.query as string,
+                    lastRetrievalResults: chunks?.length || 0,
+                  };
+                });
+              }
+
+              saveToolEventToStore(
+                {
+                  id: toolCall.id,
+                  name: toolCall.name,
+                  args: toolCall.arguments,
+                  result: toolResult.result,
+                  timestamp: Date.now(),
+                  duration: durationMs,
+                },
+                config
+              );
+            },
+
+            onToolCallFailed: (toolCall, toolError, durationMs) => {
+              addLatencyMark("toolCallEnd", Date.now());
+
+              saveToolEventToStore(
+                {
+                  id: toolCall.id,
+                  name: toolCall.name,
+                  args: toolCall.arguments,
+                  error: `${toolError.code}: ${toolError.message}`,
+                  timestamp: Date.now(),
+                  duration: durationMs,
+                },
+                config
+              );
+            },
+          }
+        );
+
+        toolOrchestrator.attach(eventRouter);
+        toolOrchestratorRef.current = toolOrchestrator;
 
         // Start the connection
         await realtime.start();
+        setTextOnly(realtime.textOnly);
 
         setConnectionStatus("connected");
         addLatencyMark("connected", Date.now());
@@ -539,7 +609,15 @@ export function useRealtimeVoice(): UseRealtimeVoiceReturn {
         });
       }
     },
-    [addLatencyMark, playAudioResponse, saveTranscriptToStore, saveToolEventToStore, updateUsageData]
+    [
+      addLatencyMark,
+      recorder,
+      saveConversationToStore,
+      saveTranscriptToStore,
+      saveToolEventToStore,
+      transportFactory,
+      updateUsageData,
+    ]
   );
 
   const disconnect = useCallback(async () => {
@@ -556,6 +634,12 @@ export function useRealtimeVoice(): UseRealtimeVoiceReturn {
         console.log("📊 Final audio duration tracked:", finalDuration, "ms");
       }
 
+      // Abort in-flight tool calls
+      if (toolOrchestratorRef.current) {
+        toolOrchestratorRef.current.dispose();
+        toolOrchestratorRef.current = null;
+      }
+
       // Clean up realtime connection
       if (realtimeRef.current) {
         console.log("🔌 Closing realtime connection...");
@@ -563,6 +647,42 @@ export function useRealtimeVoice(): UseRealtimeVoiceReturn {
         realtimeRef.current = null;
       }
 
+      // Upload the call recording, if one was made; the server stores it only for consented sessions
+      const endedSessionId = openaiSessionIdRef.current;
+      const recordingFiles = audioRecorderRef.current?.finish() ?? [];
+      audioRecorderRef.current = null;
+      if (endedSessionId && recordingFiles.length > 0) {
+        const form = new FormData();
+        form.append("sessionId", endedSessionId);
+        recordingFiles.forEach((file) =>
+          form.append(
+            file.track,
+            new Blob([new Uint8Array(file.data)], { type: file.contentType }),
+            `${file.track}.wav`
+          )
+        );
+        fetch("/api/internal/session-recording", { method: "POST", body: form }).catch((error) => {
+          loggerRef.current?.warn("Failed to upload session recording", {
+            error: error instanceof Error ? error.message : "Unknown error",
+            sessionId: endedSessionId,
+          });
+        });
+      }
+
+      // Summarize the finished session from what was stored; the server checks consent
+      if (endedSessionId) {
+        fetch("/api/internal/session-ended", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ sessionId: endedSessionId }),
+        }).catch((error) => {
+          loggerRef.current?.warn("Failed to report session end", {
+            error: error instanceof Error ? error.message : "Unknown error",
+            sessionId: endedSessionId,
+          });
+        });
+      }
+
       // Reset event router
       if (eventRouterRef.current) {
         console.log("🔄 Resetting event router...");
@@ -572,6 +692,8 @@ export function useRealtimeVoice(): UseRealtimeVoiceReturn {
 
       setConnectionStatus("disconnected");
       setIsRecording(false);
+      setPushToTalk(false);
+      setTextOnly(false);
       setError(null);
       loggerRef.current?.info("Disconnected");
 
@@ -589,6 +711,40 @@ export function useRealtimeVoice(): UseRealtimeVoiceReturn {
     }
   }, [updateUsageData]);
 
+  const updateSession = useCallback(
+    async (settings: RealtimeSessionSettings) => {
+      if (!realtimeRef.current) {
+        throw new Error("Not connected");
+      }
+
+      const session = await realtimeRef.current.updateSession(settings);
+      addLatencyMark("sessionUpdated", Date.now());
+      return session;
+    },
+    [addLatencyMark]
+  );
+
+  const commitInput = useCallback(() => {
+    realtimeRef.current?.commitInput();
+    addLatencyMark("inputCommitted", Date.now());
+  }, [addLatencyMark]);
+
+  const clearInput = useCallback(() => {
+    realtimeRef.current?.clearInput();
+  }, []);
+
+  const sendText = useCallback(
+    (text: string) => {
+      if (!realtimeRef.current) {
+        throw new Error("Not connected");
+      }
+
+      realtimeRef.current.sendText(text);
+      addLatencyMark("textSent", Date.now());
+    },
+    [addLatencyMark]
+  );
+
   const getTimingStats = useCallback(() => {
     const connectRequested = latencyMarks.find((m) => m.mark === "connectRequested");
     const firstAudio = latencyMarks.find((m) => m.mark === "firstAudio");
@@ -638,6 +794,12 @@ export function useRealtimeVoice(): UseRealtimeVoiceReturn {
     usageData,
     connect,
     disconnect,
+    updateSession,
+    pushToTalk,
+    commitInput,
+    clearInput,
+    textOnly,
+    sendText,
     getTimingStats,
   };
 }
@@ -24,18 +24,15 @@ export {
 } from "../config/agentConfig";
 
 export {
-  initializeToolRegistry,
-  executeToolCall,
+  toolRegistry,
   getAllToolDefinitions,
+  getGatewayAllowList,
   addCustomTool,
   removeTool,
   listAvailableTools,
   getToolStats,
 } from "../tools/registry";
 
-export {
-  handleWeatherToolCall,
-  weatherToolDefinition,
-  handleCalendarToolCall,
-  calendarToolDefinition,
-} from "../tools/weatherTool";
+export { weatherToolDefinition, calendarToolDefinition } from "../tools/weatherTool";
+
+export { rememberFactToolDefinition, MEMORY_WRITE_SCOPE } from "../tools/memoryTool";
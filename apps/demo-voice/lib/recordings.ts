@@ -0,0 +1,12 @@
+import { RecordingUploader } from "@thrivereflections/realtime-recording";
+import { createFileRecordingStorage } from "@thrivereflections/realtime-recording/node";
+import { loadRecordingConfig } from "@thrivereflections/realtime-config";
+import { demoStore } from "./store";
+
+// Recordings are written to a local directory; swap in another RecordingStorage (e.g. S3) for deployments
+const recordingConfig = loadRecordingConfig();
+
+export const recordingUploader = new RecordingUploader(
+  { store: demoStore, storage: createFileRecordingStorage(recordingConfig.directory) },
+  { maxBytes: recordingConfig.maxBytes }
+);
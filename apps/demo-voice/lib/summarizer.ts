@@ -0,0 +1,16 @@
+import {
+  SessionSummarizer,
+  createExtractiveSummaryModel,
+  createOpenAISummaryModel,
+} from "@thrivereflections/realtime-summarizer";
+import { loadRuntimeConfig } from "@thrivereflections/realtime-config";
+import { demoStore } from "./store";
+
+// Summaries come from OpenAI when a key is configured, otherwise from the local extractive model
+const runtimeConfig = loadRuntimeConfig();
+const model = runtimeConfig.openaiKey
+  ? createOpenAISummaryModel({ apiKey: runtimeConfig.openaiKey, baseUrl: runtimeConfig.baseUrl })
+  : createExtractiveSummaryModel();
+
+// Shared so a session end reported twice is only summarized once
+export const sessionSummarizer = new SessionSummarizer({ store: demoStore, model });
@@ -0,0 +1,44 @@
+import { REMEMBER_FACT_TOOL } from "@thrivereflections/realtime-config";
+import type { ToolDefinition } from "@thrivereflections/realtime-tool-gateway";
+import { demoStore } from "@/lib/store";
+
+/**
+ * "Long" memory: the model calls `remember_fact` (see REMEMBER_FACT_TOOL in
+ * realtime-config) and the fact is stored for the signed-in user. Facts are
+ * added to the instructions of the user's next sessions.
+ */
+
+export interface RememberFactArgs {
+  fact: string;
+}
+
+/** Granted to signed-in callers by the tool gateway route */
+export const MEMORY_WRITE_SCOPE = "memory:write";
+
+export const rememberFactToolDefinition: ToolDefinition = {
+  name: REMEMBER_FACT_TOOL.name,
+  description: REMEMBER_FACT_TOOL.description,
+  parameters: REMEMBER_FACT_TOOL.parameters,
+  version: "1.0.0",
+  scopes: [MEMORY_WRITE_SCOPE],
+  handler: async (args, context) => {
+    const fact = (args as unknown as RememberFactArgs).fact.trim();
+
+    if (!context.userId) {
+      throw new Error("Facts can only be remembered for signed-in users");
+    }
+    if (!fact) {
+      throw new Error("fact is required");
+    }
+    if (!demoStore.saveMemoryFact) {
+      throw new Error("The store does not support remembering facts");
+    }
+
+    const saved = await demoStore.saveMemoryFact(
+      { appUserId: context.userId, authUserId: context.userId },
+      fact,
+      context.sessionId
+    );
+    return { remembered: saved.text };
+  },
+};
@@ -1,182 +1,70 @@
-import { ToolCall, ToolCallResponse } from "@thrivereflections/realtime-contracts";
-import { echoTool, retrieveTool, type Tool } from "@thrivereflections/realtime-tool-gateway";
-import { handleWeatherToolCall, weatherToolDefinition } from "./weatherTool";
-import { handleCalendarToolCall, calendarToolDefinition } from "./weatherTool";
+import type { AgentConfig } from "@thrivereflections/realtime-contracts";
+import { toolRegistry, TOOL_NAMESPACE_SEPARATOR, type ToolDefinition } from "@thrivereflections/realtime-tool-gateway";
+import { rememberFactToolDefinition } from "./memoryTool";
+import { calendarToolDefinition, weatherToolDefinition } from "./weatherTool";
 
 /**
  * Example: Tool Registry Pattern
  *
  * This demonstrates how to register and manage custom tools in a scalable way.
- * The registry pattern allows for easy addition of new tools and centralized management.
+ * Tools are added once, at module load, to the shared registry from the tool
+ * gateway package, which already holds the platform tools (`echo` and
+ * `retrieve_docs`). The same registry generates the definitions sent to the
+ * model and backs the tool gateway route.
  */
 
-export interface ToolHandler {
-  name: string;
-  description: string;
-  parameters: Record<string, unknown>;
-  handler: (toolCall: ToolCall) => Promise<ToolCallResponse>;
-}
-
-/**
- * Registry of all available tools
- */
-export const toolRegistry = new Map<string, ToolHandler>();
-
-/**
- * Register a tool with the registry
- */
-export function registerTool(tool: ToolHandler): void {
-  toolRegistry.set(tool.name, tool);
-}
-
-/**
- * Get a tool handler by name
- */
-export function getToolHandler(name: string): ToolHandler | undefined {
-  return toolRegistry.get(name);
-}
+toolRegistry.register(weatherToolDefinition);
+toolRegistry.register(calendarToolDefinition);
+toolRegistry.register(rememberFactToolDefinition);
 
-/**
- * Get all registered tool definitions for OpenAI
- */
-export function getAllToolDefinitions() {
-  return Array.from(toolRegistry.values()).map((tool) => ({
-    type: "function" as const,
-    name: tool.name,
-    description: tool.description,
-    parameters: tool.parameters,
-  }));
-}
+export { toolRegistry };
 
 /**
- * Execute a tool call using the registry
+ * The tools the gateway route may run for an agent: its allowed tools, the
+ * tools this app registers above, and every namespaced tool (`server__tool`)
+ * registered from an MCP server or an OpenAPI spec
  */
-export async function executeToolCall(toolCall: ToolCall): Promise<ToolCallResponse> {
-  const handler = getToolHandler(toolCall.name);
-
-  if (!handler) {
-    return {
-      id: toolCall.id,
-      ok: false,
-      error: `Tool '${toolCall.name}' not found. Available tools: ${Array.from(toolRegistry.keys()).join(", ")}`,
-    };
-  }
-
-  try {
-    return await handler.handler(toolCall);
-  } catch (error) {
-    return {
-      id: toolCall.id,
-      ok: false,
-      error: `Error executing tool '${toolCall.name}': ${error instanceof Error ? error.message : "Unknown error"}`,
-    };
-  }
+export function getGatewayAllowList(agentConfig: Pick<AgentConfig, "allowedTools">): string[] {
+  const appTools = [weatherToolDefinition, calendarToolDefinition, rememberFactToolDefinition].map((tool) => tool.name);
+  const namespacedTools = toolRegistry.getNames().filter((name) => name.includes(TOOL_NAMESPACE_SEPARATOR));
+  return Array.from(new Set([...agentConfig.allowedTools, ...appTools, ...namespacedTools]));
 }
 
 /**
- * Initialize the tool registry with all available tools
+ * Get the function definitions for the model, for the given tools or all of them
  */
-export function initializeToolRegistry(): void {
-  // Register platform tools
-  registerTool({
-    name: "echo",
-    description: "Echo back the input message",
-    parameters: {
-      type: "object",
-      properties: {
-        message: {
-          type: "string",
-          description: "The message to echo back",
-        },
-      },
-      required: ["message"],
-    },
-    handler: async (toolCall: ToolCall) => {
-      const result = await echoTool(toolCall.args as unknown as { message: string });
-      return {
-        id: toolCall.id,
-        ok: true,
-        result,
-      };
-    },
-  });
-
-  registerTool({
-    name: "retrieve_docs",
-    description: "Retrieve relevant documentation",
-    parameters: {
-      type: "object",
-      properties: {
-        query: {
-          type: "string",
-          description: "The search query",
-        },
-      },
-      required: ["query"],
-    },
-    handler: async (toolCall: ToolCall) => {
-      const result = await retrieveTool(toolCall.args as unknown as { query: string });
-      return {
-        id: toolCall.id,
-        ok: true,
-        result,
-      };
-    },
-  });
-
-  // Register custom tools
-  registerTool({
-    name: "get_weather",
-    description: weatherToolDefinition.description,
-    parameters: weatherToolDefinition.parameters,
-    handler: handleWeatherToolCall,
-  });
-
-  registerTool({
-    name: "create_calendar_event",
-    description: calendarToolDefinition.description,
-    parameters: calendarToolDefinition.parameters,
-    handler: handleCalendarToolCall,
-  });
+export function getAllToolDefinitions(names?: string[]) {
+  return toolRegistry.toFunctionTools(names);
 }
 
 /**
  * Example: How to add a new tool dynamically
  */
-export function addCustomTool(
-  name: string,
-  description: string,
-  parameters: Record<string, unknown>,
-  handler: (toolCall: ToolCall) => Promise<ToolCallResponse>
-): void {
-  registerTool({
-    name,
-    description,
-    parameters,
-    handler,
-  });
+export function addCustomTool(tool: ToolDefinition): void {
+  toolRegistry.register(tool);
 }
 
 /**
  * Example: How to remove a tool
  */
 export function removeTool(name: string): boolean {
-  return toolRegistry.delete(name);
+  return toolRegistry.unregister(name);
 }
 
 /**
  * Example: How to list all available tools
  */
 export function listAvailableTools(): string[] {
-  return Array.from(toolRegistry.keys());
+  return toolRegistry.getNames();
 }
 
 /**
  * Example: How to get tool statistics
  */
 export function getToolStats(): { totalTools: number; toolNames: string[] } {
+  const toolNames = toolRegistry.getNames();
   return {
-    totalTools: toolRegistry.size,
-    toolNames: Array.from(toolRegistry.keys()),
+    totalTools: toolNames.length,
+    toolNames,
   };
 }
@@ -1,4 +1,4 @@
-import { ToolCall, ToolCallResponse } from "@thrivereflections/realtime-contracts";
+import type { ToolDefinition } from "@thrivereflections/realtime-tool-gateway";
 
 /**
  * Example: Custom Weather Tool
@@ -23,16 +23,12 @@ export interface WeatherData {
 
 /**
  * Weather tool implementation
- * In a real application, this would call an actual weather API
+ * In a real application, this would call an actual weather API.
+ * Arguments are validated against `weatherToolDefinition.parameters` before it runs.
  */
 export async function weatherTool(args: WeatherToolArgs): Promise<WeatherData> {
   const { location, units = "celsius" } = args;
 
-  // Validate input
-  if (!location || location.trim().length === 0) {
-    throw new Error("Location is required");
-  }
-
   // Simulate API call delay
   await new Promise((resolve) => setTimeout(resolve, 500));
 
@@ -52,8 +48,7 @@ export async function weatherTool(args: WeatherToolArgs): Promise<WeatherData> {
 /**
  * Tool definition for registration
  */
-export const weatherToolDefinition = {
-  type: "function" as const,
+export const weatherToolDefinition: ToolDefinition = {
   name: "get_weather",
   description: "Get current weather information for a location",
   parameters: {
@@ -61,6 +56,7 @@ export const weatherToolDefinition = {
     properties: {
       location: {
         type: "string",
+        minLength: 1,
         description: "The city or location to get weather for (e.g., 'New York', 'London, UK')",
       },
       units: {
@@ -71,37 +67,12 @@ export const weatherToolDefinition = {
     },
     required: ["location"],
   },
+  version: "1.0.0",
+  timeoutMs: 5000,
+  idempotent: true,
+  handler: (args) => weatherTool(args as unknown as WeatherToolArgs),
 };
 
-/**
- * Tool handler that processes tool calls and returns responses
- */
-export async function handleWeatherToolCall(toolCall: ToolCall): Promise<ToolCallResponse> {
-  try {
-    const args = toolCall.args as unknown as WeatherToolArgs;
-    const weatherData = await weatherTool(args);
-
-    return {
-      id: toolCall.id,
-      ok: true,
-      result: {
-        location: weatherData.location,
-        temperature: weatherData.temperature,
-        units: weatherData.units,
-        description: weatherData.description,
-        humidity: weatherData.humidity,
-        windSpeed: weatherData.windSpeed,
-      },
-    };
-  } catch (error) {
-    return {
-      id: toolCall.id,
-      ok: false,
-      error: `Error getting weather: ${error instanceof Error ? error.message : "Unknown error"}`,
-    };
-  }
-}
-
 /**
  * Example: How to create a more complex tool with multiple functions
  */
@@ -123,23 +94,15 @@ export interface CreateEventArgs {
 }
 
 /**
- * Calendar tool for creating and managing events
+ * Calendar tool for creating and managing events.
+ * Arguments are validated against `calendarToolDefinition.parameters` before it runs.
  */
 export async function createCalendarEvent(args: CreateEventArgs): Promise<CalendarEvent> {
   const { title, startTime, endTime, location, description } = args;
 
-  // Validate input
-  if (!title || title.trim().length === 0) {
-    throw new Error("Event title is required");
-  }
-
   const start = new Date(startTime);
   const end = new Date(endTime);
 
-  if (isNaN(start.getTime()) || isNaN(end.getTime())) {
-    throw new Error("Invalid date format. Use ISO string format (e.g., '2024-01-15T10:00:00Z')");
-  }
-
   if (start >= end) {
     throw new Error("Start time must be before end time");
   }
@@ -160,8 +123,7 @@ export async function createCalendarEvent(args: CreateEventArgs): Promise<Calend
   return event;
 }
 
-export const calendarToolDefinition = {
-  type: "function" as const,
+export const calendarToolDefinition: ToolDefinition = {
   name: "create_calendar_event",
   description: "Create a new calendar event",
   parameters: {
@@ -169,14 +131,17 @@ export const calendarToolDefinition = {
     properties: {
       title: {
         type: "string",
+        minLength: 1,
         description: "The title of the event",
       },
       startTime: {
         type: "string",
+        format: "date-time",
         description: "Start time in ISO format (e.g., '2024-01-15T10:00:00Z')",
       },
       endTime: {
         type: "string",
+        format: "date-time",
         description: "End time in ISO format (e.g., '2024-01-15T11:00:00Z')",
       },
       location: {
@@ -190,29 +155,16 @@ export const calendarToolDefinition = {
     },
     required: ["title", "startTime", "endTime"],
   },
-};
-
-export async function handleCalendarToolCall(toolCall: ToolCall): Promise<ToolCallResponse> {
-  try {
-    const args = toolCall.args as unknown as CreateEventArgs;
-    const event = await createCalendarEvent(args);
-
+  version: "1.0.0",
+  timeoutMs: 5000,
+  handler: async (args) => {
+    const event = await createCalendarEvent(args as unknown as CreateEventArgs);
     return {
-      id: toolCall.id,
-      ok: true,
-      result: {
-        title: event.title,
-        startTime: event.startTime.toISOString(),
-        endTime: event.endTime.toISOString(),
-        location: event.location,
-        description: event.description,
-      },
+      title: event.title,
+      startTime: event.startTime.toISOString(),
+      endTime: event.endTime.toISOString(),
+      location: event.location,
+      description: event.description,
     };
-  } catch (error) {
-    return {
-      id: toolCall.id,
-      ok: false,
-      error: `Error creating calendar event: ${error instanceof Error ? error.message : "Unknown error"}`,
-    };
-  }
-}
+  },
+};
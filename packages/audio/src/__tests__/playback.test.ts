@@ -0,0 +1,105 @@
+import { createAudioPlayback } from "../playback";
+
+interface FakeContext {
+  sampleRate: number;
+  currentTime: number;
+  outputLatency: number;
+}
+
+interface FakeNode {
+  port: { postMessage: jest.Mock; onmessage: ((event: { data: unknown }) => void) | null };
+}
+
+function installAudio(sampleRate: number) {
+  const contexts: FakeContext[] = [];
+  const nodes: FakeNode[] = [];
+
+  Object.assign(globalThis, {
+    AudioContext: class {
+      sampleRate = sampleRate;
+      currentTime = 0;
+      outputLatency = 0;
+      state = "running";
+      destination = {};
+      audioWorklet = { addModule: async () => undefined };
+      constructor() {
+        contexts.push(this);
+      }
+      close = async () => undefined;
+    },
+    AudioWorkletNode: class {
+      port = { postMessage: jest.fn(), onmessage: null };
+      connect = jest.fn();
+      disconnect = jest.fn();
+      constructor() {
+        nodes.push(this);
+      }
+    },
+  });
+
+  return { context: () => contexts[0], node: () => nodes[0] };
+}
+
+function report(node: FakeNode, fields: Record<string, unknown>) {
+  node.port.onmessage?.({ data: { type: "position", playing: true, buffered: 0, seq: 1, time: 0, ...fields } });
+}
+
+describe("createAudioPlayback", () => {
+  it("extrapolates the heard position from the audio clock, less the output latency", async () => {
+    const audio = installAudio(24000);
+    const playback = await createAudioPlayback();
+    playback.enqueue("item_1", new Int16Array(24000));
+
+    report(audio.node(), { itemId: "item_1", playedSamples: 4800, buffered: 19200, time: 1 });
+    Object.assign(audio.context(), { currentTime: 1.1, outputLatency: 0.02 });
+
+    expect(playback.getPosition()).toEqual({ itemId: "item_1", playedMs: 280 });
+  });
+
+  it("never reports more than was enqueued for the item", async () => {
+    const audio = installAudio(24000);
+    const playback = await createAudioPlayback();
+    playback.enqueue("item_1", new Int16Array(4800));
+
+    report(audio.node(), { itemId: "item_1", playedSamples: 4800, time: 1 });
+    audio.context().currentTime = 3;
+
+    expect(playback.getPosition()).toEqual({ itemId: "item_1", playedMs: 200 });
+  });
+
+  it("is idle once the worklet has drained everything enqueued", async () => {
+    const audio = installAudio(24000);
+    const playback = await createAudioPlayback();
+    playback.enqueue("item_1", new Int16Array(2400));
+
+    report(audio.node(), { itemId: "item_1", playedSamples: 2400, playing: false, seq: 1 });
+    expect(playback.getPosition()).toBeNull();
+
+    // A chunk the worklet has not seen yet is still to be heard
+    playback.enqueue("item_1", new Int16Array(2400));
+    expect(playback.getPosition()).toEqual({ itemId: "item_1", playedMs: 100 });
+  });
+
+  it("counts positions in context samples when the browser picks another rate", async () => {
+    const audio = installAudio(48000);
+    const playback = await createAudioPlayback();
+    playback.enqueue("item_1", new Int16Array(2400));
+
+    const [message] = audio.node().port.postMessage.mock.calls[0];
+    expect(message.samples.length).toBeGreaterThanOrEqual(4799);
+
+    report(audio.node(), { itemId: "item_1", playedSamples: 2400, playing: false, buffered: 2400 });
+    expect(playback.getPosition()).toEqual({ itemId: "item_1", playedMs: 50 });
+  });
+
+  it("returns where playback stopped when cleared", async () => {
+    const audio = installAudio(24000);
+    const playback = await createAudioPlayback();
+    playback.enqueue("item_1", new Int16Array(24000));
+    report(audio.node(), { itemId: "item_1", playedSamples: 12000, time: 0 });
+
+    expect(playback.clear()).toEqual({ itemId: "item_1", playedMs: 500 });
+    expect(audio.node().port.postMessage).toHaveBeenLastCalledWith({ type: "clear" });
+    expect(playback.getPosition()).toBeNull();
+  });
+});
@@ -0,0 +1,95 @@
+import { floatToPcm16, LinearResampler, pcm16ToFloat } from "../resampler";
+
+function ramp(length: number): Float32Array {
+  return Float32Array.from({ length }, (_, i) => i / length);
+}
+
+function tone(frequency: number, sampleRate: number, length: number): Float32Array {
+  return Float32Array.from({ length }, (_, i) => Math.sin((2 * Math.PI * frequency * i) / sampleRate));
+}
+
+/** Amplitude of a steady tone, skipping the filter's settling time */
+function peak(samples: Float32Array): number {
+  return Math.max(...Array.from(samples.subarray(100), Math.abs));
+}
+
+describe("LinearResampler", () => {
+  it("passes audio through unchanged at equal rates", () => {
+    const input = Float32Array.from([0.1, 0.2, 0.3]);
+    const output = new LinearResampler(24000, 24000).process(input);
+
+    expect(Array.from(output)).toEqual(Array.from(input));
+    expect(output).not.toBe(input);
+  });
+
+  it("downsamples 48 kHz to 24 kHz and joins chunks on the previous sample", () => {
+    const input = ramp(12);
+    const whole = new LinearResampler(48000, 24000).process(input);
+    const resampler = new LinearResampler(48000, 24000);
+
+    const first = resampler.process(input.subarray(0, 8));
+    const second = resampler.process(input.subarray(8));
+
+    expect(first).toHaveLength(4);
+    expect(second).toHaveLength(2);
+    [...first, ...second].forEach((sample, i) => expect(sample).toBeCloseTo(whole[i], 6));
+  });
+
+  it("filters out tones above the target Nyquist frequency before downsampling", () => {
+    // Without the low-pass, an 18 kHz tone at 48 kHz folds back to an audible 6 kHz tone at 24 kHz
+    const aliased = new LinearResampler(48000, 24000).process(tone(18000, 48000, 960));
+    const passed = new LinearResampler(48000, 24000).process(tone(1000, 48000, 960));
+
+    expect(peak(aliased)).toBeLessThan(0.05);
+    expect(peak(passed)).toBeGreaterThan(0.95);
+  });
+
+  it("does not filter when upsampling", () => {
+    const output = new LinearResampler(24000, 48000).process(tone(11000, 24000, 480));
+
+    expect(peak(output)).toBeGreaterThan(0.95);
+  });
+
+  it("interpolates when upsampling 16 kHz to 24 kHz", () => {
+    const output = new LinearResampler(16000, 24000).process(Float32Array.from([0, 3, 6]));
+
+    expect(output).toHaveLength(5);
+    [0, 0, 1, 3, 5].forEach((expected, i) => expect(output[i]).toBeCloseTo(expected, 5));
+  });
+
+  it("gives the same output whether the input arrives whole or in chunks", () => {
+    const input = ramp(450);
+    const whole = new LinearResampler(44100, 24000).process(input);
+
+    const chunked = new LinearResampler(44100, 24000);
+    const parts: number[] = [];
+    for (let start = 0, size = 7; start < input.length; start += size, size = (size * 3) % 50 || 7) {
+      parts.push(...chunked.process(input.subarray(start, start + size)));
+    }
+
+    expect(parts).toHaveLength(whole.length);
+    parts.forEach((sample, i) => expect(sample).toBeCloseTo(whole[i], 5));
+  });
+
+  it("starts over after reset", () => {
+    const resampler = new LinearResampler(48000, 24000);
+    resampler.process(Float32Array.from([0.5, 0.5, 0.5]));
+    resampler.reset();
+
+    expect(resampler.process(Float32Array.from([1, 1, 1, 1]))).toEqual(
+      new LinearResampler(48000, 24000).process(Float32Array.from([1, 1, 1, 1]))
+    );
+  });
+});
+
+describe("PCM16 conversion", () => {
+  it("scales and clamps floats to 16-bit samples", () => {
+    expect(Array.from(floatToPcm16(Float32Array.from([-1, -0.5, 0, 0.5, 1, 2, -2])))).toEqual([
+      -32768, -16384, 0, 16383, 32767, 32767, -32768,
+    ]);
+  });
+
+  it("converts 16-bit samples back to floats", () => {
+    expect(Array.from(pcm16ToFloat(Int16Array.from([-32768, -16384, 0, 16384])))).toEqual([-1, -0.5, 0, 0.5]);
+  });
+});
@@ -0,0 +1,150 @@
+import { floatToPcm16, LinearResampler } from "../resampler";
+import { captureWorkletSource, playbackWorkletSource } from "../worklets";
+
+interface FakePort {
+  messages: Array<Record<string, unknown> | Int16Array>;
+  postMessage(message: Record<string, unknown> | Int16Array): void;
+  onmessage: ((event: { data: unknown }) => void) | null;
+}
+
+interface Processor {
+  port: FakePort;
+  process(inputs: Float32Array[][], outputs?: Float32Array[][]): boolean;
+}
+
+/** Evaluate a worklet source the way AudioWorkletGlobalScope would, and build its processor */
+function createProcessor(source: string, sampleRate: number, processorOptions: Record<string, number>): Processor {
+  class AudioWorkletProcessor {
+    port: FakePort = {
+      messages: [],
+      postMessage(message) {
+        this.messages.push(message);
+      },
+      onmessage: null,
+    };
+  }
+
+  let registered: new (options: unknown) => Processor = AudioWorkletProcessor as never;
+  const registerProcessor = (_name: string, processor: typeof registered) => (registered = processor);
+  new Function("AudioWorkletProcessor", "registerProcessor", "sampleRate", "currentTime", source)(
+    AudioWorkletProcessor,
+    registerProcessor,
+    sampleRate,
+    0
+  );
+  return new registered({ processorOptions });
+}
+
+describe("capture worklet", () => {
+  it("posts fixed-size PCM16 frames resampled like LinearResampler", () => {
+    const capture = createProcessor(captureWorkletSource(), 44100, { targetSampleRate: 24000, frameSamples: 64 });
+    const input = Float32Array.from({ length: 1280 }, (_, i) => Math.sin(i / 10));
+
+    for (let start = 0; start < input.length; start += 128) {
+      capture.process([[input.subarray(start, start + 128)]]);
+    }
+
+    const expected = floatToPcm16(new LinearResampler(44100, 24000).process(input));
+    const frames = capture.port.messages as Int16Array[];
+    expect(frames.every((frame) => frame.length === 64)).toBe(true);
+    expect(frames).toHaveLength(Math.floor(expected.length / 64));
+
+    const captured = frames.flatMap((frame) => Array.from(frame));
+    captured.forEach((sample, i) => expect(Math.abs(sample - expected[i])).toBeLessThanOrEqual(1));
+  });
+
+  it("skips blocks without an input channel", () => {
+    const capture = createProcessor(captureWorkletSource(), 24000, { targetSampleRate: 24000, frameSamples: 4 });
+
+    expect(capture.process([[]])).toBe(true);
+    expect(capture.process([])).toBe(true);
+    expect(capture.port.messages).toEqual([]);
+  });
+});
+
+describe("playback worklet", () => {
+  function setup(prebufferSamples = 4) {
+    const playback = createProcessor(playbackWorkletSource(), 24000, {
+      prebufferSamples,
+      reportIntervalSamples: 1000,
+    });
+    let seq = 0;
+    const send = (data: Record<string, unknown>) => playback.port.onmessage?.({ data });
+    const enqueue = (itemId: string, samples: number[]) =>
+      send({ type: "enqueue", itemId, samples: Float32Array.from(samples), seq: ++seq });
+    const render = (frames = 2) => {
+      const outputs = [[new Float32Array(frames), new Float32Array(frames)]];
+      playback.process([], outputs);
+      return outputs[0].map((channel) => Array.from(channel));
+    };
+    const reports = () => playback.port.messages;
+    return { playback, send, enqueue, render, reports };
+  }
+
+  it("stays silent until the prebuffer is filled, then plays to every channel", () => {
+    const { enqueue, render } = setup(4);
+
+    enqueue("item_1", [1, 2, 3]);
+    expect(render()).toEqual([
+      [0, 0],
+      [0, 0],
+    ]);
+
+    enqueue("item_1", [4]);
+    expect(render()).toEqual([
+      [1, 2],
+      [1, 2],
+    ]);
+    expect(render()[0]).toEqual([3, 4]);
+  });
+
+  it("goes back to buffering after an underrun", () => {
+    const { enqueue, render, reports } = setup(4);
+
+    enqueue("item_1", [1, 2, 3, 4]);
+    render(4);
+    expect(reports()[reports().length - 1]).toMatchObject({ itemId: "item_1", playing: false, playedSamples: 4 });
+
+    enqueue("item_1", [5, 6]);
+    expect(render()[0]).toEqual([0, 0]);
+    enqueue("item_1", [7, 8]);
+    expect(render(4)[0]).toEqual([5, 6, 7, 8]);
+  });
+
+  it("plays a short tail at end of stream and reports it drained", () => {
+    const { send, enqueue, render, reports } = setup(100);
+
+    enqueue("item_1", [1, 2, 3]);
+    expect(render(3)[0]).toEqual([0, 0, 0]);
+
+    send({ type: "end" });
+    expect(render(4)[0]).toEqual([1, 2, 3, 0]);
+    expect(reports()).toContainEqual({ type: "drained" });
+  });
+
+  it("counts played samples per item and echoes the last enqueue", () => {
+    const { enqueue, render, reports } = setup(2);
+
+    enqueue("item_1", [1, 2, 3]);
+    enqueue("item_2", [4, 5]);
+    render(4);
+
+    expect(reports()).toEqual([
+      expect.objectContaining({ type: "position", itemId: "item_1", playedSamples: 0, seq: 2 }),
+      expect.objectContaining({ type: "position", itemId: "item_2", playedSamples: 0, seq: 2 }),
+    ]);
+    render(1);
+    expect(reports()[2]).toMatchObject({ itemId: "item_2", playedSamples: 2, playing: false, buffered: 0 });
+  });
+
+  it("drops queued audio on clear", () => {
+    const { send, enqueue, render, reports } = setup(2);
+
+    enqueue("item_1", [1, 2, 3, 4]);
+    render();
+    send({ type: "clear" });
+
+    expect(reports()[reports().length - 1]).toMatchObject({ itemId: null, playing: false, buffered: 0 });
+    expect(render()[0]).toEqual([0, 0]);
+  });
+});
@@ -0,0 +1,60 @@
+import { CAPTURE_PROCESSOR_NAME, captureWorkletSource, loadWorklet } from "./worklets";
+
+export interface AudioCaptureOptions {
+  onFrame: (pcm: Int16Array) => void;
+  targetSampleRate?: number;
+  frameMs?: number;
+}
+
+export interface AudioCapture {
+  /** Sample rate the microphone is actually captured at, before resampling */
+  readonly inputSampleRate: number;
+  stop(): Promise<void>;
+}
+
+export const REALTIME_SAMPLE_RATE = 24000;
+
+/**
+ * Capture a microphone stream as PCM16 frames at the target rate (24 kHz by
+ * default). The context runs at the browser's native rate; resampling and
+ * Float32 to Int16 conversion happen inside the worklet.
+ */
+export async function createAudioCapture(stream: MediaStream, options: AudioCaptureOptions): Promise<AudioCapture> {
+  const targetSampleRate = options.targetSampleRate ?? REALTIME_SAMPLE_RATE;
+  const frameSamples = Math.round((targetSampleRate * (options.frameMs ?? 40)) / 1000);
+
+  const context = new AudioContext();
+  await loadWorklet(context, captureWorkletSource());
+
+  const source = context.createMediaStreamSource(stream);
+  const node = new AudioWorkletNode(context, CAPTURE_PROCESSOR_NAME, {
+    numberOfInputs: 1,
+    numberOfOutputs: 1,
+    channelCount: 1,
+    channelCountMode: "explicit",
+    processorOptions: { targetSampleRate, frameSamples },
+  });
+
+  node.port.onmessage = (event: MessageEvent<Int16Array>) => {
+    options.onFrame(event.data);
+  };
+
+  // Keep the node in the rendered graph without making the microphone audible
+  const mute = context.createGain();
+  mute.gain.value = 0;
+  source.connect(node);
+  node.connect(mute);
+  mute.connect(context.destination);
+
+  return {
+    inputSampleRate: context.sampleRate,
+
+    async stop() {
+      node.port.onmessage = null;
+      source.disconnect();
+      node.disconnect();
+      mute.disconnect();
+      await context.close();
+    },
+  };
+}
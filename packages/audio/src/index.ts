@@ -0,0 +1,5 @@
+export { createAudioCapture, REALTIME_SAMPLE_RATE } from "./capture";
+export type { AudioCapture, AudioCaptureOptions } from "./capture";
+export { createAudioPlayback } from "./playback";
+export type { AudioPlayback, AudioPlaybackOptions, PlaybackPosition } from "./playback";
+export { LinearResampler, floatToPcm16, pcm16ToFloat } from "./resampler";
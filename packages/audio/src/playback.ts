@@ -0,0 +1,125 @@
+import { LinearResampler, pcm16ToFloat } from "./resampler";
+import { PLAYBACK_PROCESSOR_NAME, playbackWorkletSource, loadWorklet } from "./worklets";
+import { REALTIME_SAMPLE_RATE } from "./capture";
+import type { TransportPlaybackPosition } from "@thrivereflections/realtime-contracts";
+
+export interface AudioPlaybackOptions {
+  sourceSampleRate?: number;
+  prebufferMs?: number;
+}
+
+export type PlaybackPosition = TransportPlaybackPosition;
+
+export interface AudioPlayback {
+  /** Queue a PCM16 chunk belonging to the given conversation item */
+  enqueue(itemId: string, pcm: Int16Array): void;
+  /** Signal that no more audio follows, so a short tail plays without waiting for the prebuffer */
+  endOfStream(): void;
+  /** Position within the item being heard, or null when playback is idle */
+  getPosition(): PlaybackPosition | null;
+  /** Stop playback immediately and drop queued audio; returns where playback stopped */
+  clear(): PlaybackPosition | null;
+  close(): Promise<void>;
+}
+
+interface PositionReport {
+  itemId: string | null;
+  playedSamples: number;
+  playing: boolean;
+  buffered: number;
+  seq: number;
+  time: number;
+}
+
+/**
+ * Jitter-buffered playback of 24 kHz PCM16 chunks through an AudioWorklet.
+ * Chunks are resampled to the context rate on enqueue if the browser did not
+ * honour the requested rate.
+ */
+export async function createAudioPlayback(options: AudioPlaybackOptions = {}): Promise<AudioPlayback> {
+  const sourceSampleRate = options.sourceSampleRate ?? REALTIME_SAMPLE_RATE;
+  const context = new AudioContext({ sampleRate: sourceSampleRate });
+  await loadWorklet(context, playbackWorkletSource());
+
+  const rate = context.sampleRate;
+  const node = new AudioWorkletNode(context, PLAYBACK_PROCESSOR_NAME, {
+    numberOfInputs: 0,
+    numberOfOutputs: 1,
+    outputChannelCount: [1],
+    processorOptions: {
+      prebufferSamples: Math.round((rate * (options.prebufferMs ?? 80)) / 1000),
+      reportIntervalSamples: Math.round(rate * 0.05),
+    },
+  });
+  node.connect(context.destination);
+
+  const resampler = rate === sourceSampleRate ? null : new LinearResampler(sourceSampleRate, rate);
+  const enqueuedSamples = new Map<string, number>();
+  let lastReport: PositionReport | null = null;
+  let enqueueSeq = 0;
+
+  node.port.onmessage = (event: MessageEvent<PositionReport | { type: "drained" }>) => {
+    const message = event.data as { type: string };
+    if (message.type === "position") {
+      lastReport = event.data as PositionReport;
+    }
+  };
+
+  function getPosition(): PlaybackPosition | null {
+    if (!lastReport || !lastReport.itemId) {
+      return null;
+    }
+
+    // Stopped, empty and no enqueue after the report: nothing is audible
+    if (!lastReport.playing && lastReport.buffered === 0 && lastReport.seq === enqueueSeq) {
+      return null;
+    }
+
+    let played = lastReport.playedSamples;
+    if (lastReport.playing) {
+      // Extrapolate from the last report using the audio clock
+      played += Math.max(0, context.currentTime - lastReport.time) * rate;
+    }
+
+    // Audio still in the output pipeline has not been heard yet
+    played -= (context.outputLatency || 0) * rate;
+
+    const total = enqueuedSamples.get(lastReport.itemId) ?? played;
+    const clamped = Math.max(0, Math.min(played, total));
+    return { itemId: lastReport.itemId, playedMs: Math.floor((clamped / rate) * 1000) };
+  }
+
+  return {
+    enqueue(itemId: string, pcm: Int16Array) {
+      if (context.state === "suspended") {
+        void context.resume();
+      }
+
+      const samples = resampler ? resampler.process(pcm16ToFloat(pcm)) : pcm16ToFloat(pcm);
+      enqueuedSamples.set(itemId, (enqueuedSamples.get(itemId) ?? 0) + samples.length);
+      enqueueSeq += 1;
+      node.port.postMessage({ type: "enqueue", itemId, samples, seq: enqueueSeq }, [samples.buffer]);
+    },
+
+    endOfStream() {
+      node.port.postMessage({ type: "end" });
+    },
+
+    getPosition,
+
+    clear() {
+      const position = getPosition();
+      node.port.postMessage({ type: "clear" });
+      lastReport = null;
+      enqueuedSamples.clear();
+      resampler?.reset();
+      return position;
+    },
+
+    async close() {
+      node.port.onmessage = null;
+      node.disconnect();
+      await context.close();
+    },
+  };
+}
@@ -0,0 +1,122 @@
+/** Anti-aliasing cutoff as a fraction of the target rate: 90% of its Nyquist frequency */
+export const ANTI_ALIAS_CUTOFF = 0.45;
+
+/** Qs of the two biquad sections of a 4th-order Butterworth low-pass */
+export const BUTTERWORTH_Q = [0.5412, 1.3066];
+
+interface BiquadSection {
+  b0: number;
+  b1: number;
+  b2: number;
+  a1: number;
+  a2: number;
+  z1: number;
+  z2: number;
+}
+
+/** Low-pass biquad coefficients from the Audio EQ Cookbook, normalized by a0 */
+function lowPassSection(sampleRate: number, cutoff: number, q: number): BiquadSection {
+  const w0 = (2 * Math.PI * cutoff) / sampleRate;
+  const cos = Math.cos(w0);
+  const alpha = Math.sin(w0) / (2 * q);
+  const a0 = 1 + alpha;
+  const b1 = (1 - cos) / a0;
+  return { b0: b1 / 2, b1, b2: b1 / 2, a1: (-2 * cos) / a0, a2: (1 - alpha) / a0, z1: 0, z2: 0 };
+}
+
+/**
+ * Streaming linear-interpolation resampler.
+ *
+ * Keeps the fractional read position and the last input sample between
+ * calls, so consecutive chunks join without clicks. When downsampling, the
+ * input first goes through a 4th-order Butterworth low-pass at
+ * `ANTI_ALIAS_CUTOFF` of the target rate, so content above the target's
+ * Nyquist frequency is attenuated instead of folding back as audible tones.
+ * The capture worklet inlines the same algorithm, since worklet code cannot
+ * import modules.
+ */
+export class LinearResampler {
+  private ratio: number;
+  private position = 0;
+  private lastSample = 0;
+  private sections: BiquadSection[];
+
+  constructor(fromRate: number, toRate: number) {
+    this.ratio = fromRate / toRate;
+    this.sections =
+      fromRate > toRate ? BUTTERWORTH_Q.map((q) => lowPassSection(fromRate, toRate * ANTI_ALIAS_CUTOFF, q)) : [];
+  }
+
+  process(input: Float32Array): Float32Array {
+    if (this.ratio === 1) {
+      return input.slice();
+    }
+    if (this.sections.length > 0) {
+      input = this.lowPass(input);
+    }
+
+    const outputLength = Math.max(0, Math.ceil((input.length - this.position) / this.ratio));
+    const output = new Float32Array(outputLength);
+
+    let written = 0;
+    let position = this.position;
+    while (position < input.length && written < outputLength) {
+      const index = Math.floor(position);
+      const fraction = position - index;
+      // Index -1 refers to the last sample of the previous chunk
+      const previous = index === 0 ? this.lastSample : input[index - 1];
+      const current = input[index];
+      output[written++] = previous + (current - previous) * fraction;
+      position += this.ratio;
+    }
+
+    this.position = position - input.length;
+    if (input.length > 0) {
+      this.lastSample = input[input.length - 1];
+    }
+
+    return written === outputLength ? output : output.subarray(0, written);
+  }
+
+  reset(): void {
+    this.position = 0;
+    this.lastSample = 0;
+    for (const section of this.sections) {
+      section.z1 = 0;
+      section.z2 = 0;
+    }
+  }
+
+  /** Transposed direct form II, carrying filter state across chunks */
+  private lowPass(input: Float32Array): Float32Array {
+    const output = new Float32Array(input.length);
+    for (let i = 0; i < input.length; i++) {
+      let sample = input[i];
+      for (const s of this.sections) {
+        const y = s.b0 * sample + s.z1;
+        s.z1 = s.b1 * sample - s.a1 * y + s.z2;
+        s.z2 = s.b2 * sample - s.a2 * y;
+        sample = y;
+      }
+      output[i] = sample;
+    }
+    return output;
+  }
+}
+
+export function floatToPcm16(input: Float32Array): Int16Array {
+  const pcm = new Int16Array(input.length);
+  for (let i = 0; i < input.length; i++) {
+    const sample = Math.max(-1, Math.min(1, input[i]));
+    pcm[i] = sample < 0 ? sample * 0x8000 : sample * 0x7fff;
+  }
+  return pcm;
+}
+
+export function pcm16ToFloat(input: Int16Array): Float32Array {
+  const output = new Float32Array(input.length);
+  for (let i = 0; i < input.length; i++) {
+    output[i] = input[i] / 0x8000;
+  }
+  return output;
+}
@@ -0,0 +1,219 @@
+/**
+ * AudioWorklet processor sources.
+ *
+ * The processors are shipped as strings and loaded from Blob URLs so the
+ * package works with any bundler without a separate worklet asset.
+ */
+
+import { ANTI_ALIAS_CUTOFF, BUTTERWORTH_Q } from "./resampler";
+
+export const CAPTURE_PROCESSOR_NAME = "thrive-pcm16-capture";
+export const PLAYBACK_PROCESSOR_NAME = "thrive-pcm16-playback";
+
+/**
+ * Capture: resamples the microphone from the context rate to the target rate
+ * and posts fixed-size PCM16 frames, all off the main thread.
+ */
+export function captureWorkletSource(): string {
+  return `
+class CaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const { targetSampleRate, frameSamples } = options.processorOptions;
+    this.ratio = sampleRate / targetSampleRate;
+    this.position = 0;
+    this.lastSample = 0;
+    this.frame = new Int16Array(frameSamples);
+    this.filled = 0;
+    this.filtered = new Float32Array(128);
+    this.sections = sampleRate > targetSampleRate
+      ? ${JSON.stringify(BUTTERWORTH_Q)}.map((q) => {
+          const w0 = (2 * Math.PI * targetSampleRate * ${ANTI_ALIAS_CUTOFF}) / sampleRate;
+          const cos = Math.cos(w0);
+          const alpha = Math.sin(w0) / (2 * q);
+          const a0 = 1 + alpha;
+          const b1 = (1 - cos) / a0;
+          return { b0: b1 / 2, b1, b2: b1 / 2, a1: (-2 * cos) / a0, a2: (1 - alpha) / a0, z1: 0, z2: 0 };
+        })
+      : [];
+  }
+
+  // Same anti-aliasing low-pass and linear interpolation as LinearResampler in resampler.ts
+  lowPass(input) {
+    if (this.filtered.length < input.length) {
+      this.filtered = new Float32Array(input.length);
+    }
+    const output = this.filtered.subarray(0, input.length);
+    for (let i = 0; i < input.length; i++) {
+      let sample = input[i];
+      for (const s of this.sections) {
+        const y = s.b0 * sample + s.z1;
+        s.z1 = s.b1 * sample - s.a1 * y + s.z2;
+        s.z2 = s.b2 * sample - s.a2 * y;
+        sample = y;
+      }
+      output[i] = sample;
+    }
+    return output;
+  }
+
+  push(sample) {
+    const clamped = Math.max(-1, Math.min(1, sample));
+    this.frame[this.filled++] = clamped < 0 ? clamped * 0x8000 : clamped * 0x7fff;
+
+    if (this.filled === this.frame.length) {
+      const pcm = this.frame;
+      this.port.postMessage(pcm, [pcm.buffer]);
+      this.frame = new Int16Array(pcm.length);
+      this.filled = 0;
+    }
+  }
+
+  process(inputs) {
+    const input = inputs[0] && inputs[0][0];
+    if (!input) {
+      return true;
+    }
+    const channel = this.sections.length > 0 ? this.lowPass(input) : input;
+
+    let position = this.position;
+    while (position < channel.length) {
+      const index = Math.floor(position);
+      const fraction = position - index;
+      const previous = index === 0 ? this.lastSample : channel[index - 1];
+      this.push(previous + (channel[index] - previous) * fraction);
+      position += this.ratio;
+    }
+
+    this.position = position - channel.length;
+    this.lastSample = channel[channel.length - 1];
+    return true;
+  }
+}
+
+registerProcessor("${CAPTURE_PROCESSOR_NAME}", CaptureProcessor);
+`;
+}
+
+/**
+ * Playback: a jitter buffer that waits for `prebufferSamples` before starting
+ * (and after every underrun), and reports how many samples of the current
+ * item have been rendered so callers can truncate precisely. Each report
+ * echoes the sequence number of the last enqueue it has seen, so the main
+ * thread can tell "idle" apart from "chunks still in flight".
+ */
+export function playbackWorkletSource(): string {
+  return `
+class PlaybackProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const { prebufferSamples, reportIntervalSamples } = options.processorOptions;
+    this.prebufferSamples = prebufferSamples;
+    this.reportIntervalSamples = reportIntervalSamples;
+    this.queue = [];
+    this.buffered = 0;
+    this.playing = false;
+    this.endOfStream = false;
+    this.itemId = null;
+    this.playedForItem = 0;
+    this.sinceReport = 0;
+    this.lastSeq = 0;
+
+    this.port.onmessage = (event) => {
+      const message = event.data;
+      if (message.type === "enqueue") {
+        this.queue.push({ itemId: message.itemId, samples: message.samples, offset: 0 });
+        this.buffered += message.samples.length;
+        this.endOfStream = false;
+        this.lastSeq = message.seq;
+      } else if (message.type === "end") {
+        this.endOfStream = true;
+      } else if (message.type === "clear") {
+        this.queue = [];
+        this.buffered = 0;
+        this.playing = false;
+        this.endOfStream = false;
+        this.itemId = null;
+        this.playedForItem = 0;
+        this.report();
+      }
+    };
+  }
+
+  report() {
+    this.port.postMessage({
+      type: "position",
+      itemId: this.itemId,
+      playedSamples: this.playedForItem,
+      playing: this.playing,
+      buffered: this.buffered,
+      seq: this.lastSeq,
+      time: currentTime,
+    });
+    this.sinceReport = 0;
+  }
+
+  process(_inputs, outputs) {
+    const output = outputs[0];
+    const channel = output[0];
+
+    if (!this.playing && this.buffered > 0 && (this.buffered >= this.prebufferSamples || this.endOfStream)) {
+      this.playing = true;
+    }
+
+    let written = 0;
+    while (this.playing && written < channel.length && this.queue.length > 0) {
+      const chunk = this.queue[0];
+      if (chunk.itemId !== this.itemId) {
+        this.itemId = chunk.itemId;
+        this.playedForItem = 0;
+        this.report();
+      }
+
+      const count = Math.min(channel.length - written, chunk.samples.length - chunk.offset);
+      channel.set(chunk.samples.subarray(chunk.offset, chunk.offset + count), written);
+      chunk.offset += count;
+      written += count;
+      this.buffered -= count;
+      this.playedForItem += count;
+
+      if (chunk.offset >= chunk.samples.length) {
+        this.queue.shift();
+      }
+    }
+
+    if (this.playing && this.queue.length === 0) {
+      // Underrun or end of stream: go back to buffering
+      this.playing = false;
+      this.report();
+      if (this.endOfStream) {
+        this.endOfStream = false;
+        this.port.postMessage({ type: "drained" });
+      }
+    }
+
+    for (let i = 1; i < output.length; i++) {
+      output[i].set(channel);
+    }
+
+    this.sinceReport += channel.length;
+    if (this.playing && this.sinceReport >= this.reportIntervalSamples) {
+      this.report();
+    }
+
+    return true;
+  }
+}
+
+registerProcessor("${PLAYBACK_PROCESSOR_NAME}", PlaybackProcessor);
+`;
+}
+
+export async function loadWorklet(context: AudioContext, source: string): Promise<void> {
+  const url = URL.createObjectURL(new Blob([source], { type: "application/javascript" }));
+  try {
+    await context.audioWorklet.addModule(url);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
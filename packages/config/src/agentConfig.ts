@@ -21,7 +21,7 @@ export const defaultAgentConfig: AgentConfig = {
 // Function to get config with current user and feature flags
 export async function getAgentConfigWithUser(
   user: { sub: string; tenant?: string },
-  flags: Record<string, { enabled: boolean } | undefined>
+  flags: Record<string, { enabled: boolean; value?: unknown } | undefined>
 ): Promise<AgentConfig> {
   // Determine capabilities based on feature flags
   const capabilities: ("speech" | "captions" | "tools")[] = ["speech"];
@@ -39,7 +39,8 @@ export async function getAgentConfigWithUser(
   const allowedTools = flags.tools_enabled?.enabled ? ["echo", "retrieve_docs"] : [];
 
   // Determine transport based on feature flags
-  const transport = flags.webrtc_fallback_force?.enabled ? "websocket" : "webrtc";
+  const transport =
+    flags.webrtc_fallback_force?.enabled && flags.webrtc_fallback_force.value === true ? "websocket" : "webrtc";
 
   // Determine captions level
   const captions = flags.captions_enabled?.enabled ? "partial" : "off";
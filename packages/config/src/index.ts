@@ -4,12 +4,21 @@ export {
   loadPublicRuntimeConfig,
   loadDatabaseConfig,
   loadAuthConfig,
+  loadIceConfig,
+  loadRecordingConfig,
   loadAllConfigs,
 } from "./loader";
 
 // Agent configuration
 export { defaultAgentConfig, getAgentConfigWithUser } from "./agentConfig";
 
+// Turn detection
+export { DEFAULT_TURN_DETECTION, toSessionTurnDetection } from "./turnDetection";
+
+// Conversation memory
+export { MAX_PRELOADED_FACTS, REMEMBER_FACT_TOOL, resolveMemoryMode, withMemoryFacts } from "./memory";
+export type { MemoryMode } from "./memory";
+
 // Feature flags
 export { featureFlagManager, FeatureFlagManager } from "./featureFlags";
 
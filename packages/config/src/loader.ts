@@ -5,7 +5,10 @@ import {
   PolicyConfig,
   DatabaseConfig,
   AuthConfig,
+  IceConfig,
+  RecordingConfig,
   TransportKind,
+  TurnDetectionConfig,
 } from "@thrivereflections/realtime-contracts";
 
 function requireEnv(name: string): string {
@@ -18,13 +21,64 @@ function getEnv(name: string, defaultValue: string): string {
   return process.env[name] ?? defaultValue;
 }
 
+function getOptionalNumber(name: string, min: number, max = Infinity): number | undefined {
+  const raw = process.env[name];
+  if (raw === undefined || raw.trim() === "") return undefined;
+  const value = Number(raw);
+  if (Number.isNaN(value) || value < min || value > max) {
+    const range = max === Infinity ? `of at least ${min}` : `between ${min} and ${max}`;
+    throw new Error(`${name} must be a number ${range}, got "${raw}"`);
+  }
+  return value;
+}
+
+function getOptionalChoice<T extends string>(name: string, choices: readonly T[]): T | undefined {
+  const raw = process.env[name];
+  if (raw === undefined || raw.trim() === "") return undefined;
+  if (!(choices as readonly string[]).includes(raw)) {
+    throw new Error(`${name} must be one of ${choices.join(", ")}, got "${raw}"`);
+  }
+  return raw as T;
+}
+
+function getPositiveInteger(name: string, defaultValue: number): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw.trim() === "") return defaultValue;
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value <= 0) throw new Error(`${name} must be a positive integer, got "${raw}"`);
+  return value;
+}
+
+function loadTurnDetection(): TurnDetectionConfig | undefined {
+  switch (process.env.TURN_DETECTION) {
+    case "manual":
+      return { type: "manual" };
+    case "semantic_vad":
+      return {
+        type: "semantic_vad",
+        eagerness: getOptionalChoice("TURN_DETECTION_EAGERNESS", ["low", "medium", "high", "auto"] as const),
+      };
+    case "server_vad":
+      return {
+        type: "server_vad",
+        threshold: getOptionalNumber("TURN_DETECTION_THRESHOLD", 0, 1),
+        prefix_padding_ms: getOptionalNumber("TURN_DETECTION_PREFIX_PADDING_MS", 0),
+        silence_duration_ms: getOptionalNumber("TURN_DETECTION_SILENCE_DURATION_MS", 0),
+      };
+    default:
+      return undefined;
+  }
+}
+
 export function loadRuntimeConfig(): RuntimeConfig {
   const featureFlags: FeatureFlags = {
     transport: (process.env.FEATURE_TRANSPORT as TransportKind) ?? "webrtc",
+    webrtcFallbackForce: process.env.FEATURE_WEBRTC_FALLBACK_FORCE === "true",
     bargeIn: process.env.FEATURE_BARGE_IN !== "false",
     captions: process.env.FEATURE_CAPTIONS !== "false",
     tools: process.env.FEATURE_TOOLS !== "false",
     memory: (process.env.FEATURE_MEMORY as "off" | "short" | "long") ?? "off",
+    recording: process.env.FEATURE_RECORDING === "true",
   };
 
   const policies: PolicyConfig = {
@@ -49,6 +103,7 @@ export function loadRuntimeConfig(): RuntimeConfig {
     baseUrl: process.env.OPENAI_BASE_URL || "https://api.openai.com",
     featureFlags,
     policies,
+    turnDetection: loadTurnDetection(),
   };
 }
 
@@ -60,6 +115,37 @@ export function loadDatabaseConfig(): DatabaseConfig | null {
   };
 }
 
+function getList(name: string): string[] {
+  return (process.env[name] ?? "")
+    .split(",")
+    .map((value) => value.trim())
+    .filter(Boolean);
+}
+
+export function loadIceConfig(): IceConfig | null {
+  const stunUrls = getList("ICE_STUN_URLS");
+  const turnUrls = getList("TURN_URLS");
+  const sharedSecret = process.env.TURN_SHARED_SECRET;
+
+  if (stunUrls.length === 0 && turnUrls.length === 0) return null;
+
+  return {
+    iceServers: stunUrls.length > 0 ? [{ urls: stunUrls }] : [],
+    turn:
+      turnUrls.length > 0 && sharedSecret
+        ? { urls: turnUrls, sharedSecret, ttlSeconds: getPositiveInteger("TURN_CREDENTIAL_TTL_SECONDS", 600) }
+        : undefined,
+  };
+}
+
+export function loadRecordingConfig(): RecordingConfig {
+  return {
+    directory: getEnv("RECORDINGS_DIR", ".recordings"),
+    // About 18 minutes of stereo 24 kHz PCM16, above the default 15-minute session limit
+    maxBytes: Number(process.env.RECORDING_MAX_BYTES ?? 100 * 1024 * 1024),
+  };
+}
+
 export function loadAuthConfig(): AuthConfig {
   const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
   const supabaseKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
@@ -109,6 +195,7 @@ export function loadPublicRuntimeConfig(): PublicRuntimeConfig {
     baseUrl: fullConfig.baseUrl,
     featureFlags: fullConfig.featureFlags,
     policies: fullConfig.policies,
+    turnDetection: fullConfig.turnDetection,
   };
 }
 
@@ -118,5 +205,7 @@ export function loadAllConfigs() {
     runtime: loadRuntimeConfig(),
     database: loadDatabaseConfig(),
     auth: loadAuthConfig(),
+    ice: loadIceConfig(),
+    recording: loadRecordingConfig(),
   };
 }
@@ -0,0 +1,66 @@
+import { MemoryFact, RuntimeConfig } from "@thrivereflections/realtime-contracts";
+
+export type MemoryMode = RuntimeConfig["featureFlags"]["memory"];
+
+const MEMORY_MODES: MemoryMode[] = ["off", "short", "long"];
+
+/** Most facts preloaded into a session's instructions; the newest are kept */
+export const MAX_PRELOADED_FACTS = 50;
+
+/**
+ * Tool offered to the model in "long" memory sessions. The app executes it by
+ * saving the fact for the signed-in user.
+ */
+export const REMEMBER_FACT_TOOL = {
+  type: "function" as const,
+  name: "remember_fact",
+  description:
+    "Remember a lasting fact or preference about the user for future conversations, " +
+    "when the user shares one or asks you to remember something",
+  parameters: {
+    type: "object" as const,
+    properties: {
+      fact: {
+        type: "string" as const,
+        minLength: 1,
+        maxLength: 500,
+        description: "The fact, as a short standalone sentence about the user",
+      },
+    },
+    required: ["fact"],
+  },
+};
+
+/**
+ * The memory mode a session gets: what the client asked for, capped by the
+ * deployment's `featureFlags.memory` ("off" < "short" < "long").
+ */
+export function resolveMemoryMode(requested: string | undefined, allowed: MemoryMode): MemoryMode {
+  const index = MEMORY_MODES.indexOf(requested as MemoryMode);
+  return index === -1 ? "off" : MEMORY_MODES[Math.min(index, MEMORY_MODES.indexOf(allowed))];
+}
+
+/**
+ * Session instructions with the user's remembered facts appended
+ */
+export function withMemoryFacts(
+  instructions: string,
+  facts: Pick<MemoryFact, "text">[],
+  maxFacts = MAX_PRELOADED_FACTS
+): string {
+  const lines = facts
+    .slice(-maxFacts)
+    .map((fact) => fact.text.replace(/\s+/g, " ").trim())
+    .filter((text) => text !== "");
+
+  if (lines.length === 0) {
+    return instructions;
+  }
+
+  return [
+    instructions,
+    "",
+    "What you remember about the user from earlier conversations:",
+    ...lines.map((line) => `- ${line}`),
+  ].join("\n");
+}
@@ -0,0 +1,21 @@
+import { RealtimeTurnDetection, TurnDetectionConfig } from "@thrivereflections/realtime-contracts";
+
+export const DEFAULT_TURN_DETECTION: TurnDetectionConfig = {
+  type: "server_vad",
+  threshold: 0.5,
+  prefix_padding_ms: 300,
+  silence_duration_ms: 500,
+};
+
+/**
+ * The `turn_detection` to create a session with. Manual mode turns server
+ * turn detection off; VAD modes leave interruption to the client's barge-in
+ * controller, so `interrupt_response` is always false.
+ */
+export function toSessionTurnDetection(config: TurnDetectionConfig = DEFAULT_TURN_DETECTION): RealtimeTurnDetection {
+  if (config.type === "manual") {
+    return null;
+  }
+
+  return { ...config, interrupt_response: false };
+}
@@ -1,9 +1,21 @@
+import { RealtimeSessionSettings, TurnDetectionConfig } from "./RealtimeSession";
+
+/** One mid-session `session.update` acknowledged by the server */
+export interface AgentConfigChange {
+  changedAt: number;
+  settings: RealtimeSessionSettings;
+}
+
 export interface AgentConfig {
   persona: string;
+  /** Instructions set during the session; `persona` keeps the one it started with */
+  instructions?: string;
   voice: string;
   capabilities: ("speech" | "captions" | "tools")[];
   toolPolicy: "deny_all" | "allow_list";
   allowedTools: string[];
+  /** Overrides the deployment's `RuntimeConfig.turnDetection` */
+  turnDetection?: TurnDetectionConfig;
   user?: {
     sub: string;
     tenant?: string;
@@ -14,4 +26,6 @@ export interface AgentConfig {
     captions: "off" | "partial" | "full";
     memory?: "off" | "short" | "long";
   };
+  /** Settings changed during the session, oldest first */
+  history?: AgentConfigChange[];
 }
@@ -0,0 +1,35 @@
+// Conversation state built from Realtime server events, keyed by item id.
+
+export type ConversationItemStatus = "in_progress" | "completed" | "incomplete" | "truncated";
+
+export interface ConversationItemState {
+  id: string;
+  /** Item this one follows; null for the first item */
+  previousItemId: string | null;
+  type: "message" | "function_call" | "function_call_output";
+  role?: "user" | "assistant" | "system";
+  status: ConversationItemStatus;
+  /** Typed or generated text, or the transcript of spoken audio */
+  text: string;
+  /** Whether `text` was typed/generated as text or transcribed from audio */
+  modality?: "text" | "audio";
+  /** Progress of the input transcription for spoken user messages */
+  transcriptionStatus?: "pending" | "completed" | "failed";
+  responseId?: string;
+  callId?: string;
+  name?: string;
+  arguments?: string;
+  output?: string;
+  /** Milliseconds of assistant audio the listener heard before truncation */
+  audioEndMs?: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface ConversationSnapshot {
+  version: 1;
+  sessionId: string | null;
+  /** Items in conversation order */
+  items: ConversationItemState[];
+  takenAt: number;
+}
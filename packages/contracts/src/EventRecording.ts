@@ -0,0 +1,24 @@
+// Recorded transport event streams, stored as JSONL: a header line, then one line per event.
+
+export type RecordedEventDirection = "inbound" | "outbound";
+
+export interface EventRecordingHeader {
+  version: 1;
+  /** Wall-clock time of the first entry's `t = 0` */
+  startedAt: number;
+  /** Whether audio payloads were kept or replaced with empty strings */
+  audio: "included" | "stripped";
+}
+
+export interface RecordedEvent {
+  /** Milliseconds since `startedAt` */
+  t: number;
+  /** Inbound events came from the provider; outbound events were sent to it */
+  direction: RecordedEventDirection;
+  event: unknown;
+}
+
+export interface EventRecording {
+  header: EventRecordingHeader;
+  events: RecordedEvent[];
+}
@@ -1,4 +1,6 @@
 import { AgentConfig } from './AgentConfig';
+import { ConversationSnapshot } from './Conversation';
+import { SessionRecording } from './Recording';
 
 export type Consent = 'DECLINED' | 'ACCEPTED';
 
@@ -28,6 +30,33 @@ export interface ToolEvent {
   result?: unknown;
 }
 
+/** Produced after a session ends from its stored transcript and tool events */
+export interface SessionSummary {
+  summary: string;
+  keyPoints: string[];
+  actionItems: string[];
+}
+
+/** What was stored for a session, read back e.g. to summarize it */
+export interface SessionRecord {
+  sessionId: string;
+  consent: Consent;
+  /** Oldest first */
+  transcript: TranscriptSegment[];
+  /** Oldest first */
+  toolEvents: ToolEvent[];
+}
+
+/** Something the assistant was asked to remember about a user, kept across sessions */
+export interface MemoryFact {
+  id: string;
+  appUserId: string;
+  text: string;
+  createdAt: number;
+  /** Session the fact was learned in */
+  sessionId?: string;
+}
+
 export interface PersistenceStore {
   saveSessionMeta(
     sessionId: string,
@@ -41,5 +70,32 @@ export interface PersistenceStore {
   
   appendToolEvent(sessionId: string, event: ToolEvent): Promise<void>;
   
-  persistSummary(sessionId: string, summary: string): Promise<void>;
+  persistSummary(sessionId: string, summary: string, details?: Omit<SessionSummary, 'summary'>): Promise<void>;
+
+  /** Read back a session's consent, transcript and tool events; null if unknown */
+  getSessionRecord?(sessionId: string): Promise<SessionRecord | null>;
+
+  /** The consent a session was started with; null if unknown */
+  getSessionConsent?(sessionId: string): Promise<Consent | null>;
+
+  /** Replace the stored config after a mid-session change, including its history */
+  updateSessionConfig?(sessionId: string, config: AgentConfig): Promise<void>;
+
+  /** Store the latest conversation state, replacing any earlier snapshot */
+  saveConversation?(sessionId: string, snapshot: ConversationSnapshot): Promise<void>;
+
+  /** Remember a fact about the user for later sessions ("long" memory) */
+  saveMemoryFact?(user: UserRef, text: string, sessionId?: string): Promise<MemoryFact>;
+
+  /** Facts remembered about the user, oldest first */
+  listMemoryFacts?(appUserId: string): Promise<MemoryFact[]>;
+
+  /** Forget one fact; false when the user has no fact with that id */
+  deleteMemoryFact?(appUserId: string, factId: string): Promise<boolean>;
+
+  /** Link an uploaded recording to its session */
+  saveRecording?(recording: Omit<SessionRecording, 'id' | 'createdAt'>): Promise<SessionRecording>;
+
+  /** Recordings of a session, oldest first */
+  listRecordings?(sessionId: string): Promise<SessionRecording[]>;
 }
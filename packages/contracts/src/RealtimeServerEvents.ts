@@ -0,0 +1,298 @@
+// Server events received from the OpenAI Realtime API over the
+// WebRTC DataChannel or the WebSocket, as handled by RealtimeEventRouter.
+
+export interface RealtimeUsage {
+  total_tokens?: number;
+  input_tokens?: number;
+  output_tokens?: number;
+  cached_tokens?: number;
+  input_token_details?: {
+    text_tokens?: number;
+    audio_tokens?: number;
+    image_tokens?: number;
+    cached_tokens?: number;
+    cached_tokens_details?: {
+      text_tokens?: number;
+      audio_tokens?: number;
+      image_tokens?: number;
+    };
+  };
+  output_token_details?: {
+    text_tokens?: number;
+    audio_tokens?: number;
+  };
+}
+
+export interface RealtimeSessionInfo {
+  id: string;
+  model?: string;
+  voice?: string;
+  instructions?: string;
+  modalities?: string[];
+  tools?: unknown[];
+  turn_detection?: unknown;
+  temperature?: number;
+  [key: string]: unknown;
+}
+
+export interface RealtimeResponseInfo {
+  id?: string;
+  status?: "in_progress" | "completed" | "cancelled" | "failed" | "incomplete";
+  status_details?: unknown;
+  output?: RealtimeConversationItem[];
+  usage?: RealtimeUsage;
+}
+
+export interface RealtimeContentPart {
+  type: "input_text" | "input_audio" | "text" | "audio";
+  text?: string;
+  transcript?: string | null;
+  audio?: string;
+}
+
+export interface RealtimeConversationItem {
+  id?: string;
+  object?: "realtime.item";
+  type: "message" | "function_call" | "function_call_output";
+  status?: "in_progress" | "completed" | "incomplete";
+  role?: "user" | "assistant" | "system";
+  content?: RealtimeContentPart[];
+  call_id?: string;
+  name?: string;
+  arguments?: string;
+  output?: string;
+}
+
+export interface RealtimeErrorDetails {
+  type?: string;
+  code?: string;
+  message: string;
+  param?: string | null;
+  event_id?: string | null;
+}
+
+interface ServerEventBase {
+  event_id?: string;
+}
+
+interface ResponsePartRef {
+  response_id?: string;
+  item_id?: string;
+  output_index?: number;
+  content_index?: number;
+}
+
+// session.*
+export interface SessionCreatedEvent extends ServerEventBase {
+  type: "session.created";
+  session: RealtimeSessionInfo;
+}
+
+export interface SessionUpdatedEvent extends ServerEventBase {
+  type: "session.updated";
+  session: RealtimeSessionInfo;
+}
+
+// response.*
+export interface ResponseCreatedEvent extends ServerEventBase {
+  type: "response.created";
+  response: RealtimeResponseInfo;
+}
+
+export interface ResponseDoneEvent extends ServerEventBase {
+  type: "response.done";
+  response: RealtimeResponseInfo;
+}
+
+export interface ResponseOutputItemAddedEvent extends ServerEventBase {
+  type: "response.output_item.added";
+  response_id?: string;
+  output_index?: number;
+  item: RealtimeConversationItem;
+}
+
+export interface ResponseOutputItemDoneEvent extends ServerEventBase {
+  type: "response.output_item.done";
+  response_id?: string;
+  output_index?: number;
+  item: RealtimeConversationItem;
+}
+
+export interface ResponseContentPartAddedEvent extends ServerEventBase, ResponsePartRef {
+  type: "response.content_part.added";
+  part: RealtimeContentPart;
+}
+
+export interface ResponseContentPartDoneEvent extends ServerEventBase, ResponsePartRef {
+  type: "response.content_part.done";
+  part: RealtimeContentPart;
+}
+
+export interface ResponseTextDeltaEvent extends ServerEventBase, ResponsePartRef {
+  type: "response.text.delta";
+  delta: string;
+}
+
+export interface ResponseTextDoneEvent extends ServerEventBase, ResponsePartRef {
+  type: "response.text.done";
+  text: string;
+}
+
+export interface ResponseAudioDeltaEvent extends ServerEventBase, ResponsePartRef {
+  type: "response.audio.delta";
+  delta: string; // base64 PCM16
+}
+
+export interface ResponseAudioDoneEvent extends ServerEventBase, ResponsePartRef {
+  type: "response.audio.done";
+}
+
+export interface ResponseAudioTranscriptDeltaEvent extends ServerEventBase, ResponsePartRef {
+  type: "response.audio_transcript.delta";
+  delta: string;
+}
+
+export interface ResponseAudioTranscriptDoneEvent extends ServerEventBase, ResponsePartRef {
+  type: "response.audio_transcript.done";
+  transcript: string;
+}
+
+export interface ResponseFunctionCallArgumentsDeltaEvent extends ServerEventBase, ResponsePartRef {
+  type: "response.function_call_arguments.delta";
+  call_id: string;
+  delta: string;
+}
+
+export interface ResponseFunctionCallArgumentsDoneEvent extends ServerEventBase, ResponsePartRef {
+  type: "response.function_call_arguments.done";
+  call_id: string;
+  name?: string;
+  arguments: string;
+}
+
+// input_audio_buffer.*
+export interface InputAudioBufferSpeechStartedEvent extends ServerEventBase {
+  type: "input_audio_buffer.speech_started";
+  audio_start_ms?: number;
+  item_id?: string;
+}
+
+export interface InputAudioBufferSpeechStoppedEvent extends ServerEventBase {
+  type: "input_audio_buffer.speech_stopped";
+  audio_end_ms?: number;
+  item_id?: string;
+}
+
+export interface InputAudioBufferCommittedEvent extends ServerEventBase {
+  type: "input_audio_buffer.committed";
+  item_id: string;
+  previous_item_id?: string | null;
+}
+
+export interface InputAudioBufferClearedEvent extends ServerEventBase {
+  type: "input_audio_buffer.cleared";
+}
+
+// conversation.item.*
+export interface ConversationItemCreatedEvent extends ServerEventBase {
+  type: "conversation.item.created";
+  previous_item_id?: string | null;
+  item: RealtimeConversationItem;
+}
+
+export interface ConversationItemInputAudioTranscriptionDeltaEvent extends ServerEventBase {
+  type: "conversation.item.input_audio_transcription.delta";
+  item_id: string;
+  content_index?: number;
+  delta: string;
+}
+
+export interface ConversationItemInputAudioTranscriptionCompletedEvent extends ServerEventBase {
+  type: "conversation.item.input_audio_transcription.completed";
+  item_id: string;
+  content_index?: number;
+  transcript: string;
+}
+
+export interface ConversationItemInputAudioTranscriptionFailedEvent extends ServerEventBase {
+  type: "conversation.item.input_audio_transcription.failed";
+  item_id: string;
+  content_index?: number;
+  error: RealtimeErrorDetails;
+}
+
+export interface ConversationItemTruncatedEvent extends ServerEventBase {
+  type: "conversation.item.truncated";
+  item_id: string;
+  content_index: number;
+  audio_end_ms: number;
+}
+
+export interface ConversationItemDeletedEvent extends ServerEventBase {
+  type: "conversation.item.deleted";
+  item_id: string;
+}
+
+// output_audio_buffer.* (WebRTC only: the server owns the playback buffer)
+export interface OutputAudioBufferStartedEvent extends ServerEventBase {
+  type: "output_audio_buffer.started";
+  response_id?: string;
+}
+
+export interface OutputAudioBufferStoppedEvent extends ServerEventBase {
+  type: "output_audio_buffer.stopped";
+  response_id?: string;
+}
+
+export interface OutputAudioBufferClearedEvent extends ServerEventBase {
+  type: "output_audio_buffer.cleared";
+  response_id?: string;
+}
+
+// error / rate limits
+export interface ServerErrorEvent extends ServerEventBase {
+  type: "error";
+  error: RealtimeErrorDetails;
+}
+
+export interface RateLimitsUpdatedEvent extends ServerEventBase {
+  type: "rate_limits.updated";
+  rate_limits: Array<{ name: string; limit: number; remaining: number; reset_seconds: number }>;
+}
+
+export type RealtimeServerEvent =
+  | SessionCreatedEvent
+  | SessionUpdatedEvent
+  | ResponseCreatedEvent
+  | ResponseDoneEvent
+  | ResponseOutputItemAddedEvent
+  | ResponseOutputItemDoneEvent
+  | ResponseContentPartAddedEvent
+  | ResponseContentPartDoneEvent
+  | ResponseTextDeltaEvent
+  | ResponseTextDoneEvent
+  | ResponseAudioDeltaEvent
+  | ResponseAudioDoneEvent
+  | ResponseAudioTranscriptDeltaEvent
+  | ResponseAudioTranscriptDoneEvent
+  | ResponseFunctionCallArgumentsDeltaEvent
+  | ResponseFunctionCallArgumentsDoneEvent
+  | InputAudioBufferSpeechStartedEvent
+  | InputAudioBufferSpeechStoppedEvent
+  | InputAudioBufferCommittedEvent
+  | InputAudioBufferClearedEvent
+  | ConversationItemCreatedEvent
+  | ConversationItemInputAudioTranscriptionDeltaEvent
+  | ConversationItemInputAudioTranscriptionCompletedEvent
+  | ConversationItemInputAudioTranscriptionFailedEvent
+  | ConversationItemTruncatedEvent
+  | ConversationItemDeletedEvent
+  | OutputAudioBufferStartedEvent
+  | OutputAudioBufferStoppedEvent
+  | OutputAudioBufferClearedEvent
+  | ServerErrorEvent
+  | RateLimitsUpdatedEvent;
+
+export type RealtimeServerEventType = RealtimeServerEvent["type"];
+
+export type RealtimeServerEventOf<T extends RealtimeServerEventType> = Extract<RealtimeServerEvent, { type: T }>;
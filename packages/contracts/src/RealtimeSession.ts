@@ -0,0 +1,55 @@
+// Session settings sent to the OpenAI Realtime API with `session.update`.
+
+export type RealtimeVoice =
+  | "alloy"
+  | "ash"
+  | "ballad"
+  | "coral"
+  | "echo"
+  | "sage"
+  | "shimmer"
+  | "verse"
+  | "marin"
+  | "cedar";
+
+export interface RealtimeFunctionTool {
+  type: "function";
+  name: string;
+  description?: string;
+  /** JSON Schema for the arguments */
+  parameters: Record<string, unknown>;
+}
+
+export interface RealtimeServerVad {
+  type: "server_vad";
+  threshold?: number;
+  prefix_padding_ms?: number;
+  silence_duration_ms?: number;
+  create_response?: boolean;
+  interrupt_response?: boolean;
+}
+
+export interface RealtimeSemanticVad {
+  type: "semantic_vad";
+  eagerness?: "low" | "medium" | "high" | "auto";
+  create_response?: boolean;
+  interrupt_response?: boolean;
+}
+
+/** `null` turns server-side turn detection off */
+export type RealtimeTurnDetection = RealtimeServerVad | RealtimeSemanticVad | null;
+
+/**
+ * Turn detection as configured for an agent or deployment. "manual" is
+ * push-to-talk: server turn detection is off and the client commits input.
+ */
+export type TurnDetectionConfig = RealtimeServerVad | RealtimeSemanticVad | { type: "manual" };
+
+/** Settings that can be changed while a session is running */
+export interface RealtimeSessionSettings {
+  instructions?: string;
+  voice?: RealtimeVoice;
+  tools?: RealtimeFunctionTool[];
+  turn_detection?: RealtimeTurnDetection;
+  temperature?: number;
+}
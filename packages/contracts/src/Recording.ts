@@ -0,0 +1,46 @@
+// Session audio recordings: WAV files kept in a RecordingStorage, with their metadata linked to the session.
+
+/** A side of the call: the microphone or the model */
+export type AudioSource = "user" | "assistant";
+
+/** Which side of the call a file holds; "stereo" has the user on the left channel and the assistant on the right */
+export type RecordingTrack = AudioSource | "stereo";
+
+/** An encoded recording ready to be stored */
+export interface RecordingFile {
+  track: RecordingTrack;
+  /** "audio/wav" */
+  contentType: string;
+  data: Uint8Array;
+  sampleRate: number;
+  channels: number;
+  durationMs: number;
+}
+
+export interface StoredRecordingObject {
+  /** Where the object lives in the storage, e.g. a path or bucket key */
+  key: string;
+  /** Set when the storage can serve the object directly */
+  url?: string;
+}
+
+/** Blob storage for recordings, e.g. a local directory or an S3 bucket */
+export interface RecordingStorage {
+  put(key: string, data: Uint8Array, contentType: string): Promise<StoredRecordingObject>;
+  delete?(key: string): Promise<void>;
+}
+
+/** A stored recording, linked to its session */
+export interface SessionRecording {
+  id: string;
+  sessionId: string;
+  track: RecordingTrack;
+  storageKey: string;
+  url?: string;
+  contentType: string;
+  sampleRate: number;
+  channels: number;
+  durationMs: number;
+  bytes: number;
+  createdAt: number;
+}
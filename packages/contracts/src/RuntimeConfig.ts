@@ -1,11 +1,20 @@
-export type TransportKind = "webrtc" | "websocket";
+import { TurnDetectionConfig } from "./RealtimeSession";
+
+export type BuiltInTransportKind = "webrtc" | "websocket" | "websocket-node";
+
+/** A built-in kind, or any kind added with `registerTransport` */
+export type TransportKind = BuiltInTransportKind | (string & {});
 
 export interface FeatureFlags {
   transport: TransportKind;
+  /** Skip WebRTC and connect over WebSocket straight away */
+  webrtcFallbackForce?: boolean;
   bargeIn: boolean;
   captions: boolean;
   tools: boolean;
   memory: "off" | "short" | "long";
+  /** Record both sides of the call for QA; recordings are only uploaded for consented sessions */
+  recording?: boolean;
 }
 
 export interface PolicyConfig {
@@ -24,6 +33,8 @@ export interface RuntimeConfig {
   baseUrl?: string;
   featureFlags: FeatureFlags;
   policies: PolicyConfig;
+  /** Server VAD with the platform defaults when omitted */
+  turnDetection?: TurnDetectionConfig;
 }
 
 export interface PublicRuntimeConfig {
@@ -31,6 +42,7 @@ export interface PublicRuntimeConfig {
   baseUrl?: string;
   featureFlags: FeatureFlags;
   policies: PolicyConfig;
+  turnDetection?: TurnDetectionConfig;
   // Note: openaiKey is intentionally excluded for security
 }
 
@@ -39,6 +51,23 @@ export interface DatabaseConfig {
   directUrl?: string;
 }
 
+export interface IceServerConfig {
+  urls: string | string[];
+  username?: string;
+  credential?: string;
+}
+
+export interface IceConfig {
+  /** STUN/TURN servers handed to every client as-is */
+  iceServers: IceServerConfig[];
+  /** TURN servers that get short-lived credentials minted per session from a shared secret */
+  turn?: {
+    urls: string[];
+    sharedSecret: string;
+    ttlSeconds: number;
+  };
+}
+
 export interface AuthConfig {
   supabase?: {
     url: string;
@@ -50,3 +79,10 @@ export interface AuthConfig {
     };
   };
 }
+
+export interface RecordingConfig {
+  /** Directory recordings are written to when no other `RecordingStorage` is configured */
+  directory: string;
+  /** Largest upload accepted per file, in bytes */
+  maxBytes: number;
+}
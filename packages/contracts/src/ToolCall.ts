@@ -8,9 +8,26 @@ export interface ToolCall {
   };
 }
 
+/** One way tool arguments fail their tool's JSON Schema */
+export interface ToolArgumentError {
+  /** JSON Pointer into the arguments, e.g. "/location"; "" is the arguments as a whole */
+  path: string;
+  message: string;
+}
+
+/**
+ * Why a tool call failed, when the gateway can tell: the arguments did not
+ * match, an attempt ran past its deadline, the tool's circuit breaker is open
+ * (the call was refused without running), or the tool itself failed.
+ */
+export type ToolFailureCode = "invalid_arguments" | "timeout" | "circuit_open" | "tool_error";
+
 export interface ToolCallResponse {
   id: string;
   ok: boolean;
   result?: unknown;
   error?: string;
+  errorCode?: ToolFailureCode;
+  /** Set when the arguments did not match the tool's parameters, so the model can correct them */
+  validationErrors?: ToolArgumentError[];
 }
@@ -1,10 +1,94 @@
 import { TransportKind } from "./RuntimeConfig";
+import { AudioSource } from "./Recording";
+
+export type TransportConnectionState = "connected" | "disconnected" | "failed";
+
+export interface TransportStateChange {
+  state: TransportConnectionState;
+  reason?: string;
+}
+
+/** The nominated ICE candidate pair of a WebRTC connection, from `RTCPeerConnection.getStats()` */
+export interface IceCandidatePairStats {
+  state: string;
+  localCandidateType?: string;
+  remoteCandidateType?: string;
+  protocol?: string;
+  /** Transport to the TURN server when the local candidate is a relay */
+  relayProtocol?: string;
+  currentRoundTripTimeMs?: number;
+  availableOutgoingBitrate?: number;
+  bytesSent?: number;
+  bytesReceived?: number;
+}
+
+/** The ephemeral client secret a transport fetched to open its session */
+export interface TransportSessionToken {
+  sessionId: string | null;
+  /** `client_secret.expires_at` as returned by the session route */
+  expiresAt: string | number;
+}
+
+export interface TransportConnectOptions {
+  token: string;
+  onEvent: (event: unknown) => void;
+  onStateChange?: (change: TransportStateChange) => void;
+  /** Called by WebRTC transports each time ICE connects */
+  onIceStats?: (stats: IceCandidatePairStats) => void;
+  /** Skip microphone capture and audio playback; the session exchanges text only */
+  textOnly?: boolean;
+  /** Called each time the transport fetches a session token, so its expiry can be tracked */
+  onSessionToken?: (token: TransportSessionToken) => void;
+  /**
+   * Called with 24 kHz mono PCM16 of the microphone ("user") and of the model
+   * ("assistant") as it flows through the transport, e.g. to record the call.
+   * Transports that handle no audio never call it.
+   */
+  onAudio?: (source: AudioSource, pcm: Int16Array) => void;
+  /**
+   * Called once the transport has its token and microphone and starts
+   * negotiating the connection, so connect deadlines leave out the time a
+   * user takes to answer the permission prompt
+   */
+  onNegotiating?: () => void;
+  /**
+   * Aborted when the caller gives up on this connect, e.g. a fallback took
+   * over; the transport then releases anything it acquires late, such as the
+   * microphone
+   */
+  signal?: AbortSignal;
+}
+
+/** What a transport can do, used to pick one that fits the session */
+export interface TransportCapabilities {
+  /** Streams microphone (or caller-supplied) audio to the model */
+  audioInput: boolean;
+  /** Delivers model audio, played locally or handed to the caller */
+  audioOutput: boolean;
+  /** Can run a text-only session with no audio at all */
+  textOnly: boolean;
+  /** Runs outside the browser (Node services, telephony bridges) */
+  serverSide: boolean;
+}
+
+export interface TransportPlaybackPosition {
+  itemId: string;
+  /** Milliseconds of this item's audio the listener has heard */
+  playedMs: number;
+}
 
 export interface Transport {
   kind: TransportKind;
-  connect(opts: { token: string; onEvent: (event: unknown) => void }): Promise<void>;
+  connect(opts: TransportConnectOptions): Promise<void>;
   send(event: unknown): void;
   close(): Promise<void>;
+  /**
+   * Transports that render assistant audio locally report what is audible
+   * right now, or null when nothing is playing.
+   */
+  getPlaybackPosition?(): TransportPlaybackPosition | null;
+  /** Stop local playback immediately and drop queued audio; returns where playback stopped */
+  clearPlayback?(): TransportPlaybackPosition | null;
 }
 
 export interface TransportFactory {
@@ -6,3 +6,8 @@ export * from "./AgentConfig";
 export * from "./Events";
 export * from "./PersistenceStore";
 export * from "./ToolCall";
+export * from "./RealtimeServerEvents";
+export * from "./RealtimeSession";
+export * from "./Conversation";
+export * from "./EventRecording";
+export * from "./Recording";
@@ -0,0 +1,17 @@
+module.exports = {
+  preset: "ts-jest",
+  testEnvironment: "node",
+  roots: ["<rootDir>/src"],
+  testMatch: ["**/__tests__/**/*.ts", "**/?(*.)+(spec|test).ts"],
+  // Workspace packages build to ES modules; test against their sources instead
+  moduleNameMapper: {
+    "^@thrivereflections/realtime-([a-z-]+)$": "<rootDir>/../$1/src",
+    "^@thrivereflections/realtime-([a-z-]+)/([a-z-]+)$": "<rootDir>/../$1/src/$2",
+  },
+  transform: {
+    "^.+\\.ts$": "ts-jest",
+  },
+  collectCoverageFrom: ["src/**/*.ts", "!src/**/*.d.ts"],
+  coverageDirectory: "coverage",
+  coverageReporters: ["text", "lcov", "html"],
+};
@@ -0,0 +1,90 @@
+import { RealtimeServerEvent, TransportPlaybackPosition } from "@thrivereflections/realtime-contracts";
+import { BargeInController, BargeInControllerDeps } from "../barge-in-controller";
+
+const speechStarted: RealtimeServerEvent = { type: "input_audio_buffer.speech_started", audio_start_ms: 1200 };
+const responseCreated: RealtimeServerEvent = { type: "response.created", response: { id: "resp_1" } };
+
+function setup(transport: Omit<BargeInControllerDeps["transport"], "send">, enabled = true) {
+  const sent: Array<Record<string, unknown>> = [];
+  const onInterrupted = jest.fn();
+  const onSpeechIgnored = jest.fn();
+  const controller = new BargeInController(
+    {
+      transport: { ...transport, send: (event) => sent.push(event as Record<string, unknown>) },
+      enabled,
+      logLevel: "error",
+    },
+    { onInterrupted, onSpeechIgnored }
+  );
+  return { controller, sent, onInterrupted, onSpeechIgnored };
+}
+
+/** A transport that plays audio locally (WebSocket) */
+function localPlayback(position: TransportPlaybackPosition | null, stoppedAt = position) {
+  return { getPlaybackPosition: jest.fn(() => position), clearPlayback: jest.fn(() => stoppedAt) };
+}
+
+describe("BargeInController", () => {
+  it("cancels the response and truncates the item where playback stopped", () => {
+    const playback = localPlayback({ itemId: "item_1", playedMs: 1450 }, { itemId: "item_1", playedMs: 1480 });
+    const { controller, sent, onInterrupted } = setup(playback);
+
+    controller.handleEvent(responseCreated);
+    controller.handleEvent(speechStarted);
+
+    expect(playback.clearPlayback).toHaveBeenCalled();
+    expect(sent).toEqual([
+      { type: "response.cancel", response_id: "resp_1" },
+      { type: "conversation.item.truncate", item_id: "item_1", content_index: 0, audio_end_ms: 1480 },
+    ]);
+    expect(onInterrupted).toHaveBeenCalledWith({ responseId: "resp_1", itemId: "item_1", audioEndMs: 1480 });
+  });
+
+  it("truncates at the last known position when clearing does not report one", () => {
+    const { controller, sent } = setup(localPlayback({ itemId: "item_1", playedMs: 900 }, null));
+
+    controller.handleEvent({ type: "response.done", response: { id: "resp_0" } });
+    controller.handleEvent(speechStarted);
+
+    expect(sent).toEqual([
+      { type: "conversation.item.truncate", item_id: "item_1", content_index: 0, audio_end_ms: 900 },
+    ]);
+  });
+
+  it("does nothing while the assistant is silent and no response is running", () => {
+    const { controller, sent, onInterrupted } = setup(localPlayback(null));
+
+    controller.handleEvent(responseCreated);
+    controller.handleEvent({ type: "response.done", response: { id: "resp_1" } });
+    controller.handleEvent(speechStarted);
+
+    expect(sent).toEqual([]);
+    expect(onInterrupted).not.toHaveBeenCalled();
+  });
+
+  it("leaves the response running when disabled", () => {
+    const playback = localPlayback({ itemId: "item_1", playedMs: 300 });
+    const { controller, sent, onSpeechIgnored } = setup(playback, false);
+
+    controller.handleEvent(responseCreated);
+    controller.handleEvent(speechStarted);
+
+    expect(sent).toEqual([]);
+    expect(playback.clearPlayback).not.toHaveBeenCalled();
+    expect(onSpeechIgnored).toHaveBeenCalledTimes(1);
+  });
+
+  it("clears the server's output buffer when the transport has no local playback", () => {
+    const { controller, sent, onInterrupted } = setup({});
+
+    controller.handleEvent({ type: "output_audio_buffer.started", response_id: "resp_1" });
+    controller.handleEvent(speechStarted);
+
+    expect(sent).toEqual([{ type: "output_audio_buffer.clear" }]);
+    expect(onInterrupted).toHaveBeenCalledWith({ responseId: null, itemId: null, audioEndMs: null });
+
+    controller.handleEvent({ type: "output_audio_buffer.cleared", response_id: "resp_1" });
+    controller.handleEvent(speechStarted);
+    expect(sent).toHaveLength(1);
+  });
+});
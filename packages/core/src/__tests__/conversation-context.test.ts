@@ -0,0 +1,88 @@
+import { ConversationContextBuffer, isReplayedItem } from "../conversation-context";
+
+describe("ConversationContextBuffer", () => {
+  it("replays transcripts and completed tool calls in order", () => {
+    const buffer = new ConversationContextBuffer();
+
+    buffer.observe({
+      type: "conversation.item.input_audio_transcription.completed",
+      transcript: " Where is my order? ",
+    });
+    buffer.observe({
+      type: "response.function_call_arguments.done",
+      call_id: "call_1",
+      name: "lookup_order",
+      arguments: '{"id":42}',
+    });
+    buffer.observe({
+      type: "conversation.item.created",
+      item: { type: "function_call_output", call_id: "call_1", output: '{"status":"shipped"}' },
+    });
+    buffer.observe({ type: "response.audio_transcript.done", transcript: "It has shipped." });
+
+    expect(buffer.toReplayEvents()).toEqual([
+      {
+        type: "conversation.item.create",
+        item: {
+          id: "replay_0",
+          type: "message",
+          role: "user",
+          content: [{ type: "input_text", text: "Where is my order?" }],
+        },
+      },
+      {
+        type: "conversation.item.create",
+        item: { type: "function_call", call_id: "call_1", name: "lookup_order", arguments: '{"id":42}' },
+      },
+      {
+        type: "conversation.item.create",
+        item: { type: "function_call_output", call_id: "call_1", output: '{"status":"shipped"}' },
+      },
+      {
+        type: "conversation.item.create",
+        item: {
+          id: "replay_2",
+          type: "message",
+          role: "assistant",
+          content: [{ type: "text", text: "It has shipped." }],
+        },
+      },
+    ]);
+  });
+
+  it("skips tool calls that never got an output", () => {
+    const buffer = new ConversationContextBuffer();
+
+    buffer.observe({
+      type: "conversation.item.created",
+      item: { type: "function_call", call_id: "call_1", name: "lookup_order", arguments: "{}" },
+    });
+
+    expect(buffer.getEntries()).toHaveLength(1);
+    expect(buffer.toReplayEvents()).toEqual([]);
+  });
+
+  it("records typed input but not items it replayed itself", () => {
+    const buffer = new ConversationContextBuffer();
+    buffer.observe({ type: "response.text.done", text: "Hello!" });
+
+    const [replayed] = buffer.toReplayEvents() as Array<{ item: { id: string } }>;
+    expect(isReplayedItem(replayed.item)).toBe(true);
+
+    buffer.observe({ type: "conversation.item.created", item: { ...replayed.item, role: "user" } });
+    buffer.observe({
+      type: "conversation.item.created",
+      item: { id: "item_1", type: "message", role: "user", content: [{ type: "input_text", text: "Thanks" }] },
+    });
+
+    expect(buffer.getEntries().map((entry) => entry.kind === "message" && entry.text)).toEqual(["Hello!", "Thanks"]);
+  });
+
+  it("keeps only the most recent maxEntries", () => {
+    const buffer = new ConversationContextBuffer({ maxEntries: 2 });
+
+    ["one", "two", "three"].forEach((text) => buffer.observe({ type: "response.text.done", text }));
+
+    expect(buffer.getEntries().map((entry) => entry.kind === "message" && entry.text)).toEqual(["two", "three"]);
+  });
+});
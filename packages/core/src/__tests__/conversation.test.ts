@@ -0,0 +1,171 @@
+import { RealtimeServerEvent } from "@thrivereflections/realtime-contracts";
+import { Conversation } from "../conversation";
+import { RealtimeEventRouter, Transcript } from "../event-router";
+
+function apply(conversation: Conversation, events: unknown[]) {
+  events.forEach((event) => conversation.handleEvent(event as RealtimeServerEvent));
+}
+
+const spokenTurn = [
+  {
+    type: "conversation.item.created",
+    previous_item_id: null,
+    item: { id: "user_1", type: "message", role: "user", status: "completed", content: [{ type: "input_audio" }] },
+  },
+  {
+    type: "response.output_item.added",
+    response_id: "resp_1",
+    item: { id: "asst_1", type: "message", role: "assistant", status: "in_progress", content: [] },
+  },
+  {
+    type: "conversation.item.created",
+    previous_item_id: "user_1",
+    item: { id: "asst_1", type: "message", role: "assistant", status: "in_progress", content: [] },
+  },
+  { type: "response.audio_transcript.delta", response_id: "resp_1", item_id: "asst_1", delta: "Sure, " },
+  { type: "response.audio_transcript.delta", response_id: "resp_1", item_id: "asst_1", delta: "it's sunny." },
+  // The user's transcription finishes after the assistant started answering
+  { type: "conversation.item.input_audio_transcription.completed", item_id: "user_1", transcript: "Weather? " },
+  { type: "response.audio_transcript.done", response_id: "resp_1", item_id: "asst_1", transcript: "Sure, it's sunny." },
+  { type: "response.done", response: { id: "resp_1", status: "completed" } },
+];
+
+describe("Conversation", () => {
+  it("keeps text and transcripts on the item they belong to", () => {
+    const conversation = new Conversation();
+    apply(conversation, spokenTurn);
+
+    expect(conversation.getItems()).toEqual([
+      expect.objectContaining({
+        id: "user_1",
+        previousItemId: null,
+        role: "user",
+        status: "completed",
+        text: "Weather?",
+        modality: "audio",
+        transcriptionStatus: "completed",
+      }),
+      expect.objectContaining({
+        id: "asst_1",
+        previousItemId: "user_1",
+        role: "assistant",
+        status: "completed",
+        text: "Sure, it's sunny.",
+        responseId: "resp_1",
+      }),
+    ]);
+  });
+
+  it("orders items by previous_item_id", () => {
+    const conversation = new Conversation();
+    apply(conversation, [
+      { type: "conversation.item.created", previous_item_id: null, item: { id: "a", type: "message", role: "user" } },
+      { type: "conversation.item.created", previous_item_id: "a", item: { id: "c", type: "message", role: "user" } },
+      { type: "conversation.item.created", previous_item_id: "a", item: { id: "b", type: "message", role: "user" } },
+    ]);
+
+    expect(conversation.getItems().map((item) => item.id)).toEqual(["a", "b", "c"]);
+  });
+
+  it("tracks function calls, their arguments and outputs", () => {
+    const conversation = new Conversation();
+    apply(conversation, [
+      {
+        type: "response.output_item.added",
+        response_id: "resp_1",
+        item: { id: "fc_1", type: "function_call", call_id: "call_1", name: "lookup", arguments: "" },
+      },
+      { type: "response.function_call_arguments.delta", item_id: "fc_1", call_id: "call_1", delta: '{"id":' },
+      { type: "response.function_call_arguments.delta", item_id: "fc_1", call_id: "call_1", delta: "7}" },
+      {
+        type: "conversation.item.created",
+        previous_item_id: "fc_1",
+        item: { id: "out_1", type: "function_call_output", call_id: "call_1", output: '{"ok":true}' },
+      },
+    ]);
+
+    expect(conversation.findByCallId("call_1")).toMatchObject({ name: "lookup", arguments: '{"id":7}' });
+    expect(conversation.findByCallId("call_1", "function_call_output")).toMatchObject({ output: '{"ok":true}' });
+  });
+
+  it("marks truncated and unfinished items", () => {
+    const conversation = new Conversation();
+    apply(conversation, [
+      ...spokenTurn.slice(0, 4),
+      { type: "conversation.item.truncated", item_id: "asst_1", content_index: 0, audio_end_ms: 800 },
+      {
+        type: "response.output_item.added",
+        response_id: "resp_2",
+        item: { id: "asst_2", type: "message", role: "assistant" },
+      },
+      { type: "response.done", response: { id: "resp_2", status: "cancelled" } },
+    ]);
+
+    expect(conversation.getItem("asst_1")).toMatchObject({ status: "truncated", audioEndMs: 800, text: "Sure, " });
+    expect(conversation.getItem("asst_2")).toMatchObject({ status: "incomplete" });
+  });
+
+  it("skips replayed context and removes deleted items", () => {
+    const conversation = new Conversation();
+    apply(conversation, [
+      { type: "conversation.item.created", previous_item_id: null, item: { id: "replay_0", type: "message" } },
+      { type: "conversation.item.created", previous_item_id: null, item: { id: "a", type: "message", role: "user" } },
+      { type: "conversation.item.deleted", item_id: "a" },
+    ]);
+
+    expect(conversation.size).toBe(0);
+  });
+
+  it("notifies subscribers of changes", () => {
+    const conversation = new Conversation();
+    const changes: string[] = [];
+    const unsubscribe = conversation.subscribe((item, change) => changes.push(`${change}:${item.id}`));
+
+    apply(conversation, spokenTurn.slice(0, 2));
+    unsubscribe();
+    apply(conversation, spokenTurn.slice(2));
+
+    expect(changes).toEqual(["added:user_1", "added:asst_1"]);
+  });
+
+  it("round-trips through serialize", () => {
+    const conversation = new Conversation();
+    apply(conversation, [{ type: "session.created", session: { id: "sess_1" } }, ...spokenTurn]);
+
+    const restored = Conversation.deserialize(conversation.serialize());
+
+    expect(restored.sessionId).toBe("sess_1");
+    expect(restored.getItems()).toEqual(JSON.parse(JSON.stringify(conversation.getItems())));
+    expect(() => Conversation.fromSnapshot({ ...conversation.snapshot(), version: 2 as 1 })).toThrow(
+      "Unsupported conversation snapshot version 2"
+    );
+  });
+});
+
+describe("RealtimeEventRouter with interleaved items", () => {
+  it("emits each transcript with the text of its own item", () => {
+    const transcripts: Transcript[] = [];
+    const router = new RealtimeEventRouter({ onTranscript: (t) => transcripts.push(t) }, { logLevel: "error" });
+
+    spokenTurn.forEach((event) => router.routeEvent(event));
+
+    expect(transcripts.map(({ id, role, text }) => ({ id, role, text }))).toEqual([
+      { id: "user_1", role: "user", text: "Weather?" },
+      { id: "asst_1", role: "assistant", text: "Sure, it's sunny." },
+    ]);
+    expect(router.conversation.size).toBe(2);
+  });
+
+  it("flags a delivered transcript when its item is truncated", () => {
+    const interrupted: Transcript[] = [];
+    const router = new RealtimeEventRouter(
+      { onTranscriptInterrupted: (t) => interrupted.push(t) },
+      { logLevel: "error" }
+    );
+
+    spokenTurn.forEach((event) => router.routeEvent(event));
+    router.routeEvent({ type: "conversation.item.truncated", item_id: "asst_1", content_index: 0, audio_end_ms: 500 });
+
+    expect(interrupted).toEqual([expect.objectContaining({ id: "asst_1", interrupted: true })]);
+  });
+});
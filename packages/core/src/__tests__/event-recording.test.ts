@@ -0,0 +1,208 @@
+import { readFileSync } from "fs";
+import { join } from "path";
+import { RuntimeConfig, Transport, TransportConnectOptions } from "@thrivereflections/realtime-contracts";
+import { BargeInController } from "../barge-in-controller";
+import { EventRecorder, parseEventRecording, serializeEventRecording } from "../event-recorder";
+import { createReplayTransport, replayEvents } from "../event-replayer";
+import { RealtimeEventRouter, ToolCall, Transcript } from "../event-router";
+import { initRealtime } from "../initRealtime";
+import { createFallbackTransport } from "../transports/fallback";
+
+// Recorded against the mock server: a weather tool call, then a spoken answer
+const weatherFixture = readFileSync(join(__dirname, "fixtures/weather-tool-call.jsonl"), "utf8");
+
+const config: RuntimeConfig = {
+  model: "gpt-realtime",
+  openaiKey: "",
+  featureFlags: { transport: "websocket", bargeIn: false, captions: true, tools: true, memory: "off" },
+  policies: {
+    maxPayloadBytes: 524288,
+    maxSessionMinutes: 15,
+    allowUnconsentedStorage: false,
+    rateLimit: { sessions: { max: 10, window: 60 }, toolCalls: { max: 10, window: 60 } },
+  },
+};
+
+function createFakeTransport() {
+  let options: TransportConnectOptions | null = null;
+  const sent: unknown[] = [];
+  const transport: Transport = {
+    kind: "websocket",
+    connect: async (opts) => {
+      options = opts;
+    },
+    send: (event) => sent.push(event),
+    close: async () => undefined,
+  };
+  return { transport, sent, receive: (event: unknown) => options?.onEvent(event) };
+}
+
+describe("EventRecorder", () => {
+  it("records both directions with timestamps and strips audio", () => {
+    let now = 1000;
+    const lines: string[] = [];
+    const recorder = new EventRecorder({ now: () => now, onLine: (line) => lines.push(line) });
+    const fake = createFakeTransport();
+    const transport = recorder.wrapTransport(fake.transport);
+    const received: unknown[] = [];
+
+    void transport.connect({ token: "t", onEvent: (event) => received.push(event) });
+    now = 1040;
+    fake.receive({ type: "response.audio.delta", item_id: "item_1", delta: "AAAA" });
+    now = 1100;
+    transport.send({ type: "input_audio_buffer.append", audio: "BBBB" });
+
+    expect(received).toEqual([{ type: "response.audio.delta", item_id: "item_1", delta: "AAAA" }]);
+    expect(fake.sent).toEqual([{ type: "input_audio_buffer.append", audio: "BBBB" }]);
+    expect(recorder.toRecording()).toEqual({
+      header: { version: 1, startedAt: 1000, audio: "stripped" },
+      events: [
+        { t: 40, direction: "inbound", event: { type: "response.audio.delta", item_id: "item_1", delta: "" } },
+        { t: 100, direction: "outbound", event: { type: "input_audio_buffer.append", audio: "" } },
+      ],
+    });
+    expect(lines.join("\n") + "\n").toBe(recorder.toJSONL());
+  });
+
+  it("keeps audio when asked and stops at maxEvents", () => {
+    const recorder = new EventRecorder({ includeAudio: true, maxEvents: 1 });
+
+    recorder.recordInbound({ type: "response.audio.delta", delta: "AAAA" });
+    recorder.recordInbound({ type: "response.audio.done" });
+
+    expect(recorder.size).toBe(1);
+    expect(recorder.toRecording().events[0].event).toEqual({ type: "response.audio.delta", delta: "AAAA" });
+  });
+
+  it("follows a fallback transport so barge-in clears local playback after the switch", async () => {
+    const webrtc: Transport = {
+      kind: "webrtc",
+      connect: async () => {
+        throw new Error("SDP answer rejected");
+      },
+      send: jest.fn(),
+      close: async () => undefined,
+    };
+    const websocket = createFakeTransport();
+    const clearPlayback = jest.fn(() => ({ itemId: "item_1", playedMs: 640 }));
+    Object.assign(websocket.transport, {
+      getPlaybackPosition: () => ({ itemId: "item_1", playedMs: 600 }),
+      clearPlayback,
+    });
+    const fallback = createFallbackTransport(
+      "webrtc",
+      (kind) => (kind === "webrtc" ? webrtc : websocket.transport),
+      {}
+    );
+    const transport = new EventRecorder().wrapTransport(fallback);
+
+    expect(transport.kind).toBe("webrtc");
+    expect(transport.clearPlayback).toBeUndefined();
+    await transport.connect({ token: "t", onEvent: () => undefined });
+    expect(transport.kind).toBe("websocket");
+
+    const bargeIn = new BargeInController({ transport, enabled: true, logLevel: "error" });
+    bargeIn.handleEvent({ type: "response.created", response: { id: "resp_1" } });
+    bargeIn.handleEvent({ type: "input_audio_buffer.speech_started", audio_start_ms: 900 });
+
+    expect(clearPlayback).toHaveBeenCalled();
+    expect(websocket.sent).toEqual([
+      { type: "response.cancel", response_id: "resp_1" },
+      { type: "conversation.item.truncate", item_id: "item_1", content_index: 0, audio_end_ms: 640 },
+    ]);
+  });
+
+  it("round-trips through JSONL", () => {
+    const recording = parseEventRecording(weatherFixture);
+
+    expect(parseEventRecording(serializeEventRecording(recording))).toEqual(recording);
+    expect(() => parseEventRecording('{"version":2}')).toThrow("Unsupported event recording version 2");
+  });
+});
+
+describe("replayEvents", () => {
+  it("reproduces the router's output from a fixture", async () => {
+    const transcripts: Transcript[] = [];
+    const toolCalls: ToolCall[] = [];
+    const invalid: unknown[] = [];
+    const router = new RealtimeEventRouter(
+      {
+        onTranscript: (t) => transcripts.push(t),
+        onToolCall: (call) => toolCalls.push(call),
+        onInvalidEvent: (issue) => invalid.push(issue),
+      },
+      { logLevel: "error" }
+    );
+
+    await replayEvents(weatherFixture, router, { speed: Infinity });
+
+    expect(invalid).toEqual([]);
+    expect(toolCalls).toEqual([expect.objectContaining({ name: "get_weather", arguments: { city: "Paris" } })]);
+    expect(transcripts.map(({ role, text }) => ({ role, text }))).toEqual([
+      { role: "user", text: "What's the weather in Paris?" },
+      { role: "assistant", text: "It's 18 degrees and sunny in Paris." },
+    ]);
+  });
+
+  it("keeps the recorded spacing, scaled by speed", async () => {
+    jest.useFakeTimers();
+    try {
+      const recording = {
+        header: { version: 1 as const, startedAt: 0, audio: "stripped" as const },
+        events: [
+          { t: 0, direction: "inbound" as const, event: { type: "input_audio_buffer.speech_started" } },
+          { t: 1000, direction: "outbound" as const, event: { type: "response.create" } },
+          { t: 2000, direction: "inbound" as const, event: { type: "input_audio_buffer.speech_stopped" } },
+        ],
+      };
+      const inbound: unknown[] = [];
+      const outbound: unknown[] = [];
+
+      const done = replayEvents(recording, (event) => inbound.push(event), {
+        speed: 4,
+        onOutbound: (event) => outbound.push(event),
+      });
+
+      expect(inbound).toHaveLength(1);
+      await jest.advanceTimersByTimeAsync(250);
+      expect(outbound).toHaveLength(1);
+      expect(inbound).toHaveLength(1);
+      await jest.advanceTimersByTimeAsync(250);
+      await expect(done).resolves.toBe(2);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
+
+describe("createReplayTransport", () => {
+  it("drives initRealtime from a fixture, recording the session again", async () => {
+    const fixture = parseEventRecording(weatherFixture);
+    const inbound = fixture.events.filter((entry) => entry.direction === "inbound").map((entry) => entry.event);
+    const transport = createReplayTransport(fixture, { speed: Infinity });
+    const recorder = new EventRecorder();
+    const events: unknown[] = [];
+    const realtime = initRealtime(config, {
+      getToken: async () => "token",
+      transportFactory: () => transport,
+      recorder,
+      onEvent: (event) => events.push(event),
+    });
+
+    await realtime.start();
+    await expect(transport.finished).resolves.toBe(inbound.length);
+    realtime.sendText("Thanks");
+    realtime.stop();
+
+    expect(events).toEqual(inbound);
+    expect(transport.sent).toEqual([
+      expect.objectContaining({ type: "conversation.item.create" }),
+      { type: "response.create" },
+    ]);
+    const rerecorded = recorder.toRecording().events;
+    expect(rerecorded.filter((entry) => entry.direction === "inbound").map((entry) => entry.event)).toEqual(inbound);
+    expect(rerecorded.filter((entry) => entry.direction === "outbound").map((entry) => entry.event)).toEqual(
+      transport.sent
+    );
+  });
+});
@@ -0,0 +1,133 @@
+import {
+  computeBackoffDelay,
+  ConnectionStateEvent,
+  ReconnectionSupervisor,
+  ReconnectOptions,
+} from "../reconnection-supervisor";
+
+describe("computeBackoffDelay", () => {
+  const noJitter = () => 0.5;
+
+  it("doubles from initialDelayMs and caps at maxDelayMs", () => {
+    const delays = [1, 2, 3, 4, 5, 6, 7].map((attempt) => computeBackoffDelay(attempt, {}, noJitter));
+    expect(delays).toEqual([500, 1000, 2000, 4000, 8000, 15000, 15000]);
+  });
+
+  it("spreads the delay by the jitter fraction in either direction", () => {
+    expect(computeBackoffDelay(1, {}, () => 0)).toBe(350);
+    expect(computeBackoffDelay(1, {}, () => 1)).toBe(650);
+    expect(computeBackoffDelay(3, { jitter: 0.5 }, () => 0.25)).toBe(1500);
+    expect(computeBackoffDelay(3, { jitter: 0 }, () => 0)).toBe(2000);
+  });
+
+  it("honours the configured growth and never goes negative", () => {
+    expect(computeBackoffDelay(3, { initialDelayMs: 100, multiplier: 3 }, noJitter)).toBe(900);
+    expect(computeBackoffDelay(1, { jitter: 2 }, () => 0)).toBe(0);
+  });
+});
+
+function setup(options: ReconnectOptions = {}) {
+  const events: ConnectionStateEvent[] = [];
+  const establish = jest.fn(async () => undefined);
+  const replay = jest.fn(() => 3);
+  const supervisor = new ReconnectionSupervisor(
+    { maxAttempts: 3, ...options },
+    { establish, replay, onConnectionState: (event) => events.push(event), random: () => 0.5 }
+  );
+  supervisor.start();
+  return { supervisor, establish, replay, events };
+}
+
+describe("ReconnectionSupervisor", () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("rides out a disconnect shorter than the grace period", async () => {
+    const { supervisor, establish } = setup();
+
+    supervisor.handleTransportState({ state: "disconnected" });
+    await jest.advanceTimersByTimeAsync(1999);
+    supervisor.handleTransportState({ state: "connected" });
+    await jest.advanceTimersByTimeAsync(10000);
+
+    expect(establish).not.toHaveBeenCalled();
+    expect(supervisor.isReconnecting()).toBe(false);
+  });
+
+  it("reconnects after the grace period and replays context once the new session is created", async () => {
+    const { supervisor, establish, replay, events } = setup();
+
+    supervisor.handleTransportState({ state: "disconnected", reason: "network" });
+    await jest.advanceTimersByTimeAsync(2000);
+    expect(events).toEqual([{ state: "reconnecting", attempt: 1, delayMs: 500, reason: "network" }]);
+    expect(supervisor.isReconnecting()).toBe(true);
+
+    await jest.advanceTimersByTimeAsync(500);
+    expect(establish).toHaveBeenCalledTimes(1);
+    expect(replay).not.toHaveBeenCalled();
+
+    supervisor.handleEvent({ type: "session.created" });
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(replay).toHaveBeenCalledTimes(1);
+    expect(events[1]).toEqual({ state: "resumed", attempt: 1, replayedItems: 3 });
+    expect(supervisor.isReconnecting()).toBe(false);
+  });
+
+  it("backs off between failed attempts and gives up after maxAttempts", async () => {
+    const { supervisor, establish, events } = setup();
+    establish.mockRejectedValue(new Error("socket closed"));
+
+    const result = supervisor.reconnect("ice_failed");
+    await jest.advanceTimersByTimeAsync(500 + 1000 + 2000);
+
+    await expect(result).resolves.toBe(false);
+    expect(establish).toHaveBeenCalledTimes(3);
+    expect(events).toEqual([
+      { state: "reconnecting", attempt: 1, delayMs: 500, reason: "ice_failed" },
+      { state: "reconnecting", attempt: 2, delayMs: 1000, reason: "ice_failed" },
+      { state: "reconnecting", attempt: 3, delayMs: 2000, reason: "ice_failed" },
+      { state: "gave_up", attempts: 3, reason: "ice_failed", error: "socket closed" },
+    ]);
+  });
+
+  it("retries when the new connection never reports session.created", async () => {
+    const { supervisor, establish, events } = setup({ resumeTimeoutMs: 1000 });
+
+    const result = supervisor.reconnect("failed");
+    await jest.advanceTimersByTimeAsync(500 + 1000);
+    expect(establish).toHaveBeenCalledTimes(1);
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(establish).toHaveBeenCalledTimes(2);
+    supervisor.handleEvent({ type: "session.created" });
+
+    await expect(result).resolves.toBe(true);
+    expect(events[events.length - 1]).toEqual({ state: "resumed", attempt: 2, replayedItems: 3 });
+  });
+
+  it("abandons a pending attempt when stopped", async () => {
+    const { supervisor, establish } = setup();
+
+    const result = supervisor.reconnect("failed");
+    supervisor.stop();
+
+    await expect(result).resolves.toBe(false);
+    await jest.advanceTimersByTimeAsync(10000);
+    expect(establish).not.toHaveBeenCalled();
+  });
+
+  it("ignores state changes while disabled", async () => {
+    const { supervisor, establish } = setup({ enabled: false });
+
+    supervisor.handleTransportState({ state: "failed" });
+    await jest.advanceTimersByTimeAsync(10000);
+
+    expect(establish).not.toHaveBeenCalled();
+  });
+});
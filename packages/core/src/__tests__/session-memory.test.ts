@@ -0,0 +1,194 @@
+import {
+  RealtimeServerEvent,
+  RuntimeConfig,
+  Transport,
+  TransportConnectOptions,
+} from "@thrivereflections/realtime-contracts";
+import { initRealtime } from "../initRealtime";
+import { SessionMemory, summarizeItems } from "../session-memory";
+
+function message(id: string, role: "user" | "assistant", text: string): RealtimeServerEvent {
+  return {
+    type: "conversation.item.created",
+    item: {
+      id,
+      type: "message",
+      role,
+      status: "completed",
+      content: [{ type: role === "user" ? "input_text" : "text", text }],
+    },
+  };
+}
+
+function responseDone(inputTokens: number): RealtimeServerEvent {
+  return { type: "response.done", response: { status: "completed", usage: { input_tokens: inputTokens } } };
+}
+
+function summaryText(event: unknown): string {
+  return (event as { item: { content: Array<{ text: string }> } }).item.content[0].text;
+}
+
+describe("SessionMemory", () => {
+  it("summarizes older items once the context has grown, keeping recent ones out", async () => {
+    const sent: unknown[] = [];
+    const summaries: string[] = [];
+    const memory = new SessionMemory(
+      { transport: { send: (event) => sent.push(event) }, logLevel: "error" },
+      { summarizeEveryTokens: 1000, keepRecentItems: 2, onSummary: (summary) => summaries.push(summary) }
+    );
+
+    memory.handleEvent(message("item_1", "user", "My name is Ada."));
+    memory.handleEvent(message("item_2", "assistant", "Nice to meet you, Ada."));
+    memory.handleEvent(message("item_3", "user", "What's the weather?"));
+    memory.handleEvent(message("item_4", "assistant", "Sunny."));
+    memory.handleEvent(responseDone(900));
+    expect(sent).toEqual([]);
+
+    memory.handleEvent(responseDone(1200));
+    await memory.summarize();
+
+    expect(summaries).toEqual(["User: My name is Ada.\nAssistant: Nice to meet you, Ada."]);
+    expect(sent).toEqual([
+      {
+        type: "conversation.item.create",
+        item: {
+          id: "memory_summary_1",
+          type: "message",
+          role: "system",
+          content: [
+            {
+              type: "input_text",
+              text: "Summary of the conversation so far:\nUser: My name is Ada.\nAssistant: Nice to meet you, Ada.",
+            },
+          ],
+        },
+      },
+    ]);
+    expect(memory.toReplayEvent()).toEqual(sent[0]);
+  });
+
+  it("carries the previous summary forward and replaces its item", async () => {
+    const sent: unknown[] = [];
+    const memory = new SessionMemory(
+      { transport: { send: (event) => sent.push(event) }, logLevel: "error" },
+      { keepRecentItems: 0 }
+    );
+
+    memory.handleEvent(message("item_1", "user", "I live in Paris."));
+    await memory.summarize();
+    memory.handleEvent({
+      type: "conversation.item.created",
+      item: { id: "memory_summary_1", type: "message", role: "system", status: "completed", content: [] },
+    });
+    memory.handleEvent(message("item_2", "user", "I have two cats."));
+    await memory.summarize();
+
+    expect(memory.summary).toBe("User: I live in Paris.\nUser: I have two cats.");
+    expect(summaryText(sent[1])).toContain("I have two cats.");
+    expect(sent[2]).toEqual({ type: "conversation.item.delete", item_id: "memory_summary_1" });
+    await expect(memory.summarize()).resolves.toBeNull();
+  });
+
+  it("keeps a failed custom summary from replacing the current one", async () => {
+    const sent: unknown[] = [];
+    const memory = new SessionMemory(
+      { transport: { send: (event) => sent.push(event) }, logLevel: "error" },
+      {
+        keepRecentItems: 0,
+        summarize: () => {
+          throw new Error("model unavailable");
+        },
+      }
+    );
+
+    memory.handleEvent(message("item_1", "user", "Hello"));
+
+    await expect(memory.summarize()).resolves.toBeNull();
+    expect(sent).toEqual([]);
+    expect(memory.summary).toBeNull();
+  });
+});
+
+describe("summarizeItems", () => {
+  it("drops the oldest lines to fit maxChars", () => {
+    const summary = summarizeItems({
+      previousSummary: "User: first\nAssistant: second",
+      items: [
+        {
+          id: "call",
+          previousItemId: null,
+          type: "function_call",
+          status: "completed",
+          text: "",
+          name: "get_weather",
+          arguments: '{"city":"Paris"}',
+          createdAt: 0,
+          updatedAt: 0,
+        },
+      ],
+      maxChars: 60,
+    });
+
+    expect(summary).toBe('Assistant: second\nCalled get_weather with {"city":"Paris"}');
+  });
+});
+
+describe("initRealtime memory", () => {
+  function setup(memory: RuntimeConfig["featureFlags"]["memory"]) {
+    let options: TransportConnectOptions | null = null;
+    const sent: Array<{ type?: string }> = [];
+    const transport: Transport = {
+      kind: "websocket",
+      connect: async (opts) => {
+        options = opts;
+      },
+      send: (event) => sent.push(event as { type?: string }),
+      close: async () => undefined,
+    };
+    const config: RuntimeConfig = {
+      model: "gpt-realtime",
+      openaiKey: "",
+      featureFlags: { transport: "websocket", bargeIn: false, captions: true, tools: true, memory },
+      policies: {
+        maxPayloadBytes: 524288,
+        maxSessionMinutes: 15,
+        allowUnconsentedStorage: false,
+        rateLimit: { sessions: { max: 10, window: 60 }, toolCalls: { max: 10, window: 60 } },
+      },
+    };
+    const realtime = initRealtime(config, {
+      getToken: async () => "token",
+      transportFactory: () => transport,
+      memory: { summarizeEveryTokens: 100, keepRecentItems: 0 },
+      logging: { logLevel: "error" },
+    });
+    return { realtime, sent, receive: (event: unknown) => options?.onEvent(event) };
+  }
+
+  it("summarizes the session when memory is on", async () => {
+    const { realtime, sent, receive } = setup("short");
+    await realtime.start();
+
+    receive(message("item_1", "user", "Remember that I prefer metric units."));
+    receive(responseDone(150));
+    await Promise.resolve();
+
+    expect(realtime.memorySummary).toBe("User: Remember that I prefer metric units.");
+    expect(sent.filter((event) => event.type === "conversation.item.create")).toHaveLength(1);
+    await realtime.stop();
+    expect(realtime.memorySummary).toBeNull();
+  });
+
+  it("leaves the conversation alone when memory is off", async () => {
+    const { realtime, sent, receive } = setup("off");
+    await realtime.start();
+
+    receive(message("item_1", "user", "Remember that I prefer metric units."));
+    receive(responseDone(150));
+    await Promise.resolve();
+
+    expect(realtime.memorySummary).toBeNull();
+    expect(sent).toEqual([]);
+    await realtime.stop();
+  });
+});
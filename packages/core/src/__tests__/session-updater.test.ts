@@ -0,0 +1,190 @@
+import { AgentConfig, RealtimeServerEvent } from "@thrivereflections/realtime-contracts";
+import { applySessionSettings, SessionUpdateError, SessionUpdater, validateSessionSettings } from "../session-updater";
+
+function createUpdater(timeoutMs = 5000) {
+  const sent: Array<{ type: string; event_id?: string; session?: Record<string, unknown> }> = [];
+  const updater = new SessionUpdater({
+    transport: { send: (event) => sent.push(event as (typeof sent)[0]) },
+    timeoutMs,
+    logLevel: "error",
+  });
+  return { updater, sent };
+}
+
+function updated(session: Record<string, unknown> = {}): RealtimeServerEvent {
+  return { type: "session.updated", session: { id: "sess_1", ...session } };
+}
+
+describe("validateSessionSettings", () => {
+  it("accepts the supported settings", () => {
+    expect(
+      validateSessionSettings({
+        instructions: "Be brief.",
+        voice: "marin",
+        tools: [{ type: "function", name: "lookup_order", parameters: { type: "object" } }],
+        turn_detection: { type: "semantic_vad", eagerness: "low" },
+        temperature: 0.8,
+      })
+    ).toEqual([]);
+    expect(validateSessionSettings({ turn_detection: null })).toEqual([]);
+  });
+
+  it("reports every problem", () => {
+    expect(
+      validateSessionSettings({
+        model: "gpt-realtime",
+        instructions: "  ",
+        voice: "robot",
+        tools: [{ type: "function", name: "bad name", parameters: {} }],
+        turn_detection: { type: "push_to_talk" },
+        temperature: 2,
+      })
+    ).toEqual([
+      "model cannot be changed mid-session",
+      "instructions must be a non-empty string",
+      expect.stringContaining("voice must be one of"),
+      expect.stringContaining("tools[0].name must match"),
+      'turn_detection.type must be "server_vad" or "semantic_vad"',
+      "temperature must be a number between 0.6 and 1.2",
+    ]);
+  });
+
+  it("rejects an empty update", () => {
+    expect(validateSessionSettings({})).toEqual(["no settings to update"]);
+  });
+});
+
+describe("SessionUpdater", () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("sends session.update and resolves on session.updated", async () => {
+    const { updater, sent } = createUpdater();
+
+    const result = updater.update({ voice: "coral" });
+    await Promise.resolve();
+    expect(sent).toEqual([{ type: "session.update", event_id: "session_update_1", session: { voice: "coral" } }]);
+
+    updater.handleEvent(updated({ voice: "coral" }));
+    await expect(result).resolves.toEqual({ id: "sess_1", voice: "coral" });
+    expect(updater.appliedSettings).toEqual({ voice: "coral" });
+  });
+
+  it("rejects invalid settings without sending", async () => {
+    const { updater, sent } = createUpdater();
+
+    await expect(updater.update({ temperature: 5 })).rejects.toMatchObject({ code: "invalid_settings" });
+    expect(sent).toHaveLength(0);
+  });
+
+  it("rejects when the server answers with an error for the update", async () => {
+    const { updater } = createUpdater();
+
+    const result = updater.update({ instructions: "New persona" });
+    await Promise.resolve();
+    updater.handleEvent({
+      type: "error",
+      error: { type: "invalid_request_error", message: "Invalid tools", event_id: "session_update_1" },
+    });
+
+    await expect(result).rejects.toBeInstanceOf(SessionUpdateError);
+    await expect(result).rejects.toMatchObject({ code: "rejected", message: "Invalid tools" });
+    expect(updater.appliedSettings).toEqual({});
+  });
+
+  it("times out without an acknowledgement", async () => {
+    const { updater } = createUpdater(1000);
+
+    const result = updater.update({ voice: "sage" });
+    const assertion = expect(result).rejects.toMatchObject({ code: "timeout" });
+    await jest.advanceTimersByTimeAsync(1000);
+    await assertion;
+  });
+
+  it("ignores acks for another session.update", async () => {
+    const { updater } = createUpdater();
+
+    const result = updater.update({ voice: "ash" });
+    await Promise.resolve();
+    updater.handleEvent(updated({ voice: "alloy" }));
+    updater.handleEvent(updated({ voice: "ash" }));
+
+    await expect(result).resolves.toMatchObject({ voice: "ash" });
+  });
+
+  it("matches acks on every setting sent, not just the scalar ones", async () => {
+    const { updater } = createUpdater();
+    const turnDetection = { type: "semantic_vad", eagerness: "low" } as const;
+
+    const result = updater.update({ turn_detection: turnDetection });
+    await Promise.resolve();
+    updater.handleEvent(updated({ voice: "alloy" }));
+    updater.handleEvent(updated({ turn_detection: { type: "server_vad", threshold: 0.5 } }));
+    updater.handleEvent(updated({ turn_detection: { ...turnDetection, create_response: true } }));
+
+    await expect(result).resolves.toMatchObject({ turn_detection: { type: "semantic_vad" } });
+  });
+
+  it("sends queued updates one at a time", async () => {
+    const { updater, sent } = createUpdater();
+
+    const first = updater.update({ voice: "echo" });
+    const second = updater.update({ temperature: 0.7 });
+    await Promise.resolve();
+    expect(sent).toHaveLength(1);
+
+    updater.handleEvent(updated({ voice: "echo" }));
+    await first;
+    await jest.advanceTimersByTimeAsync(0);
+    expect(sent).toHaveLength(2);
+
+    updater.handleEvent(updated({ temperature: 0.7 }));
+    await second;
+    expect(updater.toReplayEvent()).toEqual({ type: "session.update", session: { voice: "echo", temperature: 0.7 } });
+  });
+
+  it("rejects the in-flight update on cancel and forgets settings on reset", async () => {
+    const { updater } = createUpdater();
+
+    await Promise.all([
+      updater.update({ voice: "verse" }),
+      Promise.resolve().then(() => updater.handleEvent(updated({ voice: "verse" }))),
+    ]);
+    const result = updater.update({ voice: "ballad" });
+    await Promise.resolve();
+
+    updater.reset();
+    await expect(result).rejects.toMatchObject({ code: "cancelled" });
+    expect(updater.toReplayEvent()).toBeNull();
+  });
+});
+
+describe("applySessionSettings", () => {
+  const config: AgentConfig = {
+    persona: "You are a helpful assistant.",
+    voice: "alloy",
+    capabilities: ["speech"],
+    toolPolicy: "deny_all",
+    allowedTools: [],
+    featureFlags: { transport: "webrtc", bargeIn: true, captions: "full" },
+  };
+
+  it("syncs instructions and voice and records the change", () => {
+    const next = applySessionSettings(config, { instructions: "Speak Spanish.", voice: "coral" }, 1000);
+    const last = applySessionSettings(next, { temperature: 0.7 }, 2000);
+
+    expect(last.instructions).toBe("Speak Spanish.");
+    expect(last.persona).toBe("You are a helpful assistant.");
+    expect(last.voice).toBe("coral");
+    expect(last.history).toEqual([
+      { changedAt: 1000, settings: { instructions: "Speak Spanish.", voice: "coral" } },
+      { changedAt: 2000, settings: { temperature: 0.7 } },
+    ]);
+    expect(config.history).toBeUndefined();
+  });
+});
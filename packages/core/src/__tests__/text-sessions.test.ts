@@ -0,0 +1,176 @@
+import { RuntimeConfig, Transport, TransportConnectOptions } from "@thrivereflections/realtime-contracts";
+import { initRealtime } from "../initRealtime";
+import { RealtimeEventRouter, Transcript } from "../event-router";
+import { ConversationContextBuffer } from "../conversation-context";
+
+const config: RuntimeConfig = {
+  model: "gpt-realtime",
+  openaiKey: "",
+  featureFlags: { transport: "websocket", bargeIn: false, captions: true, tools: false, memory: "off" },
+  policies: {
+    maxPayloadBytes: 524288,
+    maxSessionMinutes: 15,
+    allowUnconsentedStorage: false,
+    rateLimit: { sessions: { max: 10, window: 60 }, toolCalls: { max: 10, window: 60 } },
+  },
+};
+
+function userTextItem(id: string, text: string) {
+  return {
+    type: "conversation.item.created",
+    previous_item_id: null,
+    item: { id, type: "message", role: "user", content: [{ type: "input_text", text }] },
+  };
+}
+
+function createFakeTransport(connect?: (opts: TransportConnectOptions) => Promise<void>) {
+  const sent: Array<Record<string, unknown>> = [];
+  const connections: TransportConnectOptions[] = [];
+  const transport: Transport = {
+    kind: "websocket",
+    connect: jest.fn(async (opts: TransportConnectOptions) => {
+      connections.push(opts);
+      await connect?.(opts);
+    }),
+    send: (event) => sent.push(event as Record<string, unknown>),
+    close: jest.fn(async () => undefined),
+  };
+  return { transport, sent, connections };
+}
+
+describe("RealtimeEventRouter text responses", () => {
+  it("accepts the content part events around a text part", () => {
+    const invalid: unknown[] = [];
+    const router = new RealtimeEventRouter({ onInvalidEvent: (issue) => invalid.push(issue) }, { logLevel: "error" });
+    const ref = { response_id: "resp_1", item_id: "item_1", output_index: 0, content_index: 0 };
+
+    router.routeEvent({ type: "response.content_part.added", ...ref, part: { type: "text", text: "" } });
+    router.routeEvent({ type: "response.content_part.done", ...ref, part: { type: "text", text: "Hi" } });
+    router.routeEvent({ type: "response.content_part.done", ...ref });
+
+    expect(invalid).toEqual([expect.objectContaining({ reason: "malformed" })]);
+  });
+
+  it("emits a final assistant transcript on response.text.done", () => {
+    const transcripts: Transcript[] = [];
+    const partials: string[] = [];
+    const router = new RealtimeEventRouter(
+      { onTranscript: (t) => transcripts.push(t), onPartialTranscript: (text) => partials.push(text) },
+      { logLevel: "error" }
+    );
+
+    router.routeEvent({ type: "response.text.delta", item_id: "item_1", delta: "Hello" });
+    router.routeEvent({ type: "response.text.delta", item_id: "item_1", delta: " there" });
+    router.routeEvent({ type: "response.text.done", item_id: "item_1", text: "Hello there" });
+    router.routeEvent({ type: "response.done", response: { id: "resp_1", status: "completed" } });
+
+    expect(partials).toEqual(["Hello", "Hello there"]);
+    expect(transcripts).toEqual([
+      { id: "item_1", role: "assistant", text: "Hello there", type: "final", timestamp: expect.any(Number) },
+    ]);
+  });
+
+  it("emits typed user messages but not replayed context", () => {
+    const transcripts: Transcript[] = [];
+    const router = new RealtimeEventRouter({ onTranscript: (t) => transcripts.push(t) }, { logLevel: "error" });
+
+    router.routeEvent(userTextItem("item_2", "What's the weather?"));
+    router.routeEvent(userTextItem("replay_0", "An earlier question"));
+
+    expect(transcripts).toEqual([
+      { id: "item_2", role: "user", text: "What's the weather?", type: "final", timestamp: expect.any(Number) },
+    ]);
+  });
+});
+
+describe("ConversationContextBuffer typed messages", () => {
+  it("replays typed messages once", () => {
+    const context = new ConversationContextBuffer();
+
+    context.observe(userTextItem("item_2", "What's the weather?"));
+    const [replayed] = context.toReplayEvents();
+    context.observe({ type: "conversation.item.created", item: (replayed as { item: unknown }).item });
+
+    expect(context.getEntries()).toEqual([
+      { kind: "message", role: "user", text: "What's the weather?", timestamp: expect.any(Number) },
+    ]);
+  });
+});
+
+describe("initRealtime text input", () => {
+  it("sends a user message and requests a response", () => {
+    const { transport, sent } = createFakeTransport();
+    const realtime = initRealtime(config, { getToken: async () => "token", transportFactory: () => transport });
+
+    realtime.sendText("  Hi there  ");
+
+    expect(sent).toEqual([
+      {
+        type: "conversation.item.create",
+        item: { type: "message", role: "user", content: [{ type: "input_text", text: "Hi there" }] },
+      },
+      { type: "response.create" },
+    ]);
+    expect(() => realtime.sendText(" ")).toThrow("sendText requires non-empty text");
+  });
+
+  it("runs text-only when the agent has no speech capability", async () => {
+    const { transport, sent, connections } = createFakeTransport(async (opts) => {
+      opts.onEvent({ type: "session.created", session: { id: "sess_1" } });
+    });
+    const realtime = initRealtime(config, {
+      getToken: async () => "token",
+      transportFactory: () => transport,
+      agentConfig: {
+        persona: "You are a helpful assistant.",
+        voice: "alloy",
+        capabilities: ["captions"],
+        toolPolicy: "deny_all",
+        allowedTools: [],
+        featureFlags: { transport: "websocket", bargeIn: false, captions: "full" },
+      },
+    });
+
+    await realtime.start();
+    realtime.stop();
+
+    expect(realtime.textOnly).toBe(true);
+    expect(connections[0].textOnly).toBe(true);
+    expect(sent).toEqual([{ type: "session.update", session: { modalities: ["text"] } }]);
+  });
+
+  it("falls back to text-only when microphone access is denied", async () => {
+    const denied = Object.assign(new Error("Permission denied"), { name: "NotAllowedError" });
+    const { transport, connections } = createFakeTransport(async (opts) => {
+      if (!opts.textOnly) throw denied;
+    });
+    const onTextOnlyFallback = jest.fn();
+    const realtime = initRealtime(config, {
+      getToken: async () => "token",
+      transportFactory: () => transport,
+      onTextOnlyFallback,
+    });
+
+    await realtime.start();
+    realtime.stop();
+
+    expect(connections.map((opts) => opts.textOnly)).toEqual([false, true]);
+    expect(realtime.textOnly).toBe(true);
+    expect(onTextOnlyFallback).toHaveBeenCalledWith("NotAllowedError");
+  });
+
+  it("rethrows microphone errors when the fallback is off", async () => {
+    const denied = Object.assign(new Error("Permission denied"), { name: "NotAllowedError" });
+    const { transport } = createFakeTransport(async () => {
+      throw denied;
+    });
+    const realtime = initRealtime(config, {
+      getToken: async () => "token",
+      transportFactory: () => transport,
+      textFallback: false,
+    });
+
+    await expect(realtime.start()).rejects.toBe(denied);
+    expect(realtime.textOnly).toBe(false);
+  });
+});
@@ -0,0 +1,217 @@
+import { parseTokenExpiry, TokenRefreshScheduler, TokenRefreshedEvent } from "../token-refresh-scheduler";
+import { ReconnectionSupervisor } from "../reconnection-supervisor";
+
+const START = Date.UTC(2025, 0, 1, 12, 0, 0);
+const MINUTE = 60 * 1000;
+
+/** expires_at as OpenAI returns it: unix seconds */
+function expiresIn(ms: number): number {
+  return Math.floor((Date.now() + ms) / 1000);
+}
+
+describe("parseTokenExpiry", () => {
+  it("treats small numbers as unix seconds", () => {
+    expect(parseTokenExpiry(1735732800)).toBe(1735732800000);
+    expect(parseTokenExpiry("1735732800")).toBe(1735732800000);
+  });
+
+  it("passes millisecond timestamps through", () => {
+    expect(parseTokenExpiry(1735732800000)).toBe(1735732800000);
+  });
+
+  it("parses ISO strings", () => {
+    expect(parseTokenExpiry("2025-01-01T12:00:00Z")).toBe(START);
+  });
+
+  it("returns null for missing or unparseable values", () => {
+    expect(parseTokenExpiry(undefined)).toBeNull();
+    expect(parseTokenExpiry("")).toBeNull();
+    expect(parseTokenExpiry("soon")).toBeNull();
+  });
+});
+
+describe("TokenRefreshScheduler", () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.setSystemTime(START);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("refreshes leadTimeMs before expiry", async () => {
+    const refresh = jest.fn().mockResolvedValue(true);
+    const scheduler = new TokenRefreshScheduler({ leadTimeMs: MINUTE }, { refresh });
+
+    scheduler.handleToken({ sessionId: "sess_1", expiresAt: expiresIn(30 * MINUTE) });
+    expect(scheduler.nextRefreshAt).toBe(START + 29 * MINUTE);
+
+    await jest.advanceTimersByTimeAsync(29 * MINUTE - 1);
+    expect(refresh).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(1);
+    expect(refresh).toHaveBeenCalledTimes(1);
+  });
+
+  it("emits tokenRefreshed with the new expiry and reschedules", async () => {
+    const events: TokenRefreshedEvent[] = [];
+    let scheduler: TokenRefreshScheduler;
+    const refresh = jest.fn(async () => {
+      // The new connection reports its token while the refresh is in flight
+      scheduler.handleToken({ sessionId: "sess_2", expiresAt: expiresIn(30 * MINUTE) });
+      return true;
+    });
+    scheduler = new TokenRefreshScheduler({}, { refresh, onTokenRefreshed: (event) => events.push(event) });
+
+    scheduler.handleToken({ sessionId: "sess_1", expiresAt: expiresIn(30 * MINUTE) });
+    await jest.advanceTimersByTimeAsync(29 * MINUTE);
+
+    expect(events).toEqual([
+      { sessionId: "sess_2", previousExpiresAt: START + 30 * MINUTE, expiresAt: START + 59 * MINUTE },
+    ]);
+    expect(scheduler.nextRefreshAt).toBe(START + 58 * MINUTE);
+
+    await jest.advanceTimersByTimeAsync(29 * MINUTE);
+    expect(refresh).toHaveBeenCalledTimes(2);
+    expect(events).toHaveLength(2);
+  });
+
+  it("does not emit tokenRefreshed when the refresh fails", async () => {
+    const onTokenRefreshed = jest.fn();
+    const logger = { info: jest.fn(), error: jest.fn() };
+    const scheduler = new TokenRefreshScheduler(
+      {},
+      { refresh: jest.fn().mockResolvedValue(false), onTokenRefreshed, logger }
+    );
+
+    scheduler.handleToken({ sessionId: "sess_1", expiresAt: expiresIn(30 * MINUTE) });
+    await jest.advanceTimersByTimeAsync(30 * MINUTE);
+
+    expect(onTokenRefreshed).not.toHaveBeenCalled();
+    expect(logger.error).toHaveBeenCalledWith("Realtime session was not refreshed before token expiry", {
+      sessionId: "sess_1",
+    });
+  });
+
+  it("refreshes OpenAI's one-minute tokens a fraction of their lifetime before expiry", async () => {
+    const refresh = jest.fn().mockResolvedValue(true);
+    const scheduler = new TokenRefreshScheduler({}, { refresh });
+
+    scheduler.handleToken({ sessionId: "sess_1", expiresAt: expiresIn(MINUTE) });
+    expect(scheduler.nextRefreshAt).toBe(START + 48 * 1000);
+
+    await jest.advanceTimersByTimeAsync(48 * 1000 - 1);
+    expect(refresh).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(1);
+    expect(refresh).toHaveBeenCalledTimes(1);
+  });
+
+  it("leaves tokens too short-lived to refresh alone", async () => {
+    const refresh = jest.fn().mockResolvedValue(true);
+    const scheduler = new TokenRefreshScheduler({}, { refresh });
+
+    scheduler.handleToken({ sessionId: "sess_1", expiresAt: expiresIn(5 * 1000) });
+    expect(scheduler.nextRefreshAt).toBeNull();
+
+    await jest.advanceTimersByTimeAsync(10 * MINUTE);
+    expect(refresh).not.toHaveBeenCalled();
+  });
+
+  it("replaces the schedule when a reconnect reports a new token", async () => {
+    const refresh = jest.fn().mockResolvedValue(true);
+    const scheduler = new TokenRefreshScheduler({}, { refresh });
+
+    scheduler.handleToken({ sessionId: "sess_1", expiresAt: expiresIn(10 * MINUTE) });
+    await jest.advanceTimersByTimeAsync(5 * MINUTE);
+    scheduler.handleToken({ sessionId: "sess_2", expiresAt: expiresIn(30 * MINUTE) });
+
+    await jest.advanceTimersByTimeAsync(10 * MINUTE);
+    expect(refresh).not.toHaveBeenCalled();
+    expect(scheduler.nextRefreshAt).toBe(START + 34 * MINUTE);
+  });
+
+  it("cancels the pending refresh on stop", async () => {
+    const refresh = jest.fn().mockResolvedValue(true);
+    const scheduler = new TokenRefreshScheduler({}, { refresh });
+
+    scheduler.handleToken({ sessionId: "sess_1", expiresAt: expiresIn(30 * MINUTE) });
+    scheduler.stop();
+
+    await jest.advanceTimersByTimeAsync(60 * MINUTE);
+    expect(refresh).not.toHaveBeenCalled();
+    expect(scheduler.nextRefreshAt).toBeNull();
+  });
+
+  it("does nothing when disabled", async () => {
+    const refresh = jest.fn().mockResolvedValue(true);
+    const scheduler = new TokenRefreshScheduler({ enabled: false }, { refresh });
+
+    scheduler.handleToken({ sessionId: "sess_1", expiresAt: expiresIn(30 * MINUTE) });
+    await jest.advanceTimersByTimeAsync(60 * MINUTE);
+    expect(refresh).not.toHaveBeenCalled();
+  });
+});
+
+describe("ReconnectionSupervisor.refresh", () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.setSystemTime(START);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("re-establishes without a backoff delay and replays context", async () => {
+    const onConnectionState = jest.fn();
+    let supervisor: ReconnectionSupervisor;
+    const establish = jest.fn(async () => {
+      supervisor.handleEvent({ type: "session.created", session: { id: "sess_2" } });
+    });
+    supervisor = new ReconnectionSupervisor({}, { establish, replay: () => 3, onConnectionState });
+    supervisor.start();
+
+    await expect(supervisor.refresh("token_refresh")).resolves.toBe(true);
+    expect(establish).toHaveBeenCalledTimes(1);
+    expect(onConnectionState).not.toHaveBeenCalled();
+  });
+
+  it("falls back to the backoff loop when the immediate attempt fails", async () => {
+    const onConnectionState = jest.fn();
+    let supervisor: ReconnectionSupervisor;
+    const establish = jest
+      .fn()
+      .mockRejectedValueOnce(new Error("token fetch failed"))
+      .mockImplementation(async () => {
+        supervisor.handleEvent({ type: "session.created", session: { id: "sess_2" } });
+      });
+    supervisor = new ReconnectionSupervisor(
+      { jitter: 0 },
+      { establish, replay: () => 0, onConnectionState, random: () => 0.5 }
+    );
+    supervisor.start();
+
+    const refreshed = supervisor.refresh("token_refresh");
+    await jest.advanceTimersByTimeAsync(500);
+
+    await expect(refreshed).resolves.toBe(true);
+    expect(establish).toHaveBeenCalledTimes(2);
+    expect(onConnectionState).toHaveBeenCalledWith({
+      state: "reconnecting",
+      attempt: 1,
+      delayMs: 500,
+      reason: "token_refresh",
+    });
+    expect(onConnectionState).toHaveBeenCalledWith({ state: "resumed", attempt: 1, replayedItems: 0 });
+  });
+
+  it("does nothing before start", async () => {
+    const establish = jest.fn();
+    const supervisor = new ReconnectionSupervisor({}, { establish, replay: () => 0 });
+
+    await expect(supervisor.refresh("token_refresh")).resolves.toBe(false);
+    expect(establish).not.toHaveBeenCalled();
+  });
+});
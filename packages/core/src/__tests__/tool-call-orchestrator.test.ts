@@ -0,0 +1,168 @@
+import { RealtimeServerEvent, ToolCallResponse } from "@thrivereflections/realtime-contracts";
+import { ToolCallOrchestrator, ToolGatewayClient } from "../tool-call-orchestrator";
+
+function functionCall(callId: string, args = "{}", responseId = "resp_1"): RealtimeServerEvent {
+  return {
+    type: "response.output_item.done",
+    response_id: responseId,
+    item: { type: "function_call", call_id: callId, name: "lookup_order", arguments: args },
+  };
+}
+
+function responseDone(responseId = "resp_1"): RealtimeServerEvent {
+  return { type: "response.done", response: { id: responseId } };
+}
+
+function setup(execute: ToolGatewayClient["execute"], timeoutMs = 1000) {
+  const sent: Array<{ type: string; item?: { call_id: string; output: string } }> = [];
+  const failed = jest.fn();
+  const orchestrator = new ToolCallOrchestrator(
+    {
+      transport: { send: (event) => sent.push(event as (typeof sent)[0]) },
+      gateway: { execute: jest.fn(execute) },
+      timeoutMs,
+      logLevel: "error",
+    },
+    { onToolCallFailed: failed }
+  );
+  const outputs = () =>
+    sent.filter((event) => event.item).map((event) => [event.item?.call_id, JSON.parse(event.item?.output ?? "")]);
+  const responseCreates = () => sent.filter((event) => event.type === "response.create").length;
+  return { orchestrator, sent, outputs, responseCreates, failed };
+}
+
+describe("ToolCallOrchestrator", () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("posts each output and requests one response once the response is done and every call settled", async () => {
+    const results: Record<string, (response: ToolCallResponse) => void> = {};
+    const { orchestrator, outputs, responseCreates } = setup(
+      (call) => new Promise((resolve) => (results[call.id] = resolve))
+    );
+
+    orchestrator.handleEvent(functionCall("call_1", '{"id":1}'));
+    orchestrator.handleEvent(functionCall("call_2", '{"id":2}'));
+    orchestrator.handleEvent(responseDone());
+    await jest.advanceTimersByTimeAsync(0);
+
+    results.call_2({ id: "call_2", ok: true, result: { status: "shipped" } });
+    await jest.advanceTimersByTimeAsync(0);
+    expect(outputs()).toEqual([["call_2", { status: "shipped" }]]);
+    expect(responseCreates()).toBe(0);
+
+    results.call_1({ id: "call_1", ok: true, result: null });
+    await jest.advanceTimersByTimeAsync(0);
+    expect(outputs()).toEqual([
+      ["call_2", { status: "shipped" }],
+      ["call_1", null],
+    ]);
+    expect(responseCreates()).toBe(1);
+  });
+
+  it("waits for response.done when the calls finish first", async () => {
+    const { orchestrator, responseCreates } = setup(async (call) => ({ id: call.id, ok: true, result: "ok" }));
+
+    orchestrator.handleEvent(functionCall("call_1"));
+    await jest.advanceTimersByTimeAsync(0);
+    expect(responseCreates()).toBe(0);
+
+    orchestrator.handleEvent(responseDone());
+    expect(responseCreates()).toBe(1);
+  });
+
+  it("runs a repeated call id only once", async () => {
+    const execute = jest.fn(async (call: { id: string }) => ({ id: call.id, ok: true }));
+    const { orchestrator } = setup(execute);
+
+    orchestrator.handleEvent(functionCall("call_1"));
+    orchestrator.handleEvent(functionCall("call_1"));
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(execute).toHaveBeenCalledTimes(1);
+  });
+
+  it("reports malformed arguments without calling the gateway", async () => {
+    const execute = jest.fn();
+    const { orchestrator, outputs, failed } = setup(execute);
+
+    orchestrator.handleEvent(functionCall("call_1", "[1, 2]"));
+    orchestrator.handleEvent(responseDone());
+
+    expect(execute).not.toHaveBeenCalled();
+    expect(outputs()).toEqual([
+      ["call_1", { error: { code: "invalid_arguments", message: "Tool call arguments must be a JSON object" } }],
+    ]);
+    expect(failed).toHaveBeenCalledWith(expect.objectContaining({ id: "call_1" }), expect.anything(), 0);
+  });
+
+  it("maps gateway failures onto error codes the model can act on", async () => {
+    const responses: Record<string, Omit<ToolCallResponse, "id">> = {
+      call_invalid: { ok: false, error: "id is required", validationErrors: [{ path: "/id", message: "is required" }] },
+      call_open: { ok: false, error: "Tool unavailable", errorCode: "circuit_open" },
+      call_failed: { ok: false, error: "Order service down" },
+    };
+    const { orchestrator, outputs } = setup(async (call) => {
+      if (call.id === "call_unreachable") throw new Error("Tool gateway error 502");
+      return { id: call.id, ...responses[call.id] };
+    });
+
+    ["call_invalid", "call_open", "call_failed", "call_unreachable"].forEach((id) =>
+      orchestrator.handleEvent(functionCall(id))
+    );
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(outputs()).toEqual([
+      [
+        "call_invalid",
+        {
+          error: {
+            code: "invalid_arguments",
+            message: "id is required",
+            details: [{ path: "/id", message: "is required" }],
+          },
+        },
+      ],
+      ["call_open", { error: { code: "circuit_open", message: "Tool unavailable" } }],
+      ["call_failed", { error: { code: "tool_error", message: "Order service down" } }],
+      ["call_unreachable", { error: { code: "gateway_error", message: "Tool gateway error 502" } }],
+    ]);
+  });
+
+  it("times out a call whose gateway ignores the abort signal", async () => {
+    const { orchestrator, outputs, responseCreates } = setup(() => new Promise(() => undefined), 1000);
+
+    orchestrator.handleEvent(functionCall("call_1"));
+    orchestrator.handleEvent(responseDone());
+    await jest.advanceTimersByTimeAsync(999);
+    expect(outputs()).toEqual([]);
+
+    await jest.advanceTimersByTimeAsync(1);
+    expect(outputs()).toEqual([
+      ["call_1", { error: { code: "timeout", message: "Tool call timed out after 1000ms" } }],
+    ]);
+    expect(responseCreates()).toBe(1);
+  });
+
+  it("drops calls in flight when disposed", async () => {
+    let signal: AbortSignal | undefined;
+    const { orchestrator, sent } = setup((_, options) => {
+      signal = options.signal;
+      return new Promise(() => undefined);
+    });
+
+    orchestrator.handleEvent(functionCall("call_1"));
+    orchestrator.handleEvent(responseDone());
+    await jest.advanceTimersByTimeAsync(0);
+    orchestrator.dispose();
+    await jest.advanceTimersByTimeAsync(5000);
+
+    expect(signal?.aborted).toBe(true);
+    expect(sent).toEqual([]);
+  });
+});
@@ -0,0 +1,135 @@
+import { Transport, TransportConnectOptions, TransportKind } from "@thrivereflections/realtime-contracts";
+import { createFallbackTransport, TransportFallbackEvent } from "../transports/fallback";
+
+function createFakeTransport(kind: TransportKind, connect: (opts: TransportConnectOptions) => Promise<void>) {
+  const connections: TransportConnectOptions[] = [];
+  const transport: Transport = {
+    kind,
+    connect: jest.fn(async (opts: TransportConnectOptions) => {
+      connections.push(opts);
+      await connect(opts);
+    }),
+    send: jest.fn(),
+    close: jest.fn(async () => undefined),
+  };
+  return { transport, connections };
+}
+
+function setup(primaryConnect: (opts: TransportConnectOptions) => Promise<void>, force = false) {
+  const primary = createFakeTransport("webrtc", primaryConnect);
+  const fallback = createFakeTransport("websocket", async () => undefined);
+  const events: TransportFallbackEvent[] = [];
+  const transport = createFallbackTransport(
+    "webrtc",
+    (kind) => (kind === "webrtc" ? primary.transport : fallback.transport),
+    { connectTimeoutMs: 10000, force },
+    (event) => events.push(event)
+  );
+  return { transport, primary, fallback, events };
+}
+
+const never = () => new Promise<void>(() => undefined);
+const connectOptions = { token: "", onEvent: () => undefined };
+
+describe("createFallbackTransport", () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("stays on the primary once it connects and reports connected", async () => {
+    const { transport, events } = setup(async (opts) => {
+      opts.onNegotiating?.();
+      opts.onStateChange?.({ state: "connected" });
+    });
+
+    await transport.connect(connectOptions);
+
+    expect(transport.activeKind).toBe("webrtc");
+    expect(transport.fallbackReason).toBeNull();
+    expect(events).toEqual([]);
+  });
+
+  it("starts the deadline only once the primary is negotiating", async () => {
+    let grantMicrophone = () => {};
+    const microphone = new Promise<void>((resolve) => (grantMicrophone = resolve));
+    const { transport, primary, fallback, events } = setup(async (opts) => {
+      await microphone;
+      opts.onNegotiating?.();
+      await never();
+    });
+
+    const connected = transport.connect(connectOptions);
+    // A user slow to answer the permission prompt is not moved to the fallback
+    await jest.advanceTimersByTimeAsync(30000);
+    expect(events).toEqual([]);
+
+    grantMicrophone();
+    await jest.advanceTimersByTimeAsync(9999);
+    expect(events).toEqual([]);
+    await jest.advanceTimersByTimeAsync(1);
+    await connected;
+
+    expect(events).toEqual([expect.objectContaining({ from: "webrtc", to: "websocket", reason: "timeout" })]);
+    expect(primary.connections[0].signal?.aborted).toBe(true);
+    expect(primary.transport.close).toHaveBeenCalled();
+    expect(fallback.transport.connect).toHaveBeenCalledTimes(1);
+    expect(transport.kind).toBe("websocket");
+  });
+
+  it("aborts the primary's connect when the caller aborts", async () => {
+    const controller = new AbortController();
+    const { transport, primary } = setup(never);
+
+    void transport.connect({ ...connectOptions, signal: controller.signal });
+    await Promise.resolve();
+    controller.abort();
+
+    expect(primary.connections[0].signal?.aborted).toBe(true);
+  });
+
+  it("falls back on ICE failures and SDP errors", async () => {
+    const ice = setup(async (opts) => {
+      opts.onNegotiating?.();
+      opts.onStateChange?.({ state: "failed", reason: "ice_failed" });
+      await never();
+    });
+    await ice.transport.connect(connectOptions);
+    expect(ice.events).toEqual([expect.objectContaining({ reason: "ice_failed", message: "ice_failed" })]);
+
+    const sdp = setup(async () => {
+      throw new Error("SDP exchange failed: 500 - upstream error");
+    });
+    await sdp.transport.connect(connectOptions);
+    expect(sdp.events).toEqual([expect.objectContaining({ reason: "sdp_error" })]);
+    expect(sdp.transport.fallbackReason).toBe("sdp_error");
+  });
+
+  it("passes token and microphone errors on without falling back", async () => {
+    const { transport, fallback, events } = setup(async () => {
+      throw new Error("Permission denied");
+    });
+
+    await expect(transport.connect(connectOptions)).rejects.toThrow("Permission denied");
+    expect(events).toEqual([]);
+    expect(fallback.transport.connect).not.toHaveBeenCalled();
+  });
+
+  it("stays on the fallback across reconnects, and skips the primary when forced", async () => {
+    const { transport, primary, fallback } = setup(async () => {
+      throw new Error("SDP exchange failed");
+    });
+    await transport.connect(connectOptions);
+    await transport.connect(connectOptions);
+    expect(primary.transport.connect).toHaveBeenCalledTimes(1);
+    expect(fallback.transport.connect).toHaveBeenCalledTimes(2);
+
+    const forced = setup(never, true);
+    await forced.transport.connect(connectOptions);
+    expect(forced.primary.transport.connect).not.toHaveBeenCalled();
+    expect(forced.events).toEqual([expect.objectContaining({ reason: "forced", elapsedMs: 0 })]);
+  });
+});
@@ -0,0 +1,124 @@
+import { Transport } from "@thrivereflections/realtime-contracts";
+import { createTransport } from "../transports/factory";
+import {
+  getTransportCapabilities,
+  listTransports,
+  negotiateTransport,
+  registerTransport,
+  satisfiesCapabilities,
+  TransportFactoryContext,
+} from "../transports/registry";
+
+jest.mock("@thrivereflections/realtime-transport-websocket/node", () => ({
+  createNodeWebSocketTransport: jest.fn(() => fakeTransport("websocket-node")),
+}));
+
+function fakeTransport(kind: string): Transport {
+  return { kind, connect: async () => undefined, send: () => undefined, close: async () => undefined };
+}
+
+describe("transport registry", () => {
+  const cleanup: Array<() => void> = [];
+
+  afterEach(() => {
+    cleanup.splice(0).forEach((unregister) => unregister());
+  });
+
+  it("registers the built-in transports with their capabilities", () => {
+    expect(listTransports().map((registration) => registration.kind)).toEqual(
+      expect.arrayContaining(["webrtc", "websocket", "websocket-node"])
+    );
+    expect(getTransportCapabilities("websocket-node")).toEqual({
+      audioInput: true,
+      audioOutput: true,
+      textOnly: true,
+      serverSide: true,
+    });
+    expect(getTransportCapabilities("webrtc")?.serverSide).toBe(false);
+  });
+
+  it("fills omitted capabilities with an audio-only browser transport", () => {
+    cleanup.push(registerTransport("sip", () => fakeTransport("sip"), { serverSide: true }));
+
+    expect(getTransportCapabilities("sip")).toEqual({
+      audioInput: true,
+      audioOutput: true,
+      textOnly: false,
+      serverSide: true,
+    });
+  });
+
+  it("only lets the latest registration of a kind remove it", () => {
+    const first = registerTransport("sip", () => fakeTransport("sip"));
+    const second = registerTransport("sip", () => fakeTransport("sip"), { textOnly: true });
+    cleanup.push(second);
+
+    first();
+    expect(getTransportCapabilities("sip")?.textOnly).toBe(true);
+    second();
+    expect(getTransportCapabilities("sip")).toBeUndefined();
+  });
+
+  it("enforces only the capabilities that are required", () => {
+    const browser = { audioInput: true, audioOutput: true, textOnly: false, serverSide: false };
+
+    expect(satisfiesCapabilities(browser, {})).toBe(true);
+    expect(satisfiesCapabilities(browser, { audioInput: true, serverSide: false })).toBe(true);
+    expect(satisfiesCapabilities(browser, { textOnly: true })).toBe(false);
+  });
+
+  it("keeps the preferred kind when it qualifies, otherwise picks the first one that does", () => {
+    expect(negotiateTransport("webrtc", { textOnly: true })?.kind).toBe("webrtc");
+    expect(negotiateTransport("webrtc", { serverSide: true })?.kind).toBe("websocket-node");
+    expect(negotiateTransport("missing", { audioInput: true })?.kind).toBe("webrtc");
+
+    cleanup.push(registerTransport("sip", () => fakeTransport("sip"), { serverSide: true }));
+    expect(negotiateTransport("sip", { serverSide: true })?.kind).toBe("sip");
+    expect(negotiateTransport("sip", { serverSide: true, textOnly: true })?.kind).toBe("websocket-node");
+  });
+});
+
+describe("createTransport", () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("builds a registered kind with the base URL, logging and a token getter", async () => {
+    const factory = jest.fn((_context: TransportFactoryContext) => fakeTransport("sip"));
+    const unregister = registerTransport("sip", factory);
+    const token = { client_secret: { value: "ek_1", expires_at: "2025-01-01T12:00:00Z" }, session_id: "s", model: "m" };
+    const fetchMock = jest.fn(async () => ({ ok: true, json: async () => token } as Response));
+    jest.spyOn(globalThis, "fetch").mockImplementation(fetchMock);
+
+    try {
+      const transport = createTransport("sip", "https://voice.example", { logLevel: "warn" });
+      expect(transport.kind).toBe("sip");
+
+      const context = factory.mock.calls[0][0];
+      expect(context.baseUrl).toBe("https://voice.example");
+      expect(context.logging).toEqual({ logLevel: "warn" });
+      await expect(context.getSessionToken()).resolves.toEqual(token);
+      expect(fetchMock).toHaveBeenCalledWith("https://voice.example/api/realtime/session", expect.anything());
+    } finally {
+      unregister();
+    }
+  });
+
+  it("points the Node WebSocket transport at the base URL", () => {
+    const { createNodeWebSocketTransport } = jest.requireMock("@thrivereflections/realtime-transport-websocket/node");
+
+    createTransport("websocket-node", "http://localhost:8787/");
+    createTransport("websocket-node");
+
+    expect(createNodeWebSocketTransport.mock.calls.map(([config]: [unknown]) => config)).toEqual([
+      { url: "ws://localhost:8787/v1/realtime" },
+      {},
+    ]);
+  });
+
+  it("names the registered kinds when the kind is unknown", () => {
+    expect(() => createTransport("carrier-pigeon")).toThrow(
+      "Unknown transport kind: carrier-pigeon (registered: webrtc, websocket, websocket-node)"
+    );
+  });
+});
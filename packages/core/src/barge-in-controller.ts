@@ -0,0 +1,141 @@
+/**
+ * Barge-in Controller
+ *
+ * Decides what happens when the user starts speaking while the assistant is
+ * still talking. With barge-in enabled, local playback is stopped, the active
+ * response is cancelled and the assistant item is truncated at the exact
+ * position the user heard. With it disabled the speech is left alone: the
+ * session runs with `interrupt_response: false`, so the server queues the
+ * user's turn and answers after the current response.
+ */
+
+import { RealtimeServerEvent, Transport, TransportPlaybackPosition } from "@thrivereflections/realtime-contracts";
+import { createRedactingLogger, Logger, LoggingDeps } from "@thrivereflections/realtime-observability";
+import { piiRedactor } from "@thrivereflections/realtime-security";
+
+export interface BargeInEvent {
+  /** Response that was cancelled, if one was still being generated */
+  responseId: string | null;
+  /** Assistant item that was cut off, when the transport plays audio locally */
+  itemId: string | null;
+  /** Milliseconds of the item the user heard before interrupting */
+  audioEndMs: number | null;
+}
+
+export interface BargeInCallbacks {
+  onInterrupted?: (event: BargeInEvent) => void;
+  /** User speech arrived during assistant audio while barge-in is disabled */
+  onSpeechIgnored?: () => void;
+}
+
+export interface BargeInControllerDeps extends LoggingDeps {
+  transport: Pick<Transport, "send" | "getPlaybackPosition" | "clearPlayback">;
+  enabled: boolean;
+}
+
+export class BargeInController {
+  private deps: BargeInControllerDeps;
+  private callbacks: BargeInCallbacks;
+  private logger: Logger;
+  private activeResponseId: string | null = null;
+  /** Server-side playback state, reported by transports without local playback (WebRTC) */
+  private remoteAudioPlaying = false;
+
+  constructor(deps: BargeInControllerDeps, callbacks: BargeInCallbacks = {}) {
+    this.deps = deps;
+    this.callbacks = callbacks;
+    this.logger = createRedactingLogger({ ...deps, redactor: deps.redactor ?? piiRedactor });
+  }
+
+  get enabled(): boolean {
+    return this.deps.enabled;
+  }
+
+  handleEvent(event: RealtimeServerEvent): void {
+    switch (event.type) {
+      case "response.created":
+        this.activeResponseId = event.response.id ?? null;
+        break;
+
+      case "response.done":
+        if (!event.response.id || event.response.id === this.activeResponseId) {
+          this.activeResponseId = null;
+        }
+        break;
+
+      case "output_audio_buffer.started":
+        this.remoteAudioPlaying = true;
+        break;
+
+      case "output_audio_buffer.stopped":
+      case "output_audio_buffer.cleared":
+        this.remoteAudioPlaying = false;
+        break;
+
+      case "input_audio_buffer.speech_started":
+        this.handleSpeechStarted();
+        break;
+    }
+  }
+
+  reset(): void {
+    this.activeResponseId = null;
+    this.remoteAudioPlaying = false;
+  }
+
+  private handleSpeechStarted(): void {
+    const { transport } = this.deps;
+    const localPlayback = typeof transport.getPlaybackPosition === "function";
+    const position = localPlayback ? transport.getPlaybackPosition!() : null;
+    const assistantAudible = localPlayback ? position !== null : this.remoteAudioPlaying;
+
+    if (!assistantAudible && !this.activeResponseId) {
+      return;
+    }
+
+    if (!this.deps.enabled) {
+      this.logger.debug("Barge-in disabled, leaving assistant response running", {
+        responseId: this.activeResponseId,
+      });
+      this.callbacks.onSpeechIgnored?.();
+      return;
+    }
+
+    const stoppedAt = localPlayback ? this.stopLocalPlayback(position) : null;
+    const responseId = this.activeResponseId;
+
+    if (responseId) {
+      transport.send({ type: "response.cancel", response_id: responseId });
+      this.activeResponseId = null;
+    }
+
+    if (stoppedAt) {
+      transport.send({
+        type: "conversation.item.truncate",
+        item_id: stoppedAt.itemId,
+        content_index: 0,
+        audio_end_ms: stoppedAt.playedMs,
+      });
+    } else if (!localPlayback && this.remoteAudioPlaying) {
+      // WebRTC: the server owns the output buffer and truncates the item when it is cleared
+      transport.send({ type: "output_audio_buffer.clear" });
+    }
+
+    this.logger.info("Barge-in: interrupted assistant response", {
+      responseId,
+      itemId: stoppedAt?.itemId,
+      audioEndMs: stoppedAt?.playedMs,
+    });
+
+    this.callbacks.onInterrupted?.({
+      responseId,
+      itemId: stoppedAt?.itemId ?? null,
+      audioEndMs: stoppedAt?.playedMs ?? null,
+    });
+  }
+
+  private stopLocalPlayback(position: TransportPlaybackPosition | null): TransportPlaybackPosition | null {
+    const stoppedAt = this.deps.transport.clearPlayback?.() ?? null;
+    return stoppedAt ?? position;
+  }
+}
@@ -0,0 +1,212 @@
+/**
+ * Conversation Context Buffer
+ *
+ * Observes inbound realtime events and keeps a bounded window of final
+ * transcripts and completed tool calls, so a new connection can be seeded
+ * with the recent conversation via `conversation.item.create`.
+ */
+
+export type ContextEntry =
+  | {
+      kind: "message";
+      role: "user" | "assistant";
+      text: string;
+      timestamp: number;
+    }
+  | {
+      kind: "tool";
+      callId: string;
+      name: string;
+      arguments: string;
+      output?: string;
+      timestamp: number;
+    };
+
+/** Items created by `toReplayEvents` carry ids with this prefix */
+export const REPLAY_ITEM_ID_PREFIX = "replay_";
+
+/**
+ * True for an item recreated from the buffer on a new connection, rather than
+ * new conversation
+ */
+export function isReplayedItem(item: { id?: string }): boolean {
+  return typeof item.id === "string" && item.id.startsWith(REPLAY_ITEM_ID_PREFIX);
+}
+
+export interface ConversationContextOptions {
+  maxEntries?: number;
+}
+
+type ObservedEvent = {
+  type?: string;
+  [key: string]: unknown;
+};
+
+export class ConversationContextBuffer {
+  private entries: ContextEntry[] = [];
+  private maxEntries: number;
+
+  constructor(options: ConversationContextOptions = {}) {
+    this.maxEntries = options.maxEntries ?? 20;
+  }
+
+  /**
+   * Record an inbound event if it carries replayable context
+   */
+  observe(event: unknown): void {
+    if (!event || typeof event !== "object") {
+      return;
+    }
+
+    const evt = event as ObservedEvent;
+
+    switch (evt.type) {
+      case "conversation.item.input_audio_transcription.completed": {
+        const item = evt.item as { transcript?: string } | undefined;
+        const text = (evt.transcript as string | undefined) ?? item?.transcript;
+        if (text) {
+          this.addMessage("user", text);
+        }
+        break;
+      }
+
+      case "response.audio_transcript.done":
+        if (typeof evt.transcript === "string") {
+          this.addMessage("assistant", evt.transcript);
+        }
+        break;
+
+      case "response.text.done":
+        if (typeof evt.text === "string") {
+          this.addMessage("assistant", evt.text);
+        }
+        break;
+
+      case "response.function_call_arguments.done":
+        if (typeof evt.call_id === "string") {
+          this.addToolCall(evt.call_id, (evt.name as string) || "unknown", (evt.arguments as string) || "{}");
+        }
+        break;
+
+      case "conversation.item.created": {
+        const item = evt.item as
+          | {
+              id?: string;
+              type?: string;
+              role?: string;
+              content?: Array<{ type?: string; text?: string }>;
+              call_id?: string;
+              name?: string;
+              arguments?: string;
+              output?: string;
+            }
+          | undefined;
+
+        if (item?.type === "function_call" && item.call_id) {
+          this.addToolCall(item.call_id, item.name || "unknown", item.arguments || "{}");
+        } else if (item?.type === "function_call_output" && item.call_id) {
+          this.addToolOutput(item.call_id, item.output ?? "");
+        } else if (item?.type === "message" && item.role === "user" && !isReplayedItem(item)) {
+          // Typed input; spoken input is recorded from its transcription
+          const text = (item.content ?? [])
+            .filter((part) => part.type === "input_text" && part.text)
+            .map((part) => part.text)
+            .join("\n");
+          this.addMessage("user", text);
+        }
+        break;
+      }
+    }
+  }
+
+  /**
+   * Entries currently held in the buffer, oldest first
+   */
+  getEntries(): ContextEntry[] {
+    return [...this.entries];
+  }
+
+  /**
+   * Build the client events that recreate the buffered context on a fresh session.
+   * Tool calls without an output are skipped, since the model would otherwise
+   * expect a result for a call it can no longer see being executed.
+   */
+  toReplayEvents(): Array<Record<string, unknown>> {
+    const events: Array<Record<string, unknown>> = [];
+
+    this.entries.forEach((entry, index) => {
+      if (entry.kind === "message") {
+        events.push({
+          type: "conversation.item.create",
+          item: {
+            id: `${REPLAY_ITEM_ID_PREFIX}${index}`,
+            type: "message",
+            role: entry.role,
+            content: [{ type: entry.role === "user" ? "input_text" : "text", text: entry.text }],
+          },
+        });
+      } else if (entry.output !== undefined) {
+        events.push({
+          type: "conversation.item.create",
+          item: {
+            type: "function_call",
+            call_id: entry.callId,
+            name: entry.name,
+            arguments: entry.arguments,
+          },
+        });
+        events.push({
+          type: "conversation.item.create",
+          item: {
+            type: "function_call_output",
+            call_id: entry.callId,
+            output: entry.output,
+          },
+        });
+      }
+    });
+
+    return events;
+  }
+
+  clear(): void {
+    this.entries = [];
+  }
+
+  private addMessage(role: "user" | "assistant", text: string): void {
+    const trimmed = text.trim();
+    if (!trimmed) {
+      return;
+    }
+
+    this.push({ kind: "message", role, text: trimmed, timestamp: Date.now() });
+  }
+
+  private addToolCall(callId: string, name: string, args: string): void {
+    if (this.findTool(callId)) {
+      return;
+    }
+
+    this.push({ kind: "tool", callId, name, arguments: args, timestamp: Date.now() });
+  }
+
+  private addToolOutput(callId: string, output: string): void {
+    const entry = this.findTool(callId);
+    if (entry) {
+      entry.output = output;
+    }
+  }
+
+  private findTool(callId: string): Extract<ContextEntry, { kind: "tool" }> | undefined {
+    return this.entries.find(
+      (entry): entry is Extract<ContextEntry, { kind: "tool" }> => entry.kind === "tool" && entry.callId === callId
+    );
+  }
+
+  private push(entry: ContextEntry): void {
+    this.entries.push(entry);
+    if (this.entries.length > this.maxEntries) {
+      this.entries = this.entries.slice(-this.maxEntries);
+    }
+  }
+}
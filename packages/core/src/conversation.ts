@@ -0,0 +1,381 @@
+/**
+ * Conversation
+ *
+ * Tracks conversation items by item id as server events arrive: their order
+ * (from `previous_item_id`), role, status, text or transcript, and function
+ * call arguments and outputs. Deltas and transcription results update the item
+ * they name, so interleaved responses and late transcriptions land on the
+ * right item. The state can be snapshotted and serialized for persistence.
+ */
+
+import {
+  ConversationItemState,
+  ConversationItemStatus,
+  ConversationSnapshot,
+  RealtimeConversationItem,
+  RealtimeServerEvent,
+} from "@thrivereflections/realtime-contracts";
+import { isReplayedItem } from "./conversation-context";
+
+export type ConversationChange = "added" | "updated" | "removed";
+
+export type ConversationListener = (item: ConversationItemState, change: ConversationChange) => void;
+
+const SNAPSHOT_VERSION = 1;
+
+export class Conversation {
+  private items = new Map<string, ConversationItemState>();
+  private order: string[] = [];
+  private listeners = new Set<ConversationListener>();
+  private currentSessionId: string | null = null;
+
+  /** Provider session the latest events came from */
+  get sessionId(): string | null {
+    return this.currentSessionId;
+  }
+
+  get size(): number {
+    return this.order.length;
+  }
+
+  /**
+   * Apply a server event. Events that do not concern conversation items are
+   * ignored.
+   */
+  handleEvent(event: RealtimeServerEvent): void {
+    switch (event.type) {
+      case "session.created":
+        this.currentSessionId = event.session.id ?? null;
+        break;
+
+      case "conversation.item.created":
+        this.upsertItem(event.item, { previousItemId: event.previous_item_id ?? null, defaultStatus: "completed" });
+        break;
+
+      case "response.output_item.added":
+        this.upsertItem(event.item, { responseId: event.response_id, defaultStatus: "in_progress" });
+        break;
+
+      case "response.output_item.done":
+        this.upsertItem(event.item, { responseId: event.response_id, defaultStatus: "completed" });
+        break;
+
+      case "response.text.delta":
+        this.appendText(event.item_id, event.delta, "text", event.response_id);
+        break;
+
+      case "response.text.done":
+        this.setText(event.item_id, event.text, "text", event.response_id);
+        break;
+
+      case "response.audio_transcript.delta":
+        this.appendText(event.item_id, event.delta, "audio", event.response_id);
+        break;
+
+      case "response.audio_transcript.done":
+        this.setText(event.item_id, event.transcript, "audio", event.response_id);
+        break;
+
+      case "response.function_call_arguments.delta": {
+        const item = this.findFunctionCall(event.item_id, event.call_id);
+        if (item) {
+          this.update(item, { arguments: (item.arguments ?? "") + event.delta });
+        }
+        break;
+      }
+
+      case "response.function_call_arguments.done": {
+        const item = this.findFunctionCall(event.item_id, event.call_id);
+        if (item) {
+          this.update(item, { arguments: event.arguments, ...(event.name ? { name: event.name } : {}) });
+        }
+        break;
+      }
+
+      case "conversation.item.input_audio_transcription.delta": {
+        const item = this.items.get(event.item_id);
+        if (item) {
+          this.update(item, { text: item.text + event.delta, transcriptionStatus: "pending" });
+        }
+        break;
+      }
+
+      case "conversation.item.input_audio_transcription.completed": {
+        const item = this.items.get(event.item_id);
+        if (item) {
+          this.update(item, { text: event.transcript.trim() || item.text, transcriptionStatus: "completed" });
+        }
+        break;
+      }
+
+      case "conversation.item.input_audio_transcription.failed": {
+        const item = this.items.get(event.item_id);
+        if (item) {
+          this.update(item, { transcriptionStatus: "failed" });
+        }
+        break;
+      }
+
+      case "conversation.item.truncated": {
+        const item = this.items.get(event.item_id);
+        if (item) {
+          this.update(item, { status: "truncated", audioEndMs: event.audio_end_ms });
+        }
+        break;
+      }
+
+      case "conversation.item.deleted":
+        this.remove(event.item_id);
+        break;
+
+      case "response.done":
+        this.finishResponse(event.response.id, event.response.status, event.response.output ?? []);
+        break;
+    }
+  }
+
+  getItem(id: string): ConversationItemState | undefined {
+    const item = this.items.get(id);
+    return item ? { ...item } : undefined;
+  }
+
+  /** The function call item, or its output, for a call id */
+  findByCallId(
+    callId: string,
+    type: "function_call" | "function_call_output" = "function_call"
+  ): ConversationItemState | undefined {
+    const item = this.find((candidate) => candidate.type === type && candidate.callId === callId);
+    return item ? { ...item } : undefined;
+  }
+
+  /** Items in conversation order */
+  getItems(): ConversationItemState[] {
+    return this.order.map((id) => ({ ...this.items.get(id)! }));
+  }
+
+  /**
+   * Listen for item changes. Returns an unsubscribe function.
+   */
+  subscribe(listener: ConversationListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  snapshot(): ConversationSnapshot {
+    return { version: SNAPSHOT_VERSION, sessionId: this.currentSessionId, items: this.getItems(), takenAt: Date.now() };
+  }
+
+  serialize(): string {
+    return JSON.stringify(this.snapshot());
+  }
+
+  /**
+   * Rebuild a conversation from `snapshot()`
+   */
+  static fromSnapshot(snapshot: ConversationSnapshot): Conversation {
+    if (snapshot.version !== SNAPSHOT_VERSION) {
+      throw new Error(`Unsupported conversation snapshot version ${snapshot.version}`);
+    }
+
+    const conversation = new Conversation();
+    conversation.currentSessionId = snapshot.sessionId;
+    snapshot.items.forEach((item) => {
+      conversation.items.set(item.id, { ...item });
+      conversation.order.push(item.id);
+    });
+    return conversation;
+  }
+
+  /**
+   * Rebuild a conversation from `serialize()`
+   */
+  static deserialize(json: string): Conversation {
+    return Conversation.fromSnapshot(JSON.parse(json) as ConversationSnapshot);
+  }
+
+  clear(): void {
+    this.items.clear();
+    this.order = [];
+    this.currentSessionId = null;
+  }
+
+  private upsertItem(
+    source: RealtimeConversationItem,
+    placement: { previousItemId?: string | null; responseId?: string; defaultStatus: ConversationItemStatus }
+  ): void {
+    // Context replayed onto a new connection is already in the conversation
+    if (!source.id || isReplayedItem(source)) {
+      return;
+    }
+
+    const fields = itemFields(source);
+    const existing = this.items.get(source.id);
+
+    if (existing) {
+      this.update(existing, {
+        ...fields,
+        // Streamed text is more complete than the item echo, and truncation is final
+        text: existing.text || fields.text || "",
+        transcriptionStatus:
+          existing.transcriptionStatus && existing.transcriptionStatus !== "pending"
+            ? existing.transcriptionStatus
+            : fields.transcriptionStatus ?? existing.transcriptionStatus,
+        status: existing.status === "truncated" ? "truncated" : source.status ?? existing.status,
+        ...(placement.responseId ? { responseId: placement.responseId } : {}),
+        ...(placement.previousItemId !== undefined ? { previousItemId: placement.previousItemId } : {}),
+      });
+      this.place(source.id, placement.previousItemId);
+      return;
+    }
+
+    const now = Date.now();
+    const item: ConversationItemState = {
+      id: source.id,
+      previousItemId: placement.previousItemId ?? this.order[this.order.length - 1] ?? null,
+      type: source.type,
+      status: source.status ?? placement.defaultStatus,
+      text: "",
+      ...fields,
+      ...(placement.responseId ? { responseId: placement.responseId } : {}),
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.items.set(item.id, item);
+    this.order.push(item.id);
+    this.place(item.id, placement.previousItemId);
+    this.notify(item, "added");
+  }
+
+  /**
+   * Move an item directly after its predecessor when the predecessor is known.
+   * Unknown predecessors (e.g. from before a reconnect) leave it where it is.
+   */
+  private place(id: string, previousItemId: string | null | undefined): void {
+    if (!previousItemId || !this.items.has(previousItemId)) {
+      return;
+    }
+
+    const from = this.order.indexOf(id);
+    this.order.splice(from, 1);
+    this.order.splice(this.order.indexOf(previousItemId) + 1, 0, id);
+  }
+
+  private appendText(itemId: string | undefined, delta: string, modality: "text" | "audio", responseId?: string): void {
+    const item = this.assistantItem(itemId, responseId);
+    if (item) {
+      this.update(item, { text: item.text + delta, modality });
+    }
+  }
+
+  private setText(itemId: string | undefined, text: string, modality: "text" | "audio", responseId?: string): void {
+    const item = this.assistantItem(itemId, responseId);
+    if (item) {
+      this.update(item, { text: text || item.text, modality });
+    }
+  }
+
+  /**
+   * Assistant message a content event refers to, created if the event arrived
+   * before the item was announced
+   */
+  private assistantItem(itemId: string | undefined, responseId?: string): ConversationItemState | undefined {
+    if (!itemId) {
+      return undefined;
+    }
+
+    if (!this.items.has(itemId)) {
+      this.upsertItem({ id: itemId, type: "message", role: "assistant" }, { responseId, defaultStatus: "in_progress" });
+    }
+    return this.items.get(itemId);
+  }
+
+  private findFunctionCall(itemId: string | undefined, callId: string): ConversationItemState | undefined {
+    const byId = itemId ? this.items.get(itemId) : undefined;
+    return byId ?? this.find((item) => item.type === "function_call" && item.callId === callId);
+  }
+
+  private finishResponse(
+    responseId: string | undefined,
+    status: string | undefined,
+    output: RealtimeConversationItem[]
+  ): void {
+    output.forEach((item) => {
+      if (item.id && this.items.has(item.id)) {
+        this.upsertItem(item, { responseId, defaultStatus: "completed" });
+      }
+    });
+
+    // Anything the response left open did not finish
+    const finalStatus: ConversationItemStatus = status === "completed" || !status ? "completed" : "incomplete";
+    this.order.forEach((id) => {
+      const item = this.items.get(id)!;
+      if (item.status === "in_progress" && (!responseId || item.responseId === responseId)) {
+        this.update(item, { status: finalStatus });
+      }
+    });
+  }
+
+  private find(predicate: (item: ConversationItemState) => boolean): ConversationItemState | undefined {
+    for (const id of this.order) {
+      const item = this.items.get(id)!;
+      if (predicate(item)) {
+        return item;
+      }
+    }
+    return undefined;
+  }
+
+  private update(item: ConversationItemState, changes: Partial<ConversationItemState>): void {
+    Object.assign(item, changes, { updatedAt: Date.now() });
+    this.notify(item, "updated");
+  }
+
+  private remove(id: string): void {
+    const item = this.items.get(id);
+    if (!item) {
+      return;
+    }
+
+    this.items.delete(id);
+    this.order = this.order.filter((itemId) => itemId !== id);
+    this.notify(item, "removed");
+  }
+
+  private notify(item: ConversationItemState, change: ConversationChange): void {
+    const copy = { ...item };
+    this.listeners.forEach((listener) => listener(copy, change));
+  }
+}
+
+/** State carried by the item itself: role, text or transcript, call details */
+function itemFields(source: RealtimeConversationItem): Partial<ConversationItemState> {
+  const fields: Partial<ConversationItemState> = {};
+
+  if (source.role) fields.role = source.role;
+  if (source.call_id) fields.callId = source.call_id;
+  if (source.name) fields.name = source.name;
+  if (source.arguments !== undefined) fields.arguments = source.arguments;
+  if (source.output !== undefined) fields.output = source.output;
+
+  const content = source.content ?? [];
+  const text = content
+    .map((part) => part.text ?? part.transcript ?? "")
+    .filter(Boolean)
+    .join("\n")
+    .trim();
+  if (text) fields.text = text;
+
+  if (content.some((part) => part.type === "input_audio" || part.type === "audio")) {
+    fields.modality = "audio";
+    if (source.role === "user") {
+      fields.transcriptionStatus = text ? "completed" : "pending";
+    }
+  } else if (content.some((part) => part.type === "input_text" || part.type === "text")) {
+    fields.modality = "text";
+  }
+
+  return fields;
+}
@@ -0,0 +1,183 @@
+/**
+ * Event Recorder
+ *
+ * Opt-in capture of every event a transport receives from and sends to the
+ * provider, with timestamps, as JSONL. Audio payloads are replaced with empty
+ * strings unless `includeAudio` is set, which keeps recordings small enough
+ * to commit as test fixtures. Recordings include conversation text, so treat
+ * them like transcripts.
+ */
+
+import {
+  EventRecording,
+  EventRecordingHeader,
+  RecordedEvent,
+  RecordedEventDirection,
+  Transport,
+} from "@thrivereflections/realtime-contracts";
+
+export interface EventRecorderOptions {
+  /** Keep base64 audio in `response.audio.delta`, `input_audio_buffer.append` and input audio items */
+  includeAudio?: boolean;
+  /** Receives each JSONL line as it is recorded, e.g. to append to a file */
+  onLine?: (line: string) => void;
+  /** Stop recording after this many events */
+  maxEvents?: number;
+  now?: () => number;
+}
+
+const RECORDING_VERSION = 1;
+
+export class EventRecorder {
+  private readonly header: EventRecordingHeader;
+  private readonly now: () => number;
+  private events: RecordedEvent[] = [];
+
+  constructor(private readonly options: EventRecorderOptions = {}) {
+    this.now = options.now ?? Date.now;
+    this.header = {
+      version: RECORDING_VERSION,
+      startedAt: this.now(),
+      audio: options.includeAudio ? "included" : "stripped",
+    };
+    options.onLine?.(JSON.stringify(this.header));
+  }
+
+  get size(): number {
+    return this.events.length;
+  }
+
+  recordInbound(event: unknown): void {
+    this.record("inbound", event);
+  }
+
+  recordOutbound(event: unknown): void {
+    this.record("outbound", event);
+  }
+
+  /**
+   * A transport that records what passes through `transport`. `kind` and the
+   * playback methods are read on each access, so a fallback transport that
+   * switches underneath keeps reporting its active transport.
+   */
+  wrapTransport(transport: Transport): Transport {
+    return {
+      get kind() {
+        return transport.kind;
+      },
+      connect: (opts) =>
+        transport.connect({
+          ...opts,
+          onEvent: (event) => {
+            this.recordInbound(event);
+            opts.onEvent(event);
+          },
+        }),
+      send: (event) => {
+        this.recordOutbound(event);
+        transport.send(event);
+      },
+      close: () => transport.close(),
+      get getPlaybackPosition() {
+        return transport.getPlaybackPosition?.bind(transport);
+      },
+      get clearPlayback() {
+        return transport.clearPlayback?.bind(transport);
+      },
+    };
+  }
+
+  toRecording(): EventRecording {
+    return { header: { ...this.header }, events: [...this.events] };
+  }
+
+  toJSONL(): string {
+    return serializeEventRecording(this.toRecording());
+  }
+
+  /** The recording as a downloadable blob (browser) */
+  toBlob(): Blob {
+    return new Blob([this.toJSONL()], { type: "application/x-ndjson" });
+  }
+
+  private record(direction: RecordedEventDirection, event: unknown): void {
+    if (this.options.maxEvents !== undefined && this.events.length >= this.options.maxEvents) {
+      return;
+    }
+
+    const entry: RecordedEvent = {
+      t: this.now() - this.header.startedAt,
+      direction,
+      event: copy(this.options.includeAudio ? event : stripAudio(event)),
+    };
+    this.events.push(entry);
+    this.options.onLine?.(JSON.stringify(entry));
+  }
+}
+
+export function serializeEventRecording(recording: EventRecording): string {
+  return [recording.header, ...recording.events].map((line) => JSON.stringify(line)).join("\n") + "\n";
+}
+
+/**
+ * Read a JSONL recording written by `EventRecorder`
+ */
+export function parseEventRecording(jsonl: string): EventRecording {
+  const lines = jsonl.split("\n").filter((line) => line.trim() !== "");
+  if (lines.length === 0) {
+    throw new Error("Event recording is empty");
+  }
+
+  const header = JSON.parse(lines[0]) as EventRecordingHeader;
+  if (header.version !== RECORDING_VERSION) {
+    throw new Error(`Unsupported event recording version ${header.version}`);
+  }
+
+  const events = lines.slice(1).map((line, index) => {
+    const entry = JSON.parse(line) as RecordedEvent;
+    if (typeof entry.t !== "number" || (entry.direction !== "inbound" && entry.direction !== "outbound")) {
+      throw new Error(`Invalid event recording entry on line ${index + 2}`);
+    }
+    return entry;
+  });
+
+  return { header, events };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** Copy so later mutation by handlers does not change the recording */
+function copy(event: unknown): unknown {
+  return event === undefined ? null : JSON.parse(JSON.stringify(event));
+}
+
+/** Replace base64 audio with empty strings */
+function stripAudio(event: unknown): unknown {
+  if (!isObject(event)) {
+    return event;
+  }
+
+  switch (event.type) {
+    case "response.audio.delta":
+      return { ...event, delta: "" };
+    case "input_audio_buffer.append":
+      return { ...event, audio: "" };
+  }
+
+  const item = event.item;
+  if (isObject(item) && Array.isArray(item.content)) {
+    return {
+      ...event,
+      item: {
+        ...item,
+        content: item.content.map((part: unknown) =>
+          isObject(part) && typeof part.audio === "string" ? { ...part, audio: "" } : part
+        ),
+      },
+    };
+  }
+
+  return event;
+}
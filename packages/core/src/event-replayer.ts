@@ -0,0 +1,137 @@
+/**
+ * Event Replayer
+ *
+ * Feeds a recording from `EventRecorder` back in: straight into a
+ * `RealtimeEventRouter`, or through a transport so the whole `initRealtime`
+ * stack (and anything built on it) sees the provider's events in their
+ * original order and spacing. `speed` compresses the gaps between events;
+ * `Infinity` delivers them back to back without timers.
+ */
+
+import {
+  EventRecording,
+  Transport,
+  TransportConnectOptions,
+  TransportKind,
+} from "@thrivereflections/realtime-contracts";
+import { parseEventRecording } from "./event-recorder";
+
+export interface ReplayOptions {
+  /** Playback rate: 1 (default) plays at the recorded pace, 10 ten times faster, Infinity without pauses */
+  speed?: number;
+  /** Receives recorded outbound events at their point in the stream */
+  onOutbound?: (event: unknown) => void;
+  signal?: AbortSignal;
+}
+
+export type ReplayTarget = { routeEvent(event: unknown): void } | ((event: unknown) => void);
+
+/**
+ * Deliver a recording's inbound events to `target`. Resolves with the number
+ * of inbound events delivered once the recording ends or `signal` aborts.
+ */
+export async function replayEvents(
+  recording: EventRecording | string,
+  target: ReplayTarget,
+  options: ReplayOptions = {}
+): Promise<number> {
+  const { events } = typeof recording === "string" ? parseEventRecording(recording) : recording;
+  const deliver = typeof target === "function" ? target : (event: unknown) => target.routeEvent(event);
+  const speed = options.speed ?? 1;
+  if (!(speed > 0)) {
+    throw new Error("Replay speed must be greater than 0");
+  }
+
+  let delivered = 0;
+  let previousT = events[0]?.t ?? 0;
+
+  for (const entry of events) {
+    const waitMs = (entry.t - previousT) / speed;
+    previousT = entry.t;
+    if (waitMs > 0 && Number.isFinite(waitMs)) {
+      await delay(waitMs, options.signal);
+    }
+    if (options.signal?.aborted) {
+      break;
+    }
+
+    if (entry.direction === "inbound") {
+      deliver(entry.event);
+      delivered++;
+    } else {
+      options.onOutbound?.(entry.event);
+    }
+  }
+
+  return delivered;
+}
+
+export interface ReplayTransport extends Transport {
+  /** Events the client sent, in order */
+  readonly sent: unknown[];
+  /** Resolves when the current replay has delivered every inbound event or was closed */
+  readonly finished: Promise<number>;
+}
+
+/**
+ * A transport that plays a recording's inbound events after `connect()` and
+ * collects what the client sends. Pass it through `transportFactory` to run
+ * `initRealtime` or the demo hook against a fixture.
+ */
+export function createReplayTransport(
+  recording: EventRecording | string,
+  options: Omit<ReplayOptions, "signal" | "onOutbound"> & { kind?: TransportKind } = {}
+): ReplayTransport {
+  const parsed = typeof recording === "string" ? parseEventRecording(recording) : recording;
+  const sent: unknown[] = [];
+  let controller: AbortController | null = null;
+  let finished: Promise<number> = Promise.resolve(0);
+
+  return {
+    kind: options.kind ?? "websocket",
+    sent,
+
+    get finished() {
+      return finished;
+    },
+
+    async connect(opts: TransportConnectOptions) {
+      controller?.abort();
+      const current = new AbortController();
+      controller = current;
+
+      opts.onStateChange?.({ state: "connected" });
+      // Start after connect() resolves, as a live provider's first event would
+      finished = Promise.resolve().then(() =>
+        replayEvents(parsed, (event) => opts.onEvent(event), { speed: options.speed, signal: current.signal })
+      );
+    },
+
+    send(event: unknown) {
+      sent.push(event);
+    },
+
+    async close() {
+      controller?.abort();
+      controller = null;
+    },
+  };
+}
+
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
@@ -5,6 +5,34 @@
  * and provides typed event handlers for the voice interface.
  */
 
+import {
+  RealtimeServerEvent,
+  RealtimeServerEventOf,
+  RealtimeServerEventType,
+  RealtimeUsage,
+  SessionCreatedEvent,
+  ResponseTextDeltaEvent,
+  ResponseTextDoneEvent,
+  ResponseAudioDeltaEvent,
+  ResponseAudioTranscriptDeltaEvent,
+  ResponseAudioTranscriptDoneEvent,
+  ResponseDoneEvent,
+  ResponseFunctionCallArgumentsDeltaEvent,
+  ResponseFunctionCallArgumentsDoneEvent,
+  InputAudioBufferSpeechStartedEvent,
+  InputAudioBufferSpeechStoppedEvent,
+  InputAudioBufferCommittedEvent,
+  ConversationItemCreatedEvent,
+  ConversationItemInputAudioTranscriptionDeltaEvent,
+  ConversationItemInputAudioTranscriptionCompletedEvent,
+  ConversationItemTruncatedEvent,
+  ServerErrorEvent,
+} from "@thrivereflections/realtime-contracts";
+import { createRedactingLogger, Logger, LoggingDeps } from "@thrivereflections/realtime-observability";
+import { piiRedactor } from "@thrivereflections/realtime-security";
+import { validateServerEvent } from "./event-schema";
+import { Conversation } from "./conversation";
+
 export interface RealtimeEvent {
   type: string;
   [key: string]: unknown;
@@ -16,6 +44,8 @@ export interface Transcript {
   text: string;
   type: "partial" | "final";
   timestamp: number;
+  /** Assistant speech cut off by the user; the listener did not hear all of `text` */
+  interrupted?: boolean;
 }
 
 export interface ToolCall {
@@ -25,31 +55,19 @@ export interface ToolCall {
   timestamp: number;
 }
 
-export interface UsageInfo {
-  total_tokens?: number;
-  input_tokens?: number;
-  output_tokens?: number;
-  cached_tokens?: number;
-  input_token_details?: {
-    text_tokens?: number;
-    audio_tokens?: number;
-    image_tokens?: number;
-    cached_tokens?: number;
-    cached_tokens_details?: {
-      text_tokens?: number;
-      audio_tokens?: number;
-      image_tokens?: number;
-    };
-  };
-  output_token_details?: {
-    text_tokens?: number;
-    audio_tokens?: number;
-  };
+export type UsageInfo = RealtimeUsage;
+
+export interface InvalidEventIssue {
+  reason: "unknown_type" | "malformed";
+  message: string;
+  event: unknown;
 }
 
 export interface EventRouterCallbacks {
   onSessionCreated?: (sessionId: string, session: unknown) => void;
   onTranscript?: (transcript: Transcript) => void;
+  /** A final assistant transcript already delivered through onTranscript was truncated by barge-in */
+  onTranscriptInterrupted?: (transcript: Transcript) => void;
   onPartialTranscript?: (text: string) => void;
   onAudioResponse?: (audioData: Int16Array) => void;
   onToolCall?: (toolCall: ToolCall) => void;
@@ -61,56 +79,79 @@ export interface EventRouterCallbacks {
   onUsageUpdate?: (usage: UsageInfo) => void;
   onError?: (error: unknown) => void;
   onLatencyMark?: (mark: string, timestamp: number) => void;
+  onInvalidEvent?: (issue: InvalidEventIssue) => void;
 }
 
-// Specific event types for better type safety
-interface ResponseEvent extends RealtimeEvent {
-  response?: {
-    usage?: UsageInfo;
-  };
-  usage?: UsageInfo;
+export interface EventRouterDeps extends LoggingDeps {
+  /** Conversation to keep up to date; a new one is created when omitted */
+  conversation?: Conversation;
 }
 
-interface TranscriptEvent extends RealtimeEvent {
-  transcript?: string;
-  text?: string;
-  delta?: string;
-  content?: string;
-  message?: string;
-}
+type EventListener = (event: RealtimeServerEvent) => void;
 
 export class RealtimeEventRouter {
   private callbacks: EventRouterCallbacks;
-  private currentUserTranscript: string = "";
-  private currentAITranscript: string = "";
-  private currentToolCall: { callId: string; arguments: string } | null = null;
+  private logger: Logger;
+  private listeners = new Map<RealtimeServerEventType, Set<EventListener>>();
+  /** Final assistant transcripts by item id, so a later truncation can flag them */
+  private assistantTranscripts = new Map<string, Transcript>();
   private processedToolCalls: Set<string> = new Set();
 
-  constructor(callbacks: EventRouterCallbacks) {
+  /** Items seen so far; transcripts and tool calls are read from here */
+  readonly conversation: Conversation;
+
+  constructor(callbacks: EventRouterCallbacks, deps: EventRouterDeps = {}) {
     this.callbacks = callbacks;
+    this.logger = createRedactingLogger({ ...deps, redactor: deps.redactor ?? piiRedactor });
+    this.conversation = deps.conversation ?? new Conversation();
   }
 
   /**
-   * Route an incoming event to the appropriate handler
+   * Subscribe to a specific server event type. Returns an unsubscribe function.
    */
-  routeEvent(event: RealtimeEvent): void {
-    // Log all events with their data (excluding audio)
-    const logData = { ...event };
-    if (logData.audio) {
-      logData.audio = "[AUDIO_DATA_REMOVED_FOR_LOGGING]";
+  on<T extends RealtimeServerEventType>(type: T, handler: (event: RealtimeServerEventOf<T>) => void): () => void {
+    let handlers = this.listeners.get(type);
+    if (!handlers) {
+      handlers = new Set();
+      this.listeners.set(type, handlers);
     }
-    console.log("🔄 Routing event:", event.type, logData);
 
-    // Debug: Log all event types to see what we're missing
-    if (event.type.includes("input") || event.type.includes("transcription")) {
-      console.log("🎤 INPUT/TRANSCRIPTION EVENT:", event.type, event);
+    const listener = handler as EventListener;
+    handlers.add(listener);
+
+    return () => {
+      handlers!.delete(listener);
+    };
+  }
+
+  /**
+   * Route an incoming event to the appropriate handler
+   */
+  routeEvent(event: unknown): void {
+    const validation = validateServerEvent(event);
+    if (!validation.ok) {
+      this.logger.warn("Dropping invalid realtime event", { reason: validation.reason, message: validation.message });
+      this.callbacks.onInvalidEvent?.({ reason: validation.reason, message: validation.message, event });
+      return;
     }
 
-    // Log usage-related events specifically
-    if (event.type.includes("usage") || event.type.includes("response") || event.type.includes("completion")) {
-      console.log("📊 USAGE/RESPONSE EVENT:", event.type, logData);
+    const typedEvent = validation.event;
+
+    // Payloads are only logged at debug level, with transcripts redacted
+    if (this.logger.isLevelEnabled("debug")) {
+      const logData: Record<string, unknown> = { ...typedEvent };
+      if (typedEvent.type === "response.audio.delta") {
+        logData.delta = "[AUDIO_DATA_REMOVED_FOR_LOGGING]";
+      }
+      this.logger.debug("Routing event", { type: typedEvent.type, event: logData });
     }
 
+    this.conversation.handleEvent(typedEvent);
+    this.dispatch(typedEvent);
+    this.notifyListeners(typedEvent);
+  }
+
+  private dispatch(event: RealtimeServerEvent): void {
     switch (event.type) {
       case "session.created":
         this.handleSessionCreated(event);
@@ -120,6 +161,10 @@ export class RealtimeEventRouter {
         this.handleTextDelta(event);
         break;
 
+      case "response.text.done":
+        this.handleTextDone(event);
+        break;
+
       case "response.audio.delta":
         this.handleAudioDelta(event);
         break;
@@ -132,8 +177,8 @@ export class RealtimeEventRouter {
         this.handleAudioTranscriptDone(event);
         break;
 
-      case "response.completed":
-        this.handleResponseCompleted(event);
+      case "response.done":
+        this.handleResponseDone(event);
         break;
 
       case "input_audio_buffer.speech_started":
@@ -144,14 +189,6 @@ export class RealtimeEventRouter {
         this.handleSpeechStopped(event);
         break;
 
-      case "input_audio_transcription.delta":
-        this.handleInputTranscriptionDelta(event);
-        break;
-
-      case "input_audio_transcription.completed":
-        this.handleInputTranscriptionCompleted(event);
-        break;
-
       case "input_audio_buffer.committed":
         this.handleInputAudioBufferCommitted(event);
         break;
@@ -160,274 +197,140 @@ export class RealtimeEventRouter {
         this.handleConversationItemCreated(event);
         break;
 
-      case "response.function_call_arguments.delta":
-        this.handleToolCallDelta(event);
-        break;
-
-      case "response.function_call_arguments.done":
-        this.handleToolCallDone(event);
+      case "conversation.item.input_audio_transcription.delta":
+        this.handleInputTranscriptionDelta(event);
         break;
 
-      case "response.error":
-        this.handleError(event);
+      case "conversation.item.input_audio_transcription.completed":
+        this.handleInputTranscriptionCompleted(event);
         break;
 
-      case "conversation.item.input_audio_transcription.completed":
-        this.handleTranscriptionCompleted(event);
+      case "conversation.item.truncated":
+        this.handleItemTruncated(event);
         break;
 
-      case "conversation.item.completed":
-        this.handleConversationItemCompleted(event);
+      case "response.function_call_arguments.delta":
+        this.handleToolCallDelta(event);
         break;
 
-      case "response.done":
-        this.handleResponseDone(event);
+      case "response.function_call_arguments.done":
+        this.handleToolCallDone(event);
         break;
 
-      default:
-        console.log("🔍 Unhandled event type:", event.type, event);
-
-        // Check if this might contain usage information
-        if (event.type.includes("usage") || event.type.includes("token") || event.type.includes("cost")) {
-          console.log("💰 Potential usage event:", event.type, event);
-        }
-
-        // Check if this might be a response event with usage data
-        if (event.type.includes("response") && (event as ResponseEvent).usage) {
-          console.log("📊 Response event with usage data:", event.type, (event as ResponseEvent).usage);
-        }
-
-        // Check if this might be a user transcript event we haven't handled
-        if (event.type.includes("input") || event.type.includes("user") || event.type.includes("transcript")) {
-          console.log("🎤 POTENTIAL USER TRANSCRIPT EVENT:", event.type, event);
-
-          // Try to extract transcript from various possible fields
-          const transcriptEvent = event as TranscriptEvent;
-          const possibleTranscript =
-            transcriptEvent.transcript ||
-            transcriptEvent.text ||
-            transcriptEvent.delta ||
-            transcriptEvent.content ||
-            transcriptEvent.message;
-
-          if (possibleTranscript && typeof possibleTranscript === "string") {
-            console.log("📝 Found potential transcript text:", possibleTranscript);
-
-            const transcript: Transcript = {
-              id: crypto.randomUUID(),
-              role: "user",
-              text: possibleTranscript,
-              type: "final",
-              timestamp: Date.now(),
-            };
-
-            this.callbacks.onTranscript?.(transcript);
-          }
-        }
+      case "error":
+        this.handleError(event);
         break;
     }
   }
 
-  private handleSessionCreated(event: RealtimeEvent): void {
-    console.log("🎉 Session created event received:", event);
+  private notifyListeners(event: RealtimeServerEvent): void {
+    const handlers = this.listeners.get(event.type);
+    if (!handlers) {
+      return;
+    }
 
-    const session = event.session as { id?: string } | undefined;
-    const sessionId = session?.id;
-    console.log("🎉 Extracted session ID:", sessionId);
-    console.log("🎉 Has onSessionCreated callback:", !!this.callbacks.onSessionCreated);
+    for (const handler of Array.from(handlers)) {
+      try {
+        handler(event);
+      } catch (error) {
+        this.callbacks.onError?.(error);
+      }
+    }
+  }
 
+  private handleSessionCreated(event: SessionCreatedEvent): void {
+    const sessionId = event.session.id;
     if (sessionId) {
-      console.log("🎉 Calling onSessionCreated callback with:", sessionId);
       this.callbacks.onSessionCreated?.(sessionId, event.session);
       this.callbacks.onLatencyMark?.("sessionCreated", Date.now());
-      console.log("🎉 Session created callback completed");
     } else {
-      console.log("❌ No session ID found in event");
+      this.logger.warn("session.created event without a session id");
     }
   }
 
-  private handleTextDelta(event: RealtimeEvent): void {
-    const delta = event.delta as string | undefined;
-    if (delta) {
-      this.currentAITranscript += delta;
-      console.log("📝 Text delta:", delta);
-      console.log("📝 Current AI transcript:", this.currentAITranscript);
-
-      this.callbacks.onPartialTranscript?.(this.currentAITranscript);
+  private handleTextDelta(event: ResponseTextDeltaEvent): void {
+    if (event.delta) {
+      this.callbacks.onPartialTranscript?.(this.itemText(event.item_id) ?? event.delta);
     }
   }
 
-  private handleAudioDelta(event: RealtimeEvent): void {
-    const delta = event.delta as string | undefined;
-    if (delta) {
-      console.log("🎵 Audio delta received");
+  /**
+   * Final text of a text-modality response
+   */
+  private handleTextDone(event: ResponseTextDoneEvent): void {
+    this.emitAssistantTranscript(event.item_id, event.text);
+  }
 
+  private handleAudioDelta(event: ResponseAudioDeltaEvent): void {
+    if (event.delta) {
       // Convert base64 audio data to Int16Array if needed
       try {
-        const audioData = this.base64ToInt16Array(delta);
+        const audioData = this.base64ToInt16Array(event.delta);
         this.callbacks.onAudioResponse?.(audioData);
         this.callbacks.onLatencyMark?.("firstAudio", Date.now());
       } catch (error) {
-        console.error("❌ Failed to process audio delta:", error);
+        this.logger.error("Failed to process audio delta", {
+          error: error instanceof Error ? error.message : String(error),
+        });
       }
     }
   }
 
-  private handleResponseCompleted(event: RealtimeEvent): void {
-    console.log("✅ Response completed - Full event data:", JSON.stringify(event, null, 2));
-
-    // Check if the event contains usage information (either directly or in response)
-    const responseEvent = event as ResponseEvent;
-    const usage = responseEvent.usage || responseEvent.response?.usage;
+  private handleResponseDone(event: ResponseDoneEvent): void {
+    const usage = event.response.usage;
     if (usage) {
-      console.log("📊 Usage information received:", usage);
-      this.callbacks.onUsageUpdate?.(usage as UsageInfo);
-    } else {
-      console.log("⚠️ No usage information found in response.completed event");
-    }
-
-    // Log all properties of the event to see what's available
-    console.log("🔍 Event properties:", Object.keys(event));
-    if (event.response) {
-      console.log("📋 Response object:", event.response);
+      this.callbacks.onUsageUpdate?.(usage);
     }
 
-    // Create final transcript if we have accumulated text
-    if (this.currentAITranscript.trim()) {
-      const transcript: Transcript = {
-        id: crypto.randomUUID(),
-        role: "assistant",
-        text: this.currentAITranscript.trim(),
-        type: "final",
-        timestamp: Date.now(),
-      };
-
-      this.callbacks.onTranscript?.(transcript);
-      this.currentAITranscript = ""; // Reset for next response
-    }
+    // Flush text from items that ended without text.done or audio_transcript.done, e.g. when cancelled
+    const responseId = event.response.id;
+    this.conversation
+      .getItems()
+      .filter(
+        (item) =>
+          item.type === "message" &&
+          item.role === "assistant" &&
+          (!responseId || item.responseId === responseId) &&
+          !this.assistantTranscripts.has(item.id)
+      )
+      .forEach((item) => this.emitAssistantTranscript(item.id, "", event.response.status === "cancelled"));
 
     this.callbacks.onResponseCompleted?.();
   }
 
-  private handleResponseDone(event: RealtimeEvent): void {
-    console.log("✅ Response done - Full event data:", JSON.stringify(event, null, 2));
-
-    // Check if the event contains usage information (either directly or in response)
-    const responseEvent = event as ResponseEvent;
-    const usage = responseEvent.usage || responseEvent.response?.usage;
-    if (usage) {
-      console.log("📊 Usage information received in response.done:", usage);
-      this.callbacks.onUsageUpdate?.(usage as UsageInfo);
-    } else {
-      console.log("⚠️ No usage information found in response.done event");
-    }
-
-    // Log all properties of the event to see what's available
-    console.log("🔍 Event properties:", Object.keys(event));
-    if (event.response) {
-      console.log("📋 Response object:", event.response);
-    }
-  }
-
-  private handleSpeechStarted(_event: RealtimeEvent): void {
-    console.log("🎤 Speech started");
+  private handleSpeechStarted(_event: InputAudioBufferSpeechStartedEvent): void {
     this.callbacks.onSpeechStarted?.();
     this.callbacks.onLatencyMark?.("speechStarted", Date.now());
   }
 
-  private handleSpeechStopped(_event: RealtimeEvent): void {
-    console.log("🔇 Speech stopped");
+  private handleSpeechStopped(_event: InputAudioBufferSpeechStoppedEvent): void {
     this.callbacks.onSpeechStopped?.();
     this.callbacks.onLatencyMark?.("speechStopped", Date.now());
   }
 
-  private handleToolCallDelta(event: RealtimeEvent): void {
-    const callId = event.call_id as string | undefined;
-    const delta = event.delta as string | undefined;
-
-    if (callId && delta) {
-      console.log("🔧 Tool call delta:", callId, delta);
-
-      if (!this.currentToolCall || this.currentToolCall.callId !== callId) {
-        this.currentToolCall = { callId, arguments: "" };
-      }
-
-      this.currentToolCall.arguments += delta;
-      this.callbacks.onToolCallDelta?.(callId, delta);
+  private handleToolCallDelta(event: ResponseFunctionCallArgumentsDeltaEvent): void {
+    if (event.delta) {
+      this.callbacks.onToolCallDelta?.(event.call_id, event.delta);
     }
   }
 
-  private handleToolCallDone(event: RealtimeEvent): void {
-    const callId = event.call_id as string | undefined;
-    const argsStr = this.currentToolCall?.callId === callId ? this.currentToolCall?.arguments : "";
+  private handleToolCallDone(event: ResponseFunctionCallArgumentsDoneEvent): void {
+    const callId = event.call_id;
+    const item = this.conversation.findByCallId(callId);
+    const argsStr = event.arguments || item?.arguments || "";
 
-    if (callId && argsStr) {
-      // Check if we've already processed this tool call
-      if (this.processedToolCalls.has(callId)) {
-        console.log("⚠️ Duplicate tool call detected, skipping:", callId);
-        return;
-      }
-
-      console.log("🔧 Tool call done:", callId, argsStr);
-
-      try {
-        const parsedArgs = JSON.parse(argsStr);
-        const toolCall: ToolCall = {
-          id: callId,
-          name: (event.name as string) || "unknown",
-          arguments: parsedArgs,
-          timestamp: Date.now(),
-        };
-
-        // Mark this tool call as processed
-        this.processedToolCalls.add(callId);
-
-        this.callbacks.onToolCall?.(toolCall);
-        this.callbacks.onToolCallDone?.(callId, parsedArgs);
-        this.callbacks.onLatencyMark?.("toolCallDone", Date.now());
-      } catch (error) {
-        console.error("❌ Failed to parse tool call arguments:", error);
-        this.callbacks.onError?.(error);
-      }
-
-      // Reset current tool call
-      this.currentToolCall = null;
+    // Check if we've already processed this tool call
+    if (this.processedToolCalls.has(callId)) {
+      this.logger.warn("Duplicate tool call detected, skipping", { callId });
+      return;
     }
-  }
-
-  private handleError(event: RealtimeEvent): void {
-    console.error("❌ Response error:", event);
-    this.callbacks.onError?.(event);
-  }
-
-  private handleConversationItemCreated(event: RealtimeEvent): void {
-    console.log("💬 Conversation item created:", event);
-
-    const item = event.item as
-      | {
-          type?: string;
-          id?: string;
-          name?: string;
-          arguments?: Record<string, unknown>;
-          role?: string;
-          transcript?: string;
-          formatted?: { text?: string };
-        }
-      | undefined;
-
-    if (item?.type === "function_call") {
-      const callId = item.id || crypto.randomUUID();
-
-      // Check if we've already processed this tool call
-      if (this.processedToolCalls.has(callId)) {
-        console.log("⚠️ Duplicate function call detected, skipping:", callId);
-        return;
-      }
 
+    try {
+      const parsedArgs = argsStr ? JSON.parse(argsStr) : {};
       const toolCall: ToolCall = {
         id: callId,
-        name: item.name || "unknown",
-        arguments: item.arguments || {},
+        name: event.name || item?.name || "unknown",
+        arguments: parsedArgs,
         timestamp: Date.now(),
       };
 
@@ -435,145 +338,138 @@ export class RealtimeEventRouter {
       this.processedToolCalls.add(callId);
 
       this.callbacks.onToolCall?.(toolCall);
-    } else if (item?.type === "message" && item?.role === "user") {
-      // Handle user message/transcript
-      console.log("👤 User message created:", item);
-
-      const transcriptText = item.transcript || item.formatted?.text;
-      if (transcriptText) {
-        const transcript: Transcript = {
-          id: item.id || crypto.randomUUID(),
-          role: "user",
-          text: transcriptText,
-          type: "final",
-          timestamp: Date.now(),
-        };
-
-        this.callbacks.onTranscript?.(transcript);
-      }
+      this.callbacks.onToolCallDone?.(callId, parsedArgs);
+      this.callbacks.onLatencyMark?.("toolCallDone", Date.now());
+    } catch (error) {
+      this.logger.error("Failed to parse tool call arguments", {
+        callId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      this.callbacks.onError?.(error);
     }
   }
 
-  private handleTranscriptionCompleted(event: RealtimeEvent): void {
-    console.log("📝 Transcription completed:", event);
+  private handleError(event: ServerErrorEvent): void {
+    this.logger.error("Realtime server error", { error: event.error });
+    this.callbacks.onError?.(event.error);
+  }
 
-    const item = event.item as { transcript?: string; id?: string; timestamp?: number } | undefined;
-    if (item?.transcript) {
-      const transcript: Transcript = {
-        id: item.id || crypto.randomUUID(),
+  /**
+   * Surface typed user messages as transcripts. Spoken messages are
+   * transcribed separately, and replayed context is not in the conversation.
+   */
+  private handleConversationItemCreated(event: ConversationItemCreatedEvent): void {
+    const item = event.item.id ? this.conversation.getItem(event.item.id) : undefined;
+
+    if (item?.type === "message" && item.role === "user" && item.modality === "text" && item.text) {
+      this.callbacks.onTranscript?.({
+        id: item.id,
         role: "user",
-        text: item.transcript,
+        text: item.text,
         type: "final",
-        timestamp: item.timestamp || Date.now(),
-      };
-
-      this.callbacks.onTranscript?.(transcript);
-      this.callbacks.onLatencyMark?.("transcriptionCompleted", Date.now());
-    }
-  }
-
-  private handleConversationItemCompleted(event: RealtimeEvent): void {
-    console.log("✅ Conversation item completed:", event);
-
-    const item = event.item as { type?: string; role?: string; formatted?: { text?: string } } | undefined;
-    if (item?.type === "message" && item?.role === "assistant") {
-      if (item.formatted?.text) {
-        const transcript: Transcript = {
-          id: crypto.randomUUID(),
-          role: "assistant",
-          text: item.formatted.text,
-          type: "final",
-          timestamp: Date.now(),
-        };
-
-        this.callbacks.onTranscript?.(transcript);
-      }
+        timestamp: Date.now(),
+      });
     }
   }
 
   /**
    * Handle input audio transcription delta events (user speech)
    */
-  private handleInputTranscriptionDelta(event: RealtimeEvent): void {
-    const delta = event.delta as string | undefined;
-    if (delta) {
-      this.currentUserTranscript += delta;
-      console.log("🎤 Input transcript delta:", delta);
-      console.log("🎤 Current input transcript:", this.currentUserTranscript);
-
-      this.callbacks.onPartialTranscript?.(this.currentUserTranscript);
+  private handleInputTranscriptionDelta(event: ConversationItemInputAudioTranscriptionDeltaEvent): void {
+    if (event.delta) {
+      this.callbacks.onPartialTranscript?.(this.itemText(event.item_id) ?? event.delta);
     }
   }
 
   /**
    * Handle input audio transcription completed events (user speech)
    */
-  private handleInputTranscriptionCompleted(event: RealtimeEvent): void {
-    console.log("✅ Input transcription completed");
+  private handleInputTranscriptionCompleted(event: ConversationItemInputAudioTranscriptionCompletedEvent): void {
+    const text = (event.transcript || this.itemText(event.item_id) || "").trim();
 
-    if (this.currentUserTranscript.trim()) {
+    if (text) {
       const transcript: Transcript = {
-        id: crypto.randomUUID(),
+        id: event.item_id,
         role: "user",
-        text: this.currentUserTranscript.trim(),
+        text,
         type: "final",
         timestamp: Date.now(),
       };
 
       this.callbacks.onTranscript?.(transcript);
-      this.currentUserTranscript = ""; // Reset for next response
+      this.callbacks.onLatencyMark?.("transcriptionCompleted", Date.now());
     }
   }
 
   /**
    * Handle input audio buffer committed events (user speech)
    */
-  private handleInputAudioBufferCommitted(event: RealtimeEvent): void {
-    console.log("📝 Input audio buffer committed:", event);
-
-    // This event indicates the user's speech has been processed
-    // We might need to wait for a transcription event or create one from the buffer
-    const itemId = event.item_id as string | undefined;
-    if (itemId) {
-      console.log("🎤 Audio buffer committed for item:", itemId);
-      // The transcription might come in a separate event
-    }
+  private handleInputAudioBufferCommitted(event: InputAudioBufferCommittedEvent): void {
+    // The transcription arrives in a separate event for this item
+    this.logger.debug("Audio buffer committed", { itemId: event.item_id });
   }
 
   /**
    * Handle audio transcript delta events
    */
-  private handleAudioTranscriptDelta(event: RealtimeEvent): void {
-    const delta = event.delta as string | undefined;
-    if (delta) {
-      this.currentAITranscript += delta;
-      console.log("📝 Audio transcript delta:", delta);
-      console.log("📝 Current AI transcript:", this.currentAITranscript);
-
-      this.callbacks.onPartialTranscript?.(this.currentAITranscript);
+  private handleAudioTranscriptDelta(event: ResponseAudioTranscriptDeltaEvent): void {
+    if (event.delta) {
+      this.callbacks.onPartialTranscript?.(this.itemText(event.item_id) ?? event.delta);
     }
   }
 
   /**
    * Handle audio transcript done events
    */
-  private handleAudioTranscriptDone(event: RealtimeEvent): void {
-    console.log("✅ Audio transcript completed");
+  private handleAudioTranscriptDone(event: ResponseAudioTranscriptDoneEvent): void {
+    this.emitAssistantTranscript(event.item_id, event.transcript);
+  }
 
-    if (this.currentAITranscript.trim()) {
-      const transcript: Transcript = {
-        id: crypto.randomUUID(),
-        role: "assistant",
-        text: this.currentAITranscript.trim(),
-        type: "final",
-        timestamp: Date.now(),
-      };
+  /**
+   * Deliver the final transcript of an assistant message once. Items the
+   * user cut off are flagged as interrupted.
+   */
+  private emitAssistantTranscript(itemId: string | undefined, text: string, cancelled = false): void {
+    const item = itemId ? this.conversation.getItem(itemId) : undefined;
+    const finalText = (text || item?.text || "").trim();
+    if (!finalText || (itemId && this.assistantTranscripts.has(itemId))) {
+      return;
+    }
 
-      this.callbacks.onTranscript?.(transcript);
-      this.currentAITranscript = ""; // Reset for next response
+    const interrupted = cancelled || item?.status === "truncated";
+    const transcript: Transcript = {
+      id: itemId || crypto.randomUUID(),
+      role: "assistant",
+      text: finalText,
+      type: "final",
+      timestamp: Date.now(),
+      ...(interrupted ? { interrupted } : {}),
+    };
+
+    this.assistantTranscripts.set(transcript.id, transcript);
+    this.callbacks.onTranscript?.(transcript);
+  }
+
+  /**
+   * Handle truncation of an assistant item after barge-in. The transcript is
+   * usually final before playback ends, so it is re-emitted as interrupted;
+   * otherwise it is flagged when it arrives.
+   */
+  private handleItemTruncated(event: ConversationItemTruncatedEvent): void {
+    this.callbacks.onLatencyMark?.("interrupted", Date.now());
+
+    const delivered = this.assistantTranscripts.get(event.item_id);
+    if (delivered && !delivered.interrupted) {
+      const interrupted: Transcript = { ...delivered, interrupted: true };
+      this.assistantTranscripts.set(event.item_id, interrupted);
+      this.callbacks.onTranscriptInterrupted?.(interrupted);
     }
   }
 
+  private itemText(itemId: string | undefined): string | undefined {
+    return itemId ? this.conversation.getItem(itemId)?.text : undefined;
+  }
+
   /**
    * Convert base64 encoded audio data to Int16Array
    */
@@ -592,9 +488,8 @@ export class RealtimeEventRouter {
    * Reset the router state
    */
   reset(): void {
-    this.currentUserTranscript = "";
-    this.currentAITranscript = "";
-    this.currentToolCall = null;
+    this.assistantTranscripts.clear();
     this.processedToolCalls.clear();
+    this.conversation.clear();
   }
 }
@@ -0,0 +1,126 @@
+/**
+ * Runtime validation for OpenAI Realtime server events
+ *
+ * Checks incoming DataChannel/WebSocket messages against the
+ * RealtimeServerEvent union from contracts before they reach handlers.
+ */
+
+import { RealtimeServerEvent, RealtimeServerEventType } from "@thrivereflections/realtime-contracts";
+
+type FieldKind = "string" | "number" | "object" | "array";
+
+interface FieldSpec {
+  kind: FieldKind;
+  optional?: boolean;
+  nullable?: boolean;
+}
+
+type EventSchema = Record<string, FieldSpec>;
+
+const required = (kind: FieldKind): FieldSpec => ({ kind });
+const optional = (kind: FieldKind): FieldSpec => ({ kind, optional: true });
+const nullable = (kind: FieldKind): FieldSpec => ({ kind, optional: true, nullable: true });
+
+const SERVER_EVENT_SCHEMAS: Record<RealtimeServerEventType, EventSchema> = {
+  "session.created": { session: required("object") },
+  "session.updated": { session: required("object") },
+  "response.created": { response: required("object") },
+  "response.done": { response: required("object") },
+  "response.output_item.added": { item: required("object") },
+  "response.output_item.done": { item: required("object") },
+  "response.content_part.added": { part: required("object") },
+  "response.content_part.done": { part: required("object") },
+  "response.text.delta": { delta: required("string") },
+  "response.text.done": { text: required("string") },
+  "response.audio.delta": { delta: required("string") },
+  "response.audio.done": {},
+  "response.audio_transcript.delta": { delta: required("string") },
+  "response.audio_transcript.done": { transcript: required("string") },
+  "response.function_call_arguments.delta": { call_id: required("string"), delta: required("string") },
+  "response.function_call_arguments.done": {
+    call_id: required("string"),
+    name: optional("string"),
+    arguments: required("string"),
+  },
+  "input_audio_buffer.speech_started": { audio_start_ms: optional("number"), item_id: optional("string") },
+  "input_audio_buffer.speech_stopped": { audio_end_ms: optional("number"), item_id: optional("string") },
+  "input_audio_buffer.committed": { item_id: required("string"), previous_item_id: nullable("string") },
+  "input_audio_buffer.cleared": {},
+  "conversation.item.created": { item: required("object"), previous_item_id: nullable("string") },
+  "conversation.item.input_audio_transcription.delta": { item_id: required("string"), delta: required("string") },
+  "conversation.item.input_audio_transcription.completed": {
+    item_id: required("string"),
+    transcript: required("string"),
+  },
+  "conversation.item.input_audio_transcription.failed": { item_id: required("string"), error: required("object") },
+  "conversation.item.truncated": {
+    item_id: required("string"),
+    content_index: required("number"),
+    audio_end_ms: required("number"),
+  },
+  "conversation.item.deleted": { item_id: required("string") },
+  "output_audio_buffer.started": { response_id: optional("string") },
+  "output_audio_buffer.stopped": { response_id: optional("string") },
+  "output_audio_buffer.cleared": { response_id: optional("string") },
+  error: { error: required("object") },
+  "rate_limits.updated": { rate_limits: required("array") },
+};
+
+export type ServerEventValidation =
+  | { ok: true; event: RealtimeServerEvent }
+  | { ok: false; reason: "unknown_type" | "malformed"; message: string };
+
+export function isKnownServerEventType(type: string): type is RealtimeServerEventType {
+  return Object.prototype.hasOwnProperty.call(SERVER_EVENT_SCHEMAS, type);
+}
+
+function matchesKind(value: unknown, kind: FieldKind): boolean {
+  switch (kind) {
+    case "array":
+      return Array.isArray(value);
+    case "object":
+      return typeof value === "object" && value !== null && !Array.isArray(value);
+    default:
+      return typeof value === kind;
+  }
+}
+
+/**
+ * Validate a raw message against the server event schema
+ */
+export function validateServerEvent(raw: unknown): ServerEventValidation {
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    return { ok: false, reason: "malformed", message: "Event is not an object" };
+  }
+
+  const type = (raw as { type?: unknown }).type;
+  if (typeof type !== "string") {
+    return { ok: false, reason: "malformed", message: "Event is missing a string 'type'" };
+  }
+
+  if (!isKnownServerEventType(type)) {
+    return { ok: false, reason: "unknown_type", message: `Unknown event type '${type}'` };
+  }
+
+  const record = raw as Record<string, unknown>;
+  for (const [field, spec] of Object.entries(SERVER_EVENT_SCHEMAS[type])) {
+    const value = record[field];
+
+    if (value === undefined) {
+      if (!spec.optional) {
+        return { ok: false, reason: "malformed", message: `${type}: missing required field '${field}'` };
+      }
+      continue;
+    }
+
+    if (value === null && spec.nullable) {
+      continue;
+    }
+
+    if (!matchesKind(value, spec.kind)) {
+      return { ok: false, reason: "malformed", message: `${type}: field '${field}' must be ${spec.kind}` };
+    }
+  }
+
+  return { ok: true, event: raw as RealtimeServerEvent };
+}
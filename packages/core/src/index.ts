@@ -1,5 +1,76 @@
 export { initRealtime } from "./initRealtime";
+export type { RealtimeDeps, ConnectionMetrics } from "./initRealtime";
 export { createTransport } from "./transports/factory";
 export { RealtimeEventRouter } from "./event-router";
-export type { RealtimeEvent, Transcript, ToolCall, UsageInfo, EventRouterCallbacks } from "./event-router";
+export type {
+  RealtimeEvent,
+  Transcript,
+  ToolCall,
+  UsageInfo,
+  InvalidEventIssue,
+  EventRouterCallbacks,
+  EventRouterDeps,
+} from "./event-router";
+export { Conversation } from "./conversation";
+export type { ConversationChange, ConversationListener } from "./conversation";
+export { validateServerEvent, isKnownServerEventType } from "./event-schema";
+export { EventRecorder, serializeEventRecording, parseEventRecording } from "./event-recorder";
+export type { EventRecorderOptions } from "./event-recorder";
+export { replayEvents, createReplayTransport } from "./event-replayer";
+export type { ReplayOptions, ReplayTarget, ReplayTransport } from "./event-replayer";
+export type { ServerEventValidation } from "./event-schema";
 export type { TransportFactory } from "./transports/factory";
+export type { SessionTokenData } from "./transports/sessionProvider";
+export { createFallbackTransport, DEFAULT_TRANSPORT_FALLBACK_OPTIONS } from "./transports/fallback";
+export type {
+  FallbackTransport,
+  TransportFallbackEvent,
+  TransportFallbackOptions,
+  TransportFallbackReason,
+} from "./transports/fallback";
+export {
+  registerTransport,
+  getTransportRegistration,
+  getTransportCapabilities,
+  listTransports,
+  negotiateTransport,
+  satisfiesCapabilities,
+} from "./transports/registry";
+export type { TransportFactoryContext, RegisteredTransportFactory, TransportRegistration } from "./transports/registry";
+export { ReconnectionSupervisor, computeBackoffDelay, DEFAULT_RECONNECT_OPTIONS } from "./reconnection-supervisor";
+export type { ConnectionStateEvent, ReconnectOptions } from "./reconnection-supervisor";
+export {
+  SessionUpdater,
+  SessionUpdateError,
+  validateSessionSettings,
+  applySessionSettings,
+  DEFAULT_SESSION_UPDATE_TIMEOUT_MS,
+} from "./session-updater";
+export type { SessionUpdateErrorCode, SessionUpdaterDeps } from "./session-updater";
+export { TokenRefreshScheduler, parseTokenExpiry, DEFAULT_TOKEN_REFRESH_OPTIONS } from "./token-refresh-scheduler";
+export type { TokenRefreshedEvent, TokenRefreshOptions, TokenRefreshSchedulerDeps } from "./token-refresh-scheduler";
+export { BargeInController } from "./barge-in-controller";
+export type { BargeInEvent, BargeInCallbacks, BargeInControllerDeps } from "./barge-in-controller";
+export { ConversationContextBuffer } from "./conversation-context";
+export {
+  SessionMemory,
+  summarizeItems,
+  isMemorySummaryItem,
+  DEFAULT_SESSION_MEMORY_OPTIONS,
+  MEMORY_SUMMARY_ITEM_ID_PREFIX,
+} from "./session-memory";
+export type { MemorySummarizer, MemorySummaryInput, SessionMemoryDeps, SessionMemoryOptions } from "./session-memory";
+export type { ContextEntry, ConversationContextOptions } from "./conversation-context";
+export {
+  ToolCallOrchestrator,
+  createHttpToolGatewayClient,
+  DEFAULT_TOOL_CALL_TIMEOUT_MS,
+} from "./tool-call-orchestrator";
+export type {
+  ToolCallError,
+  ToolCallErrorCode,
+  ToolGatewayClient,
+  HttpToolGatewayOptions,
+  ToolCallLifecycleCallbacks,
+  ToolCallOrchestratorDeps,
+} from "./tool-call-orchestrator";
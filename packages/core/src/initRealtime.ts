@@ -1,11 +1,87 @@
-import { RuntimeConfig, TransportFactory } from "@thrivereflections/realtime-contracts";
+import {
+  AgentConfig,
+  IceCandidatePairStats,
+  RealtimeSessionSettings,
+  RealtimeTurnDetection,
+  RuntimeConfig,
+  TransportCapabilities,
+  TransportConnectOptions,
+  TransportFactory,
+  TransportKind,
+  TurnDetectionConfig,
+} from "@thrivereflections/realtime-contracts";
+import { LoggingDeps } from "@thrivereflections/realtime-observability";
 import { createTransport } from "./transports/factory";
+import { getTransportCapabilities, negotiateTransport } from "./transports/registry";
+import {
+  createFallbackTransport,
+  DEFAULT_TRANSPORT_FALLBACK_OPTIONS,
+  TransportFallbackEvent,
+  TransportFallbackOptions,
+} from "./transports/fallback";
+import { ConversationContextBuffer } from "./conversation-context";
+import { ReconnectionSupervisor, ReconnectOptions, ConnectionStateEvent } from "./reconnection-supervisor";
+import { BargeInController, BargeInCallbacks } from "./barge-in-controller";
+import { SessionUpdater, applySessionSettings } from "./session-updater";
+import { TokenRefreshScheduler, TokenRefreshOptions, TokenRefreshedEvent } from "./token-refresh-scheduler";
+import { validateServerEvent } from "./event-schema";
+import { EventRecorder } from "./event-recorder";
+import { SessionMemory, SessionMemoryOptions } from "./session-memory";
+
+/** Sink for connection outcomes, e.g. `metricsCollector` from realtime-sre */
+export interface ConnectionMetrics {
+  recordConnection(sessionId: string, success: boolean, retries?: number, metadata?: Record<string, unknown>): void;
+}
 
 export interface RealtimeDeps {
   getToken: () => Promise<string>;
   transportFactory?: TransportFactory;
   baseUrl?: string;
+  /**
+   * Capabilities the session needs. If the configured transport lacks one,
+   * the first registered transport that has them all is used instead.
+   */
+  requiredCapabilities?: Partial<TransportCapabilities>;
   onEvent?: (event: unknown) => void;
+  onConnectionState?: (event: ConnectionStateEvent) => void;
+  /**
+   * WebRTC-to-WebSocket fallback. On by default when the configured transport
+   * is "webrtc"; `featureFlags.webrtcFallbackForce` skips WebRTC entirely.
+   */
+  fallback?: TransportFallbackOptions;
+  onTransportFallback?: (event: TransportFallbackEvent) => void;
+  onLatencyMark?: (mark: string, timestamp: number) => void;
+  /** ICE candidate pair stats each time a WebRTC connection is established */
+  onIceStats?: (stats: IceCandidatePairStats) => void;
+  metrics?: ConnectionMetrics;
+  reconnect?: ReconnectOptions & { replayEntries?: number };
+  /** Move the conversation onto a fresh session before the client secret expires */
+  tokenRefresh?: TokenRefreshOptions;
+  onTokenRefreshed?: (event: TokenRefreshedEvent) => void;
+  /** Notified when user speech interrupts, or is ignored during, assistant audio (see `featureFlags.bargeIn`) */
+  bargeIn?: BargeInCallbacks;
+  /**
+   * Run without microphone or speaker, exchanging text only. Defaults to true
+   * when `agentConfig.capabilities` does not include "speech".
+   */
+  textOnly?: boolean;
+  /** Continue as a text-only session when microphone access is denied or unavailable (default true) */
+  textFallback?: boolean;
+  onTextOnlyFallback?: (reason: string) => void;
+  /** Kept in sync with `updateSession` so the change history can be persisted */
+  agentConfig?: AgentConfig;
+  onAgentConfigChange?: (config: AgentConfig) => void;
+  /**
+   * Rolling summary used when `featureFlags.memory` is "short" or "long"
+   * (from `agentConfig` when given, otherwise the runtime config)
+   */
+  memory?: SessionMemoryOptions;
+  /** Capture every event sent and received, e.g. to reproduce a bug from a fixture */
+  recorder?: EventRecorder;
+  /** Microphone and model audio as 24 kHz PCM16, e.g. for an `AudioRecorder` from realtime-recording */
+  onAudio?: TransportConnectOptions["onAudio"];
+  /** Logger, redactor and level handed to the transport */
+  logging?: LoggingDeps;
   logger?: {
     info: (message: string, meta?: Record<string, unknown>) => void;
     error: (message: string, meta?: Record<string, unknown>) => void;
@@ -13,19 +89,151 @@ export interface RealtimeDeps {
 }
 
 export function initRealtime(config: RuntimeConfig, deps: RealtimeDeps) {
+  let textOnly = deps.textOnly ?? (deps.agentConfig ? !deps.agentConfig.capabilities.includes("speech") : false);
+  const requiredCapabilities = textOnly ? { textOnly: true, ...deps.requiredCapabilities } : deps.requiredCapabilities;
+
   const factory = deps.transportFactory ?? createTransport;
+  const kind =
+    deps.transportFactory || !requiredCapabilities
+      ? config.featureFlags.transport
+      : negotiateTransportKind(config.featureFlags.transport, requiredCapabilities, deps);
+
+  const build = (transportKind: TransportKind) => factory(transportKind, deps.baseUrl, deps.logging);
+  const fallbackOptions: TransportFallbackOptions = {
+    ...deps.fallback,
+    force: deps.fallback?.force ?? config.featureFlags.webrtcFallbackForce ?? false,
+  };
+  const fallbackEnabled = kind === "webrtc" && (fallbackOptions.enabled ?? DEFAULT_TRANSPORT_FALLBACK_OPTIONS.enabled);
+
+  let fallbackEvent: TransportFallbackEvent | null = null;
+  const fallbackTransport = fallbackEnabled
+    ? createFallbackTransport(kind, build, fallbackOptions, (event) => {
+        fallbackEvent = event;
+        deps.logger?.info("Falling back to alternate transport", { ...event });
+        deps.onLatencyMark?.(`transportFallback:${event.reason}`, Date.now());
+        deps.onTransportFallback?.(event);
+      })
+    : null;
+  const baseTransport = fallbackTransport ?? build(kind);
+  const transport = deps.recorder ? deps.recorder.wrapTransport(baseTransport) : baseTransport;
+  let connectionRecorded = false;
+  const context = new ConversationContextBuffer({ maxEntries: deps.reconnect?.replayEntries });
+  const bargeIn = new BargeInController(
+    { ...deps.logging, transport, enabled: config.featureFlags.bargeIn },
+    deps.bargeIn
+  );
+  const sessionUpdater = new SessionUpdater({ ...deps.logging, transport });
+  const memoryMode = deps.agentConfig?.featureFlags.memory ?? config.featureFlags.memory;
+  const memory =
+    memoryMode && memoryMode !== "off" ? new SessionMemory({ ...deps.logging, transport }, deps.memory) : null;
+  let agentConfig = deps.agentConfig;
+  const turnDetection = deps.agentConfig?.turnDetection ?? config.turnDetection;
+
+  const supervisor = new ReconnectionSupervisor(deps.reconnect ?? {}, {
+    establish: async () => {
+      sessionUpdater.cancel("Connection lost before session.updated");
+      await transport.close();
+      await connectTransport();
+    },
+    replay: () => {
+      // Settings changed with updateSession go first, so replayed items see the current instructions
+      const settings = sessionUpdater.toReplayEvent();
+      if (settings) transport.send(settings);
+
+      // The summary covers what came before the recent context
+      const summary = memory?.toReplayEvent();
+      const events = [...(summary ? [summary] : []), ...context.toReplayEvents()];
+      events.forEach((event) => transport.send(event));
+      return events.length;
+    },
+    onConnectionState: deps.onConnectionState,
+    logger: deps.logger,
+  });
+
+  const tokenRefresh = new TokenRefreshScheduler(deps.tokenRefresh ?? {}, {
+    refresh: () => supervisor.refresh("token_refresh"),
+    onTokenRefreshed: (event) => {
+      deps.onLatencyMark?.("tokenRefreshed", Date.now());
+      deps.onTokenRefreshed?.(event);
+    },
+    logger: deps.logger,
+  });
+
+  function handleEvent(event: unknown) {
+    context.observe(event);
+    supervisor.handleEvent(event);
+
+    const validation = validateServerEvent(event);
+    if (validation.ok) {
+      bargeIn.handleEvent(validation.event);
+      sessionUpdater.handleEvent(validation.event);
+      memory?.handleEvent(validation.event);
+
+      // Every new connection starts from the session route's defaults
+      if (validation.event.type === "session.created" && (turnDetection || textOnly)) {
+        transport.send({
+          type: "session.update",
+          session: {
+            ...(turnDetection ? { turn_detection: sessionTurnDetection(turnDetection) } : {}),
+            ...(textOnly ? { modalities: ["text"] } : {}),
+          },
+        });
+      }
 
-  const transport = factory(config.featureFlags.transport, deps.baseUrl);
+      if (validation.event.type === "session.created" && validation.event.session.id && !connectionRecorded) {
+        connectionRecorded = true;
+        recordConnection(validation.event.session.id, true);
+      }
+    }
+
+    deps.onEvent?.(event);
+  }
+
+  async function connectTransport() {
+    bargeIn.reset();
+    const token = await deps.getToken();
+    await transport.connect({
+      token,
+      onEvent: handleEvent,
+      onStateChange: (change) => supervisor.handleTransportState(change),
+      onIceStats: deps.onIceStats,
+      textOnly,
+      onSessionToken: (sessionToken) => tokenRefresh.handleToken(sessionToken),
+      onAudio: deps.onAudio,
+    });
+  }
+
+  function recordConnection(sessionId: string, success: boolean, error?: string) {
+    // A fallback costs one extra connection attempt
+    const retries = fallbackEvent && fallbackEvent.reason !== "forced" ? 1 : 0;
+    deps.metrics?.recordConnection(sessionId, success, retries, {
+      transport: fallbackTransport?.activeKind ?? kind,
+      fallbackReason: fallbackEvent?.reason,
+      ...(error ? { error } : {}),
+    });
+  }
 
   async function start() {
     deps.logger?.info("Starting realtime connection", { transport: transport.kind });
+    connectionRecorded = false;
 
     try {
-      const token = await deps.getToken();
-      await transport.connect({
-        token,
-        onEvent: deps.onEvent ?? (() => {}),
-      });
+      try {
+        await connectTransport();
+      } catch (error) {
+        if (textOnly || deps.textFallback === false || !isMicrophoneError(error)) {
+          throw error;
+        }
+
+        const reason = (error as Error).name;
+        deps.logger?.info("Microphone unavailable, continuing as a text-only session", { reason });
+        textOnly = true;
+        deps.onLatencyMark?.("textOnlyFallback", Date.now());
+        deps.onTextOnlyFallback?.(reason);
+        await transport.close();
+        await connectTransport();
+      }
+      supervisor.start();
 
       deps.logger?.info("Realtime connection established", { transport: transport.kind });
     } catch (error) {
@@ -33,14 +241,127 @@ export function initRealtime(config: RuntimeConfig, deps: RealtimeDeps) {
         transport: transport.kind,
         error: error instanceof Error ? error.message : "Unknown error",
       });
+      recordConnection("unknown", false, error instanceof Error ? error.message : "Unknown error");
       throw error;
     }
   }
 
   function stop() {
     deps.logger?.info("Stopping realtime connection", { transport: transport.kind });
+    supervisor.stop();
+    tokenRefresh.stop();
+    sessionUpdater.reset();
+    context.clear();
+    memory?.reset();
     return transport.close();
   }
 
-  return { start, stop, transport, config };
+  /**
+   * Change instructions, voice, tools, turn detection or temperature mid-session.
+   * Resolves once the server acknowledges with `session.updated`.
+   */
+  async function updateSession(settings: RealtimeSessionSettings) {
+    const session = await sessionUpdater.update(settings);
+
+    if (agentConfig) {
+      agentConfig = applySessionSettings(agentConfig, settings);
+      deps.onAgentConfigChange?.(agentConfig);
+    }
+
+    return session;
+  }
+
+  /**
+   * End the user's turn: commit buffered input audio and ask for a response.
+   * This is how turns end in "manual" (push-to-talk) mode.
+   */
+  function commitInput() {
+    transport.send({ type: "input_audio_buffer.commit" });
+    transport.send({ type: "response.create" });
+  }
+
+  /**
+   * Drop input audio buffered since the last commit, e.g. when push-to-talk is pressed
+   */
+  function clearInput() {
+    transport.send({ type: "input_audio_buffer.clear" });
+  }
+
+  /**
+   * Send a typed user message and ask for a response. Works in voice sessions
+   * too; the reply uses the session's modalities.
+   */
+  function sendText(text: string) {
+    const trimmed = text.trim();
+    if (!trimmed) {
+      throw new Error("sendText requires non-empty text");
+    }
+
+    transport.send({
+      type: "conversation.item.create",
+      item: { type: "message", role: "user", content: [{ type: "input_text", text: trimmed }] },
+    });
+    transport.send({ type: "response.create" });
+  }
+
+  return {
+    start,
+    stop,
+    updateSession,
+    sendText,
+    commitInput,
+    clearInput,
+    turnDetection: turnDetection ?? null,
+    transport,
+    config,
+    /** True when the session runs without audio, configured or after a microphone failure */
+    get textOnly() {
+      return textOnly;
+    },
+    get agentConfig() {
+      return agentConfig;
+    },
+    /** Rolling summary of the session so far, with short or long memory */
+    get memorySummary() {
+      return memory?.summary ?? null;
+    },
+    get capabilities() {
+      return getTransportCapabilities(fallbackTransport?.activeKind ?? kind);
+    },
+  };
+}
+
+/** Manual mode turns server turn detection off; barge-in stays client-side */
+function sessionTurnDetection(turnDetection: TurnDetectionConfig): RealtimeTurnDetection {
+  return turnDetection.type === "manual" ? null : { ...turnDetection, interrupt_response: false };
+}
+
+/** getUserMedia failures: permission denied, no device, or the device is in use */
+const MICROPHONE_ERRORS = ["NotAllowedError", "NotFoundError", "NotReadableError", "SecurityError"];
+
+function isMicrophoneError(error: unknown): boolean {
+  const name = typeof error === "object" && error !== null ? (error as { name?: unknown }).name : undefined;
+  return typeof name === "string" && MICROPHONE_ERRORS.includes(name);
+}
+
+function negotiateTransportKind(
+  preferred: TransportKind,
+  required: Partial<TransportCapabilities>,
+  deps: RealtimeDeps
+): TransportKind {
+  const registration = negotiateTransport(preferred, required);
+
+  if (!registration) {
+    const wanted = JSON.stringify(required);
+    throw new Error(`No registered transport provides the required capabilities ${wanted} (preferred: ${preferred})`);
+  }
+
+  if (registration.kind !== preferred) {
+    deps.logger?.info("Negotiated transport differs from configured transport", {
+      configured: preferred,
+      transport: registration.kind,
+    });
+  }
+
+  return registration.kind;
 }
@@ -0,0 +1,281 @@
+/**
+ * Reconnection Supervisor
+ *
+ * Watches transport connection state and re-establishes a dropped session
+ * with exponential backoff and jitter. Once the new session reports
+ * `session.created`, the caller-provided replay step seeds it with the
+ * previous conversation context.
+ */
+
+import { TransportStateChange } from "@thrivereflections/realtime-contracts";
+
+export type ConnectionStateEvent =
+  | { state: "reconnecting"; attempt: number; delayMs: number; reason: string }
+  | { state: "resumed"; attempt: number; replayedItems: number }
+  | { state: "gave_up"; attempts: number; reason: string; error?: string };
+
+export interface ReconnectOptions {
+  enabled?: boolean;
+  maxAttempts?: number;
+  initialDelayMs?: number;
+  maxDelayMs?: number;
+  multiplier?: number;
+  jitter?: number; // 0-1, fraction of the delay randomised in either direction
+  disconnectGraceMs?: number; // how long a transient "disconnected" may last before reconnecting
+  resumeTimeoutMs?: number; // how long to wait for session.created on the new connection
+}
+
+export interface ReconnectionSupervisorDeps {
+  establish: () => Promise<void>;
+  replay: () => number;
+  onConnectionState?: (event: ConnectionStateEvent) => void;
+  logger?: {
+    info: (message: string, meta?: Record<string, unknown>) => void;
+    error: (message: string, meta?: Record<string, unknown>) => void;
+  };
+  random?: () => number;
+}
+
+export const DEFAULT_RECONNECT_OPTIONS: Required<ReconnectOptions> = {
+  enabled: true,
+  maxAttempts: 5,
+  initialDelayMs: 500,
+  maxDelayMs: 15000,
+  multiplier: 2,
+  jitter: 0.3,
+  disconnectGraceMs: 2000,
+  resumeTimeoutMs: 10000,
+};
+
+/**
+ * Delay before the given (1-based) attempt: exponential growth capped at
+ * maxDelayMs, then spread by ±jitter so clients don't reconnect in lockstep.
+ */
+export function computeBackoffDelay(
+  attempt: number,
+  options: ReconnectOptions = {},
+  random: () => number = Math.random
+): number {
+  const opts = { ...DEFAULT_RECONNECT_OPTIONS, ...options };
+  const base = Math.min(opts.maxDelayMs, opts.initialDelayMs * Math.pow(opts.multiplier, attempt - 1));
+  const spread = base * opts.jitter * (random() * 2 - 1);
+  return Math.max(0, Math.round(base + spread));
+}
+
+export class ReconnectionSupervisor {
+  private options: Required<ReconnectOptions>;
+  private deps: ReconnectionSupervisorDeps;
+  private active = false;
+  private reconnecting = false;
+  private graceTimer: ReturnType<typeof setTimeout> | null = null;
+  private pendingDelay: { timer: ReturnType<typeof setTimeout>; resolve: () => void } | null = null;
+  private sessionWaiter: { resolve: () => void; reject: (error: Error) => void } | null = null;
+  private sessionTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(options: ReconnectOptions, deps: ReconnectionSupervisorDeps) {
+    this.options = { ...DEFAULT_RECONNECT_OPTIONS, ...options };
+    this.deps = deps;
+  }
+
+  /**
+   * Begin supervising after the initial connection has been established
+   */
+  start(): void {
+    this.active = true;
+  }
+
+  /**
+   * Stop supervising and cancel any pending reconnection
+   */
+  stop(): void {
+    this.active = false;
+    this.clearGraceTimer();
+
+    if (this.pendingDelay) {
+      clearTimeout(this.pendingDelay.timer);
+      this.pendingDelay.resolve();
+      this.pendingDelay = null;
+    }
+
+    const waiter = this.sessionWaiter;
+    this.cancelSessionWait();
+    waiter?.reject(new Error("Reconnection stopped"));
+  }
+
+  isReconnecting(): boolean {
+    return this.reconnecting;
+  }
+
+  /**
+   * Feed transport state changes from Transport.connect's onStateChange
+   */
+  handleTransportState(change: TransportStateChange): void {
+    if (!this.active || this.reconnecting || !this.options.enabled) {
+      return;
+    }
+
+    switch (change.state) {
+      case "connected":
+        this.clearGraceTimer();
+        break;
+
+      case "disconnected":
+        if (!this.graceTimer) {
+          this.graceTimer = setTimeout(() => {
+            this.graceTimer = null;
+            void this.reconnect(change.reason ?? "disconnected");
+          }, this.options.disconnectGraceMs);
+        }
+        break;
+
+      case "failed":
+        this.clearGraceTimer();
+        void this.reconnect(change.reason ?? "failed");
+        break;
+    }
+  }
+
+  /**
+   * Feed inbound events so the supervisor can tell when a new session is live
+   */
+  handleEvent(event: unknown): void {
+    if (this.sessionWaiter && (event as { type?: string } | null)?.type === "session.created") {
+      const waiter = this.sessionWaiter;
+      this.cancelSessionWait();
+      waiter.resolve();
+    }
+  }
+
+  /**
+   * Re-establish the session, retrying with backoff until maxAttempts is reached
+   */
+  async reconnect(reason: string): Promise<boolean> {
+    if (!this.active || this.reconnecting) {
+      return false;
+    }
+
+    this.reconnecting = true;
+    let lastError: unknown;
+
+    try {
+      for (let attempt = 1; attempt <= this.options.maxAttempts; attempt++) {
+        const delayMs = computeBackoffDelay(attempt, this.options, this.deps.random);
+        this.deps.logger?.info("Reconnecting realtime session", { attempt, delayMs, reason });
+        this.deps.onConnectionState?.({ state: "reconnecting", attempt, delayMs, reason });
+
+        await this.delay(delayMs);
+        if (!this.active) {
+          return false;
+        }
+
+        try {
+          const replayedItems = await this.establishSession();
+          this.deps.logger?.info("Realtime session resumed", { attempt, replayedItems });
+          this.deps.onConnectionState?.({ state: "resumed", attempt, replayedItems });
+          return true;
+        } catch (error) {
+          lastError = error;
+          this.cancelSessionWait();
+          if (!this.active) {
+            return false;
+          }
+          this.deps.logger?.error("Reconnection attempt failed", {
+            attempt,
+            error: error instanceof Error ? error.message : "Unknown error",
+          });
+        }
+      }
+
+      const errorMessage = lastError instanceof Error ? lastError.message : undefined;
+      this.deps.logger?.error("Giving up on realtime reconnection", {
+        attempts: this.options.maxAttempts,
+        reason,
+        error: errorMessage,
+      });
+      this.deps.onConnectionState?.({
+        state: "gave_up",
+        attempts: this.options.maxAttempts,
+        reason,
+        error: errorMessage,
+      });
+      return false;
+    } finally {
+      this.reconnecting = false;
+    }
+  }
+
+  /**
+   * Move a healthy session onto a fresh connection straight away, e.g. before
+   * its token expires. If that fails, the regular backoff loop takes over.
+   */
+  async refresh(reason: string): Promise<boolean> {
+    if (!this.active || this.reconnecting) {
+      return false;
+    }
+
+    this.reconnecting = true;
+    try {
+      const replayedItems = await this.establishSession();
+      this.deps.logger?.info("Realtime session refreshed", { reason, replayedItems });
+      return true;
+    } catch (error) {
+      this.cancelSessionWait();
+      if (!this.active) {
+        return false;
+      }
+      this.deps.logger?.error("Session refresh failed, reconnecting", {
+        reason,
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+    } finally {
+      this.reconnecting = false;
+    }
+
+    return this.reconnect(reason);
+  }
+
+  private async establishSession(): Promise<number> {
+    const sessionReady = this.waitForSession();
+    sessionReady.catch(() => {});
+    await this.deps.establish();
+    await sessionReady;
+    return this.deps.replay();
+  }
+
+  private waitForSession(): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      this.sessionTimer = setTimeout(() => {
+        this.sessionTimer = null;
+        this.sessionWaiter = null;
+        reject(new Error(`No session.created within ${this.options.resumeTimeoutMs}ms`));
+      }, this.options.resumeTimeoutMs);
+
+      this.sessionWaiter = { resolve, reject };
+    });
+  }
+
+  private cancelSessionWait(): void {
+    if (this.sessionTimer) {
+      clearTimeout(this.sessionTimer);
+      this.sessionTimer = null;
+    }
+    this.sessionWaiter = null;
+  }
+
+  private delay(ms: number): Promise<void> {
+    return new Promise<void>((resolve) => {
+      const timer = setTimeout(() => {
+        this.pendingDelay = null;
+        resolve();
+      }, ms);
+      this.pendingDelay = { timer, resolve };
+    });
+  }
+
+  private clearGraceTimer(): void {
+    if (this.graceTimer) {
+      clearTimeout(this.graceTimer);
+      this.graceTimer = null;
+    }
+  }
+}
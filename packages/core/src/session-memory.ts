@@ -0,0 +1,224 @@
+/**
+ * Session Memory
+ *
+ * "Short" conversation memory. Follows the conversation and, each time the
+ * context has grown by `summarizeEveryTokens` input tokens, folds the items
+ * not yet summarized (all but the most recent few) into a rolling summary.
+ * The summary is added to the conversation as a system message, replacing
+ * the previous one, so what was said early on survives when the server
+ * truncates the oldest items. After a reconnect the summary is replayed onto
+ * the new session along with the recent context.
+ */
+
+import { ConversationItemState, RealtimeServerEvent, Transport } from "@thrivereflections/realtime-contracts";
+import { createRedactingLogger, Logger, LoggingDeps } from "@thrivereflections/realtime-observability";
+import { piiRedactor } from "@thrivereflections/realtime-security";
+import { Conversation } from "./conversation";
+
+export interface MemorySummaryInput {
+  /** Summary produced last time, to be carried forward */
+  previousSummary: string | null;
+  /** Items to fold in, oldest first */
+  items: ConversationItemState[];
+  maxChars: number;
+}
+
+export type MemorySummarizer = (input: MemorySummaryInput) => string | Promise<string>;
+
+export interface SessionMemoryOptions {
+  /** Summarize each time a response's input has grown by this many tokens (default 6000) */
+  summarizeEveryTokens?: number;
+  /** Most recent items left out of the summary (default 6) */
+  keepRecentItems?: number;
+  /** Upper bound on the summary's length in characters (default 2000) */
+  maxSummaryChars?: number;
+  /** Defaults to `summarizeItems`, which keeps a condensed line per message and tool call */
+  summarize?: MemorySummarizer;
+  onSummary?: (summary: string) => void;
+}
+
+export interface SessionMemoryDeps extends LoggingDeps {
+  transport: Pick<Transport, "send">;
+}
+
+export const DEFAULT_SESSION_MEMORY_OPTIONS = {
+  summarizeEveryTokens: 6000,
+  keepRecentItems: 6,
+  maxSummaryChars: 2000,
+};
+
+/** Summary items carry ids with this prefix */
+export const MEMORY_SUMMARY_ITEM_ID_PREFIX = "memory_summary_";
+
+const SUMMARY_HEADING = "Summary of the conversation so far:";
+const MAX_LINE_CHARS = 200;
+
+export function isMemorySummaryItem(item: { id?: string }): boolean {
+  return typeof item.id === "string" && item.id.startsWith(MEMORY_SUMMARY_ITEM_ID_PREFIX);
+}
+
+export class SessionMemory {
+  private deps: SessionMemoryDeps;
+  private options: SessionMemoryOptions;
+  private logger: Logger;
+  private conversation = new Conversation();
+  private summarized = new Set<string>();
+  private currentSummary: string | null = null;
+  private summaryItemId: string | null = null;
+  private summaryCount = 0;
+  private tokensAtLastSummary = 0;
+  private pending: Promise<string | null> | null = null;
+  /** Bumped by reset() so a summary still being produced is dropped */
+  private generation = 0;
+
+  constructor(deps: SessionMemoryDeps, options: SessionMemoryOptions = {}) {
+    this.deps = deps;
+    this.options = options;
+    this.logger = createRedactingLogger({ ...deps, redactor: deps.redactor ?? piiRedactor });
+  }
+
+  /** The rolling summary, once one has been made */
+  get summary(): string | null {
+    return this.currentSummary;
+  }
+
+  handleEvent(event: RealtimeServerEvent): void {
+    this.conversation.handleEvent(event);
+
+    if (event.type !== "response.done") {
+      return;
+    }
+
+    const inputTokens = event.response.usage?.input_tokens;
+    const every = this.options.summarizeEveryTokens ?? DEFAULT_SESSION_MEMORY_OPTIONS.summarizeEveryTokens;
+    if (inputTokens !== undefined && inputTokens - this.tokensAtLastSummary >= every) {
+      this.tokensAtLastSummary = inputTokens;
+      void this.summarize();
+    }
+  }
+
+  /**
+   * Fold the items not yet summarized into the summary and send it. Resolves
+   * with the new summary, or null when there was nothing to add.
+   */
+  summarize(): Promise<string | null> {
+    if (!this.pending) {
+      this.pending = this.runSummarize().finally(() => {
+        this.pending = null;
+      });
+    }
+    return this.pending;
+  }
+
+  /**
+   * The event that recreates the summary on a new connection, if there is one
+   */
+  toReplayEvent(): Record<string, unknown> | null {
+    return this.summaryItemId && this.currentSummary ? summaryItemEvent(this.summaryItemId, this.currentSummary) : null;
+  }
+
+  reset(): void {
+    this.generation++;
+    this.conversation.clear();
+    this.summarized.clear();
+    this.currentSummary = null;
+    this.summaryItemId = null;
+    this.tokensAtLastSummary = 0;
+  }
+
+  private async runSummarize(): Promise<string | null> {
+    const items = this.itemsToFold();
+    if (items.length === 0) {
+      return null;
+    }
+
+    const generation = this.generation;
+    const maxChars = this.options.maxSummaryChars ?? DEFAULT_SESSION_MEMORY_OPTIONS.maxSummaryChars;
+    const summarize = this.options.summarize ?? summarizeItems;
+
+    let text: string;
+    try {
+      text = (await summarize({ previousSummary: this.currentSummary, items, maxChars })).trim();
+    } catch (error) {
+      this.logger.warn("Conversation summary failed", {
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+      return null;
+    }
+
+    if (generation !== this.generation || !text) {
+      return null;
+    }
+
+    const summary = text.length > maxChars ? text.slice(0, maxChars) : text;
+    const previousItemId = this.summaryItemId;
+    this.summaryItemId = `${MEMORY_SUMMARY_ITEM_ID_PREFIX}${++this.summaryCount}`;
+    this.currentSummary = summary;
+    items.forEach((item) => this.summarized.add(item.id));
+
+    this.deps.transport.send(summaryItemEvent(this.summaryItemId, summary));
+    if (previousItemId && this.conversation.getItem(previousItemId)) {
+      this.deps.transport.send({ type: "conversation.item.delete", item_id: previousItemId });
+    }
+
+    this.logger.info("Conversation summarized", { items: items.length, chars: summary.length });
+    this.options.onSummary?.(summary);
+    return summary;
+  }
+
+  /** Completed items not yet in the summary, leaving the most recent ones out */
+  private itemsToFold(): ConversationItemState[] {
+    const keep = this.options.keepRecentItems ?? DEFAULT_SESSION_MEMORY_OPTIONS.keepRecentItems;
+    const items = this.conversation.getItems().filter((item) => !isMemorySummaryItem(item));
+    let end = Math.max(0, items.length - keep);
+
+    // Keep a tool call together with its output
+    while (end > 0 && end < items.length && items[end].type === "function_call_output") {
+      end--;
+    }
+
+    return items
+      .slice(0, end)
+      .filter((item) => item.status !== "in_progress" && item.role !== "system" && !this.summarized.has(item.id));
+  }
+}
+
+/**
+ * Default summarizer: the previous summary followed by one condensed line per
+ * message and tool call, dropping the oldest lines to stay within `maxChars`.
+ */
+export function summarizeItems({ previousSummary, items, maxChars }: MemorySummaryInput): string {
+  const lines = previousSummary ? previousSummary.split("\n").filter((line) => line.trim() !== "") : [];
+
+  items.forEach((item) => {
+    if (item.type === "message" && item.text.trim()) {
+      lines.push(`${item.role === "user" ? "User" : "Assistant"}: ${condense(item.text)}`);
+    } else if (item.type === "function_call") {
+      lines.push(`Called ${item.name ?? "a tool"} with ${condense(item.arguments ?? "{}")}`);
+    } else if (item.type === "function_call_output" && item.output) {
+      lines.push(`Tool result: ${condense(item.output)}`);
+    }
+  });
+
+  while (lines.length > 1 && lines.join("\n").length > maxChars) {
+    lines.shift();
+  }
+  return lines.join("\n");
+}
+
+function condense(text: string): string {
+  const flat = text.replace(/\s+/g, " ").trim();
+  return flat.length > MAX_LINE_CHARS ? `${flat.slice(0, MAX_LINE_CHARS - 1)}…` : flat;
+}
+
+function summaryItemEvent(id: string, summary: string): Record<string, unknown> {
+  return {
+    type: "conversation.item.create",
+    item: {
+      id,
+      type: "message",
+      role: "system",
+      content: [{ type: "input_text", text: `${SUMMARY_HEADING}\n${summary}` }],
+    },
+  };
+}
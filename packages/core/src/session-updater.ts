@@ -0,0 +1,266 @@
+/**
+ * Session Updater
+ *
+ * Changes session settings (instructions, voice, tools, turn detection,
+ * temperature) while the session is running. Each update is validated, sent
+ * as `session.update` and resolved when the server acknowledges it with
+ * `session.updated`. Updates are sent one at a time because the ack does not
+ * reference the client event. Acknowledged settings are remembered so they
+ * can be re-applied to the new session after a reconnect.
+ */
+
+import {
+  AgentConfig,
+  RealtimeServerEvent,
+  RealtimeSessionInfo,
+  RealtimeSessionSettings,
+  Transport,
+} from "@thrivereflections/realtime-contracts";
+import { createRedactingLogger, Logger, LoggingDeps } from "@thrivereflections/realtime-observability";
+import { piiRedactor } from "@thrivereflections/realtime-security";
+
+export type SessionUpdateErrorCode = "invalid_settings" | "rejected" | "timeout" | "cancelled";
+
+export class SessionUpdateError extends Error {
+  constructor(readonly code: SessionUpdateErrorCode, message: string) {
+    super(message);
+    this.name = "SessionUpdateError";
+  }
+}
+
+export interface SessionUpdaterDeps extends LoggingDeps {
+  transport: Pick<Transport, "send">;
+  /** How long to wait for `session.updated` */
+  timeoutMs?: number;
+}
+
+export const DEFAULT_SESSION_UPDATE_TIMEOUT_MS = 5000;
+
+const VOICES = new Set(["alloy", "ash", "ballad", "coral", "echo", "sage", "shimmer", "verse", "marin", "cedar"]);
+const SETTINGS_KEYS = new Set(["instructions", "voice", "tools", "turn_detection", "temperature"]);
+const TOOL_NAME = /^[a-zA-Z0-9_-]{1,64}$/;
+const MIN_TEMPERATURE = 0.6;
+const MAX_TEMPERATURE = 1.2;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Check settings against what the Realtime API accepts. Returns a list of
+ * problems, empty when the settings are valid.
+ */
+export function validateSessionSettings(settings: unknown): string[] {
+  if (!isObject(settings)) {
+    return ["settings must be an object"];
+  }
+
+  const issues: string[] = [];
+  const keys = Object.keys(settings);
+
+  if (keys.length === 0) {
+    issues.push("no settings to update");
+  }
+  keys.filter((key) => !SETTINGS_KEYS.has(key)).forEach((key) => issues.push(`${key} cannot be changed mid-session`));
+
+  const { instructions, voice, tools, turn_detection, temperature } = settings;
+
+  if (instructions !== undefined && (typeof instructions !== "string" || instructions.trim() === "")) {
+    issues.push("instructions must be a non-empty string");
+  }
+
+  if (voice !== undefined && (typeof voice !== "string" || !VOICES.has(voice))) {
+    issues.push(`voice must be one of ${Array.from(VOICES).join(", ")}`);
+  }
+
+  if (tools !== undefined) {
+    if (!Array.isArray(tools)) {
+      issues.push("tools must be an array");
+    } else {
+      tools.forEach((tool, index) => {
+        if (!isObject(tool) || tool.type !== "function") {
+          issues.push(`tools[${index}] must be a function tool`);
+        } else if (typeof tool.name !== "string" || !TOOL_NAME.test(tool.name)) {
+          issues.push(`tools[${index}].name must match ${TOOL_NAME}`);
+        } else if (!isObject(tool.parameters)) {
+          issues.push(`tools[${index}].parameters must be a JSON Schema object`);
+        }
+      });
+    }
+  }
+
+  if (turn_detection !== undefined && turn_detection !== null) {
+    if (!isObject(turn_detection) || !["server_vad", "semantic_vad"].includes(turn_detection.type as string)) {
+      issues.push('turn_detection.type must be "server_vad" or "semantic_vad"');
+    }
+  }
+
+  if (
+    temperature !== undefined &&
+    (typeof temperature !== "number" || temperature < MIN_TEMPERATURE || temperature > MAX_TEMPERATURE)
+  ) {
+    issues.push(`temperature must be a number between ${MIN_TEMPERATURE} and ${MAX_TEMPERATURE}`);
+  }
+
+  return issues;
+}
+
+/**
+ * Mirror acknowledged settings into an AgentConfig: instructions and voice are
+ * copied over, `persona` keeps the skill the session started with, and every
+ * change is appended to `history`.
+ */
+export function applySessionSettings(
+  config: AgentConfig,
+  settings: RealtimeSessionSettings,
+  changedAt: number = Date.now()
+): AgentConfig {
+  return {
+    ...config,
+    instructions: settings.instructions ?? config.instructions,
+    voice: settings.voice ?? config.voice,
+    history: [...(config.history ?? []), { changedAt, settings }],
+  };
+}
+
+/**
+ * The transport may have its own `session.update` in flight (the WebSocket
+ * transport configures the session on open); only take an ack that reports
+ * every setting of the update as ours.
+ */
+function reflectsSettings(session: RealtimeSessionInfo, settings: RealtimeSessionSettings): boolean {
+  return Object.entries(settings).every(([key, value]) => value === undefined || reflects(value, session[key]));
+}
+
+/** The server fills in defaults, so reported objects may carry more fields than were sent */
+function reflects(sent: unknown, reported: unknown): boolean {
+  if (Array.isArray(sent)) {
+    return (
+      Array.isArray(reported) &&
+      reported.length === sent.length &&
+      sent.every((entry, i) => reflects(entry, reported[i]))
+    );
+  }
+  if (isObject(sent)) {
+    return (
+      isObject(reported) &&
+      Object.entries(sent).every(([key, value]) => value === undefined || reflects(value, reported[key]))
+    );
+  }
+  return sent === reported;
+}
+
+interface PendingUpdate {
+  eventId: string;
+  settings: RealtimeSessionSettings;
+  resolve: (session: RealtimeSessionInfo) => void;
+  reject: (error: SessionUpdateError) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+export class SessionUpdater {
+  private deps: SessionUpdaterDeps;
+  private logger: Logger;
+  private timeoutMs: number;
+  private pending: PendingUpdate | null = null;
+  private queue: Promise<unknown> = Promise.resolve();
+  private applied: RealtimeSessionSettings = {};
+  private sequence = 0;
+
+  constructor(deps: SessionUpdaterDeps) {
+    this.deps = deps;
+    this.timeoutMs = deps.timeoutMs ?? DEFAULT_SESSION_UPDATE_TIMEOUT_MS;
+    this.logger = createRedactingLogger({ ...deps, redactor: deps.redactor ?? piiRedactor });
+  }
+
+  /** Every setting acknowledged so far, later updates overriding earlier ones */
+  get appliedSettings(): RealtimeSessionSettings {
+    return { ...this.applied };
+  }
+
+  /**
+   * Validate and send `session.update`; resolves with the session reported by
+   * `session.updated`.
+   */
+  update(settings: RealtimeSessionSettings): Promise<RealtimeSessionInfo> {
+    const issues = validateSessionSettings(settings);
+    if (issues.length > 0) {
+      return Promise.reject(new SessionUpdateError("invalid_settings", issues.join("; ")));
+    }
+
+    const result = this.queue.then(() => this.send(settings));
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  handleEvent(event: RealtimeServerEvent): void {
+    const pending = this.pending;
+    if (!pending) {
+      return;
+    }
+
+    if (event.type === "session.updated" && reflectsSettings(event.session, pending.settings)) {
+      this.settle();
+      this.applied = { ...this.applied, ...pending.settings };
+      this.logger.info("Session settings updated", { settings: Object.keys(pending.settings) });
+      pending.resolve(event.session);
+    } else if (event.type === "error" && event.error.event_id === pending.eventId) {
+      this.settle();
+      this.logger.warn("Session update rejected", { code: event.error.code, message: event.error.message });
+      pending.reject(new SessionUpdateError("rejected", event.error.message));
+    }
+  }
+
+  /**
+   * `session.update` that restores the applied settings on a new session, or
+   * null if nothing was changed
+   */
+  toReplayEvent(): { type: "session.update"; session: RealtimeSessionSettings } | null {
+    return Object.keys(this.applied).length > 0 ? { type: "session.update", session: { ...this.applied } } : null;
+  }
+
+  /**
+   * Reject the in-flight update, e.g. when the connection goes away
+   */
+  cancel(reason = "Session update cancelled"): void {
+    const pending = this.pending;
+    if (pending) {
+      this.settle();
+      pending.reject(new SessionUpdateError("cancelled", reason));
+    }
+  }
+
+  /**
+   * Forget applied settings when the session ends
+   */
+  reset(): void {
+    this.cancel("Session ended");
+    this.applied = {};
+  }
+
+  private send(settings: RealtimeSessionSettings): Promise<RealtimeSessionInfo> {
+    return new Promise<RealtimeSessionInfo>((resolve, reject) => {
+      const eventId = `session_update_${++this.sequence}`;
+      const timer = setTimeout(() => {
+        this.pending = null;
+        this.logger.warn("Session update not acknowledged", { eventId, timeoutMs: this.timeoutMs });
+        reject(new SessionUpdateError("timeout", `No session.updated within ${this.timeoutMs}ms`));
+      }, this.timeoutMs);
+
+      this.pending = { eventId, settings, resolve, reject, timer };
+      try {
+        this.deps.transport.send({ type: "session.update", event_id: eventId, session: settings });
+      } catch (error) {
+        this.settle();
+        reject(error);
+      }
+    });
+  }
+
+  private settle(): void {
+    if (this.pending) {
+      clearTimeout(this.pending.timer);
+      this.pending = null;
+    }
+  }
+}
@@ -0,0 +1,177 @@
+/**
+ * Token Refresh Scheduler
+ *
+ * Tracks the expiry of the ephemeral client secret each transport connection
+ * was opened with and, shortly before it lapses, asks the caller to move the
+ * conversation onto a fresh session (new token, new connection, context
+ * replayed). Every token a transport reports reschedules the timer, so
+ * reconnects and refreshes keep the schedule current.
+ */
+
+import { TransportSessionToken } from "@thrivereflections/realtime-contracts";
+
+export interface TokenRefreshedEvent {
+  sessionId: string | null;
+  /** Expiry of the token that was replaced, in milliseconds */
+  previousExpiresAt: number;
+  /** Expiry of the new token, in milliseconds */
+  expiresAt: number;
+}
+
+export interface TokenRefreshOptions {
+  enabled?: boolean;
+  /** How long before expiry to refresh */
+  leadTimeMs?: number;
+  /**
+   * Most of a token's lifetime the lead time may take up. OpenAI's client
+   * secrets last one minute by default, so with the defaults those refresh
+   * 12 seconds before expiry rather than straight away.
+   */
+  maxLeadFraction?: number;
+  /** Tokens issued with less lifetime than this are not refreshed */
+  minLifetimeMs?: number;
+}
+
+export interface TokenRefreshSchedulerDeps {
+  /** Re-establish the session; resolves false if it could not */
+  refresh: () => Promise<boolean>;
+  onTokenRefreshed?: (event: TokenRefreshedEvent) => void;
+  logger?: {
+    info: (message: string, meta?: Record<string, unknown>) => void;
+    error: (message: string, meta?: Record<string, unknown>) => void;
+  };
+}
+
+export const DEFAULT_TOKEN_REFRESH_OPTIONS: Required<TokenRefreshOptions> = {
+  enabled: true,
+  leadTimeMs: 60000,
+  maxLeadFraction: 0.2,
+  minLifetimeMs: 10000,
+};
+
+/**
+ * Normalise `client_secret.expires_at` to milliseconds. OpenAI returns unix
+ * seconds; millisecond timestamps and ISO strings are accepted as well.
+ */
+export function parseTokenExpiry(value: string | number | null | undefined): number | null {
+  if (value === null || value === undefined || value === "") {
+    return null;
+  }
+
+  const numeric = typeof value === "number" ? value : Number(value);
+  if (Number.isFinite(numeric)) {
+    return numeric < 1e12 ? numeric * 1000 : numeric;
+  }
+
+  const parsed = Date.parse(String(value));
+  return Number.isNaN(parsed) ? null : parsed;
+}
+
+export class TokenRefreshScheduler {
+  private options: Required<TokenRefreshOptions>;
+  private deps: TokenRefreshSchedulerDeps;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private current: { sessionId: string | null; expiresAt: number } | null = null;
+  private refreshAt: number | null = null;
+  private refreshing = false;
+  private stopped = false;
+
+  constructor(options: TokenRefreshOptions, deps: TokenRefreshSchedulerDeps) {
+    this.options = { ...DEFAULT_TOKEN_REFRESH_OPTIONS, ...options };
+    this.deps = deps;
+  }
+
+  /** Millisecond timestamp of the next scheduled refresh, or null */
+  get nextRefreshAt(): number | null {
+    return this.timer ? this.refreshAt : null;
+  }
+
+  /**
+   * Feed tokens from Transport.connect's onSessionToken
+   */
+  handleToken(token: TransportSessionToken): void {
+    this.stopped = false;
+    this.clearTimer();
+
+    const expiresAt = parseTokenExpiry(token.expiresAt);
+    if (expiresAt === null) {
+      this.current = null;
+      return;
+    }
+
+    this.current = { sessionId: token.sessionId, expiresAt };
+    if (!this.options.enabled) {
+      return;
+    }
+
+    const lifetimeMs = expiresAt - Date.now();
+    if (lifetimeMs < this.options.minLifetimeMs) {
+      // A refresh now would yield another short-lived token and refresh again straight away
+      return;
+    }
+
+    const leadTimeMs = Math.min(this.options.leadTimeMs, lifetimeMs * this.options.maxLeadFraction);
+    this.refreshAt = expiresAt - leadTimeMs;
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      void this.refresh();
+    }, lifetimeMs - leadTimeMs);
+  }
+
+  /**
+   * Cancel the pending refresh, e.g. when the session ends
+   */
+  stop(): void {
+    this.stopped = true;
+    this.clearTimer();
+    this.current = null;
+  }
+
+  private async refresh(): Promise<void> {
+    if (this.refreshing || !this.current) {
+      return;
+    }
+
+    this.refreshing = true;
+    const previous = this.current;
+    this.deps.logger?.info("Refreshing realtime session ahead of token expiry", {
+      sessionId: previous.sessionId,
+      expiresAt: new Date(previous.expiresAt).toISOString(),
+    });
+
+    try {
+      const refreshed = await this.deps.refresh();
+      if (this.stopped) {
+        return;
+      }
+
+      // The new connection reports its token through handleToken before refresh resolves
+      if (!refreshed || !this.current || this.current === previous) {
+        this.deps.logger?.error("Realtime session was not refreshed before token expiry", {
+          sessionId: previous.sessionId,
+        });
+        return;
+      }
+
+      this.deps.onTokenRefreshed?.({
+        sessionId: this.current.sessionId,
+        previousExpiresAt: previous.expiresAt,
+        expiresAt: this.current.expiresAt,
+      });
+    } catch (error) {
+      this.deps.logger?.error("Realtime session refresh failed", {
+        sessionId: previous.sessionId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+    } finally {
+      this.refreshing = false;
+    }
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+}
@@ -0,0 +1,309 @@
+/**
+ * Tool Call Orchestrator
+ *
+ * Executes function calls requested by the model through a tool gateway and
+ * posts the results back over the transport as `function_call_output` items.
+ * Calls from one response run in parallel; a single `response.create` is sent
+ * once the response is done and every call in it has settled.
+ */
+
+import {
+  RealtimeServerEvent,
+  RealtimeConversationItem,
+  Transport,
+  ToolArgumentError,
+  ToolCall as GatewayToolCall,
+  ToolCallResponse,
+} from "@thrivereflections/realtime-contracts";
+import { createRedactingLogger, Logger, LoggingDeps } from "@thrivereflections/realtime-observability";
+import { piiRedactor } from "@thrivereflections/realtime-security";
+import type { RealtimeEventRouter, ToolCall } from "./event-router";
+
+export type ToolCallErrorCode = "timeout" | "gateway_error" | "tool_error" | "invalid_arguments" | "circuit_open";
+
+export interface ToolCallError {
+  code: ToolCallErrorCode;
+  message: string;
+  /** For "invalid_arguments" from the gateway: which arguments failed the tool's schema */
+  details?: ToolArgumentError[];
+}
+
+export interface ToolGatewayClient {
+  execute(call: GatewayToolCall, options: { signal: AbortSignal }): Promise<ToolCallResponse>;
+}
+
+export interface HttpToolGatewayOptions {
+  url?: string;
+  headers?: Record<string, string> | (() => Record<string, string>);
+  fetch?: typeof fetch;
+}
+
+export interface ToolCallLifecycleCallbacks {
+  onToolCallStarted?: (call: ToolCall) => void;
+  onToolCallCompleted?: (call: ToolCall, response: ToolCallResponse, durationMs: number) => void;
+  onToolCallFailed?: (call: ToolCall, error: ToolCallError, durationMs: number) => void;
+  onResponseRequested?: (responseId: string) => void;
+}
+
+export interface ToolCallOrchestratorDeps extends LoggingDeps {
+  transport: Pick<Transport, "send">;
+  gateway: ToolGatewayClient;
+  timeoutMs?: number;
+  user?: GatewayToolCall["user"];
+}
+
+export const DEFAULT_TOOL_CALL_TIMEOUT_MS = 15000;
+
+interface PendingResponse {
+  inFlight: Set<string>;
+  done: boolean;
+}
+
+class ToolCallTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`Tool call timed out after ${timeoutMs}ms`);
+    this.name = "ToolCallTimeoutError";
+  }
+}
+
+/**
+ * Gateway client that POSTs calls to the app's tool gateway route
+ */
+export function createHttpToolGatewayClient(options: HttpToolGatewayOptions = {}): ToolGatewayClient {
+  const url = options.url ?? "/api/tools/gateway";
+  const fetchImpl = options.fetch ?? fetch;
+
+  return {
+    async execute(call, { signal }) {
+      const extraHeaders = typeof options.headers === "function" ? options.headers() : options.headers;
+      const response = await fetchImpl(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...extraHeaders },
+        body: JSON.stringify(call),
+        signal,
+      });
+
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        const detail = body && typeof body.error === "string" ? `: ${body.error}` : "";
+        throw new Error(`Tool gateway error ${response.status}${detail}`);
+      }
+
+      return (await response.json()) as ToolCallResponse;
+    },
+  };
+}
+
+export class ToolCallOrchestrator {
+  private deps: ToolCallOrchestratorDeps;
+  private callbacks: ToolCallLifecycleCallbacks;
+  private logger: Logger;
+  private timeoutMs: number;
+  private responses = new Map<string, PendingResponse>();
+  private handledCalls = new Set<string>();
+  private controllers = new Map<string, AbortController>();
+
+  constructor(deps: ToolCallOrchestratorDeps, callbacks: ToolCallLifecycleCallbacks = {}) {
+    this.deps = deps;
+    this.callbacks = callbacks;
+    this.timeoutMs = deps.timeoutMs ?? DEFAULT_TOOL_CALL_TIMEOUT_MS;
+    this.logger = createRedactingLogger({ ...deps, redactor: deps.redactor ?? piiRedactor });
+  }
+
+  /**
+   * Subscribe to the router's function call and response events.
+   * Returns a function that detaches the orchestrator again.
+   */
+  attach(router: RealtimeEventRouter): () => void {
+    const unsubscribers = [
+      router.on("response.output_item.done", (event) => this.handleEvent(event)),
+      router.on("response.done", (event) => this.handleEvent(event)),
+    ];
+
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+  }
+
+  handleEvent(event: RealtimeServerEvent): void {
+    switch (event.type) {
+      case "response.output_item.done":
+        if (event.item.type === "function_call") {
+          void this.execute(event.response_id ?? "", event.item);
+        }
+        break;
+
+      case "response.done":
+        this.markResponseDone(event.response.id ?? "");
+        break;
+    }
+  }
+
+  /**
+   * Abort in-flight calls and forget pending responses
+   */
+  dispose(): void {
+    this.controllers.forEach((controller) => controller.abort());
+    this.controllers.clear();
+    this.responses.clear();
+    this.handledCalls.clear();
+  }
+
+  private pendingFor(responseId: string): PendingResponse {
+    let pending = this.responses.get(responseId);
+    if (!pending) {
+      pending = { inFlight: new Set(), done: false };
+      this.responses.set(responseId, pending);
+    }
+    return pending;
+  }
+
+  private markResponseDone(responseId: string): void {
+    const pending = this.responses.get(responseId);
+    if (!pending) {
+      return;
+    }
+
+    pending.done = true;
+    this.maybeRequestResponse(responseId);
+  }
+
+  private maybeRequestResponse(responseId: string): void {
+    const pending = this.responses.get(responseId);
+    if (!pending || !pending.done || pending.inFlight.size > 0) {
+      return;
+    }
+
+    this.responses.delete(responseId);
+    this.deps.transport.send({ type: "response.create" });
+    this.callbacks.onResponseRequested?.(responseId);
+  }
+
+  private async execute(responseId: string, item: RealtimeConversationItem): Promise<void> {
+    const callId = item.call_id;
+    if (!callId || this.handledCalls.has(callId)) {
+      return;
+    }
+    this.handledCalls.add(callId);
+
+    const pending = this.pendingFor(responseId);
+    pending.inFlight.add(callId);
+
+    const startedAt = Date.now();
+    const call: ToolCall = {
+      id: callId,
+      name: item.name ?? "unknown",
+      arguments: {},
+      timestamp: startedAt,
+    };
+
+    try {
+      call.arguments = this.parseArguments(item.arguments);
+    } catch (error) {
+      this.fail(call, { code: "invalid_arguments", message: errorMessage(error) }, startedAt);
+      this.settle(responseId, callId);
+      return;
+    }
+
+    this.callbacks.onToolCallStarted?.(call);
+    this.logger.info("Executing tool call", { callId, toolName: call.name });
+
+    const controller = new AbortController();
+    this.controllers.set(callId, controller);
+    const timer = setTimeout(() => controller.abort(new ToolCallTimeoutError(this.timeoutMs)), this.timeoutMs);
+
+    try {
+      const response = await this.withAbort(
+        this.deps.gateway.execute(
+          { id: callId, name: call.name, args: call.arguments, user: this.deps.user },
+          { signal: controller.signal }
+        ),
+        controller.signal
+      );
+
+      if (response.ok) {
+        this.sendOutput(callId, response.result ?? null);
+        this.callbacks.onToolCallCompleted?.(call, response, Date.now() - startedAt);
+        this.logger.info("Tool call completed", { callId, toolName: call.name, durationMs: Date.now() - startedAt });
+      } else if (response.validationErrors?.length || response.errorCode === "invalid_arguments") {
+        // Sent back to the model in full so it can correct the call
+        const message = response.error ?? "Invalid tool arguments";
+        this.fail(call, { code: "invalid_arguments", message, details: response.validationErrors }, startedAt);
+      } else if (response.errorCode === "timeout" || response.errorCode === "circuit_open") {
+        // The gateway gave up on the tool, or refused it while its circuit breaker is open
+        this.fail(call, { code: response.errorCode, message: response.error ?? "Tool unavailable" }, startedAt);
+      } else {
+        this.fail(call, { code: "tool_error", message: response.error ?? "Tool execution failed" }, startedAt);
+      }
+    } catch (error) {
+      if (controller.signal.aborted && !(controller.signal.reason instanceof ToolCallTimeoutError)) {
+        // Disposed while in flight; nobody is listening for the output any more
+        return;
+      }
+
+      const code: ToolCallErrorCode = error instanceof ToolCallTimeoutError ? "timeout" : "gateway_error";
+      this.fail(call, { code, message: errorMessage(error) }, startedAt);
+    } finally {
+      clearTimeout(timer);
+      this.controllers.delete(callId);
+    }
+
+    this.settle(responseId, callId);
+  }
+
+  private settle(responseId: string, callId: string): void {
+    this.responses.get(responseId)?.inFlight.delete(callId);
+    this.maybeRequestResponse(responseId);
+  }
+
+  private fail(call: ToolCall, error: ToolCallError, startedAt: number): void {
+    this.sendOutput(call.id, { error });
+    this.callbacks.onToolCallFailed?.(call, error, Date.now() - startedAt);
+    this.logger.warn("Tool call failed", { callId: call.id, toolName: call.name, code: error.code });
+  }
+
+  private sendOutput(callId: string, output: unknown): void {
+    this.deps.transport.send({
+      type: "conversation.item.create",
+      item: {
+        type: "function_call_output",
+        call_id: callId,
+        output: JSON.stringify(output),
+      },
+    });
+  }
+
+  private parseArguments(raw: string | undefined): Record<string, unknown> {
+    if (!raw) {
+      return {};
+    }
+
+    const parsed = JSON.parse(raw);
+    if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+      throw new Error("Tool call arguments must be a JSON object");
+    }
+    return parsed as Record<string, unknown>;
+  }
+
+  /**
+   * Reject as soon as the signal aborts, even if the gateway ignores it
+   */
+  private withAbort<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => reject(signal.reason);
+      signal.addEventListener("abort", onAbort, { once: true });
+      promise.then(
+        (value) => {
+          signal.removeEventListener("abort", onAbort);
+          resolve(value);
+        },
+        (error) => {
+          signal.removeEventListener("abort", onAbort);
+          reject(error);
+        }
+      );
+    });
+  }
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
@@ -1,31 +1,70 @@
 import { Transport, TransportKind } from "@thrivereflections/realtime-contracts";
+import { LoggingDeps } from "@thrivereflections/realtime-observability";
 import { getSessionToken } from "./sessionProvider";
+import { getTransportRegistration, listTransports, registerTransport } from "./registry";
 
 export interface TransportFactory {
-  (kind: TransportKind, baseUrl?: string): Transport;
+  (kind: TransportKind, baseUrl?: string, logging?: LoggingDeps): Transport;
 }
 
-export function createTransport(kind: TransportKind, baseUrl?: string): Transport {
-  const sessionProvider = () => getSessionToken(baseUrl);
+// Built-in transports are required lazily so only the installed ones need to resolve
+registerTransport(
+  "webrtc",
+  ({ logging, getSessionToken }) => {
+    try {
+      // Dynamic import to avoid circular dependencies
+      const { createWebRTCTransport } = require("@thrivereflections/realtime-transport-webrtc");
+      return createWebRTCTransport({}, { ...logging, getSessionToken });
+    } catch (error) {
+      throw new Error("WebRTC transport not available - install @thrivereflections/realtime-transport-webrtc");
+    }
+  },
+  { audioInput: true, audioOutput: true, textOnly: true, serverSide: false }
+);
 
-  switch (kind) {
-    case "webrtc":
-      try {
-        // Dynamic import to avoid circular dependencies
-        const { createWebRTCTransport } = require("@thrivereflections/realtime-transport-webrtc");
-        return createWebRTCTransport({}, { getSessionToken: sessionProvider });
-      } catch (error) {
-        throw new Error("WebRTC transport not available - install @thrivereflections/realtime-transport-webrtc");
-      }
-    case "websocket":
-      try {
-        // Dynamic import to avoid circular dependencies
-        const { createWebSocketTransport } = require("@thrivereflections/realtime-transport-websocket");
-        return createWebSocketTransport({}, { getSessionToken: sessionProvider });
-      } catch (error) {
-        throw new Error("WebSocket transport not available - install @thrivereflections/realtime-transport-websocket");
-      }
-    default:
-      throw new Error(`Unknown transport kind: ${kind}`);
+registerTransport(
+  "websocket",
+  ({ logging, getSessionToken }) => {
+    try {
+      // Dynamic import to avoid circular dependencies
+      const { createWebSocketTransport } = require("@thrivereflections/realtime-transport-websocket");
+      return createWebSocketTransport({}, { ...logging, getSessionToken });
+    } catch (error) {
+      throw new Error("WebSocket transport not available - install @thrivereflections/realtime-transport-websocket");
+    }
+  },
+  { audioInput: true, audioOutput: true, textOnly: true, serverSide: false }
+);
+
+registerTransport(
+  "websocket-node",
+  ({ baseUrl, logging }) => {
+    try {
+      const { realtimeWebSocketUrl } = require("@thrivereflections/realtime-transport-websocket");
+      const { createNodeWebSocketTransport } = require("@thrivereflections/realtime-transport-websocket/node");
+      // There is no session endpoint in between, so the base URL is the Realtime API origin, e.g. a mock server
+      return createNodeWebSocketTransport(baseUrl ? { url: realtimeWebSocketUrl(baseUrl) } : {}, logging);
+    } catch (error) {
+      throw new Error(
+        "Node WebSocket transport not available - install @thrivereflections/realtime-transport-websocket"
+      );
+    }
+  },
+  { audioInput: true, audioOutput: true, textOnly: true, serverSide: true }
+);
+
+export function createTransport(kind: TransportKind, baseUrl?: string, logging: LoggingDeps = {}): Transport {
+  const registration = getTransportRegistration(kind);
+  if (!registration) {
+    const known = listTransports()
+      .map((entry) => entry.kind)
+      .join(", ");
+    throw new Error(`Unknown transport kind: ${kind} (registered: ${known})`);
   }
+
+  return registration.create({
+    baseUrl,
+    logging,
+    getSessionToken: () => getSessionToken(baseUrl),
+  });
 }
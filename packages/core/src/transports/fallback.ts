@@ -0,0 +1,209 @@
+import {
+  Transport,
+  TransportConnectOptions,
+  TransportKind,
+  TransportStateChange,
+} from "@thrivereflections/realtime-contracts";
+
+export type TransportFallbackReason = "forced" | "ice_failed" | "sdp_error" | "timeout";
+
+export interface TransportFallbackEvent {
+  from: TransportKind;
+  to: TransportKind;
+  reason: TransportFallbackReason;
+  message?: string;
+  /** Time spent on the primary transport before giving up */
+  elapsedMs: number;
+}
+
+export interface TransportFallbackOptions {
+  /** Set to false to use the primary transport only */
+  enabled?: boolean;
+  fallbackKind?: TransportKind;
+  /**
+   * Deadline for the primary to report "connected", counted from when it
+   * starts negotiating (`onNegotiating`) so the microphone prompt is left
+   * out. A primary that never calls `onNegotiating` is not timed.
+   */
+  connectTimeoutMs?: number;
+  /** Skip the primary entirely (the `webrtc_fallback_force` flag) */
+  force?: boolean;
+}
+
+export interface FallbackTransport extends Transport {
+  /** Registered kind currently in use */
+  readonly activeKind: TransportKind;
+  /** Why the fallback transport is in use, or null while on the primary */
+  readonly fallbackReason: TransportFallbackReason | null;
+}
+
+export const DEFAULT_TRANSPORT_FALLBACK_OPTIONS: Required<Omit<TransportFallbackOptions, "force">> = {
+  enabled: true,
+  fallbackKind: "websocket",
+  connectTimeoutMs: 10000,
+};
+
+class PrimaryConnectError extends Error {
+  constructor(readonly reason: TransportFallbackReason, message: string) {
+    super(message);
+    this.name = "PrimaryConnectError";
+  }
+}
+
+function classifyConnectError(error: unknown): PrimaryConnectError | null {
+  if (error instanceof PrimaryConnectError) {
+    return error;
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  if (/sdp/i.test(message)) {
+    return new PrimaryConnectError("sdp_error", message);
+  }
+
+  // Token, microphone and other failures would hit the fallback transport too
+  return null;
+}
+
+/**
+ * Wrap a primary transport (WebRTC) so that `connect()` switches to the
+ * fallback kind when the primary fails ICE, fails the SDP exchange or does not
+ * report "connected" before the deadline. The abandoned connect is aborted
+ * through its `signal`. Once switched, the session stays on the fallback,
+ * including across reconnects.
+ */
+export function createFallbackTransport(
+  primaryKind: TransportKind,
+  build: (kind: TransportKind) => Transport,
+  options: TransportFallbackOptions,
+  onFallback?: (event: TransportFallbackEvent) => void
+): FallbackTransport {
+  const fallbackKind = options.fallbackKind ?? DEFAULT_TRANSPORT_FALLBACK_OPTIONS.fallbackKind;
+  const connectTimeoutMs = options.connectTimeoutMs ?? DEFAULT_TRANSPORT_FALLBACK_OPTIONS.connectTimeoutMs;
+
+  let activeKind = options.force ? fallbackKind : primaryKind;
+  let active: Transport = build(activeKind);
+  let fallbackReason: TransportFallbackReason | null = null;
+
+  function switchToFallback(reason: TransportFallbackReason, elapsedMs: number, message?: string) {
+    // A forced fallback was built up front; the primary was never created
+    if (reason !== "forced") {
+      activeKind = fallbackKind;
+      active = build(fallbackKind);
+    }
+    fallbackReason = reason;
+    onFallback?.({ from: primaryKind, to: fallbackKind, reason, message, elapsedMs });
+  }
+
+  function connectPrimary(opts: TransportConnectOptions): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      let settled = false;
+      let resolvedConnect = false;
+      let reportedConnected = false;
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const controller = new AbortController();
+      const abortWithCaller = () => controller.abort();
+      opts.signal?.addEventListener("abort", abortWithCaller);
+
+      const finish = (error?: unknown) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timer);
+        opts.signal?.removeEventListener("abort", abortWithCaller);
+        if (error) {
+          controller.abort();
+          reject(error);
+        } else {
+          resolve();
+        }
+      };
+
+      // The deadline starts once the primary has its microphone, not while the user is being asked
+      const onNegotiating = () => {
+        opts.onNegotiating?.();
+        if (settled || timer !== undefined) return;
+        timer = setTimeout(() => {
+          finish(new PrimaryConnectError("timeout", `${primaryKind} did not connect within ${connectTimeoutMs}ms`));
+        }, connectTimeoutMs);
+      };
+
+      const onStateChange = (change: TransportStateChange) => {
+        if (settled) {
+          opts.onStateChange?.(change);
+          return;
+        }
+
+        if (change.state === "connected") {
+          reportedConnected = true;
+          if (resolvedConnect) finish();
+        } else {
+          finish(new PrimaryConnectError("ice_failed", change.reason ?? change.state));
+        }
+      };
+
+      active.connect({ ...opts, onStateChange, onNegotiating, signal: controller.signal }).then(
+        () => {
+          resolvedConnect = true;
+          if (reportedConnected) finish();
+        },
+        (error) => finish(error)
+      );
+    });
+  }
+
+  const transport: FallbackTransport = {
+    get kind() {
+      return active.kind;
+    },
+
+    get activeKind() {
+      return activeKind;
+    },
+
+    get fallbackReason() {
+      return fallbackReason;
+    },
+
+    get getPlaybackPosition() {
+      return active.getPlaybackPosition?.bind(active);
+    },
+
+    get clearPlayback() {
+      return active.clearPlayback?.bind(active);
+    },
+
+    async connect(opts: TransportConnectOptions) {
+      if (fallbackReason) {
+        return active.connect(opts);
+      }
+
+      if (options.force) {
+        switchToFallback("forced", 0);
+        return active.connect(opts);
+      }
+
+      const startedAt = Date.now();
+      try {
+        await connectPrimary(opts);
+      } catch (error) {
+        const failure = classifyConnectError(error);
+        if (!failure) {
+          throw error;
+        }
+
+        await active.close().catch(() => undefined);
+        switchToFallback(failure.reason, Date.now() - startedAt, failure.message);
+        await active.connect(opts);
+      }
+    },
+
+    send(event: unknown) {
+      active.send(event);
+    },
+
+    close() {
+      return active.close();
+    },
+  };
+
+  return transport;
+}
@@ -0,0 +1,91 @@
+import { Transport, TransportCapabilities, TransportKind } from "@thrivereflections/realtime-contracts";
+import { LoggingDeps } from "@thrivereflections/realtime-observability";
+import { SessionTokenData } from "./sessionProvider";
+
+export interface TransportFactoryContext {
+  baseUrl?: string;
+  logging: LoggingDeps;
+  getSessionToken: () => Promise<SessionTokenData>;
+}
+
+export type RegisteredTransportFactory = (context: TransportFactoryContext) => Transport;
+
+export interface TransportRegistration {
+  kind: TransportKind;
+  create: RegisteredTransportFactory;
+  capabilities: TransportCapabilities;
+}
+
+const DEFAULT_CAPABILITIES: TransportCapabilities = {
+  audioInput: true,
+  audioOutput: true,
+  textOnly: false,
+  serverSide: false,
+};
+
+const registry = new Map<TransportKind, TransportRegistration>();
+
+/**
+ * Register a transport under a kind so `createTransport` and `initRealtime`
+ * can build it. Registering an existing kind replaces it. Returns a function
+ * that removes the registration again.
+ */
+export function registerTransport(
+  kind: TransportKind,
+  factory: RegisteredTransportFactory,
+  capabilities: Partial<TransportCapabilities> = {}
+): () => void {
+  const registration: TransportRegistration = {
+    kind,
+    create: factory,
+    capabilities: { ...DEFAULT_CAPABILITIES, ...capabilities },
+  };
+  registry.set(kind, registration);
+
+  return () => {
+    if (registry.get(kind) === registration) {
+      registry.delete(kind);
+    }
+  };
+}
+
+export function getTransportRegistration(kind: TransportKind): TransportRegistration | undefined {
+  return registry.get(kind);
+}
+
+export function getTransportCapabilities(kind: TransportKind): TransportCapabilities | undefined {
+  return registry.get(kind)?.capabilities;
+}
+
+export function listTransports(): TransportRegistration[] {
+  return Array.from(registry.values());
+}
+
+/**
+ * Check a capability descriptor against requirements. Only `true`
+ * requirements are enforced; `false` means "not needed".
+ */
+export function satisfiesCapabilities(
+  capabilities: TransportCapabilities,
+  required: Partial<TransportCapabilities>
+): boolean {
+  return (Object.keys(required) as Array<keyof TransportCapabilities>).every(
+    (key) => !required[key] || capabilities[key]
+  );
+}
+
+/**
+ * Pick a transport for the session: the preferred kind when it meets the
+ * requirements, otherwise the first registered kind that does.
+ */
+export function negotiateTransport(
+  preferred: TransportKind,
+  required: Partial<TransportCapabilities> = {}
+): TransportRegistration | undefined {
+  const preferredRegistration = registry.get(preferred);
+  if (preferredRegistration && satisfiesCapabilities(preferredRegistration.capabilities, required)) {
+    return preferredRegistration;
+  }
+
+  return listTransports().find((registration) => satisfiesCapabilities(registration.capabilities, required));
+}
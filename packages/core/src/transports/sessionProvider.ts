@@ -2,6 +2,9 @@ export interface SessionTokenData {
   client_secret: { value: string; expires_at: string };
   session_id: string;
   model: string;
+  ice_servers?: Array<{ urls: string | string[]; username?: string; credential?: string }>;
+  /** Realtime API origin the transports connect to (`RuntimeConfig.baseUrl`) */
+  base_url?: string;
 }
 
 export async function getSessionToken(baseUrl?: string): Promise<SessionTokenData> {
@@ -0,0 +1,299 @@
+import WebSocket from "ws";
+import { RealtimeEventRouter, Transcript } from "@thrivereflections/realtime-core";
+import { createNodeWebSocketTransport, encodePcm16 } from "@thrivereflections/realtime-transport-websocket/node";
+import { createMockRealtimeServer, MockRealtimeServer, MockRealtimeServerOptions } from "../server";
+import { scriptedResponder } from "../responses";
+import { synthesizeTone } from "../audio";
+
+interface ServerEvent {
+  type: string;
+  [key: string]: unknown;
+}
+
+/** The `response` of a response.* event */
+function responseOf(event: ServerEvent): Record<string, unknown> {
+  const { response } = event;
+  if (typeof response !== "object" || response === null) {
+    throw new Error(`${event.type} has no response`);
+  }
+  return response as Record<string, unknown>;
+}
+
+interface SessionResponse {
+  id: string;
+  client_secret: { value: string; expires_at: number };
+}
+
+interface TestClient {
+  events: ServerEvent[];
+  send(event: unknown): void;
+  waitFor(type: string, predicate?: (event: ServerEvent) => boolean): Promise<ServerEvent>;
+  closed: Promise<number>;
+  close(): void;
+}
+
+async function connect(url: string, protocols: string[]): Promise<TestClient> {
+  const ws = new WebSocket(url, protocols);
+  const events: ServerEvent[] = [];
+  const waiters: Array<{
+    type: string;
+    predicate: (event: ServerEvent) => boolean;
+    resolve: (e: ServerEvent) => void;
+  }> = [];
+
+  ws.on("message", (data) => {
+    const event = JSON.parse(data.toString()) as ServerEvent;
+    events.push(event);
+    waiters
+      .filter((waiter) => waiter.type === event.type && waiter.predicate(event))
+      .forEach((waiter) => {
+        waiters.splice(waiters.indexOf(waiter), 1);
+        waiter.resolve(event);
+      });
+  });
+  const closed = new Promise<number>((resolve) => ws.on("close", (code) => resolve(code)));
+
+  await new Promise<void>((resolve, reject) => {
+    ws.once("open", () => resolve());
+    ws.once("error", reject);
+  });
+
+  return {
+    events,
+    send: (event) => ws.send(JSON.stringify(event)),
+    waitFor: (type, predicate = () => true) =>
+      new Promise((resolve) => {
+        const seen = events.find((event) => event.type === type && predicate(event));
+        if (seen) resolve(seen);
+        else waiters.push({ type, predicate, resolve });
+      }),
+    closed,
+    close: () => ws.close(),
+  };
+}
+
+const userText = (text: string) => ({
+  type: "conversation.item.create",
+  item: { type: "message", role: "user", content: [{ type: "input_text", text }] },
+});
+
+describe("mock Realtime server", () => {
+  let server: MockRealtimeServer;
+  const clients: TestClient[] = [];
+
+  async function start(options: MockRealtimeServerOptions = {}) {
+    server = createMockRealtimeServer({ apiKey: "sk-test", chunkIntervalMs: 1, ...options }, { logLevel: "error" });
+    await server.listen();
+  }
+
+  async function client(key = "sk-test") {
+    const c = await connect(server.realtimeUrl, ["realtime", `openai-insecure-api-key.${key}`]);
+    clients.push(c);
+    await c.waitFor("session.created");
+    return c;
+  }
+
+  function createSession(body: Record<string, unknown> = {}, key = "sk-test") {
+    return fetch(`${server.baseUrl}/v1/realtime/sessions`, {
+      method: "POST",
+      headers: { Authorization: `Bearer ${key}`, "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+  }
+
+  afterEach(async () => {
+    clients.splice(0).forEach((c) => c.close());
+    await server?.close();
+  });
+
+  it("issues client secrets carrying the requested session settings", async () => {
+    await start();
+
+    const response = await createSession({
+      model: "gpt-realtime-mini",
+      instructions: "Be brief",
+      modalities: ["text"],
+    });
+    const session = (await response.json()) as SessionResponse;
+
+    expect(session).toMatchObject({
+      object: "realtime.session",
+      model: "gpt-realtime-mini",
+      instructions: "Be brief",
+      client_secret: { value: expect.stringMatching(/^ek_mock_/) },
+    });
+    expect((await createSession({}, "sk-wrong")).status).toBe(401);
+
+    const c = await client(session.client_secret.value);
+    expect(c.events[0].session).toMatchObject({ id: session.id, model: "gpt-realtime-mini", modalities: ["text"] });
+  });
+
+  it("rejects unknown keys and expired client secrets", async () => {
+    await start({ tokenTtlSeconds: -1 });
+    const { client_secret } = (await (await createSession()).json()) as SessionResponse;
+
+    await expect(connect(server.realtimeUrl, ["realtime", "openai-insecure-api-key.sk-wrong"])).rejects.toThrow("401");
+    await expect(
+      connect(server.realtimeUrl, ["realtime", `openai-insecure-api-key.${client_secret.value}`])
+    ).rejects.toThrow("401");
+  });
+
+  it("refuses the WebRTC SDP exchange", async () => {
+    await start();
+
+    const response = await fetch(`${server.baseUrl}/v1/realtime?model=gpt-realtime`, { method: "POST", body: "v=0" });
+
+    expect(response.status).toBe(501);
+    expect(await response.text()).toContain("SDP");
+  });
+
+  it("streams a text response with usage", async () => {
+    await start({ session: { modalities: ["text"] } });
+    const c = await client();
+
+    c.send(userText("hello there"));
+    c.send({ type: "response.create" });
+    const done = await c.waitFor("response.done");
+
+    const deltas = c.events.filter((e) => e.type === "response.text.delta").map((e) => e.delta);
+    expect(deltas.join("")).toBe("You said: hello there");
+    expect(done.response).toMatchObject({
+      status: "completed",
+      output: [{ type: "message", role: "assistant", content: [{ type: "text", text: "You said: hello there" }] }],
+      usage: { total_tokens: expect.any(Number), input_tokens: 3, output_tokens: 6 },
+    });
+  });
+
+  it("streams synthetic PCM audio with its transcript", async () => {
+    await start({ respond: scriptedResponder([{ type: "audio", transcript: "Hi there", durationMs: 500 }]) });
+    const c = await client();
+
+    c.send({ type: "response.create" });
+    const done = await c.waitFor("response.done");
+
+    const audioBytes = c.events
+      .filter((e) => e.type === "response.audio.delta")
+      .reduce((total, e) => total + Buffer.from(String(e.delta), "base64").length, 0);
+    expect(audioBytes).toBe(24000); // 500 ms of 24 kHz PCM16
+    expect((await c.waitFor("response.audio_transcript.done")).transcript).toBe("Hi there");
+    expect(responseOf(done).usage).toEqual(
+      expect.objectContaining({ output_token_details: { text_tokens: 2, audio_tokens: 10 } })
+    );
+  });
+
+  it("scripts function calls and answers their output", async () => {
+    await start({
+      session: { modalities: ["text"] },
+      respond: scriptedResponder([{ type: "function_call", name: "lookup", arguments: { id: 7 }, callId: "call_1" }]),
+    });
+    const c = await client();
+
+    c.send({ type: "response.create" });
+    const args = await c.waitFor("response.function_call_arguments.done");
+    expect(args).toMatchObject({ call_id: "call_1", name: "lookup", arguments: '{"id":7}' });
+    await c.waitFor("response.done");
+
+    c.send({
+      type: "conversation.item.create",
+      item: { type: "function_call_output", call_id: "call_1", output: "ok" },
+    });
+    c.send({ type: "response.create" });
+    await c.waitFor("response.done", (e) => responseOf(e).id !== args.response_id);
+
+    expect(c.events.filter((e) => e.type === "response.text.done").map((e) => e.text)).toEqual([
+      "The tool returned ok",
+    ]);
+  });
+
+  it("commits speech after silence with server VAD and answers it", async () => {
+    await start({
+      session: { input_audio_transcription: { model: "whisper-1" } },
+      transcribe: () => "what time is it",
+    });
+    const c = await client();
+    c.send({ type: "session.update", session: { turn_detection: { type: "server_vad", silence_duration_ms: 20 } } });
+
+    c.send({ type: "input_audio_buffer.append", audio: encodePcm16(synthesizeTone(200)) });
+    const transcription = await c.waitFor("conversation.item.input_audio_transcription.completed");
+    await c.waitFor("response.done");
+
+    expect(c.events.map((e) => e.type)).toEqual(
+      expect.arrayContaining(["input_audio_buffer.speech_started", "input_audio_buffer.speech_stopped"])
+    );
+    expect(transcription.transcript).toBe("what time is it");
+    expect((await c.waitFor("response.audio_transcript.done")).transcript).toBe("You said: what time is it");
+  });
+
+  it("stops a cancelled response part-way", async () => {
+    await start({ chunkIntervalMs: 5 });
+    const c = await client();
+
+    c.send({ type: "response.create" });
+    await c.waitFor("response.audio.delta");
+    c.send({ type: "response.cancel" });
+    const done = await c.waitFor("response.done");
+
+    expect(responseOf(done)).toMatchObject({ status: "cancelled", output: [{ status: "incomplete" }] });
+    expect(c.events.some((e) => e.type === "response.audio.done")).toBe(false);
+  });
+
+  it("injects errors, latency and disconnects", async () => {
+    await start({ session: { modalities: ["text"] } });
+    const c = await client();
+
+    server.injectFault({ type: "error", on: "response.create", code: "rate_limit_exceeded", message: "Slow down" });
+    c.send({ type: "response.create", event_id: "evt_1" });
+    expect((await c.waitFor("error")).error).toMatchObject({ code: "rate_limit_exceeded", event_id: "evt_1" });
+
+    server.injectFault({ type: "latency", ms: 80 });
+    const sentAt = Date.now();
+    c.send({ type: "session.update", session: { instructions: "Hi" } });
+    await c.waitFor("session.updated");
+    expect(Date.now() - sentAt).toBeGreaterThanOrEqual(70);
+    server.clearFaults();
+
+    server.injectFault({ type: "disconnect", code: 1011 });
+    expect(await c.closed).toBe(1011);
+    expect(server.connectionCount).toBe(0);
+  });
+
+  it("fails the next session request once", async () => {
+    await start({ faults: [{ type: "session_error", status: 503 }] });
+
+    expect((await createSession()).status).toBe(503);
+    expect((await createSession()).status).toBe(200);
+  });
+
+  it("drives the Node transport and event router end to end", async () => {
+    await start({ session: { modalities: ["text"] } });
+    const transcripts: Transcript[] = [];
+    const invalid: unknown[] = [];
+    let responseCompleted = () => {};
+    const responded = new Promise<void>((resolve) => (responseCompleted = resolve));
+    const router = new RealtimeEventRouter(
+      {
+        onTranscript: (t) => transcripts.push(t),
+        onInvalidEvent: (e) => invalid.push(e),
+        onResponseCompleted: () => responseCompleted(),
+      },
+      { logLevel: "error" }
+    );
+    const transport = createNodeWebSocketTransport(
+      { url: server.realtimeUrl, modalities: ["text"] },
+      { serverKey: "sk-test", logLevel: "error" }
+    );
+
+    expect(transport.kind).toBe("websocket-node");
+    await transport.connect({ token: "", onEvent: (event) => router.routeEvent(event) });
+    transport.send(userText("ping"));
+    transport.send({ type: "response.create" });
+    await responded;
+    await transport.close();
+
+    expect(invalid).toEqual([]);
+    expect(transcripts.filter((t) => t.type === "final").map(({ role, text }) => ({ role, text }))).toEqual([
+      { role: "user", text: "ping" },
+      { role: "assistant", text: "You said: ping" },
+    ]);
+  });
+});
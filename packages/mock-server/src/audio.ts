@@ -0,0 +1,39 @@
+/** Sample rate of the Realtime API's pcm16 audio */
+export const MOCK_SAMPLE_RATE = 24000;
+
+/**
+ * A sine tone as PCM16 mono at 24 kHz, standing in for synthesized speech.
+ * The first and last 5 ms are faded to avoid clicks.
+ */
+export function synthesizeTone(durationMs: number, frequencyHz = 440, amplitude = 0.3): Int16Array {
+  const samples = Math.round((durationMs / 1000) * MOCK_SAMPLE_RATE);
+  const fade = Math.min(Math.round(0.005 * MOCK_SAMPLE_RATE), Math.floor(samples / 2));
+  const pcm = new Int16Array(samples);
+
+  for (let i = 0; i < samples; i++) {
+    const envelope = Math.min(1, i / (fade || 1), (samples - 1 - i) / (fade || 1));
+    pcm[i] = Math.round(Math.sin((2 * Math.PI * frequencyHz * i) / MOCK_SAMPLE_RATE) * amplitude * envelope * 0x7fff);
+  }
+
+  return pcm;
+}
+
+/**
+ * Split PCM16 into base64 chunks of `chunkMs`, as sent in `response.audio.delta`
+ */
+export function toAudioDeltas(pcm: Int16Array, chunkMs: number): string[] {
+  const samplesPerChunk = Math.max(1, Math.round((chunkMs / 1000) * MOCK_SAMPLE_RATE));
+  const deltas: string[] = [];
+
+  for (let start = 0; start < pcm.length; start += samplesPerChunk) {
+    const chunk = pcm.subarray(start, start + samplesPerChunk);
+    deltas.push(Buffer.from(chunk.buffer, chunk.byteOffset, chunk.byteLength).toString("base64"));
+  }
+
+  return deltas;
+}
+
+/** Milliseconds of PCM16 audio in a byte count */
+export function pcmDurationMs(bytes: number): number {
+  return Math.round((bytes / 2 / MOCK_SAMPLE_RATE) * 1000);
+}
@@ -0,0 +1,548 @@
+/**
+ * One mock Realtime session over a WebSocket.
+ *
+ * Speaks the server side of the Realtime event protocol: session updates,
+ * conversation items, the input audio buffer with a simulated server VAD, and
+ * streamed responses that can be cancelled part-way.
+ */
+
+import WebSocket from "ws";
+import { RealtimeConversationItem, RealtimeServerEvent, RealtimeUsage } from "@thrivereflections/realtime-contracts";
+import { Logger } from "@thrivereflections/realtime-observability";
+import { pcmDurationMs, synthesizeTone, toAudioDeltas } from "./audio";
+import { MockFaultOf } from "./faults";
+import { MockOutput, MockOutputOf, MockResponder, MockSessionSettings, MockTurnInput } from "./responses";
+
+export interface MockConnectionOptions {
+  id: string;
+  model: string;
+  settings: MockSessionSettings;
+  respond: MockResponder;
+  /** Transcript for committed input audio */
+  transcribe: (durationMs: number) => string;
+  /** Pause between streamed deltas */
+  chunkIntervalMs: number;
+  /** Audio per `response.audio.delta` */
+  audioChunkMs: number;
+  /** Current injected latency */
+  latencyMs: () => number;
+  /** Take a pending error fault matching a client event */
+  takeErrorFault: (clientEventType: string) => MockFaultOf<"error"> | undefined;
+  logger: Logger;
+}
+
+interface ClientEvent {
+  type?: string;
+  event_id?: string;
+  [key: string]: unknown;
+}
+
+interface ActiveResponse {
+  id: string;
+  cancelled: boolean;
+}
+
+const DEFAULT_SILENCE_MS = 500;
+
+export class MockRealtimeConnection {
+  private settings: MockSessionSettings;
+  private itemIds: string[] = [];
+  private inputAudioBytes = 0;
+  private audioClockMs = 0;
+  private speaking = false;
+  private vadTimer: ReturnType<typeof setTimeout> | null = null;
+  private activeResponse: ActiveResponse | null = null;
+  private lastInput: MockTurnInput = { type: "none" };
+  private responseCount = 0;
+  private counter = 0;
+  private closed = false;
+
+  constructor(private readonly socket: WebSocket, private readonly options: MockConnectionOptions) {
+    this.settings = { ...options.settings };
+    socket.on("message", (data) => this.handleMessage(data.toString()));
+    socket.on("close", () => this.dispose());
+  }
+
+  get id(): string {
+    return this.options.id;
+  }
+
+  start(): void {
+    this.send({ type: "session.created", session: this.sessionInfo() });
+  }
+
+  /** Close the socket, cleanly with `code` or abruptly without one */
+  disconnect(code?: number, reason?: string): void {
+    if (code === undefined) {
+      this.socket.terminate();
+    } else {
+      this.socket.close(code, reason);
+    }
+    this.dispose();
+  }
+
+  private handleMessage(data: string): void {
+    let event: ClientEvent;
+    try {
+      event = JSON.parse(data);
+    } catch {
+      this.sendError("invalid_json", "Message is not valid JSON");
+      return;
+    }
+
+    const type = typeof event.type === "string" ? event.type : "";
+    const fault = this.options.takeErrorFault(type);
+    if (fault) {
+      this.sendError(fault.code ?? "server_error", fault.message ?? "Injected error", event.event_id, "server_error");
+      return;
+    }
+
+    switch (type) {
+      case "session.update":
+        this.updateSession(event);
+        break;
+      case "input_audio_buffer.append":
+        this.appendAudio(event);
+        break;
+      case "input_audio_buffer.commit":
+        if (this.inputAudioBytes === 0) {
+          this.sendError("input_audio_buffer_commit_empty", "Input audio buffer is empty", event.event_id);
+        } else {
+          this.commitInput(false);
+        }
+        break;
+      case "input_audio_buffer.clear":
+        this.clearVad();
+        this.inputAudioBytes = 0;
+        this.send({ type: "input_audio_buffer.cleared" });
+        break;
+      case "conversation.item.create":
+        this.createItem(event);
+        break;
+      case "conversation.item.truncate":
+        this.truncateItem(event);
+        break;
+      case "conversation.item.delete":
+        this.deleteItem(event);
+        break;
+      case "response.create":
+        if (this.activeResponse) {
+          this.sendError(
+            "conversation_already_has_active_response",
+            "Conversation already has an active response",
+            event.event_id
+          );
+        } else {
+          void this.respond();
+        }
+        break;
+      case "response.cancel":
+        if (this.activeResponse) {
+          this.activeResponse.cancelled = true;
+        } else {
+          this.sendError("response_cancel_not_active", "There is no active response to cancel", event.event_id);
+        }
+        break;
+      default:
+        this.sendError("unknown_event", `Unknown event type '${type}'`, event.event_id);
+    }
+  }
+
+  private updateSession(event: ClientEvent): void {
+    const session = (event.session ?? {}) as Partial<MockSessionSettings>;
+    this.settings = { ...this.settings, ...session };
+    if (session.turn_detection === null) {
+      this.clearVad();
+    }
+    this.send({ type: "session.updated", session: this.sessionInfo() });
+  }
+
+  private appendAudio(event: ClientEvent): void {
+    if (typeof event.audio !== "string") {
+      this.sendError("invalid_value", "input_audio_buffer.append requires base64 audio", event.event_id);
+      return;
+    }
+
+    const bytes = Buffer.from(event.audio, "base64").length;
+    const durationMs = pcmDurationMs(bytes);
+    this.inputAudioBytes += bytes;
+    this.audioClockMs += durationMs;
+
+    const vad = this.settings.turn_detection;
+    if (!vad || vad.type !== "server_vad") {
+      return;
+    }
+
+    // Every append counts as speech; silence is the absence of appends
+    if (!this.speaking) {
+      this.speaking = true;
+      this.send({ type: "input_audio_buffer.speech_started", audio_start_ms: this.audioClockMs - durationMs });
+    }
+
+    if (this.vadTimer) clearTimeout(this.vadTimer);
+    const silenceMs = typeof vad.silence_duration_ms === "number" ? vad.silence_duration_ms : DEFAULT_SILENCE_MS;
+    this.vadTimer = setTimeout(() => {
+      this.vadTimer = null;
+      this.speaking = false;
+      this.send({ type: "input_audio_buffer.speech_stopped", audio_end_ms: this.audioClockMs });
+      this.commitInput(vad.create_response !== false);
+    }, silenceMs);
+  }
+
+  private commitInput(createResponse: boolean): void {
+    this.clearVad();
+
+    const durationMs = pcmDurationMs(this.inputAudioBytes);
+    this.inputAudioBytes = 0;
+
+    const previousItemId = this.lastItemId();
+    const itemId = this.nextId("item");
+    const item: RealtimeConversationItem = {
+      id: itemId,
+      object: "realtime.item",
+      type: "message",
+      role: "user",
+      status: "completed",
+      content: [{ type: "input_audio", transcript: null }],
+    };
+    this.itemIds.push(itemId);
+
+    this.send({ type: "input_audio_buffer.committed", item_id: itemId, previous_item_id: previousItemId });
+    this.send({ type: "conversation.item.created", previous_item_id: previousItemId, item });
+
+    const transcript = this.options.transcribe(durationMs);
+    if (this.settings.input_audio_transcription) {
+      this.send({
+        type: "conversation.item.input_audio_transcription.completed",
+        item_id: itemId,
+        content_index: 0,
+        transcript,
+      });
+    }
+
+    this.lastInput = { type: "audio", transcript, durationMs };
+    if (createResponse && !this.activeResponse) {
+      void this.respond();
+    }
+  }
+
+  private createItem(event: ClientEvent): void {
+    const source = event.item as RealtimeConversationItem | undefined;
+    if (!source || typeof source.type !== "string") {
+      this.sendError("invalid_value", "conversation.item.create requires an item", event.event_id);
+      return;
+    }
+
+    const previousItemId = typeof event.previous_item_id === "string" ? event.previous_item_id : this.lastItemId();
+    const itemId = source.id ?? this.nextId("item");
+    const item: RealtimeConversationItem = { ...source, id: itemId, object: "realtime.item", status: "completed" };
+    this.itemIds.push(itemId);
+    this.send({ type: "conversation.item.created", previous_item_id: previousItemId, item });
+
+    if (item.type === "function_call_output") {
+      this.lastInput = { type: "function_call_output", callId: item.call_id ?? "", output: item.output ?? "" };
+    } else if (item.type === "message" && item.role === "user") {
+      const text = (item.content ?? []).map((part) => part.text ?? "").join("");
+      this.lastInput = { type: "text", text };
+    }
+  }
+
+  private truncateItem(event: ClientEvent): void {
+    const itemId = event.item_id;
+    if (typeof itemId !== "string" || !this.itemIds.includes(itemId)) {
+      this.sendError("item_not_found", `Item '${String(itemId)}' does not exist`, event.event_id);
+      return;
+    }
+
+    this.send({
+      type: "conversation.item.truncated",
+      item_id: itemId,
+      content_index: typeof event.content_index === "number" ? event.content_index : 0,
+      audio_end_ms: typeof event.audio_end_ms === "number" ? event.audio_end_ms : 0,
+    });
+  }
+
+  private deleteItem(event: ClientEvent): void {
+    const itemId = event.item_id;
+    if (typeof itemId !== "string" || !this.itemIds.includes(itemId)) {
+      this.sendError("item_not_found", `Item '${String(itemId)}' does not exist`, event.event_id);
+      return;
+    }
+
+    this.itemIds = this.itemIds.filter((id) => id !== itemId);
+    this.send({ type: "conversation.item.deleted", item_id: itemId });
+  }
+
+  private async respond(): Promise<void> {
+    const response: ActiveResponse = { id: this.nextId("resp"), cancelled: false };
+    this.activeResponse = response;
+
+    let outputs: MockOutput[];
+    try {
+      const result = this.options.respond({
+        input: this.lastInput,
+        session: { ...this.settings },
+        responseCount: this.responseCount++,
+      });
+      outputs = Array.isArray(result) ? result : [result];
+    } catch (error) {
+      this.options.logger.error("Mock responder failed", { error: (error as Error).message });
+      this.activeResponse = null;
+      this.sendError("server_error", (error as Error).message, undefined, "server_error");
+      return;
+    }
+
+    this.send({
+      type: "response.created",
+      response: { id: response.id, status: "in_progress", output: [] },
+    });
+
+    const output: RealtimeConversationItem[] = [];
+    for (let index = 0; index < outputs.length && !response.cancelled && !this.closed; index++) {
+      output.push(await this.streamOutput(response, outputs[index], index));
+    }
+
+    if (this.closed) {
+      return;
+    }
+
+    this.activeResponse = null;
+    this.send({
+      type: "response.done",
+      response: {
+        id: response.id,
+        status: response.cancelled ? "cancelled" : "completed",
+        status_details: response.cancelled ? { type: "cancelled", reason: "client_cancelled" } : null,
+        output,
+        usage: this.usage(outputs),
+      },
+    });
+  }
+
+  private async streamOutput(
+    response: ActiveResponse,
+    output: MockOutput,
+    outputIndex: number
+  ): Promise<RealtimeConversationItem> {
+    const previousItemId = this.lastItemId();
+    const itemId = this.nextId("item");
+    const ref = { response_id: response.id, item_id: itemId, output_index: outputIndex, content_index: 0 };
+    this.itemIds.push(itemId);
+
+    if (output.type === "function_call") {
+      const callId = output.callId ?? this.nextId("call");
+      const args = typeof output.arguments === "string" ? output.arguments : JSON.stringify(output.arguments);
+      const item: RealtimeConversationItem = {
+        id: itemId,
+        object: "realtime.item",
+        type: "function_call",
+        status: "in_progress",
+        call_id: callId,
+        name: output.name,
+        arguments: "",
+      };
+      this.send({ type: "response.output_item.added", response_id: response.id, output_index: outputIndex, item });
+      this.send({ type: "conversation.item.created", previous_item_id: previousItemId, item });
+
+      const sent = await this.stream(response, splitText(args), (delta) =>
+        this.send({ type: "response.function_call_arguments.delta", ...ref, call_id: callId, delta })
+      );
+      if (sent === args) {
+        this.send({
+          type: "response.function_call_arguments.done",
+          ...ref,
+          call_id: callId,
+          name: output.name,
+          arguments: args,
+        });
+      }
+
+      return this.finishItem(response, outputIndex, { ...item, arguments: sent }, sent === args);
+    }
+
+    const item: RealtimeConversationItem = {
+      id: itemId,
+      object: "realtime.item",
+      type: "message",
+      role: "assistant",
+      status: "in_progress",
+      content: [],
+    };
+    this.send({ type: "response.output_item.added", response_id: response.id, output_index: outputIndex, item });
+    this.send({ type: "conversation.item.created", previous_item_id: previousItemId, item });
+
+    if (output.type === "text") {
+      const sent = await this.stream(response, splitText(output.text), (delta) =>
+        this.send({ type: "response.text.delta", ...ref, delta })
+      );
+      const complete = sent === output.text;
+      if (complete) {
+        this.send({ type: "response.text.done", ...ref, text: output.text });
+      }
+      return this.finishItem(response, outputIndex, { ...item, content: [{ type: "text", text: sent }] }, complete);
+    }
+
+    // Audio and transcript deltas go out together, as the transcript keeps pace with speech
+    const audio = toAudioDeltas(
+      synthesizeTone(spokenDurationMs(output), output.frequencyHz),
+      this.options.audioChunkMs
+    );
+    const words = splitText(output.transcript);
+    let transcript = "";
+    let wordsSent = 0;
+    let chunks = 0;
+    for (; chunks < audio.length && !response.cancelled && !this.closed; chunks++) {
+      this.send({ type: "response.audio.delta", ...ref, delta: audio[chunks] });
+      const wordsDue = Math.ceil(((chunks + 1) / audio.length) * words.length);
+      for (; wordsSent < wordsDue; wordsSent++) {
+        this.send({ type: "response.audio_transcript.delta", ...ref, delta: words[wordsSent] });
+        transcript += words[wordsSent];
+      }
+      await this.pause();
+    }
+
+    const complete = chunks === audio.length;
+    if (complete) {
+      this.send({ type: "response.audio.done", ...ref });
+      this.send({ type: "response.audio_transcript.done", ...ref, transcript: output.transcript });
+    }
+    return this.finishItem(
+      response,
+      outputIndex,
+      { ...item, content: [{ type: "audio", transcript: complete ? output.transcript : transcript }] },
+      complete
+    );
+  }
+
+  /**
+   * Send deltas one by one until done or cancelled. Returns what was sent.
+   */
+  private async stream(response: ActiveResponse, deltas: string[], send: (delta: string) => void): Promise<string> {
+    let sent = "";
+    for (const delta of deltas) {
+      if (response.cancelled || this.closed) {
+        break;
+      }
+      send(delta);
+      sent += delta;
+      await this.pause();
+    }
+    return sent;
+  }
+
+  private finishItem(
+    response: ActiveResponse,
+    outputIndex: number,
+    item: RealtimeConversationItem,
+    complete: boolean
+  ): RealtimeConversationItem {
+    const done: RealtimeConversationItem = { ...item, status: complete ? "completed" : "incomplete" };
+    if (!this.closed) {
+      this.send({ type: "response.output_item.done", response_id: response.id, output_index: outputIndex, item: done });
+    }
+    return done;
+  }
+
+  /**
+   * Rough token counts: ~4 characters per text token, ~50 ms per audio token
+   */
+  private usage(outputs: MockOutput[]): RealtimeUsage {
+    const input = this.lastInput;
+    const inputText =
+      input.type === "text"
+        ? input.text
+        : input.type === "function_call_output"
+        ? input.output
+        : this.settings.instructions;
+    const inputAudio = input.type === "audio" ? Math.ceil(input.durationMs / 50) : 0;
+    const inputTextTokens = Math.ceil(inputText.length / 4);
+
+    let outputText = 0;
+    let outputAudio = 0;
+    outputs.forEach((output) => {
+      if (output.type === "audio") {
+        outputText += Math.ceil(output.transcript.length / 4);
+        outputAudio += Math.ceil(spokenDurationMs(output) / 50);
+      } else {
+        const text = output.type === "text" ? output.text : JSON.stringify(output.arguments);
+        outputText += Math.ceil(text.length / 4);
+      }
+    });
+
+    const inputTokens = inputTextTokens + inputAudio;
+    const outputTokens = outputText + outputAudio;
+    return {
+      total_tokens: inputTokens + outputTokens,
+      input_tokens: inputTokens,
+      output_tokens: outputTokens,
+      input_token_details: { text_tokens: inputTextTokens, audio_tokens: inputAudio, cached_tokens: 0 },
+      output_token_details: { text_tokens: outputText, audio_tokens: outputAudio },
+    };
+  }
+
+  private sessionInfo() {
+    return { id: this.options.id, object: "realtime.session", model: this.options.model, ...this.settings };
+  }
+
+  private send(event: RealtimeServerEvent): void {
+    if (this.closed) {
+      return;
+    }
+
+    const payload = JSON.stringify({ event_id: this.nextId("event"), ...event });
+    const latencyMs = this.options.latencyMs();
+    if (latencyMs > 0) {
+      setTimeout(() => this.write(payload), latencyMs);
+    } else {
+      this.write(payload);
+    }
+  }
+
+  private write(payload: string): void {
+    if (this.socket.readyState === WebSocket.OPEN) {
+      this.socket.send(payload);
+    }
+  }
+
+  private sendError(code: string, message: string, eventId?: string, type = "invalid_request_error"): void {
+    this.send({ type: "error", error: { type, code, message, param: null, event_id: eventId ?? null } });
+  }
+
+  private pause(): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, this.options.chunkIntervalMs));
+  }
+
+  private lastItemId(): string | null {
+    return this.itemIds[this.itemIds.length - 1] ?? null;
+  }
+
+  private nextId(prefix: string): string {
+    return `${prefix}_${this.options.id.replace(/^sess_/, "")}_${++this.counter}`;
+  }
+
+  private clearVad(): void {
+    if (this.vadTimer) {
+      clearTimeout(this.vadTimer);
+      this.vadTimer = null;
+    }
+    this.speaking = false;
+  }
+
+  private dispose(): void {
+    this.closed = true;
+    this.clearVad();
+    if (this.activeResponse) {
+      this.activeResponse.cancelled = true;
+    }
+  }
+}
+
+/** Length of synthesized speech: as given, or ~60 ms per character */
+function spokenDurationMs(output: MockOutputOf<"audio">): number {
+  return output.durationMs ?? Math.max(200, output.transcript.length * 60);
+}
+
+/** Split text into word-sized deltas that join back to the original */
+function splitText(text: string): string[] {
+  return text.match(/\S+\s*|\s+/g) ?? [];
+}
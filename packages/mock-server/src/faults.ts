@@ -0,0 +1,15 @@
+/**
+ * Faults the mock server can inject. `latency` lasts until cleared; the others
+ * fire once.
+ */
+export type MockFault =
+  /** Drop open connections (or the next one) after `afterMs`; abrupt unless `code` is given */
+  | { type: "disconnect"; afterMs?: number; code?: number; reason?: string }
+  /** Delay every server event by `ms` */
+  | { type: "latency"; ms: number }
+  /** Answer the next client event (of type `on`, if given) with an `error` event instead of handling it */
+  | { type: "error"; on?: string; code?: string; message?: string }
+  /** Fail the next `/v1/realtime/sessions` request */
+  | { type: "session_error"; status?: number; message?: string };
+
+export type MockFaultOf<T extends MockFault["type"]> = Extract<MockFault, { type: T }>;
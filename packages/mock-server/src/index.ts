@@ -0,0 +1,15 @@
+export { createMockRealtimeServer, DEFAULT_MOCK_MODEL } from "./server";
+export type { MockRealtimeServer, MockRealtimeServerAddress, MockRealtimeServerOptions } from "./server";
+export { MockRealtimeConnection } from "./connection";
+export type { MockConnectionOptions } from "./connection";
+export { echoResponder, scriptedResponder } from "./responses";
+export type {
+  MockOutput,
+  MockOutputOf,
+  MockResponder,
+  MockSessionSettings,
+  MockTurn,
+  MockTurnInput,
+} from "./responses";
+export type { MockFault, MockFaultOf } from "./faults";
+export { MOCK_SAMPLE_RATE, synthesizeTone, toAudioDeltas, pcmDurationMs } from "./audio";
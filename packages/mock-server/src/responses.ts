@@ -0,0 +1,79 @@
+/**
+ * What the mock model answers with. A responder turns the input that triggered
+ * a response into one or more outputs; the server streams them with the same
+ * events the Realtime API uses.
+ */
+
+export type MockOutput =
+  | { type: "text"; text: string }
+  | {
+      type: "audio";
+      /** Spoken text, streamed as `response.audio_transcript.delta` */
+      transcript: string;
+      /** Length of the synthetic tone; defaults to ~60 ms per character */
+      durationMs?: number;
+      frequencyHz?: number;
+    }
+  | { type: "function_call"; name: string; arguments: Record<string, unknown> | string; callId?: string };
+
+export type MockOutputOf<T extends MockOutput["type"]> = Extract<MockOutput, { type: T }>;
+
+export type MockTurnInput =
+  | { type: "text"; text: string }
+  | { type: "audio"; transcript: string; durationMs: number }
+  | { type: "function_call_output"; callId: string; output: string }
+  | { type: "none" };
+
+export interface MockTurn {
+  /** The latest conversation item the response answers */
+  input: MockTurnInput;
+  /** Session settings after any `session.update` */
+  session: MockSessionSettings;
+  /** Responses already produced on this connection */
+  responseCount: number;
+}
+
+export interface MockSessionSettings {
+  modalities: string[];
+  instructions: string;
+  voice: string;
+  turn_detection: Record<string, unknown> | null;
+  tools: unknown[];
+  input_audio_transcription: Record<string, unknown> | null;
+  [key: string]: unknown;
+}
+
+export type MockResponder = (turn: MockTurn) => MockOutput | MockOutput[];
+
+/**
+ * Echoes the user's input back, as audio when the session has audio output
+ */
+export const echoResponder: MockResponder = ({ input, session }) => {
+  let text: string;
+  switch (input.type) {
+    case "text":
+      text = `You said: ${input.text}`;
+      break;
+    case "audio":
+      text = `You said: ${input.transcript}`;
+      break;
+    case "function_call_output":
+      text = `The tool returned ${input.output}`;
+      break;
+    default:
+      text = "Hello from the mock Realtime server.";
+  }
+
+  return session.modalities.includes("audio") ? { type: "audio", transcript: text } : { type: "text", text };
+};
+
+/**
+ * Answer with `script` entries in order, then fall back to `fallback`
+ */
+export function scriptedResponder(
+  script: Array<MockOutput | MockOutput[]>,
+  fallback: MockResponder = echoResponder
+): MockResponder {
+  const queue = [...script];
+  return (turn) => queue.shift() ?? fallback(turn);
+}
@@ -0,0 +1,387 @@
+import { createServer, IncomingMessage, ServerResponse } from "http";
+import { Duplex } from "stream";
+import { AddressInfo } from "net";
+import WebSocket, { WebSocketServer } from "ws";
+import { createRedactingLogger, LoggingDeps } from "@thrivereflections/realtime-observability";
+import { piiRedactor } from "@thrivereflections/realtime-security";
+import { MockRealtimeConnection } from "./connection";
+import { MockFault, MockFaultOf } from "./faults";
+import { echoResponder, MockResponder, MockSessionSettings } from "./responses";
+
+export interface MockRealtimeServerOptions {
+  /** Model reported when the client does not name one */
+  model?: string;
+  /** Server key clients must present. When omitted, any credential is accepted. */
+  apiKey?: string;
+  /** Lifetime of issued client secrets */
+  tokenTtlSeconds?: number;
+  /** Session settings before the token request or `session.update` change them */
+  session?: Partial<MockSessionSettings>;
+  respond?: MockResponder;
+  /** Transcript reported for committed input audio */
+  transcribe?: (durationMs: number) => string;
+  /** Pause between streamed deltas (default 20 ms) */
+  chunkIntervalMs?: number;
+  /** Audio per `response.audio.delta` (default 100 ms) */
+  audioChunkMs?: number;
+  /** Faults active from the start */
+  faults?: MockFault[];
+}
+
+export interface MockRealtimeServerAddress {
+  /** HTTP base URL, usable as `OPENAI_BASE_URL` */
+  baseUrl: string;
+  /** WebSocket URL of the realtime endpoint */
+  realtimeUrl: string;
+}
+
+export interface MockRealtimeServer {
+  /** Start listening; port 0 picks a free port */
+  listen(port?: number, host?: string): Promise<MockRealtimeServerAddress>;
+  readonly baseUrl: string;
+  readonly realtimeUrl: string;
+  /** Open WebSocket sessions */
+  readonly connectionCount: number;
+  /** Client secrets issued by `/v1/realtime/sessions` */
+  readonly tokensIssued: number;
+  injectFault(fault: MockFault): void;
+  clearFaults(): void;
+  close(): Promise<void>;
+}
+
+interface IssuedToken {
+  sessionId: string;
+  model: string;
+  settings: MockSessionSettings;
+  expiresAt: number;
+}
+
+export const DEFAULT_MOCK_MODEL = "gpt-realtime";
+const REALTIME_PATH = "/v1/realtime";
+const SESSIONS_PATH = "/v1/realtime/sessions";
+const SUBPROTOCOL_KEY_PREFIX = "openai-insecure-api-key.";
+
+const DEFAULT_SETTINGS: MockSessionSettings = {
+  modalities: ["text", "audio"],
+  instructions: "",
+  voice: "alloy",
+  input_audio_format: "pcm16",
+  output_audio_format: "pcm16",
+  input_audio_transcription: null,
+  turn_detection: { type: "server_vad", threshold: 0.5, prefix_padding_ms: 300, silence_duration_ms: 500 },
+  tools: [],
+  tool_choice: "auto",
+  temperature: 0.8,
+};
+
+const SESSION_FIELDS = Object.keys(DEFAULT_SETTINGS);
+
+/**
+ * Local stand-in for the OpenAI Realtime API: the ephemeral token endpoint and
+ * the WebSocket event protocol, with scripted responses and injectable faults.
+ * WebRTC's SDP exchange is not supported, so WebRTC clients fall back to
+ * WebSocket.
+ */
+export function createMockRealtimeServer(
+  options: MockRealtimeServerOptions = {},
+  deps: LoggingDeps = {}
+): MockRealtimeServer {
+  const logger = createRedactingLogger({ ...deps, redactor: deps.redactor ?? piiRedactor });
+  const defaultModel = options.model ?? DEFAULT_MOCK_MODEL;
+  const defaultSettings: MockSessionSettings = { ...DEFAULT_SETTINGS, ...options.session };
+  const tokens = new Map<string, IssuedToken>();
+  const connections = new Set<MockRealtimeConnection>();
+  const disconnectTimers = new Set<ReturnType<typeof setTimeout>>();
+
+  let address: MockRealtimeServerAddress | null = null;
+  let sessionCounter = 0;
+  let latencyMs = 0;
+  let errorFaults: MockFaultOf<"error">[] = [];
+  let sessionErrors: MockFaultOf<"session_error">[] = [];
+  let pendingDisconnect: MockFaultOf<"disconnect"> | null = null;
+
+  const wss = new WebSocketServer({
+    noServer: true,
+    handleProtocols: (protocols) => (protocols.has("realtime") ? "realtime" : false),
+  });
+
+  const httpServer = createServer((request, response) => {
+    handleHttp(request, response).catch((error: Error) => {
+      logger.error("Mock server request failed", { error: error.message });
+      sendJson(response, 500, { error: { type: "server_error", message: error.message } });
+    });
+  });
+  httpServer.on("upgrade", handleUpgrade);
+
+  function nextSessionId(): string {
+    return `sess_mock_${++sessionCounter}`;
+  }
+
+  /** Server key, issued token, or (without an API key) anything non-empty */
+  function authorize(
+    credential: string | undefined
+  ): { ok: true; token?: IssuedToken } | { ok: false; message: string } {
+    if (!credential) {
+      return { ok: false, message: "Missing credentials" };
+    }
+
+    const token = tokens.get(credential);
+    if (token) {
+      return token.expiresAt * 1000 < Date.now()
+        ? { ok: false, message: "Client secret expired" }
+        : { ok: true, token };
+    }
+
+    if (options.apiKey && credential !== options.apiKey) {
+      return { ok: false, message: "Invalid API key" };
+    }
+    return { ok: true };
+  }
+
+  async function handleHttp(request: IncomingMessage, response: ServerResponse): Promise<void> {
+    const path = new URL(request.url ?? "/", "http://localhost").pathname;
+
+    if (request.method === "POST" && path === SESSIONS_PATH) {
+      await createSession(request, response);
+      return;
+    }
+
+    if (request.method === "POST" && path === REALTIME_PATH) {
+      response.writeHead(501, { "Content-Type": "text/plain" });
+      response.end("SDP exchange not supported by the mock server; use the WebSocket transport");
+      return;
+    }
+
+    sendJson(response, 404, {
+      error: { type: "invalid_request_error", message: `No route for ${request.method} ${path}` },
+    });
+  }
+
+  async function createSession(request: IncomingMessage, response: ServerResponse): Promise<void> {
+    // Only the server key may mint client secrets
+    const credential = bearer(request.headers.authorization);
+    if (!credential || (options.apiKey && credential !== options.apiKey)) {
+      sendJson(response, 401, { error: { type: "invalid_request_error", message: "Invalid API key" } });
+      return;
+    }
+
+    const fault = sessionErrors.shift();
+    if (fault) {
+      sendJson(response, fault.status ?? 500, {
+        error: { type: "server_error", message: fault.message ?? "Injected session error" },
+      });
+      return;
+    }
+
+    let body: Record<string, unknown>;
+    try {
+      const raw = await readBody(request);
+      body = raw ? JSON.parse(raw) : {};
+    } catch {
+      sendJson(response, 400, { error: { type: "invalid_request_error", message: "Body is not valid JSON" } });
+      return;
+    }
+
+    const settings = { ...defaultSettings };
+    SESSION_FIELDS.forEach((field) => {
+      if (body[field] !== undefined) settings[field] = body[field];
+    });
+
+    const sessionId = nextSessionId();
+    const model = typeof body.model === "string" ? body.model : defaultModel;
+    const secret = `ek_mock_${sessionCounter}`;
+    const expiresAt = Math.floor(Date.now() / 1000) + (options.tokenTtlSeconds ?? 60);
+    tokens.set(secret, { sessionId, model, settings, expiresAt });
+
+    logger.info("Issued mock client secret", { sessionId, model, expiresAt });
+    sendJson(response, 200, {
+      id: sessionId,
+      object: "realtime.session",
+      model,
+      ...settings,
+      client_secret: { value: secret, expires_at: expiresAt },
+    });
+  }
+
+  function handleUpgrade(request: IncomingMessage, socket: Duplex, head: Buffer): void {
+    const url = new URL(request.url ?? "/", "http://localhost");
+    if (url.pathname !== REALTIME_PATH) {
+      rejectUpgrade(socket, 404, "Not Found");
+      return;
+    }
+
+    const auth = authorize(
+      bearer(request.headers.authorization) ?? subprotocolKey(request.headers["sec-websocket-protocol"])
+    );
+    if (!auth.ok) {
+      logger.warn("Rejected mock realtime connection", { reason: auth.message });
+      rejectUpgrade(socket, 401, "Unauthorized");
+      return;
+    }
+
+    wss.handleUpgrade(request, socket, head, (ws) => {
+      openConnection(ws, url.searchParams.get("model") ?? auth.token?.model ?? defaultModel, auth.token);
+    });
+  }
+
+  function openConnection(ws: WebSocket, model: string, token?: IssuedToken): void {
+    const connection = new MockRealtimeConnection(ws, {
+      id: token?.sessionId ?? nextSessionId(),
+      model,
+      settings: token?.settings ?? defaultSettings,
+      respond: options.respond ?? echoResponder,
+      transcribe: options.transcribe ?? ((durationMs) => `Mock transcript of ${durationMs} ms of audio`),
+      chunkIntervalMs: options.chunkIntervalMs ?? 20,
+      audioChunkMs: options.audioChunkMs ?? 100,
+      latencyMs: () => latencyMs,
+      takeErrorFault,
+      logger,
+    });
+
+    connections.add(connection);
+    ws.on("close", () => connections.delete(connection));
+    logger.info("Mock realtime connection opened", { sessionId: connection.id, model });
+
+    connection.start();
+
+    if (pendingDisconnect) {
+      scheduleDisconnect(connection, pendingDisconnect);
+      pendingDisconnect = null;
+    }
+  }
+
+  function takeErrorFault(clientEventType: string): MockFaultOf<"error"> | undefined {
+    const index = errorFaults.findIndex((fault) => !fault.on || fault.on === clientEventType);
+    return index === -1 ? undefined : errorFaults.splice(index, 1)[0];
+  }
+
+  function scheduleDisconnect(connection: MockRealtimeConnection, fault: MockFaultOf<"disconnect">): void {
+    const timer = setTimeout(() => {
+      disconnectTimers.delete(timer);
+      logger.info("Injected disconnect", { sessionId: connection.id, code: fault.code });
+      connections.delete(connection);
+      connection.disconnect(fault.code, fault.reason);
+    }, fault.afterMs ?? 0);
+    disconnectTimers.add(timer);
+  }
+
+  function requireAddress(): MockRealtimeServerAddress {
+    if (!address) {
+      throw new Error("Mock Realtime server is not listening");
+    }
+    return address;
+  }
+
+  const server: MockRealtimeServer = {
+    async listen(port = 0, host = "127.0.0.1") {
+      await new Promise<void>((resolve, reject) => {
+        httpServer.once("error", reject);
+        httpServer.listen(port, host, () => {
+          httpServer.off("error", reject);
+          resolve();
+        });
+      });
+
+      const { port: boundPort } = httpServer.address() as AddressInfo;
+      address = {
+        baseUrl: `http://${host}:${boundPort}`,
+        realtimeUrl: `ws://${host}:${boundPort}${REALTIME_PATH}`,
+      };
+      logger.info("Mock Realtime server listening", { ...address });
+      return address;
+    },
+
+    get baseUrl() {
+      return requireAddress().baseUrl;
+    },
+
+    get realtimeUrl() {
+      return requireAddress().realtimeUrl;
+    },
+
+    get connectionCount() {
+      return connections.size;
+    },
+
+    get tokensIssued() {
+      return tokens.size;
+    },
+
+    injectFault(fault: MockFault) {
+      switch (fault.type) {
+        case "latency":
+          latencyMs = fault.ms;
+          break;
+        case "error":
+          errorFaults.push(fault);
+          break;
+        case "session_error":
+          sessionErrors.push(fault);
+          break;
+        case "disconnect":
+          if (connections.size > 0) {
+            connections.forEach((connection) => scheduleDisconnect(connection, fault));
+          } else {
+            pendingDisconnect = fault;
+          }
+          break;
+      }
+    },
+
+    clearFaults() {
+      latencyMs = 0;
+      errorFaults = [];
+      sessionErrors = [];
+      pendingDisconnect = null;
+      disconnectTimers.forEach((timer) => clearTimeout(timer));
+      disconnectTimers.clear();
+    },
+
+    async close() {
+      server.clearFaults();
+      connections.forEach((connection) => connection.disconnect());
+      connections.clear();
+      wss.close();
+      httpServer.closeAllConnections();
+      if (httpServer.listening) {
+        await new Promise<void>((resolve) => httpServer.close(() => resolve()));
+      }
+      address = null;
+    },
+  };
+
+  options.faults?.forEach((fault) => server.injectFault(fault));
+  return server;
+}
+
+function bearer(header: string | undefined): string | undefined {
+  const match = header?.match(/^Bearer\s+(.+)$/i);
+  return match?.[1];
+}
+
+/** Browsers cannot set headers, so they send the key as a WebSocket subprotocol */
+function subprotocolKey(header: string | string[] | undefined): string | undefined {
+  const protocols = (Array.isArray(header) ? header.join(",") : header ?? "").split(",").map((p) => p.trim());
+  const entry = protocols.find((protocol) => protocol.startsWith(SUBPROTOCOL_KEY_PREFIX));
+  return entry?.slice(SUBPROTOCOL_KEY_PREFIX.length);
+}
+
+function readBody(request: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = "";
+    request.setEncoding("utf8");
+    request.on("data", (chunk: string) => (body += chunk));
+    request.on("end", () => resolve(body));
+    request.on("error", reject);
+  });
+}
+
+function sendJson(response: ServerResponse, status: number, body: unknown): void {
+  response.writeHead(status, { "Content-Type": "application/json" });
+  response.end(JSON.stringify(body));
+}
+
+function rejectUpgrade(socket: Duplex, status: number, message: string): void {
+  socket.write(`HTTP/1.1 ${status} ${message}\r\nConnection: close\r\nContent-Length: 0\r\n\r\n`);
+  socket.destroy();
+}
@@ -3,7 +3,11 @@ export { InjectableConsoleLogger } from "./injectable-logger";
 export type { InjectableLogger, LoggerConfig } from "./injectable-logger";
 
 export { ConsoleLogger } from "./logger";
-export type { LogLevel } from "./logger";
+export type { Logger, LogLevel } from "./logger";
+
+// Redaction-aware logging for runtime components
+export { RedactingLogger, createRedactingLogger, redactLogValue } from "./redacting-logger";
+export type { TextRedactor, LoggingDeps, RedactingLoggerOptions } from "./redacting-logger";
 
 // Logger factory functions
 export { createLogger, createLoggerFromEnv } from "./logger-factory";
@@ -0,0 +1,144 @@
+import { Logger, LogLevel, LogLevelEnum, SecurityEventType, SecuritySeverity } from "./logger";
+import { InjectableConsoleLogger } from "./injectable-logger";
+
+/**
+ * Anything that can strip PII from text, e.g. PIIRedactor from realtime-security
+ */
+export interface TextRedactor {
+  redact(text: string): { redactedText: string };
+}
+
+/**
+ * Logging dependencies accepted by the event router and transports
+ */
+export interface LoggingDeps {
+  logger?: Logger;
+  redactor?: TextRedactor;
+  logLevel?: LogLevel;
+}
+
+export interface RedactingLoggerOptions {
+  redactor?: TextRedactor;
+  level?: LogLevel;
+}
+
+const MAX_REDACTION_DEPTH = 6;
+const MAX_LOGGED_STRING_LENGTH = 2048;
+
+/**
+ * Redact every string inside a log payload. Oversized strings (audio chunks)
+ * are replaced by their length rather than logged.
+ */
+export function redactLogValue(value: unknown, redactor?: TextRedactor, depth: number = 0): unknown {
+  if (typeof value === "string") {
+    if (value.length > MAX_LOGGED_STRING_LENGTH) {
+      return `[${value.length} chars omitted]`;
+    }
+    return redactor ? redactor.redact(value).redactedText : value;
+  }
+
+  if (value === null || typeof value !== "object") {
+    return value;
+  }
+
+  if (depth >= MAX_REDACTION_DEPTH) {
+    return "[truncated]";
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item) => redactLogValue(item, redactor, depth + 1));
+  }
+
+  if (ArrayBuffer.isView(value)) {
+    return `[${value.byteLength} bytes omitted]`;
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    result[key] = redactLogValue(item, redactor, depth + 1);
+  }
+  return result;
+}
+
+/**
+ * Logger wrapper that applies its own level threshold and redacts
+ * messages and metadata before they reach the underlying logger.
+ */
+export class RedactingLogger implements Logger {
+  private inner: Logger;
+  private redactor?: TextRedactor;
+  private logLevel: LogLevelEnum;
+
+  constructor(inner: Logger, options: RedactingLoggerOptions = {}) {
+    this.inner = inner;
+    this.redactor = options.redactor;
+    this.logLevel = LogLevelEnum[(options.level ?? "debug").toUpperCase() as keyof typeof LogLevelEnum];
+  }
+
+  setLogLevel(level: LogLevel): void {
+    this.logLevel = LogLevelEnum[level.toUpperCase() as keyof typeof LogLevelEnum];
+  }
+
+  isLevelEnabled(level: LogLevel): boolean {
+    return (
+      LogLevelEnum[level.toUpperCase() as keyof typeof LogLevelEnum] >= this.logLevel &&
+      this.inner.isLevelEnabled(level)
+    );
+  }
+
+  private redactMeta(meta?: Record<string, unknown>): Record<string, unknown> | undefined {
+    return meta ? (redactLogValue(meta, this.redactor) as Record<string, unknown>) : undefined;
+  }
+
+  private redactMessage(message: string): string {
+    return this.redactor ? this.redactor.redact(message).redactedText : message;
+  }
+
+  debug(message: string, meta?: Record<string, unknown>): void {
+    if (this.isLevelEnabled("debug")) {
+      this.inner.debug(this.redactMessage(message), this.redactMeta(meta));
+    }
+  }
+
+  info(message: string, meta?: Record<string, unknown>): void {
+    if (this.isLevelEnabled("info")) {
+      this.inner.info(this.redactMessage(message), this.redactMeta(meta));
+    }
+  }
+
+  warn(message: string, meta?: Record<string, unknown>): void {
+    if (this.isLevelEnabled("warn")) {
+      this.inner.warn(this.redactMessage(message), this.redactMeta(meta));
+    }
+  }
+
+  error(message: string, meta?: Record<string, unknown>): void {
+    if (this.isLevelEnabled("error")) {
+      this.inner.error(this.redactMessage(message), this.redactMeta(meta));
+    }
+  }
+
+  logError(error: Error, context?: Record<string, unknown>, category?: string): void {
+    if (this.isLevelEnabled("error")) {
+      this.inner.logError(error, this.redactMeta(context), category);
+    }
+  }
+
+  logSecurityEvent(
+    eventType: SecurityEventType,
+    severity: SecuritySeverity,
+    message: string,
+    details?: Record<string, unknown>
+  ): void {
+    this.inner.logSecurityEvent(eventType, severity, this.redactMessage(message), this.redactMeta(details));
+  }
+}
+
+/**
+ * Build the logger used by runtime components from their LoggingDeps.
+ * Without an injected logger only warnings and errors reach the console.
+ */
+export function createRedactingLogger(deps: LoggingDeps = {}): RedactingLogger {
+  const inner = deps.logger ?? new InjectableConsoleLogger(undefined, { level: "warn" });
+  return new RedactingLogger(inner, { redactor: deps.redactor, level: deps.logLevel });
+}
@@ -0,0 +1,218 @@
+import { mkdtemp, readFile, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { Consent, PersistenceStore, SessionRecording } from "@thrivereflections/realtime-contracts";
+import { AudioRecorder } from "../audio-recorder";
+import { createMemoryRecordingStorage } from "../memory-storage";
+import { createFileRecordingStorage } from "../node";
+import { RecordingUploader } from "../recording-uploader";
+import { encodeWav, readWavInfo } from "../wav";
+
+/** 24 kHz: one sample per 1/24 ms, so 10 ms is 240 samples */
+function tone(samples: number, value: number): Int16Array {
+  return new Int16Array(samples).fill(value);
+}
+
+function samplesOf(wav: Uint8Array, channels: number, channel: number): number[] {
+  const view = new DataView(wav.buffer, wav.byteOffset + 44);
+  const frames = (wav.length - 44) / (channels * 2);
+  return Array.from({ length: frames }, (_, frame) => view.getInt16((frame * channels + channel) * 2, true));
+}
+
+function createClock() {
+  let time = 1000;
+  return {
+    now: () => time,
+    advance: (ms: number) => {
+      time += ms;
+    },
+  };
+}
+
+function createStore(consent: Consent | null) {
+  const recordings: SessionRecording[] = [];
+  const store: PersistenceStore = {
+    saveSessionMeta: async () => undefined,
+    appendTranscript: async () => undefined,
+    appendToolEvent: async () => undefined,
+    persistSummary: async () => undefined,
+    getSessionConsent: async () => consent,
+    saveRecording: async (recording) => {
+      const saved = { ...recording, id: `rec_${recordings.length + 1}`, createdAt: 0 };
+      recordings.push(saved);
+      return saved;
+    },
+  };
+  return { store, recordings };
+}
+
+describe("WAV encoding", () => {
+  it("writes PCM16 with interleaved channels and reads the format back", () => {
+    const wav = encodeWav([Int16Array.from([1, 2, 3]), Int16Array.from([-1, -2, -3])], 24000);
+
+    expect(wav.length).toBe(44 + 12);
+    expect(readWavInfo(wav)).toEqual({
+      sampleRate: 24000,
+      channels: 2,
+      bitsPerSample: 16,
+      dataBytes: 12,
+      durationMs: 0,
+    });
+    expect(samplesOf(wav, 2, 0)).toEqual([1, 2, 3]);
+    expect(samplesOf(wav, 2, 1)).toEqual([-1, -2, -3]);
+    expect(readWavInfo(new TextEncoder().encode("not a wav file, just some text"))).toBeNull();
+    expect(() => encodeWav([new Int16Array(2), new Int16Array(3)], 24000)).toThrow("same length");
+  });
+});
+
+describe("AudioRecorder", () => {
+  it("aligns both sides on one timeline, queueing model audio that arrives in a burst", () => {
+    const clock = createClock();
+    const recorder = new AudioRecorder({ logLevel: "error" }, { now: clock.now });
+
+    recorder.append("user", tone(240, 100));
+    clock.advance(10);
+    recorder.append("user", tone(240, 100));
+    clock.advance(490);
+    // Three 10 ms chunks arriving at once play back to back
+    recorder.append("assistant", tone(240, 7));
+    recorder.append("assistant", tone(240, 8));
+    recorder.append("assistant", tone(240, 9));
+
+    expect(recorder.durationMs).toBe(530);
+    const [file] = recorder.finish();
+
+    expect(file).toMatchObject({ track: "stereo", channels: 2, sampleRate: 24000, durationMs: 530 });
+    const user = samplesOf(file.data, 2, 0);
+    const assistant = samplesOf(file.data, 2, 1);
+    expect(user.slice(0, 480).every((sample) => sample === 100)).toBe(true);
+    expect(user.slice(480).every((sample) => sample === 0)).toBe(true);
+    expect(assistant.slice(0, 12000).every((sample) => sample === 0)).toBe(true);
+    expect([assistant[12000], assistant[12240], assistant[12480], assistant[12719]]).toEqual([7, 8, 9, 9]);
+    expect(recorder.hasAudio).toBe(false);
+  });
+
+  it("drops model audio that was not yet played when the user barges in", () => {
+    const clock = createClock();
+    const recorder = new AudioRecorder({ logLevel: "error" }, { now: clock.now, layout: "separate" });
+
+    recorder.append("assistant", tone(2400, 5)); // 100 ms received at once
+    clock.advance(40);
+    recorder.interrupt();
+    clock.advance(460);
+    recorder.append("assistant", tone(240, 6));
+
+    const files = recorder.finish();
+    expect(files.map((file) => file.track)).toEqual(["assistant"]);
+    const samples = samplesOf(files[0].data, 1, 0);
+    expect(samples).toHaveLength(12240);
+    expect(samples.slice(0, 960).every((sample) => sample === 5)).toBe(true);
+    expect(samples.slice(960, 12000).every((sample) => sample === 0)).toBe(true);
+    expect(samples[12000]).toBe(6);
+  });
+
+  it("stops at the maximum duration and records nothing without audio", () => {
+    const clock = createClock();
+    const recorder = new AudioRecorder({ logLevel: "error" }, { now: clock.now, maxDurationMs: 50 });
+
+    expect(recorder.finish()).toEqual([]);
+
+    recorder.append("user", tone(960, 1));
+    clock.advance(40);
+    recorder.append("user", tone(960, 1));
+
+    expect(recorder.durationMs).toBe(50);
+  });
+});
+
+describe("RecordingUploader", () => {
+  const wav = (channels: number) =>
+    encodeWav(
+      Array.from({ length: channels }, () => tone(24000, 1)),
+      24000
+    );
+
+  it("stores each file and links it to a consented session", async () => {
+    const { store, recordings } = createStore("ACCEPTED");
+    const storage = createMemoryRecordingStorage();
+    const uploader = new RecordingUploader({ store, storage, logLevel: "error" });
+
+    const outcome = await uploader.upload("sess_1", [
+      { track: "user", data: wav(1) },
+      { track: "assistant", data: wav(1) },
+    ]);
+
+    expect(storage.keys()).toEqual(["sess_1/user.wav", "sess_1/assistant.wav"]);
+    expect(outcome).toEqual({ status: "uploaded", recordings });
+    expect(recordings[0]).toEqual({
+      id: "rec_1",
+      sessionId: "sess_1",
+      track: "user",
+      storageKey: "sess_1/user.wav",
+      contentType: "audio/wav",
+      sampleRate: 24000,
+      channels: 1,
+      durationMs: 1000,
+      bytes: 48044,
+      createdAt: 0,
+    });
+  });
+
+  it("stores nothing for unconsented, unknown or unsupported sessions", async () => {
+    const storage = createMemoryRecordingStorage();
+    const files = [{ track: "stereo" as const, data: wav(2) }];
+
+    const declined = new RecordingUploader({ ...createStore("DECLINED"), storage, logLevel: "error" });
+    await expect(declined.upload("sess_1", files)).resolves.toEqual({ status: "skipped", reason: "no_consent" });
+
+    const unknown = new RecordingUploader({ ...createStore(null), storage, logLevel: "error" });
+    await expect(unknown.upload("sess_2", files)).resolves.toEqual({ status: "skipped", reason: "not_found" });
+
+    const { getSessionConsent: _unused, ...writeOnly } = createStore("ACCEPTED").store;
+    const unsupported = new RecordingUploader({ store: writeOnly, storage, logLevel: "error" });
+    await expect(unsupported.upload("sess_1", files)).resolves.toEqual({
+      status: "skipped",
+      reason: "unsupported_store",
+    });
+
+    expect(storage.keys()).toEqual([]);
+  });
+
+  it("rejects files that are not the expected WAV or are too large", async () => {
+    const { store, recordings } = createStore("ACCEPTED");
+    const uploader = new RecordingUploader(
+      { store, storage: createMemoryRecordingStorage(), logLevel: "error" },
+      { maxBytes: 60000 }
+    );
+
+    await expect(uploader.upload("sess_1", [{ track: "stereo", data: wav(1) }])).resolves.toEqual({
+      status: "rejected",
+      error: "Recording stereo has 1 channels",
+    });
+    await expect(uploader.upload("sess_1", [{ track: "user", data: new Uint8Array(100) }])).resolves.toEqual({
+      status: "rejected",
+      error: "Recording user is not a PCM16 WAV file",
+    });
+    await expect(uploader.upload("sess_1", [{ track: "stereo", data: wav(2) }])).resolves.toEqual({
+      status: "rejected",
+      error: "Recording stereo exceeds 60000 bytes",
+    });
+    expect(recordings).toEqual([]);
+  });
+});
+
+describe("createFileRecordingStorage", () => {
+  it("writes recordings under its directory and refuses keys outside it", async () => {
+    const directory = await mkdtemp(join(tmpdir(), "recordings-"));
+    try {
+      const storage = createFileRecordingStorage(directory);
+      const data = encodeWav([tone(10, 3)], 24000);
+
+      await expect(storage.put("sess_1/user.wav", data, "audio/wav")).resolves.toEqual({ key: "sess_1/user.wav" });
+      expect(new Uint8Array(await readFile(join(directory, "sess_1/user.wav")))).toEqual(data);
+      await expect(storage.put("../escape.wav", data, "audio/wav")).rejects.toThrow("Invalid recording key");
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,186 @@
+/**
+ * Audio Recorder
+ *
+ * Collects the microphone and model audio a transport reports through
+ * `onAudio` and encodes the call as WAV (PCM16, 24 kHz). Both sides share one
+ * timeline that starts with the first chunk: microphone audio arrives in real
+ * time, while model audio arrives faster than it plays, so each chunk is
+ * placed at its arrival time or straight after the previous chunk of the same
+ * side, whichever is later. Short gaps are closed so jitter does not insert
+ * clicks; longer ones are kept as silence.
+ */
+
+import { AudioSource, RecordingFile } from "@thrivereflections/realtime-contracts";
+import { createRedactingLogger, Logger, LoggingDeps } from "@thrivereflections/realtime-observability";
+import { piiRedactor } from "@thrivereflections/realtime-security";
+import { encodeWav, WAV_CONTENT_TYPE } from "./wav";
+
+/** "stereo": one file, user left and assistant right; "separate": one mono file per side */
+export type RecordingLayout = "stereo" | "separate";
+
+export interface AudioRecorderOptions {
+  /** Default "stereo" */
+  layout?: RecordingLayout;
+  /** Rate of the PCM handed to `append` (default 24000) */
+  sampleRate?: number;
+  /** Audio past this point is dropped (default 15 minutes) */
+  maxDurationMs?: number;
+  /** Gaps up to this long between chunks of one side are closed (default 200) */
+  gapToleranceMs?: number;
+  now?: () => number;
+}
+
+export const DEFAULT_AUDIO_RECORDER_OPTIONS = {
+  layout: "stereo" as RecordingLayout,
+  sampleRate: 24000,
+  maxDurationMs: 15 * 60 * 1000,
+  gapToleranceMs: 200,
+};
+
+interface PlacedChunk {
+  /** Start, in samples from the beginning of the recording */
+  offset: number;
+  pcm: Int16Array;
+}
+
+interface SourceTrack {
+  chunks: PlacedChunk[];
+  /** End of the last chunk, in samples */
+  end: number;
+}
+
+export class AudioRecorder {
+  private options: Required<Omit<AudioRecorderOptions, "now">>;
+  private now: () => number;
+  private logger: Logger;
+  private tracks: Record<AudioSource, SourceTrack> = emptyTracks();
+  private startedAt: number | null = null;
+  private truncated = false;
+
+  constructor(deps: LoggingDeps = {}, options: AudioRecorderOptions = {}) {
+    const { now, ...rest } = options;
+    this.options = { ...DEFAULT_AUDIO_RECORDER_OPTIONS, ...rest };
+    this.now = now ?? Date.now;
+    this.logger = createRedactingLogger({ ...deps, redactor: deps.redactor ?? piiRedactor });
+  }
+
+  /** Add a chunk of PCM16; usable directly as `onAudio` */
+  append = (source: AudioSource, pcm: Int16Array): void => {
+    if (pcm.length === 0) {
+      return;
+    }
+
+    const now = this.now();
+    this.startedAt ??= now;
+
+    const track = this.tracks[source];
+    const arrival = this.toSamples(now - this.startedAt);
+    const offset = arrival - track.end > this.toSamples(this.options.gapToleranceMs) ? arrival : track.end;
+
+    const limit = this.toSamples(this.options.maxDurationMs);
+    const kept = pcm.subarray(0, Math.max(0, limit - offset));
+    if (kept.length < pcm.length && !this.truncated) {
+      this.truncated = true;
+      this.logger.warn("Recording reached its maximum duration, dropping further audio", {
+        maxDurationMs: this.options.maxDurationMs,
+      });
+    }
+    if (kept.length === 0) {
+      return;
+    }
+
+    // Copy, as transports may reuse their frame buffers
+    track.chunks.push({ offset, pcm: kept.slice() });
+    track.end = offset + kept.length;
+  };
+
+  /**
+   * Drop audio of `source` placed after the current moment, e.g. model audio
+   * that was received but never played because the user barged in.
+   */
+  interrupt(source: AudioSource = "assistant"): void {
+    if (this.startedAt === null) {
+      return;
+    }
+
+    const cut = this.toSamples(this.now() - this.startedAt);
+    const track = this.tracks[source];
+    if (track.end <= cut) {
+      return;
+    }
+
+    track.chunks = track.chunks
+      .filter((chunk) => chunk.offset < cut)
+      .map((chunk) =>
+        chunk.offset + chunk.pcm.length > cut
+          ? { offset: chunk.offset, pcm: chunk.pcm.subarray(0, cut - chunk.offset) }
+          : chunk
+      );
+    track.end = cut;
+  }
+
+  /** Length of the recording so far */
+  get durationMs(): number {
+    return Math.round((Math.max(this.tracks.user.end, this.tracks.assistant.end) / this.options.sampleRate) * 1000);
+  }
+
+  get hasAudio(): boolean {
+    return this.tracks.user.end > 0 || this.tracks.assistant.end > 0;
+  }
+
+  /**
+   * Encode what was recorded and start over. Separate files share the
+   * recording's full length so they stay aligned; a side with no audio at
+   * all is left out. Returns no files when nothing was recorded.
+   */
+  finish(): RecordingFile[] {
+    const frames = Math.max(this.tracks.user.end, this.tracks.assistant.end);
+    const { sampleRate, layout } = this.options;
+    const user = render(this.tracks.user, frames);
+    const assistant = render(this.tracks.assistant, frames);
+    const hasUser = this.tracks.user.end > 0;
+    const hasAssistant = this.tracks.assistant.end > 0;
+    this.reset();
+
+    if (frames === 0) {
+      return [];
+    }
+
+    const durationMs = Math.round((frames / sampleRate) * 1000);
+    const file = (track: RecordingFile["track"], channels: Int16Array[]): RecordingFile => ({
+      track,
+      contentType: WAV_CONTENT_TYPE,
+      data: encodeWav(channels, sampleRate),
+      sampleRate,
+      channels: channels.length,
+      durationMs,
+    });
+
+    if (layout === "stereo") {
+      return [file("stereo", [user, assistant])];
+    }
+    return [...(hasUser ? [file("user", [user])] : []), ...(hasAssistant ? [file("assistant", [assistant])] : [])];
+  }
+
+  /** Discard everything recorded */
+  reset(): void {
+    this.tracks = emptyTracks();
+    this.startedAt = null;
+    this.truncated = false;
+  }
+
+  private toSamples(ms: number): number {
+    return Math.round((ms * this.options.sampleRate) / 1000);
+  }
+}
+
+function emptyTracks(): Record<AudioSource, SourceTrack> {
+  return { user: { chunks: [], end: 0 }, assistant: { chunks: [], end: 0 } };
+}
+
+/** The track's chunks on a silent timeline `frames` samples long */
+function render(track: SourceTrack, frames: number): Int16Array {
+  const samples = new Int16Array(frames);
+  track.chunks.forEach((chunk) => samples.set(chunk.pcm, chunk.offset));
+  return samples;
+}
@@ -0,0 +1,21 @@
+// Recording on the client
+export { AudioRecorder, DEFAULT_AUDIO_RECORDER_OPTIONS } from "./audio-recorder";
+export type { AudioRecorderOptions, RecordingLayout } from "./audio-recorder";
+
+// Uploading on the server
+export { RecordingUploader, isRecordingTrack } from "./recording-uploader";
+export type {
+  RecordingUploaderDeps,
+  RecordingUploaderOptions,
+  RecordingUpload,
+  RecordingUploadOutcome,
+  RecordingSkipReason,
+} from "./recording-uploader";
+
+// Storage
+export { createMemoryRecordingStorage } from "./memory-storage";
+export type { MemoryRecordingStorage } from "./memory-storage";
+
+// WAV
+export { encodeWav, readWavInfo, WAV_CONTENT_TYPE } from "./wav";
+export type { WavInfo } from "./wav";
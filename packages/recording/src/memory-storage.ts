@@ -0,0 +1,36 @@
+/**
+ * In-memory Recording Storage
+ *
+ * Keeps recordings in a map, for tests and local development. Contents are
+ * lost when the process exits.
+ */
+
+import { RecordingStorage, StoredRecordingObject } from "@thrivereflections/realtime-contracts";
+
+export interface MemoryRecordingStorage extends RecordingStorage {
+  get(key: string): { data: Uint8Array; contentType: string } | undefined;
+  keys(): string[];
+}
+
+export function createMemoryRecordingStorage(): MemoryRecordingStorage {
+  const objects = new Map<string, { data: Uint8Array; contentType: string }>();
+
+  return {
+    async put(key: string, data: Uint8Array, contentType: string): Promise<StoredRecordingObject> {
+      objects.set(key, { data: data.slice(), contentType });
+      return { key };
+    },
+
+    async delete(key: string): Promise<void> {
+      objects.delete(key);
+    },
+
+    get(key: string) {
+      return objects.get(key);
+    },
+
+    keys() {
+      return Array.from(objects.keys());
+    },
+  };
+}
@@ -0,0 +1,37 @@
+/**
+ * File Recording Storage (Node)
+ *
+ * Writes recordings under a local directory, one file per key. Kept out of
+ * the main entry point so browser bundles do not pull in `fs`.
+ */
+
+import { mkdir, rm, writeFile } from "fs/promises";
+import { dirname, isAbsolute, relative, resolve } from "path";
+import { RecordingStorage, StoredRecordingObject } from "@thrivereflections/realtime-contracts";
+
+export function createFileRecordingStorage(directory: string): RecordingStorage {
+  const root = resolve(directory);
+
+  // Keys come from session ids; refuse anything that would land outside the directory
+  function pathFor(key: string): string {
+    const path = resolve(root, key);
+    const inside = relative(root, path);
+    if (!inside || inside.startsWith("..") || isAbsolute(inside)) {
+      throw new Error(`Invalid recording key: ${key}`);
+    }
+    return path;
+  }
+
+  return {
+    async put(key: string, data: Uint8Array): Promise<StoredRecordingObject> {
+      const path = pathFor(key);
+      await mkdir(dirname(path), { recursive: true });
+      await writeFile(path, data);
+      return { key };
+    },
+
+    async delete(key: string): Promise<void> {
+      await rm(pathFor(key), { force: true });
+    },
+  };
+}
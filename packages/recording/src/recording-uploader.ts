@@ -0,0 +1,148 @@
+/**
+ * Recording Uploader
+ *
+ * Server side of session recording: checks that the session's consent is
+ * "ACCEPTED", writes each WAV file to a `RecordingStorage` and links it to
+ * the session with `PersistenceStore.saveRecording`. Nothing is stored for
+ * unknown or unconsented sessions. Formats are read from the files
+ * themselves, so uploads only need to name their track.
+ */
+
+import {
+  PersistenceStore,
+  RecordingStorage,
+  RecordingTrack,
+  SessionRecording,
+} from "@thrivereflections/realtime-contracts";
+import { createRedactingLogger, Logger, LoggingDeps } from "@thrivereflections/realtime-observability";
+import { piiRedactor } from "@thrivereflections/realtime-security";
+import { readWavInfo, WAV_CONTENT_TYPE } from "./wav";
+
+export interface RecordingUploaderDeps extends LoggingDeps {
+  store: PersistenceStore;
+  storage: RecordingStorage;
+}
+
+export interface RecordingUploaderOptions {
+  /** Larger files are rejected (default 100 MB) */
+  maxBytes?: number;
+}
+
+export interface RecordingUpload {
+  track: RecordingTrack;
+  data: Uint8Array;
+}
+
+export type RecordingSkipReason = "unsupported_store" | "not_found" | "no_consent";
+
+export type RecordingUploadOutcome =
+  | { status: "uploaded"; recordings: SessionRecording[] }
+  | { status: "skipped"; reason: RecordingSkipReason }
+  | { status: "rejected"; error: string }
+  | { status: "failed"; error: string };
+
+const TRACKS: RecordingTrack[] = ["user", "assistant", "stereo"];
+
+export function isRecordingTrack(value: unknown): value is RecordingTrack {
+  return TRACKS.includes(value as RecordingTrack);
+}
+
+export class RecordingUploader {
+  private deps: RecordingUploaderDeps;
+  private options: RecordingUploaderOptions;
+  private logger: Logger;
+
+  constructor(deps: RecordingUploaderDeps, options: RecordingUploaderOptions = {}) {
+    this.deps = deps;
+    this.options = options;
+    this.logger = createRedactingLogger({ ...deps, redactor: deps.redactor ?? piiRedactor });
+  }
+
+  async upload(sessionId: string, files: RecordingUpload[]): Promise<RecordingUploadOutcome> {
+    const { store, storage } = this.deps;
+    if (!store.getSessionConsent || !store.saveRecording) {
+      return this.skip(sessionId, "unsupported_store");
+    }
+
+    const error = this.validate(files);
+    if (error) {
+      this.logger.warn("Recording upload rejected", { sessionId, error });
+      return { status: "rejected", error };
+    }
+
+    try {
+      const consent = await store.getSessionConsent(sessionId);
+      if (consent === null) {
+        return this.skip(sessionId, "not_found");
+      }
+      if (consent !== "ACCEPTED") {
+        return this.skip(sessionId, "no_consent");
+      }
+
+      const recordings: SessionRecording[] = [];
+      for (const file of files) {
+        const info = readWavInfo(file.data)!;
+        const stored = await storage.put(`${sessionId}/${file.track}.wav`, file.data, WAV_CONTENT_TYPE);
+        recordings.push(
+          await store.saveRecording({
+            sessionId,
+            track: file.track,
+            storageKey: stored.key,
+            ...(stored.url ? { url: stored.url } : {}),
+            contentType: WAV_CONTENT_TYPE,
+            sampleRate: info.sampleRate,
+            channels: info.channels,
+            durationMs: info.durationMs,
+            bytes: file.data.length,
+          })
+        );
+      }
+
+      this.logger.info("Session recording uploaded", {
+        sessionId,
+        tracks: files.map((file) => file.track),
+        durationMs: Math.max(0, ...recordings.map((recording) => recording.durationMs)),
+      });
+      return { status: "uploaded", recordings };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      this.logger.warn("Session recording upload failed", { sessionId, error: message });
+      return { status: "failed", error: message };
+    }
+  }
+
+  private validate(files: RecordingUpload[]): string | null {
+    if (files.length === 0) {
+      return "No recording files";
+    }
+
+    const maxBytes = this.options.maxBytes ?? 100 * 1024 * 1024;
+    const seen = new Set<RecordingTrack>();
+    for (const file of files) {
+      if (!isRecordingTrack(file.track)) {
+        return `Unknown recording track: ${String(file.track)}`;
+      }
+      if (seen.has(file.track)) {
+        return `Duplicate recording track: ${file.track}`;
+      }
+      seen.add(file.track);
+
+      if (file.data.length > maxBytes) {
+        return `Recording ${file.track} exceeds ${maxBytes} bytes`;
+      }
+      const info = readWavInfo(file.data);
+      if (!info || info.bitsPerSample !== 16) {
+        return `Recording ${file.track} is not a PCM16 WAV file`;
+      }
+      if (info.channels !== (file.track === "stereo" ? 2 : 1)) {
+        return `Recording ${file.track} has ${info.channels} channels`;
+      }
+    }
+    return null;
+  }
+
+  private skip(sessionId: string, reason: RecordingSkipReason): RecordingUploadOutcome {
+    this.logger.debug("Session recording skipped", { sessionId, reason });
+    return { status: "skipped", reason };
+  }
+}
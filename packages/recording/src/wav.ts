@@ -0,0 +1,126 @@
+/**
+ * WAV Encoding
+ *
+ * Recordings are stored as uncompressed PCM16 WAV: a 44-byte RIFF header
+ * followed by little-endian samples, interleaved when there is more than one
+ * channel.
+ */
+
+export const WAV_CONTENT_TYPE = "audio/wav";
+
+const HEADER_BYTES = 44;
+
+export interface WavInfo {
+  sampleRate: number;
+  channels: number;
+  bitsPerSample: number;
+  /** Bytes of sample data after the header */
+  dataBytes: number;
+  durationMs: number;
+}
+
+/**
+ * Encode equal-length PCM16 channels as a WAV file. Channels are interleaved
+ * in the order given, so `[left, right]` for stereo.
+ */
+export function encodeWav(channels: Int16Array[], sampleRate: number): Uint8Array {
+  if (channels.length === 0) {
+    throw new Error("WAV needs at least one channel");
+  }
+  const frames = channels[0].length;
+  if (channels.some((channel) => channel.length !== frames)) {
+    throw new Error("WAV channels must have the same length");
+  }
+
+  const dataBytes = frames * channels.length * 2;
+  const bytes = new Uint8Array(HEADER_BYTES + dataBytes);
+  const view = new DataView(bytes.buffer);
+
+  writeAscii(view, 0, "RIFF");
+  view.setUint32(4, 36 + dataBytes, true);
+  writeAscii(view, 8, "WAVE");
+  writeAscii(view, 12, "fmt ");
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, channels.length, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * channels.length * 2, true);
+  view.setUint16(32, channels.length * 2, true);
+  view.setUint16(34, 16, true);
+  writeAscii(view, 36, "data");
+  view.setUint32(40, dataBytes, true);
+
+  let offset = HEADER_BYTES;
+  for (let frame = 0; frame < frames; frame++) {
+    for (const channel of channels) {
+      view.setInt16(offset, channel[frame], true);
+      offset += 2;
+    }
+  }
+
+  return bytes;
+}
+
+/**
+ * Read the format of a PCM WAV file, or null when `data` is not one. Chunks
+ * other than "fmt " and "data" are skipped.
+ */
+export function readWavInfo(data: Uint8Array): WavInfo | null {
+  if (data.length < HEADER_BYTES) {
+    return null;
+  }
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  if (readAscii(view, 0) !== "RIFF" || readAscii(view, 8) !== "WAVE") {
+    return null;
+  }
+
+  let format: Omit<WavInfo, "dataBytes" | "durationMs"> | null = null;
+  let offset = 12;
+  while (offset + 8 <= data.length) {
+    const id = readAscii(view, offset);
+    const size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+
+    if (id === "fmt " && size >= 16 && body + 16 <= data.length) {
+      if (view.getUint16(body, true) !== 1) {
+        return null; // Compressed formats are not recordings we wrote
+      }
+      format = {
+        channels: view.getUint16(body + 2, true),
+        sampleRate: view.getUint32(body + 4, true),
+        bitsPerSample: view.getUint16(body + 14, true),
+      };
+    } else if (id === "data") {
+      if (!format || format.channels === 0 || format.sampleRate === 0) {
+        return null;
+      }
+      const dataBytes = Math.min(size, data.length - body);
+      const frameBytes = format.channels * (format.bitsPerSample / 8);
+      return {
+        ...format,
+        dataBytes,
+        durationMs: Math.round((dataBytes / frameBytes / format.sampleRate) * 1000),
+      };
+    }
+
+    // Chunks are padded to an even length
+    offset = body + size + (size % 2);
+  }
+
+  return null;
+}
+
+function writeAscii(view: DataView, offset: number, text: string) {
+  for (let i = 0; i < text.length; i++) {
+    view.setUint8(offset + i, text.charCodeAt(i));
+  }
+}
+
+function readAscii(view: DataView, offset: number): string {
+  return String.fromCharCode(
+    view.getUint8(offset),
+    view.getUint8(offset + 1),
+    view.getUint8(offset + 2),
+    view.getUint8(offset + 3)
+  );
+}
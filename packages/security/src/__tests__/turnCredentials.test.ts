@@ -0,0 +1,60 @@
+import { createTurnCredentials, DEFAULT_TURN_CREDENTIAL_TTL_SECONDS } from "../turnCredentials";
+
+// 2025-01-01T12:00:00Z
+const NOW = 1735732800000;
+const URLS = ["turn:turn.example.com:3478?transport=udp", "turns:turn.example.com:5349"];
+
+describe("createTurnCredentials", () => {
+  // Expected credentials computed with `openssl dgst -sha1 -hmac <secret> -binary | base64`
+  it("signs '<expiry>:<user id>' with HMAC-SHA1 of the shared secret", async () => {
+    const credentials = await createTurnCredentials({
+      sharedSecret: "north-turn-secret",
+      urls: URLS,
+      ttlSeconds: 600,
+      userId: "user_42",
+      now: NOW,
+    });
+
+    expect(credentials).toEqual({
+      urls: URLS,
+      username: "1735733400:user_42",
+      credential: "ZHAfmRMDNo3LvROy8d8FK1tQfC8=",
+      expiresAt: 1735733400000,
+    });
+  });
+
+  it("defaults to an anonymous user and the default lifetime", async () => {
+    const credentials = await createTurnCredentials({ sharedSecret: "north-turn-secret", urls: URLS, now: NOW + 999 });
+
+    expect(credentials.username).toBe(`${NOW / 1000 + DEFAULT_TURN_CREDENTIAL_TTL_SECONDS}:anonymous`);
+    expect(credentials.expiresAt).toBe(NOW + DEFAULT_TURN_CREDENTIAL_TTL_SECONDS * 1000);
+  });
+
+  it("keeps the user id from adding another ':' to the username", async () => {
+    const credentials = await createTurnCredentials({
+      sharedSecret: "north-turn-secret",
+      urls: URLS,
+      ttlSeconds: 60,
+      userId: "tenant:user",
+      now: NOW,
+    });
+
+    expect(credentials.username).toBe("1735732860:tenant_user");
+  });
+
+  it("signs with the secret it is given", async () => {
+    const options = { urls: URLS, ttlSeconds: 60, now: NOW };
+    const anonymous = await createTurnCredentials({ ...options, sharedSecret: "north-turn-secret" });
+    const other = await createTurnCredentials({ ...options, sharedSecret: "south-turn-secret" });
+
+    expect(anonymous.credential).toBe("CD4gS9eLzgPFtVf84Daogo5kjFM=");
+    expect(other.username).toBe(anonymous.username);
+    expect(other.credential).not.toBe(anonymous.credential);
+  });
+
+  it("requires a shared secret", async () => {
+    await expect(createTurnCredentials({ sharedSecret: "", urls: URLS })).rejects.toThrow(
+      "TURN shared secret is required"
+    );
+  });
+});
@@ -25,3 +25,7 @@ export type { PIIPattern, RedactionResult, RedactionLevel } from "./piiRedaction
 // Rate limiting
 export { RateLimiter, rateLimiter, getClientIP, getUserId, checkRateLimit, RATE_LIMITS } from "./rateLimiter";
 export type { RateLimitConfig, RateLimitEntry } from "./rateLimiter";
+
+// TURN credentials
+export { createTurnCredentials, DEFAULT_TURN_CREDENTIAL_TTL_SECONDS } from "./turnCredentials";
+export type { TurnCredentialOptions, TurnCredentials } from "./turnCredentials";
@@ -18,6 +18,9 @@ export class RateLimiter {
     this.cleanupInterval = setInterval(() => {
       this.cleanupExpiredEntries();
     }, 5 * 60 * 1000);
+
+    // Don't keep Node processes alive just for cleanup (no-op in browsers)
+    this.cleanupInterval.unref?.();
   }
 
   isAllowed(key: string, config: RateLimitConfig): boolean {
@@ -0,0 +1,70 @@
+/**
+ * Time-limited TURN credentials (the "TURN REST API" scheme supported by
+ * coturn's `use-auth-secret` and most managed TURN services).
+ *
+ * username   = "<expiry unix seconds>:<user id>"
+ * credential = base64(HMAC-SHA1(shared secret, username))
+ *
+ * The TURN server recomputes the HMAC with the same secret and rejects the
+ * credential once the expiry has passed, so nothing needs to be stored.
+ * Uses Web Crypto, so it runs in Node 18+, edge runtimes and browsers.
+ */
+
+export interface TurnCredentialOptions {
+  sharedSecret: string;
+  urls: string[];
+  /** Lifetime of the credential (default 10 minutes) */
+  ttlSeconds?: number;
+  /** Opaque identifier embedded in the username, e.g. the app user id */
+  userId?: string;
+  /** Current time in milliseconds, for tests */
+  now?: number;
+}
+
+export interface TurnCredentials {
+  urls: string[];
+  username: string;
+  credential: string;
+  /** Expiry as a millisecond timestamp */
+  expiresAt: number;
+}
+
+export const DEFAULT_TURN_CREDENTIAL_TTL_SECONDS = 600;
+
+function toBase64(bytes: ArrayBuffer): string {
+  let binary = "";
+  const view = new Uint8Array(bytes);
+  for (let i = 0; i < view.length; i++) {
+    binary += String.fromCharCode(view[i]);
+  }
+  return btoa(binary);
+}
+
+export async function createTurnCredentials(options: TurnCredentialOptions): Promise<TurnCredentials> {
+  if (!options.sharedSecret) {
+    throw new Error("TURN shared secret is required");
+  }
+
+  const ttlSeconds = options.ttlSeconds ?? DEFAULT_TURN_CREDENTIAL_TTL_SECONDS;
+  const expiry = Math.floor((options.now ?? Date.now()) / 1000) + ttlSeconds;
+  // ':' separates expiry and user id, so it cannot appear in the user id
+  const userId = (options.userId ?? "anonymous").replace(/:/g, "_");
+  const username = `${expiry}:${userId}`;
+
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(options.sharedSecret),
+    { name: "HMAC", hash: "SHA-1" },
+    false,
+    ["sign"]
+  );
+  const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(username));
+
+  return {
+    urls: options.urls,
+    username,
+    credential: toBase64(signature),
+    expiresAt: expiry * 1000,
+  };
+}
@@ -118,14 +118,19 @@ export class CircuitBreaker {
   }
 
   private async executeWithTimeout<T>(operation: () => Promise<T>): Promise<T> {
-    return Promise.race([
-      operation(),
-      new Promise<never>((_, reject) => {
-        setTimeout(() => {
-          reject(new Error(`Circuit breaker '${this.name}' operation timeout after ${this.config.requestTimeout}ms`));
-        }, this.config.requestTimeout);
-      }),
-    ]);
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    try {
+      return await Promise.race([
+        operation(),
+        new Promise<never>((_, reject) => {
+          timer = setTimeout(() => {
+            reject(new Error(`Circuit breaker '${this.name}' operation timeout after ${this.config.requestTimeout}ms`));
+          }, this.config.requestTimeout);
+        }),
+      ]);
+    } finally {
+      clearTimeout(timer);
+    }
   }
 
   private shouldOpen(): boolean {
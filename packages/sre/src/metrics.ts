@@ -1,10 +1,18 @@
 import { ConsoleLogger } from "@thrivereflections/realtime-observability";
+import type { IceCandidatePairStats } from "@thrivereflections/realtime-contracts";
 
 export interface PerformanceMetrics {
   timestamp: number;
   sessionId?: string;
   userId?: string;
-  type: "ttfa" | "session_duration" | "tool_execution" | "api_response" | "connection" | "audio_quality";
+  type:
+    | "ttfa"
+    | "session_duration"
+    | "tool_execution"
+    | "api_response"
+    | "connection"
+    | "audio_quality"
+    | "ice_candidate_pair";
   value: number;
   success: boolean;
   metadata?: Record<string, unknown>;
@@ -52,6 +60,12 @@ export interface AggregatedMetrics {
       averageQuality: number;
       issues: number;
     };
+    iceCandidatePair: {
+      count: number;
+      /** Percentage of connections relayed through TURN */
+      relayRate: number;
+      averageRttMs: number;
+    };
   };
 }
 
@@ -138,6 +152,23 @@ export class MetricsCollector {
     });
   }
 
+  /**
+   * Record the ICE candidate pair a WebRTC session connected over; value is the
+   * round-trip time in ms. Pairs without a measured round trip are skipped.
+   */
+  recordIceCandidatePair(sessionId: string, stats: IceCandidatePairStats): void {
+    if (stats.currentRoundTripTimeMs === undefined) {
+      return;
+    }
+    this.recordMetric({
+      sessionId,
+      type: "ice_candidate_pair",
+      value: stats.currentRoundTripTimeMs,
+      success: stats.state === "succeeded",
+      metadata: { ...stats, relayed: stats.localCandidateType === "relay" || stats.remoteCandidateType === "relay" },
+    });
+  }
+
   recordAudioQuality(sessionId: string, quality: number, issues: number = 0): void {
     this.recordMetric({
       sessionId,
@@ -173,9 +204,11 @@ export class MetricsCollector {
   }
 
   private startAggregationTimer(): void {
-    setInterval(() => {
+    const timer = setInterval(() => {
       this.aggregateMetrics();
     }, this.aggregationInterval);
+    // Aggregation alone should not keep a Node process alive (no-op in browsers)
+    timer.unref?.();
   }
 
   private aggregateMetrics(): void {
@@ -199,6 +232,7 @@ export class MetricsCollector {
         apiResponse: this.aggregateMetricType(recentMetrics, "api_response"),
         connection: this.aggregateConnectionMetrics(recentMetrics),
         audioQuality: this.aggregateAudioQualityMetrics(recentMetrics),
+        iceCandidatePair: this.aggregateIceCandidatePairMetrics(recentMetrics),
       },
     };
 
@@ -287,6 +321,27 @@ export class MetricsCollector {
     };
   }
 
+  private aggregateIceCandidatePairMetrics(metrics: PerformanceMetrics[]): {
+    count: number;
+    relayRate: number;
+    averageRttMs: number;
+  } {
+    const iceMetrics = metrics.filter((m) => m.type === "ice_candidate_pair");
+
+    if (iceMetrics.length === 0) {
+      return { count: 0, relayRate: 0, averageRttMs: 0 };
+    }
+
+    const relayed = iceMetrics.filter((m) => m.metadata?.relayed === true).length;
+    const averageRttMs = iceMetrics.reduce((sum, m) => sum + m.value, 0) / iceMetrics.length;
+
+    return {
+      count: iceMetrics.length,
+      relayRate: Math.round((relayed / iceMetrics.length) * 10000) / 100,
+      averageRttMs: Math.round(averageRttMs * 100) / 100,
+    };
+  }
+
   private percentile(sortedValues: number[], p: number): number {
     if (sortedValues.length === 0) return 0;
 
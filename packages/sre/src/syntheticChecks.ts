@@ -94,6 +94,8 @@ export class SyntheticMonitoring {
     const interval = setInterval(async () => {
       await this.runCheck(name);
     }, check.intervalMs);
+    // Monitoring alone should not keep a Node process alive (no-op in browsers)
+    interval.unref?.();
 
     this.intervals.set(name, interval);
     this.logger.info("Synthetic check started", { name, intervalMs: check.intervalMs });
@@ -6,6 +6,11 @@ import {
   Timings,
   TranscriptSegment,
   ToolEvent,
+  ConversationSnapshot,
+  MemoryFact,
+  SessionRecord,
+  SessionRecording,
+  SessionSummary,
 } from "@thrivereflections/realtime-contracts";
 import { AgentConfig } from "@thrivereflections/realtime-contracts";
 
@@ -153,7 +158,11 @@ export function createPrismaStore(config: PrismaStoreConfig, deps: PrismaStoreDe
       });
     },
 
-    async persistSummary(sessionId: string, text: string): Promise<void> {
+    async persistSummary(
+      sessionId: string,
+      text: string,
+      details?: Omit<SessionSummary, "summary">
+    ): Promise<void> {
       if (!hasDatabase || !prismaEdge) {
         console.log("Database not available, skipping summary persist");
         return;
@@ -170,14 +179,204 @@ export function createPrismaStore(config: PrismaStoreConfig, deps: PrismaStoreDe
 
       const cleaned = deps.redact(text);
       await prismaEdge.summary.create({
-        data: { sessionId, text: cleaned },
+        data: {
+          sessionId,
+          text: cleaned,
+          ...(details
+            ? {
+                keyPoints: details.keyPoints.map(deps.redact),
+                actionItems: details.actionItems.map(deps.redact),
+              }
+            : {}),
+        },
+      });
+    },
+
+    async getSessionRecord(sessionId: string): Promise<SessionRecord | null> {
+      if (!hasDatabase || !prismaEdge) {
+        console.log("Database not available, skipping session record read");
+        return null;
+      }
+
+      const session = await prismaEdge.session.findUnique({
+        where: { id: sessionId },
+        select: {
+          consent: true,
+          transcripts: { orderBy: { startedAt: "asc" } },
+          toolEvents: { orderBy: { createdAt: "asc" } },
+        },
+      });
+
+      if (!session) {
+        return null;
+      }
+
+      return {
+        sessionId,
+        consent: session.consent,
+        transcript: session.transcripts.map(
+          (row: { role: string; text: string; startedAt: Date; endedAt: Date }) => ({
+            role: row.role === "assistant" ? ("assistant" as const) : ("user" as const),
+            text: row.text,
+            startedAt: row.startedAt.getTime(),
+            endedAt: row.endedAt.getTime(),
+          })
+        ),
+        toolEvents: session.toolEvents.map((row: { name: string; argsJson: unknown; resultJson: unknown }) => ({
+          name: row.name,
+          args: (row.argsJson ?? {}) as Record<string, unknown>,
+          ...(row.resultJson !== null && row.resultJson !== undefined ? { result: row.resultJson } : {}),
+        })),
+      };
+    },
+
+    async getSessionConsent(sessionId: string): Promise<Consent | null> {
+      if (!hasDatabase || !prismaEdge) {
+        console.log("Database not available, skipping session consent read");
+        return null;
+      }
+
+      const session = await prismaEdge.session.findUnique({
+        where: { id: sessionId },
+        select: { consent: true },
+      });
+      return session?.consent ?? null;
+    },
+
+    async updateSessionConfig(sessionId: string, config: AgentConfig): Promise<void> {
+      if (!hasDatabase || !prismaEdge) {
+        console.log("Database not available, skipping session config update");
+        return;
+      }
+
+      await prismaEdge.session.updateMany({
+        where: { id: sessionId },
+        data: {
+          skill: config.persona || "default",
+          configJson: config as any, // eslint-disable-line @typescript-eslint/no-explicit-any
+        },
+      });
+    },
+
+    async saveConversation(sessionId: string, snapshot: ConversationSnapshot): Promise<void> {
+      if (!hasDatabase || !prismaEdge) {
+        console.log("Database not available, skipping conversation save");
+        return;
+      }
+
+      const session = await prismaEdge.session.findUnique({
+        where: { id: sessionId },
+        select: { consent: true },
+      });
+
+      if (session?.consent !== "ACCEPTED") {
+        return;
+      }
+
+      const redacted: ConversationSnapshot = {
+        ...snapshot,
+        items: snapshot.items.map((item) => ({
+          ...item,
+          text: deps.redact(item.text),
+          ...(item.arguments !== undefined ? { arguments: deps.redact(item.arguments) } : {}),
+          ...(item.output !== undefined ? { output: deps.redact(item.output) } : {}),
+        })),
+      };
+
+      await prismaEdge.session.updateMany({
+        where: { id: sessionId },
+        data: { conversationJson: redacted as any }, // eslint-disable-line @typescript-eslint/no-explicit-any
+      });
+    },
+
+    async saveMemoryFact(user: UserRef, text: string, sessionId?: string): Promise<MemoryFact> {
+      const row = await prismaEdge.memoryFact.create({
+        data: { appUserId: user.appUserId, text: deps.redact(text), sessionId: sessionId ?? null },
       });
+      return toMemoryFact(row);
+    },
+
+    async listMemoryFacts(appUserId: string): Promise<MemoryFact[]> {
+      const rows = await prismaEdge.memoryFact.findMany({
+        where: { appUserId },
+        orderBy: { createdAt: "asc" },
+      });
+      return rows.map(toMemoryFact);
+    },
+
+    async deleteMemoryFact(appUserId: string, factId: string): Promise<boolean> {
+      // Scoped to the user so one user cannot delete another's facts
+      const { count } = await prismaEdge.memoryFact.deleteMany({ where: { id: factId, appUserId } });
+      return count > 0;
+    },
+
+    async saveRecording(recording: Omit<SessionRecording, "id" | "createdAt">): Promise<SessionRecording> {
+      const row = await prismaEdge.recording.create({
+        data: { ...recording, url: recording.url ?? null },
+      });
+      return toSessionRecording(row);
+    },
+
+    async listRecordings(sessionId: string): Promise<SessionRecording[]> {
+      const rows = await prismaEdge.recording.findMany({
+        where: { sessionId },
+        orderBy: { createdAt: "asc" },
+      });
+      return rows.map(toSessionRecording);
     },
   };
 }
 
+function toMemoryFact(row: {
+  id: string;
+  appUserId: string;
+  text: string;
+  sessionId: string | null;
+  createdAt: Date;
+}): MemoryFact {
+  return {
+    id: row.id,
+    appUserId: row.appUserId,
+    text: row.text,
+    createdAt: row.createdAt.getTime(),
+    ...(row.sessionId ? { sessionId: row.sessionId } : {}),
+  };
+}
+
+function toSessionRecording(row: {
+  id: string;
+  sessionId: string;
+  track: string;
+  storageKey: string;
+  url: string | null;
+  contentType: string;
+  sampleRate: number;
+  channels: number;
+  durationMs: number;
+  bytes: number;
+  createdAt: Date;
+}): SessionRecording {
+  return {
+    id: row.id,
+    sessionId: row.sessionId,
+    track: row.track as SessionRecording["track"],
+    storageKey: row.storageKey,
+    ...(row.url ? { url: row.url } : {}),
+    contentType: row.contentType,
+    sampleRate: row.sampleRate,
+    channels: row.channels,
+    durationMs: row.durationMs,
+    bytes: row.bytes,
+    createdAt: row.createdAt.getTime(),
+  };
+}
+
 // Simple in-memory store for when database is not available
 function createMemoryStore(): PersistenceStore {
+  // Facts are kept so memory can be tried without a database; they are lost on restart
+  const facts: MemoryFact[] = [];
+  let nextFactId = 1;
+
   return {
     async saveSessionMeta(): Promise<void> {
       console.log("Memory store: saveSessionMeta called");
@@ -191,5 +390,42 @@ function createMemoryStore(): PersistenceStore {
     async persistSummary(): Promise<void> {
       console.log("Memory store: persistSummary called");
     },
+    async getSessionRecord(): Promise<SessionRecord | null> {
+      console.log("Memory store: getSessionRecord called");
+      return null;
+    },
+    async getSessionConsent(): Promise<Consent | null> {
+      // Sessions are not kept, so nothing consent-gated (e.g. recordings) is stored without a database
+      console.log("Memory store: getSessionConsent called");
+      return null;
+    },
+    async updateSessionConfig(): Promise<void> {
+      console.log("Memory store: updateSessionConfig called");
+    },
+    async saveConversation(): Promise<void> {
+      console.log("Memory store: saveConversation called");
+    },
+    async saveMemoryFact(user: UserRef, text: string, sessionId?: string): Promise<MemoryFact> {
+      const fact: MemoryFact = {
+        id: `fact_${nextFactId++}`,
+        appUserId: user.appUserId,
+        text,
+        createdAt: Date.now(),
+        ...(sessionId ? { sessionId } : {}),
+      };
+      facts.push(fact);
+      return fact;
+    },
+    async listMemoryFacts(appUserId: string): Promise<MemoryFact[]> {
+      return facts.filter((fact) => fact.appUserId === appUserId);
+    },
+    async deleteMemoryFact(appUserId: string, factId: string): Promise<boolean> {
+      const index = facts.findIndex((fact) => fact.id === factId && fact.appUserId === appUserId);
+      if (index === -1) {
+        return false;
+      }
+      facts.splice(index, 1);
+      return true;
+    },
   };
 }
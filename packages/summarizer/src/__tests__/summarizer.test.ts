@@ -0,0 +1,170 @@
+import { PersistenceStore, SessionRecord, SessionSummary } from "@thrivereflections/realtime-contracts";
+import { createExtractiveSummaryModel } from "../extractive-model";
+import { createOpenAISummaryModel } from "../openai-model";
+import { SessionSummarizer } from "../summarizer";
+import { SummaryModel } from "../summary-model";
+
+const record: SessionRecord = {
+  sessionId: "sess_1",
+  consent: "ACCEPTED",
+  transcript: [
+    { role: "user", text: "What's the weather in Paris this weekend?", startedAt: 1, endedAt: 2 },
+    { role: "assistant", text: "It's 18 degrees and sunny in Paris.", startedAt: 3, endedAt: 4 },
+    { role: "user", text: "Great. Remind me to pack sunglasses on Friday.", startedAt: 5, endedAt: 6 },
+    { role: "assistant", text: "I'll remind you on Friday morning.", startedAt: 7, endedAt: 8 },
+  ],
+  toolEvents: [{ name: "get_weather", args: { city: "Paris" }, result: { temperature: 18 } }],
+};
+
+function createStore(stored: SessionRecord | null) {
+  const summaries: Array<{ sessionId: string; summary: string; details?: Omit<SessionSummary, "summary"> }> = [];
+  const store: PersistenceStore = {
+    saveSessionMeta: async () => undefined,
+    appendTranscript: async () => undefined,
+    appendToolEvent: async () => undefined,
+    persistSummary: async (sessionId, summary, details) => {
+      summaries.push({ sessionId, summary, details });
+    },
+    getSessionRecord: async (sessionId) => (stored && stored.sessionId === sessionId ? stored : null),
+  };
+  return { store, summaries };
+}
+
+function countingModel(model: SummaryModel) {
+  let calls = 0;
+  return {
+    model: {
+      summarize: (...args: Parameters<SummaryModel["summarize"]>) => {
+        calls++;
+        return model.summarize(...args);
+      },
+    },
+    get calls() {
+      return calls;
+    },
+  };
+}
+
+describe("SessionSummarizer", () => {
+  it("persists a summary, key points and action items for a consented session", async () => {
+    const { store, summaries } = createStore(record);
+    const summarizer = new SessionSummarizer({ store, model: createExtractiveSummaryModel(), logLevel: "error" });
+
+    const outcome = await summarizer.summarizeSession("sess_1");
+
+    const expected: SessionSummary = {
+      summary:
+        "Conversation with 2 user turns and 2 assistant turns. The user opened with: \"What's the weather in Paris " +
+        'this weekend?". Tools used: get_weather. The assistant\'s last reply: "I\'ll remind you on Friday morning.".',
+      keyPoints: ["What's the weather in Paris this weekend?", "Remind me to pack sunglasses on Friday."],
+      actionItems: ["Remind me to pack sunglasses on Friday.", "I'll remind you on Friday morning."],
+    };
+    expect(outcome).toEqual({ status: "persisted", summary: expected });
+    expect(summaries).toEqual([
+      {
+        sessionId: "sess_1",
+        summary: expected.summary,
+        details: { keyPoints: expected.keyPoints, actionItems: expected.actionItems },
+      },
+    ]);
+  });
+
+  it("does not read or summarize a session without consent", async () => {
+    const { store, summaries } = createStore({ ...record, consent: "DECLINED" });
+    const counted = countingModel(createExtractiveSummaryModel());
+    const summarizer = new SessionSummarizer({ store, model: counted.model, logLevel: "error" });
+
+    await expect(summarizer.summarizeSession("sess_1")).resolves.toEqual({ status: "skipped", reason: "no_consent" });
+    expect(counted.calls).toBe(0);
+    expect(summaries).toEqual([]);
+  });
+
+  it("skips unknown, too short and unreadable sessions", async () => {
+    const model = createExtractiveSummaryModel();
+    const { store } = createStore({ ...record, transcript: record.transcript.slice(0, 1) });
+    const summarizer = new SessionSummarizer({ store, model, logLevel: "error" });
+
+    await expect(summarizer.summarizeSession("sess_1")).resolves.toEqual({ status: "skipped", reason: "too_short" });
+    await expect(summarizer.summarizeSession("sess_2")).resolves.toEqual({ status: "skipped", reason: "not_found" });
+
+    const { getSessionRecord: _unused, ...writeOnly } = createStore(record).store;
+    await expect(
+      new SessionSummarizer({ store: writeOnly, model, logLevel: "error" }).summarizeSession("sess_1")
+    ).resolves.toEqual({ status: "skipped", reason: "unsupported_store" });
+  });
+
+  it("reports a failed model call without persisting", async () => {
+    const { store, summaries } = createStore(record);
+    const model: SummaryModel = {
+      summarize: async () => {
+        throw new Error("Summary request failed: 503");
+      },
+    };
+    const summarizer = new SessionSummarizer({ store, model, logLevel: "error" });
+
+    await expect(summarizer.summarizeSession("sess_1")).resolves.toEqual({
+      status: "failed",
+      error: "Summary request failed: 503",
+    });
+    expect(summaries).toEqual([]);
+  });
+
+  it("runs once when the same session end is reported twice", async () => {
+    const { store, summaries } = createStore(record);
+    const counted = countingModel(createExtractiveSummaryModel());
+    const summarizer = new SessionSummarizer({ store, model: counted.model, logLevel: "error" });
+
+    await Promise.all([summarizer.summarizeSession("sess_1"), summarizer.summarizeSession("sess_1")]);
+
+    expect(counted.calls).toBe(1);
+    expect(summaries).toHaveLength(1);
+  });
+});
+
+describe("createOpenAISummaryModel", () => {
+  it("asks for a JSON summary of the transcript and parses the reply", async () => {
+    const requests: Array<{ url: string; body: Record<string, unknown>; auth: string | null }> = [];
+    const fakeFetch = (async (url: string, init: RequestInit) => {
+      requests.push({
+        url,
+        body: JSON.parse(init.body as string),
+        auth: new Headers(init.headers).get("Authorization"),
+      });
+      const content = JSON.stringify({ summary: "Weather in Paris.", keyPoints: ["Sunny", 3], actionItems: [] });
+      return new Response(JSON.stringify({ choices: [{ message: { content } }] }), { status: 200 });
+    }) as typeof fetch;
+
+    const model = createOpenAISummaryModel(
+      { apiKey: "sk-test", baseUrl: "http://localhost:4010/" },
+      { fetch: fakeFetch }
+    );
+    const summary = await model.summarize({ transcript: record.transcript, toolEvents: record.toolEvents });
+
+    expect(summary).toEqual({ summary: "Weather in Paris.", keyPoints: ["Sunny"], actionItems: [] });
+    expect(requests[0].url).toBe("http://localhost:4010/v1/chat/completions");
+    expect(requests[0].auth).toBe("Bearer sk-test");
+    expect(requests[0].body).toMatchObject({ model: "gpt-4o-mini", response_format: { type: "json_object" } });
+    const messages = requests[0].body.messages as Array<{ role: string; content: string }>;
+    expect(messages[1].content).toContain("User: Great. Remind me to pack sunglasses on Friday.");
+    expect(messages[1].content).toContain('- get_weather({"city":"Paris"}) -> {"temperature":18}');
+  });
+
+  it("rejects error responses and replies without a summary", async () => {
+    const failing = createOpenAISummaryModel(
+      { apiKey: "sk-test" },
+      { fetch: (async () => new Response("unavailable", { status: 503 })) as typeof fetch }
+    );
+    const empty = createOpenAISummaryModel(
+      { apiKey: "sk-test" },
+      {
+        fetch: (async () =>
+          new Response(JSON.stringify({ choices: [{ message: { content: "{}" } }] }), {
+            status: 200,
+          })) as typeof fetch,
+      }
+    );
+
+    await expect(failing.summarize(record)).rejects.toThrow("Summary request failed: 503");
+    await expect(empty.summarize(record)).rejects.toThrow("Summary model returned no summary");
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * Extractive Summary Model
+ *
+ * Builds a summary from the session's own sentences, without an LLM: what the
+ * user opened with, which tools ran and how the assistant finished; the
+ * user's substantive statements as key points; and sentences that commit to
+ * or ask for a follow-up as action items. The same input always gives the
+ * same summary.
+ */
+
+import { SessionSummary } from "@thrivereflections/realtime-contracts";
+import { SummaryInput, SummaryModel } from "./summary-model";
+
+export interface ExtractiveSummaryOptions {
+  /** Default 5 */
+  maxKeyPoints?: number;
+  /** Default 5 */
+  maxActionItems?: number;
+}
+
+/** Sentences that commit to, or ask for, something after the session */
+const ACTION_PATTERN =
+  /\b(i will|i'll|we will|we'll|let's|remind me|follow up|follow-up|need to|needs to|don't forget|to-?do|schedule|send you|call you)\b/i;
+/** Key points need at least this many words to carry content */
+const MIN_KEY_POINT_WORDS = 4;
+const MAX_QUOTE_CHARS = 160;
+
+export function createExtractiveSummaryModel(options: ExtractiveSummaryOptions = {}): SummaryModel {
+  const maxKeyPoints = options.maxKeyPoints ?? 5;
+  const maxActionItems = options.maxActionItems ?? 5;
+
+  return {
+    async summarize(input: SummaryInput): Promise<SessionSummary> {
+      const userSegments = input.transcript.filter((segment) => segment.role === "user" && segment.text.trim());
+      const assistantSegments = input.transcript.filter(
+        (segment) => segment.role === "assistant" && segment.text.trim()
+      );
+
+      const parts = [
+        `Conversation with ${plural(userSegments.length, "user turn")} and ${plural(
+          assistantSegments.length,
+          "assistant turn"
+        )}.`,
+      ];
+      if (userSegments.length > 0) {
+        parts.push(`The user opened with: "${quote(userSegments[0].text)}".`);
+      }
+      const tools = toolCounts(input);
+      if (tools) {
+        parts.push(`Tools used: ${tools}.`);
+      }
+      if (assistantSegments.length > 0) {
+        parts.push(`The assistant's last reply: "${quote(assistantSegments[assistantSegments.length - 1].text)}".`);
+      }
+
+      const keyPoints = unique(
+        userSegments
+          .flatMap((segment) => sentences(segment.text))
+          .filter((sentence) => sentence.split(/\s+/).length >= MIN_KEY_POINT_WORDS)
+      ).slice(0, maxKeyPoints);
+
+      const actionItems = unique(
+        input.transcript
+          .flatMap((segment) => sentences(segment.text))
+          .filter((sentence) => ACTION_PATTERN.test(sentence))
+      ).slice(0, maxActionItems);
+
+      return { summary: parts.join(" "), keyPoints, actionItems };
+    },
+  };
+}
+
+function sentences(text: string): string[] {
+  return (text.replace(/\s+/g, " ").match(/[^.!?]+[.!?]*/g) ?? []).map((sentence) => sentence.trim()).filter(Boolean);
+}
+
+function unique(values: string[]): string[] {
+  const seen = new Set<string>();
+  return values.filter((value) => {
+    const key = value.toLowerCase();
+    if (seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+}
+
+function quote(text: string): string {
+  const flat = text.replace(/\s+/g, " ").trim();
+  return flat.length > MAX_QUOTE_CHARS ? `${flat.slice(0, MAX_QUOTE_CHARS - 1)}…` : flat;
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? "" : "s"}`;
+}
+
+/** "get_weather (2), echo", in order of first use */
+function toolCounts(input: SummaryInput): string {
+  const counts = new Map<string, number>();
+  input.toolEvents.forEach((event) => counts.set(event.name, (counts.get(event.name) ?? 0) + 1));
+  return Array.from(counts, ([name, count]) => (count > 1 ? `${name} (${count})` : name)).join(", ");
+}
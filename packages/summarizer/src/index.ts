@@ -0,0 +1,13 @@
+export { SessionSummarizer } from "./summarizer";
+export type {
+  SessionSummarizerDeps,
+  SessionSummarizerOptions,
+  SessionSummaryOutcome,
+  SessionSummarySkipReason,
+} from "./summarizer";
+export { parseSessionSummary, formatSessionForSummary } from "./summary-model";
+export type { SummaryInput, SummaryModel } from "./summary-model";
+export { createExtractiveSummaryModel } from "./extractive-model";
+export type { ExtractiveSummaryOptions } from "./extractive-model";
+export { createOpenAISummaryModel, DEFAULT_SUMMARY_MODEL } from "./openai-model";
+export type { OpenAISummaryModelConfig, OpenAISummaryModelDeps } from "./openai-model";
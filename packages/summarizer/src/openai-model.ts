@@ -0,0 +1,87 @@
+/**
+ * OpenAI Summary Model
+ *
+ * Summarizes a session with the Chat Completions API in JSON mode.
+ */
+
+import { SessionSummary } from "@thrivereflections/realtime-contracts";
+import { formatSessionForSummary, parseSessionSummary, SummaryInput, SummaryModel } from "./summary-model";
+
+export interface OpenAISummaryModelConfig {
+  apiKey: string;
+  /** Default "gpt-4o-mini" */
+  model?: string;
+  /** Default "https://api.openai.com"; `RuntimeConfig.baseUrl` points it at a proxy */
+  baseUrl?: string;
+  /** The transcript sent is cut to its most recent lines beyond this length (default 24000) */
+  maxInputChars?: number;
+  /** Default 30000 */
+  timeoutMs?: number;
+}
+
+export interface OpenAISummaryModelDeps {
+  fetch?: typeof fetch;
+}
+
+export const DEFAULT_SUMMARY_MODEL = "gpt-4o-mini";
+
+const SYSTEM_PROMPT = [
+  "You summarize voice conversations between a user and an AI assistant.",
+  'Reply with a JSON object: {"summary": string, "keyPoints": string[], "actionItems": string[]}.',
+  "summary: two to four sentences on what was discussed and resolved.",
+  "keyPoints: the most important facts, decisions or answers, at most five.",
+  "actionItems: follow-ups the user or assistant committed to or asked for, or an empty array.",
+  "Do not include personal data such as emails, phone numbers or addresses.",
+].join("\n");
+
+export function createOpenAISummaryModel(
+  config: OpenAISummaryModelConfig,
+  deps: OpenAISummaryModelDeps = {}
+): SummaryModel {
+  const doFetch = deps.fetch ?? fetch;
+  const baseUrl = (config.baseUrl ?? "https://api.openai.com").replace(/\/+$/, "");
+
+  return {
+    async summarize(input: SummaryInput, signal?: AbortSignal): Promise<SessionSummary> {
+      const timeout = new AbortController();
+      const timer = setTimeout(() => timeout.abort(), config.timeoutMs ?? 30000);
+      const onAbort = () => timeout.abort();
+      signal?.addEventListener("abort", onAbort, { once: true });
+
+      try {
+        const response = await doFetch(`${baseUrl}/v1/chat/completions`, {
+          method: "POST",
+          headers: {
+            Authorization: `Bearer ${config.apiKey}`,
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({
+            model: config.model ?? DEFAULT_SUMMARY_MODEL,
+            response_format: { type: "json_object" },
+            temperature: 0.2,
+            messages: [
+              { role: "system", content: SYSTEM_PROMPT },
+              { role: "user", content: formatSessionForSummary(input, config.maxInputChars ?? 24000) },
+            ],
+          }),
+          signal: timeout.signal,
+        });
+
+        if (!response.ok) {
+          throw new Error(`Summary request failed: ${response.status}`);
+        }
+
+        const data = (await response.json()) as { choices?: Array<{ message?: { content?: string | null } }> };
+        const content = data.choices?.[0]?.message?.content;
+        if (!content) {
+          throw new Error("Summary model returned no content");
+        }
+
+        return parseSessionSummary(JSON.parse(content));
+      } finally {
+        clearTimeout(timer);
+        signal?.removeEventListener("abort", onAbort);
+      }
+    },
+  };
+}
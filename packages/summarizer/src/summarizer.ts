@@ -0,0 +1,97 @@
+/**
+ * Session Summarizer
+ *
+ * Runs when a session ends: reads the stored transcript and tool events back
+ * from the `PersistenceStore`, asks a `SummaryModel` for a summary, key
+ * points and action items, and saves them with `persistSummary`. Nothing is
+ * read or sent to the model unless the session's consent is "ACCEPTED".
+ */
+
+import { PersistenceStore, SessionSummary } from "@thrivereflections/realtime-contracts";
+import { createRedactingLogger, Logger, LoggingDeps } from "@thrivereflections/realtime-observability";
+import { piiRedactor } from "@thrivereflections/realtime-security";
+import { SummaryModel } from "./summary-model";
+
+export interface SessionSummarizerDeps extends LoggingDeps {
+  store: PersistenceStore;
+  model: SummaryModel;
+}
+
+export interface SessionSummarizerOptions {
+  /** Sessions with fewer transcript segments are not summarized (default 2) */
+  minTranscriptSegments?: number;
+}
+
+export type SessionSummarySkipReason = "unsupported_store" | "not_found" | "no_consent" | "too_short";
+
+export type SessionSummaryOutcome =
+  | { status: "persisted"; summary: SessionSummary }
+  | { status: "skipped"; reason: SessionSummarySkipReason }
+  | { status: "failed"; error: string };
+
+export class SessionSummarizer {
+  private deps: SessionSummarizerDeps;
+  private options: SessionSummarizerOptions;
+  private logger: Logger;
+  /** One run per session at a time, e.g. when the end is reported twice */
+  private running = new Map<string, Promise<SessionSummaryOutcome>>();
+
+  constructor(deps: SessionSummarizerDeps, options: SessionSummarizerOptions = {}) {
+    this.deps = deps;
+    this.options = options;
+    this.logger = createRedactingLogger({ ...deps, redactor: deps.redactor ?? piiRedactor });
+  }
+
+  summarizeSession(sessionId: string, signal?: AbortSignal): Promise<SessionSummaryOutcome> {
+    const existing = this.running.get(sessionId);
+    if (existing) {
+      return existing;
+    }
+
+    const run = this.run(sessionId, signal).finally(() => this.running.delete(sessionId));
+    this.running.set(sessionId, run);
+    return run;
+  }
+
+  private async run(sessionId: string, signal?: AbortSignal): Promise<SessionSummaryOutcome> {
+    const { store, model } = this.deps;
+    if (!store.getSessionRecord) {
+      return this.skip(sessionId, "unsupported_store");
+    }
+
+    try {
+      const record = await store.getSessionRecord(sessionId);
+      if (!record) {
+        return this.skip(sessionId, "not_found");
+      }
+      if (record.consent !== "ACCEPTED") {
+        return this.skip(sessionId, "no_consent");
+      }
+      if (record.transcript.length < (this.options.minTranscriptSegments ?? 2)) {
+        return this.skip(sessionId, "too_short");
+      }
+
+      const summary = await model.summarize({ transcript: record.transcript, toolEvents: record.toolEvents }, signal);
+      await store.persistSummary(sessionId, summary.summary, {
+        keyPoints: summary.keyPoints,
+        actionItems: summary.actionItems,
+      });
+
+      this.logger.info("Session summary persisted", {
+        sessionId,
+        keyPoints: summary.keyPoints.length,
+        actionItems: summary.actionItems.length,
+      });
+      return { status: "persisted", summary };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      this.logger.warn("Session summary failed", { sessionId, error: message });
+      return { status: "failed", error: message };
+    }
+  }
+
+  private skip(sessionId: string, reason: SessionSummarySkipReason): SessionSummaryOutcome {
+    this.logger.debug("Session summary skipped", { sessionId, reason });
+    return { status: "skipped", reason };
+  }
+}
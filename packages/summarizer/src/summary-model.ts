@@ -0,0 +1,60 @@
+/**
+ * Summary Model
+ *
+ * The interface a `SessionSummarizer` calls to turn a session's transcript
+ * and tool events into a summary, key points and action items. The OpenAI
+ * model is used in production; the extractive model is deterministic and
+ * runs locally, for tests and deployments without an LLM.
+ */
+
+import { SessionRecord, SessionSummary } from "@thrivereflections/realtime-contracts";
+
+export type SummaryInput = Pick<SessionRecord, "transcript" | "toolEvents">;
+
+export interface SummaryModel {
+  summarize(input: SummaryInput, signal?: AbortSignal): Promise<SessionSummary>;
+}
+
+/**
+ * Check a model's output, e.g. parsed JSON, and normalize it to a
+ * `SessionSummary`. Throws when the summary text is missing.
+ */
+export function parseSessionSummary(value: unknown): SessionSummary {
+  const data = typeof value === "object" && value !== null ? (value as Record<string, unknown>) : {};
+  const summary = typeof data.summary === "string" ? data.summary.trim() : "";
+
+  if (!summary) {
+    throw new Error("Summary model returned no summary");
+  }
+
+  return { summary, keyPoints: stringList(data.keyPoints), actionItems: stringList(data.actionItems) };
+}
+
+/**
+ * The session as plain text, one line per transcript segment, followed by the
+ * tool calls. Keeps the most recent lines when longer than `maxChars`.
+ */
+export function formatSessionForSummary(input: SummaryInput, maxChars = Infinity): string {
+  const lines = input.transcript.map(
+    (segment) => `${segment.role === "user" ? "User" : "Assistant"}: ${segment.text.trim()}`
+  );
+
+  if (input.toolEvents.length > 0) {
+    lines.push("", "Tools used:");
+    input.toolEvents.forEach((event) => {
+      const result = event.result === undefined ? "" : ` -> ${JSON.stringify(event.result)}`;
+      lines.push(`- ${event.name}(${JSON.stringify(event.args)})${result}`);
+    });
+  }
+
+  while (lines.length > 1 && lines.join("\n").length > maxChars) {
+    lines.shift();
+  }
+  return lines.join("\n");
+}
+
+function stringList(value: unknown): string[] {
+  return Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === "string" && item.trim() !== "").map((item) => item.trim())
+    : [];
+}
@@ -0,0 +1,82 @@
+// A small stdio MCP server for the adapter tests
+const readline = require("readline");
+
+const noArgs = { type: "object", properties: {} };
+const tools = [
+  {
+    name: "add",
+    description: "Add two numbers",
+    inputSchema: {
+      type: "object",
+      properties: { a: { type: "number" }, b: { type: "number" } },
+      required: ["a", "b"],
+    },
+    annotations: { readOnlyHint: true },
+  },
+  { name: "whoami", description: "The server's process id", inputSchema: noArgs },
+  { name: "fail", description: "Always fails", inputSchema: noArgs },
+  { name: "hang", description: "Never answers", inputSchema: noArgs },
+  { name: "cancellations", description: "Requests the client cancelled", inputSchema: noArgs },
+  { name: "crash", description: "Exit without answering", inputSchema: noArgs },
+  { name: "add_tool", description: "Offer one more tool", inputSchema: noArgs },
+];
+const cancelled = [];
+
+function send(message) {
+  process.stdout.write(`${JSON.stringify({ jsonrpc: "2.0", ...message })}\n`);
+}
+
+function text(value) {
+  return { content: [{ type: "text", text: String(value) }] };
+}
+
+function callTool(name, args) {
+  switch (name) {
+    case "add":
+      return { ...text(args.a + args.b), structuredContent: { sum: args.a + args.b } };
+    case "whoami":
+      return text(process.pid);
+    case "fail":
+      return { ...text("Something went wrong"), isError: true };
+    case "cancellations":
+      return text(cancelled.join(","));
+    case "crash":
+      process.exit(1);
+      break;
+    case "add_tool":
+      tools.push({ name: "late", description: "Added later", inputSchema: noArgs });
+      send({ method: "notifications/tools/list_changed" });
+      return text("added");
+  }
+}
+
+readline.createInterface({ input: process.stdin }).on("line", (line) => {
+  const message = JSON.parse(line);
+  switch (message.method) {
+    case "initialize":
+      send({
+        id: message.id,
+        result: {
+          protocolVersion: message.params.protocolVersion,
+          capabilities: { tools: { listChanged: true } },
+          serverInfo: { name: "fixture", version: "1.0.0" },
+        },
+      });
+      break;
+    case "tools/list": {
+      // Two pages, to exercise the cursor
+      const start = message.params.cursor ? Number(message.params.cursor) : 0;
+      const nextCursor = start === 0 ? "3" : undefined;
+      send({ id: message.id, result: { tools: tools.slice(start, nextCursor ? 3 : undefined), nextCursor } });
+      break;
+    }
+    case "tools/call":
+      if (message.params.name !== "hang") {
+        send({ id: message.id, result: callTool(message.params.name, message.params.arguments) });
+      }
+      break;
+    case "notifications/cancelled":
+      cancelled.push(message.params.requestId);
+      break;
+  }
+});
@@ -0,0 +1,281 @@
+import { createServer, IncomingMessage, Server } from "http";
+import { AddressInfo } from "net";
+import { join } from "path";
+import { PolicyConfig } from "@thrivereflections/realtime-contracts";
+import { ToolGateway } from "../gateway";
+import { McpClient, McpTool, McpTransport } from "../mcp-client";
+import { createHttpMcpTransport } from "../mcp-http-transport";
+import { createStdioMcpTransport } from "../mcp-stdio-transport";
+import { McpToolAdapter, McpToolAdapterOptions, mcpToolName } from "../mcp-tool-adapter";
+
+const policies: PolicyConfig = {
+  maxPayloadBytes: 10000,
+  maxSessionMinutes: 15,
+  allowUnconsentedStorage: false,
+  rateLimit: { sessions: { max: 10, window: 60 }, toolCalls: { max: 10, window: 60 } },
+};
+
+const allowedTools = ["add", "whoami", "fail", "hang", "cancellations", "crash", "add_tool", "late", "session"].map(
+  (tool) => mcpToolName("math", tool)
+);
+
+const adapters: McpToolAdapter[] = [];
+
+function createAdapter(options: Partial<McpToolAdapterOptions> = {}) {
+  const gateway = new ToolGateway({ policies, allowList: allowedTools });
+  const adapter = new McpToolAdapter({
+    name: "math",
+    createTransport: () =>
+      createStdioMcpTransport({ command: process.execPath, args: [join(__dirname, "fixtures", "mcp-server.js")] }),
+    gateway,
+    allowedTools,
+    reconnect: { initialDelayMs: 10 },
+    ...options,
+  });
+  adapters.push(adapter);
+  return { adapter, gateway };
+}
+
+function call(gateway: ToolGateway, name: string, args: Record<string, unknown> = {}) {
+  return gateway.executeToolCall({ id: `call_${name}`, name: mcpToolName("math", name), args });
+}
+
+async function waitFor(check: () => boolean) {
+  for (let i = 0; i < 100 && !check(); i++) {
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+  expect(check()).toBe(true);
+}
+
+afterEach(async () => {
+  await Promise.all(adapters.splice(0).map((adapter) => adapter.close()));
+});
+
+describe("McpToolAdapter over stdio", () => {
+  it("registers the allowed tools under the server's namespace with their input schemas", async () => {
+    const { adapter, gateway } = createAdapter({ allowedTools: ["math__add", "math__whoami", "other__add"] });
+    await adapter.connect();
+
+    expect(adapter.getToolNames()).toEqual(["math__add", "math__whoami"]);
+    expect(gateway.getToolDefinitions()).toEqual([
+      {
+        type: "function",
+        name: "math__add",
+        description: "Add two numbers",
+        parameters: {
+          type: "object",
+          properties: { a: { type: "number" }, b: { type: "number" } },
+          required: ["a", "b"],
+        },
+      },
+      {
+        type: "function",
+        name: "math__whoami",
+        description: "The server's process id",
+        parameters: expect.any(Object),
+      },
+    ]);
+    // Read-only tools may be retried
+    expect(gateway.registry.get("math__add")?.idempotent).toBe(true);
+    expect(gateway.registry.get("math__whoami")?.idempotent).toBe(false);
+  });
+
+  it("runs tools through the gateway, with coerced arguments and errors as failed responses", async () => {
+    const { adapter, gateway } = createAdapter();
+    await adapter.connect();
+
+    await expect(call(gateway, "add", { a: "2", b: 3 })).resolves.toEqual({
+      id: "call_add",
+      ok: true,
+      result: { sum: 5 },
+    });
+    await expect(call(gateway, "add", { a: 2 })).resolves.toMatchObject({ ok: false, errorCode: "invalid_arguments" });
+    await expect(call(gateway, "fail")).resolves.toEqual({
+      id: "call_fail",
+      ok: false,
+      error: "Something went wrong",
+    });
+  });
+
+  it("cancels calls on the server when the gateway times them out", async () => {
+    const { adapter, gateway } = createAdapter({ toolDefaults: { timeoutMs: 50 } });
+    await adapter.connect();
+
+    await expect(call(gateway, "hang")).resolves.toMatchObject({ ok: false, errorCode: "timeout" });
+    const response = await call(gateway, "cancellations");
+    expect(response.result).toMatch(/^\d+$/);
+  });
+
+  it("reconnects after the server restarts", async () => {
+    const { adapter, gateway } = createAdapter();
+    await adapter.connect();
+    const before = (await call(gateway, "whoami")).result;
+
+    await expect(call(gateway, "crash")).resolves.toMatchObject({ ok: false });
+    const after = await call(gateway, "whoami");
+
+    expect(after.ok).toBe(true);
+    expect(after.result).not.toBe(before);
+    expect(adapter.isConnected).toBe(true);
+  });
+
+  it("picks up tools the server adds later and removes its tools on close", async () => {
+    const { adapter, gateway } = createAdapter();
+    await adapter.connect();
+
+    await call(gateway, "add_tool");
+    await waitFor(() => gateway.registry.has("math__late"));
+
+    await adapter.close();
+    expect(gateway.registry.getNames()).toEqual([]);
+  });
+});
+
+/** A server in memory that answers `tools/list` with the page for each cursor */
+function createPagedTransport(pages: Record<string, { tools: McpTool[]; nextCursor?: string }>): McpTransport {
+  let onMessage: (message: { jsonrpc: "2.0"; id: number; result: unknown }) => void = () => undefined;
+  return {
+    connect: async (options) => {
+      onMessage = options.onMessage;
+    },
+    send: async (message) => {
+      if (!("id" in message) || !("method" in message)) {
+        return;
+      }
+      const result =
+        message.method === "initialize"
+          ? { protocolVersion: "2025-06-18", capabilities: { tools: {} }, serverInfo: { name: "paged", version: "1" } }
+          : pages[String(message.params?.cursor ?? "")];
+      setTimeout(() => onMessage({ jsonrpc: "2.0", id: Number(message.id), result }));
+    },
+    close: async () => undefined,
+  };
+}
+
+describe("McpClient.listTools", () => {
+  const tool = (name: string): McpTool => ({ name, inputSchema: { type: "object" } });
+
+  async function listTools(pages: Record<string, { tools: McpTool[]; nextCursor?: string }>) {
+    const client = new McpClient({ transport: createPagedTransport(pages) });
+    await client.connect();
+    return client.listTools();
+  }
+
+  it("follows the cursor through the pages", async () => {
+    const tools = await listTools({ "": { tools: [tool("a")], nextCursor: "2" }, "2": { tools: [tool("b")] } });
+    expect(tools.map((t) => t.name)).toEqual(["a", "b"]);
+  });
+
+  it("stops on a repeated cursor and after too many pages", async () => {
+    await expect(
+      listTools({ "": { tools: [], nextCursor: "1" }, "1": { tools: [], nextCursor: "1" } })
+    ).rejects.toThrow("tools/list returned cursor '1' twice");
+
+    const endless = Object.fromEntries(
+      Array.from({ length: 200 }, (_, i) => [i === 0 ? "" : String(i), { tools: [], nextCursor: String(i + 1) }])
+    );
+    await expect(listTools(endless)).rejects.toThrow("tools/list returned more than 100 pages");
+  });
+});
+
+describe("McpToolAdapter tool names", () => {
+  it("refuses tools that map to the same name", async () => {
+    const { adapter, gateway } = createAdapter({
+      createTransport: () =>
+        createPagedTransport({
+          "": { tools: ["get.pet", "get_pet"].map((name) => ({ name, inputSchema: { type: "object" } })) },
+        }),
+      allowedTools: undefined,
+    });
+
+    await expect(adapter.connect()).rejects.toThrow(
+      "MCP tools 'get.pet' and 'get_pet' of server 'math' map to the same name 'math__get_pet'"
+    );
+    expect(gateway.registry.getNames()).toEqual([]);
+  });
+});
+
+describe("McpToolAdapter over streamable HTTP", () => {
+  let server: Server;
+  let url: string;
+  let sessions: Set<string>;
+  let nextSession: number;
+
+  function readBody(request: IncomingMessage): Promise<{ id?: number; method: string; params?: { name?: string } }> {
+    return new Promise((resolve) => {
+      let body = "";
+      request.on("data", (chunk) => (body += chunk));
+      request.on("end", () => resolve(JSON.parse(body)));
+    });
+  }
+
+  beforeEach(async () => {
+    sessions = new Set();
+    nextSession = 1;
+    server = createServer(async (request, response) => {
+      if (request.method === "DELETE") {
+        sessions.delete(String(request.headers["mcp-session-id"]));
+        response.writeHead(200).end();
+        return;
+      }
+
+      const message = await readBody(request);
+      const session = request.headers["mcp-session-id"];
+      if (message.method === "initialize") {
+        const id = `session-${nextSession++}`;
+        sessions.add(id);
+        response.writeHead(200, { "Content-Type": "application/json", "Mcp-Session-Id": id });
+        response.end(
+          JSON.stringify({
+            jsonrpc: "2.0",
+            id: message.id,
+            result: {
+              protocolVersion: "2025-06-18",
+              capabilities: { tools: {} },
+              serverInfo: { name: "http", version: "1" },
+            },
+          })
+        );
+        return;
+      }
+      if (!sessions.has(String(session))) {
+        response.writeHead(404).end();
+        return;
+      }
+      if (message.id === undefined) {
+        response.writeHead(202).end();
+        return;
+      }
+
+      const result =
+        message.method === "tools/list"
+          ? { tools: [{ name: "session", inputSchema: { type: "object" } }] }
+          : { content: [{ type: "text", text: String(session) }] };
+      // Answer as a server-sent event stream
+      response.writeHead(200, { "Content-Type": "text/event-stream" });
+      response.end(`event: message\ndata: ${JSON.stringify({ jsonrpc: "2.0", id: message.id, result })}\n\n`);
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/mcp`;
+  });
+
+  afterEach(async () => {
+    await Promise.all(adapters.splice(0).map((adapter) => adapter.close()));
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it("keeps its session and starts a new one when the server forgets it", async () => {
+    const { adapter, gateway } = createAdapter({
+      createTransport: () => createHttpMcpTransport({ url }),
+      allowedTools: undefined,
+    });
+    await adapter.connect();
+
+    await expect(call(gateway, "session")).resolves.toMatchObject({ ok: true, result: "session-1" });
+
+    // A restarted server knows none of the old sessions
+    sessions.clear();
+    await expect(call(gateway, "session")).resolves.toMatchObject({ ok: false });
+    await expect(call(gateway, "session")).resolves.toMatchObject({ ok: true, result: "session-2" });
+  });
+});
@@ -0,0 +1,277 @@
+import { createServer, IncomingHttpHeaders, Server } from "http";
+import { AddressInfo } from "net";
+import { PolicyConfig } from "@thrivereflections/realtime-contracts";
+import { ToolGateway } from "../gateway";
+import { createOpenApiTools, OpenApiDocument, OpenApiParameter, OpenApiToolsOptions } from "../openapi-tools";
+import { ToolRegistry } from "../tool-registry";
+
+const policies: PolicyConfig = {
+  maxPayloadBytes: 10000,
+  maxSessionMinutes: 15,
+  allowUnconsentedStorage: false,
+  rateLimit: { sessions: { max: 10, window: 60 }, toolCalls: { max: 10, window: 60 } },
+};
+
+const document: OpenApiDocument = {
+  openapi: "3.0.3",
+  info: { title: "Pets", version: "2.0.0" },
+  servers: [{ url: "https://pets.example.com/v1" }],
+  security: [{ bearer: [] }],
+  paths: {
+    "/pets": {
+      get: {
+        operationId: "listPets",
+        summary: "List pets",
+        tags: ["pets"],
+        parameters: [
+          { name: "limit", in: "query", schema: { type: "integer", maximum: 100 } },
+          { name: "tag", in: "query", schema: { type: "array", items: { type: "string" } } },
+          { name: "Authorization", in: "header", schema: { type: "string" } },
+        ],
+      },
+      post: {
+        operationId: "createPet",
+        summary: "Add a pet",
+        tags: ["pets"],
+        requestBody: { $ref: "#/components/requestBodies/NewPet" },
+      },
+    },
+    "/pets/{petId}": {
+      parameters: [{ $ref: "#/components/parameters/PetId" }],
+      get: { operationId: "getPet", tags: ["pets"], security: [{ apiKey: [] }] },
+    },
+    "/big": {
+      get: { operationId: "getBig", tags: ["reports"], security: [] },
+    },
+  },
+  components: {
+    parameters: { PetId: { name: "petId", in: "path", required: true, schema: { type: "string" } } },
+    requestBodies: {
+      NewPet: {
+        required: true,
+        content: { "application/json": { schema: { $ref: "#/components/schemas/NewPet" } } },
+      },
+    },
+    schemas: {
+      NewPet: {
+        type: "object",
+        properties: {
+          name: { type: "string" },
+          owner: { $ref: "#/components/schemas/NewPet" },
+          age: { type: "integer", nullable: true },
+        },
+        required: ["name"],
+      },
+    },
+    securitySchemes: {
+      bearer: { type: "http", scheme: "bearer" },
+      apiKey: { type: "apiKey", in: "header", name: "X-Api-Key" },
+    },
+  },
+};
+
+const credentials: Record<string, string> = { bearer: "token-1", apiKey: "key-1" };
+const secrets = { getSecret: async (name: string) => credentials[name] };
+
+let server: Server;
+let baseUrl: string;
+let requests: { method?: string; url?: string; headers: IncomingHttpHeaders; body: string }[];
+
+beforeAll(async () => {
+  server = createServer((request, response) => {
+    let body = "";
+    request.on("data", (chunk) => (body += chunk));
+    request.on("end", () => {
+      requests.push({ method: request.method, url: request.url, headers: request.headers, body });
+      const json = (status: number, value: unknown) => {
+        response.writeHead(status, { "Content-Type": "application/json" });
+        response.end(JSON.stringify(value));
+      };
+
+      if (request.url === "/v1/big") {
+        response.writeHead(200, { "Content-Type": "application/json" });
+        response.end(JSON.stringify({ rows: "é".repeat(5000) }));
+      } else if (request.url?.startsWith("/v1/pets/missing")) {
+        json(404, { message: "No such pet" });
+      } else if (request.url?.startsWith("/v1/pets/")) {
+        json(200, { id: decodeURIComponent(request.url.slice("/v1/pets/".length)), name: "Rex" });
+      } else if (request.method === "POST") {
+        const pet = JSON.parse(body);
+        return pet.name === "" ? json(422, { message: "name must not be empty" }) : json(201, { id: "p2", ...pet });
+      } else {
+        json(200, [{ id: "p1", name: "Rex" }]);
+      }
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+});
+
+beforeEach(() => {
+  requests = [];
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+function createGateway(options: Partial<OpenApiToolsOptions> = {}) {
+  const tools = createOpenApiTools({ document, baseUrl, secrets, maxPayloadBytes: 1000, tags: ["pets"], ...options });
+  return new ToolGateway({
+    policies,
+    allowList: tools.map((tool) => tool.name),
+    registry: new ToolRegistry(tools),
+    retry: { backoffMs: 1 },
+  });
+}
+
+describe("createOpenApiTools", () => {
+  it("selects operations by tag and operationId", () => {
+    const names = (options: Partial<OpenApiToolsOptions>) =>
+      createOpenApiTools({ document, maxPayloadBytes: 1000, ...options }).map((tool) => tool.name);
+
+    expect(names({ tags: ["pets"] })).toEqual(["listPets", "createPet", "getPet"]);
+    expect(names({ tags: ["reports"], operationIds: ["getPet"] })).toEqual(["getPet", "getBig"]);
+    expect(names({ operationIds: ["getPet"], namespace: "pets" })).toEqual(["pets__getPet"]);
+    expect(() => names({ operationIds: ["deletePet"] })).toThrow(
+      "Operation(s) not found in the OpenAPI document: deletePet"
+    );
+  });
+
+  it("rejects parameters that would share a property", () => {
+    const withParameters = (...parameters: OpenApiParameter[]): OpenApiDocument => ({
+      ...document,
+      paths: { "/pets": { post: { ...document.paths["/pets"].post, parameters } } },
+    });
+
+    expect(() =>
+      createOpenApiTools({ document: withParameters({ name: "body", in: "query" }), maxPayloadBytes: 1000 })
+    ).toThrow("POST /pets has a parameter named 'body', which clashes with its request body");
+    expect(() =>
+      createOpenApiTools({
+        document: withParameters({ name: "id", in: "query" }, { name: "id", in: "header" }),
+        maxPayloadBytes: 1000,
+      })
+    ).toThrow("POST /pets has two parameters named 'id'");
+  });
+
+  it("derives JSON Schema parameters from path, query and body", () => {
+    const [listPets, createPet, getPet] = createOpenApiTools({ document, maxPayloadBytes: 1000, tags: ["pets"] });
+
+    expect(listPets).toMatchObject({
+      description: "List pets",
+      version: "2.0.0",
+      idempotent: true,
+      parameters: {
+        type: "object",
+        properties: {
+          limit: { type: "integer", maximum: 100 },
+          tag: { type: "array", items: { type: "string" } },
+        },
+      },
+    });
+    expect(getPet.parameters).toEqual({
+      type: "object",
+      properties: { petId: { type: "string" } },
+      required: ["petId"],
+    });
+    // Authorization is a reserved header, left to the security schemes
+    expect(listPets.parameters.properties).not.toHaveProperty("Authorization");
+    // References are inlined, a self-reference is left open and `nullable` becomes a "null" type
+    expect(createPet.idempotent).toBe(false);
+    expect(createPet.parameters).toEqual({
+      type: "object",
+      properties: {
+        body: {
+          type: "object",
+          properties: { name: { type: "string" }, owner: {}, age: { type: ["integer", "null"] } },
+          required: ["name"],
+        },
+      },
+      required: ["body"],
+    });
+  });
+});
+
+describe("OpenAPI tools through the gateway", () => {
+  it("builds requests with the operation's credentials", async () => {
+    const gateway = createGateway();
+
+    await expect(
+      gateway.executeToolCall({
+        id: "call_1",
+        name: "listPets",
+        args: { limit: "5", tag: ["dog", "cat"], Authorization: "Bearer forged" },
+      })
+    ).resolves.toEqual({ id: "call_1", ok: true, result: [{ id: "p1", name: "Rex" }] });
+    await gateway.executeToolCall({ id: "call_2", name: "getPet", args: { petId: "a/b" } });
+    await gateway.executeToolCall({ id: "call_3", name: "createPet", args: { body: { name: "Tom", age: null } } });
+
+    expect(requests[0]).toMatchObject({ method: "GET", url: "/v1/pets?limit=5&tag=dog&tag=cat" });
+    expect(requests[0].headers.authorization).toBe("Bearer token-1");
+    expect(requests[1]).toMatchObject({ url: "/v1/pets/a%2Fb", headers: { "x-api-key": "key-1" } });
+    expect(requests[1].headers.authorization).toBeUndefined();
+    expect(requests[2]).toMatchObject({
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: '{"name":"Tom","age":null}',
+    });
+  });
+
+  it("maps HTTP errors into failed responses", async () => {
+    const gateway = createGateway();
+
+    await expect(
+      gateway.executeToolCall({ id: "call_1", name: "createPet", args: { body: { name: "" } } })
+    ).resolves.toEqual({
+      id: "call_1",
+      ok: false,
+      error: 'POST /pets failed with 422: {"message":"name must not be empty"}',
+      errorCode: "invalid_arguments",
+    });
+    await expect(
+      gateway.executeToolCall({ id: "call_2", name: "getPet", args: { petId: "missing" } })
+    ).resolves.toEqual({
+      id: "call_2",
+      ok: false,
+      error: 'GET /pets/{petId} failed with 404: {"message":"No such pet"}',
+      errorCode: "tool_error",
+    });
+  });
+
+  it("rejects path parameters that are dot-segments", async () => {
+    const gateway = createGateway();
+
+    await expect(gateway.executeToolCall({ id: "call_1", name: "getPet", args: { petId: ".." } })).resolves.toEqual({
+      id: "call_1",
+      ok: false,
+      error: 'GET /pets/{petId}: path parameters must not be "." or ".."',
+      errorCode: "invalid_arguments",
+    });
+    await gateway.executeToolCall({ id: "call_2", name: "getPet", args: { petId: "..." } });
+
+    expect(requests).toHaveLength(1);
+    expect(requests[0].url).toBe("/v1/pets/...");
+  });
+
+  it("fails without credentials instead of calling the backend", async () => {
+    const gateway = createGateway({ secrets: { getSecret: async () => undefined } });
+
+    await expect(gateway.executeToolCall({ id: "call_1", name: "listPets", args: {} })).resolves.toEqual({
+      id: "call_1",
+      ok: false,
+      error: "No credentials for tool 'listPets': it needs bearer",
+      errorCode: "tool_error",
+    });
+    expect(requests).toHaveLength(0);
+  });
+
+  it("cuts responses down to maxPayloadBytes", async () => {
+    const gateway = createGateway({ tags: ["reports"], maxPayloadBytes: 100 });
+
+    const response = await gateway.executeToolCall({ id: "call_1", name: "getBig", args: {} });
+
+    // 100 bytes end halfway through a two-byte character, which is dropped
+    expect(response.result).toEqual({ truncated: true, body: `{"rows":"${"é".repeat(45)}` });
+  });
+});
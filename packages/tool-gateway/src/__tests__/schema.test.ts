@@ -0,0 +1,156 @@
+import { PolicyConfig } from "@thrivereflections/realtime-contracts";
+import { ToolGateway } from "../gateway";
+import { validateToolCall } from "../handlers";
+import { formatToolArgumentErrors, JsonSchema, validateToolArguments } from "../schema";
+import { ToolArgumentsError } from "../tool-registry";
+
+const weather: JsonSchema = {
+  type: "object",
+  properties: {
+    location: { type: "string", minLength: 1 },
+    units: { type: "string", enum: ["celsius", "fahrenheit"], default: "celsius" },
+    days: { type: "integer", minimum: 1, maximum: 7 },
+    hourly: { type: "boolean" },
+    tags: { type: "array", items: { type: "string" } },
+  },
+  required: ["location"],
+  additionalProperties: false,
+};
+
+describe("validateToolArguments", () => {
+  it("coerces near-miss values and fills in defaults", () => {
+    const args = { location: "Oslo", days: "3", hourly: "TRUE", tags: "rain" };
+
+    expect(validateToolArguments(weather, args)).toEqual({
+      valid: true,
+      value: { location: "Oslo", units: "celsius", days: 3, hourly: true, tags: ["rain"] },
+    });
+    expect(validateToolArguments(weather, { location: 42, units: "Fahrenheit" })).toEqual({
+      valid: true,
+      value: { location: "42", units: "fahrenheit" },
+    });
+    expect(args).toEqual({ location: "Oslo", days: "3", hourly: "TRUE", tags: "rain" });
+  });
+
+  it("reports every problem with a JSON Pointer to the offending argument", () => {
+    const result = validateToolArguments(weather, { units: "kelvin", days: 2.5, wind: true, tags: [1, {}] });
+
+    expect(result).toEqual({
+      valid: false,
+      errors: [
+        { path: "/units", message: 'must be one of "celsius", "fahrenheit"' },
+        { path: "/days", message: "must be an integer" },
+        { path: "/wind", message: "is not an allowed property" },
+        { path: "/tags/1", message: "must be a string" },
+        { path: "/location", message: "is required" },
+      ],
+    });
+    expect(validateToolArguments(weather, { location: "Oslo", days: "9" })).toEqual({
+      valid: false,
+      errors: [{ path: "/days", message: "must be at most 7" }],
+    });
+    expect(validateToolArguments(weather, ["Oslo"])).toEqual({
+      valid: false,
+      errors: [{ path: "", message: "must be an object" }],
+    });
+  });
+
+  it("only matches the schema's own properties", () => {
+    const args = JSON.parse('{"location": "Oslo", "constructor": 1, "__proto__": {"polluted": true}}');
+    const result = validateToolArguments(weather, args);
+
+    expect(result).toEqual({
+      valid: false,
+      errors: [
+        { path: "/constructor", message: "is not an allowed property" },
+        { path: "/__proto__", message: "is not an allowed property" },
+      ],
+    });
+    expect(validateToolArguments({ required: ["toString"] }, {})).toEqual({
+      valid: false,
+      errors: [{ path: "/toString", message: "is required" }],
+    });
+    expect(validateToolArguments({}, { constructor: 1 })).toEqual({ valid: true, value: { constructor: 1 } });
+  });
+
+  it("checks string formats and alternatives", () => {
+    const schema: JsonSchema = {
+      properties: {
+        start: { type: "string", format: "date-time" },
+        contact: { anyOf: [{ type: "string", format: "email" }, { type: "null" }] },
+      },
+    };
+
+    expect(validateToolArguments(schema, { start: "2024-01-15T10:00:00Z", contact: null }).valid).toBe(true);
+    expect(validateToolArguments(schema, { start: "next tuesday", contact: "someone" })).toEqual({
+      valid: false,
+      errors: [
+        { path: "/start", message: "must be a valid date-time" },
+        { path: "/contact", message: "does not match any of the allowed shapes" },
+      ],
+    });
+  });
+
+  it("formats errors as one readable line", () => {
+    expect(
+      formatToolArgumentErrors([
+        { path: "", message: "must be an object" },
+        { path: "/location", message: "is required" },
+      ])
+    ).toBe("arguments must be an object; /location is required");
+  });
+});
+
+describe("ToolGateway", () => {
+  const policies: PolicyConfig = {
+    maxPayloadBytes: 10000,
+    maxSessionMinutes: 15,
+    allowUnconsentedStorage: false,
+    rateLimit: { sessions: { max: 10, window: 60 }, toolCalls: { max: 10, window: 60 } },
+  };
+
+  it("runs tools with coerced arguments and throws a structured error on a mismatch", async () => {
+    const tool = jest.fn(async (input: unknown) => input);
+    const gateway = new ToolGateway({ policies, allowList: ["get_weather"] });
+    gateway.register("get_weather", tool, weather);
+
+    await expect(gateway.execute("get_weather", { location: "Oslo", days: "2" })).resolves.toEqual({
+      location: "Oslo",
+      units: "celsius",
+      days: 2,
+    });
+
+    const error = await gateway.execute("get_weather", { days: 0 }).catch((caught: unknown) => caught);
+    expect(error).toBeInstanceOf(ToolArgumentsError);
+    expect(error).toMatchObject({
+      toolName: "get_weather",
+      errors: [
+        { path: "/days", message: "must be at least 1" },
+        { path: "/location", message: "is required" },
+      ],
+      message: "Invalid arguments for tool 'get_weather': /days must be at least 1; /location is required",
+    });
+    expect(tool).toHaveBeenCalledTimes(1);
+  });
+
+  it("passes input through unchanged for tools registered without parameters", async () => {
+    const gateway = new ToolGateway({ policies, allowList: ["echo"] });
+    gateway.register("echo", async (input) => input);
+
+    await expect(gateway.execute("echo", { anything: "1" })).resolves.toEqual({ anything: "1" });
+    expect(gateway.registry.get("echo")?.parameters).toEqual({});
+  });
+});
+
+describe("validateToolCall", () => {
+  it("returns validation errors alongside a readable message", () => {
+    expect(validateToolCall({ id: "call_1", name: "get_weather", args: {} }, weather)).toEqual({
+      valid: false,
+      error: "Invalid arguments: /location is required",
+      validationErrors: [{ path: "/location", message: "is required" }],
+    });
+    expect(validateToolCall({ id: "call_1", name: "get_weather", args: { location: "Oslo" } }, weather)).toEqual({
+      valid: true,
+    });
+  });
+});
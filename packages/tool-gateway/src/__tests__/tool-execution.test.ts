@@ -0,0 +1,142 @@
+import { PolicyConfig } from "@thrivereflections/realtime-contracts";
+import { ToolGateway, ToolGatewayConfig } from "../gateway";
+import { ToolCircuitBreaker, ToolCircuitBreakerConfig, ToolCircuitBreakers } from "../tool-execution";
+import { ToolDefinition, ToolRegistry } from "../tool-registry";
+
+const policies: PolicyConfig = {
+  maxPayloadBytes: 10000,
+  maxSessionMinutes: 15,
+  allowUnconsentedStorage: false,
+  rateLimit: { sessions: { max: 10, window: 60 }, toolCalls: { max: 10, window: 60 } },
+};
+
+/** Opens after `failureThreshold` failures in a row and then refuses every call */
+class FakeBreaker implements ToolCircuitBreaker {
+  private failures = 0;
+
+  constructor(readonly config: ToolCircuitBreakerConfig) {}
+
+  async execute<T>(operation: () => Promise<T>): Promise<T> {
+    if (this.getState() === "OPEN") {
+      throw new Error("Circuit breaker is OPEN");
+    }
+    try {
+      const result = await operation();
+      this.failures = 0;
+      return result;
+    } catch (error) {
+      this.failures++;
+      throw error;
+    }
+  }
+
+  getState() {
+    return this.failures >= this.config.failureThreshold ? ("OPEN" as const) : ("CLOSED" as const);
+  }
+}
+
+class FakeBreakers implements ToolCircuitBreakers {
+  readonly breakers = new Map<string, FakeBreaker>();
+
+  getBreaker(name: string) {
+    return this.breakers.get(name);
+  }
+
+  createBreaker({ name, config }: { name: string; config: ToolCircuitBreakerConfig }) {
+    const breaker = new FakeBreaker(config);
+    this.breakers.set(name, breaker);
+    return breaker;
+  }
+}
+
+function createGateway(tool: Partial<ToolDefinition>, config: Partial<ToolGatewayConfig> = {}) {
+  const registry = new ToolRegistry([
+    {
+      name: "lookup",
+      description: "Look something up",
+      parameters: { type: "object", properties: { q: { type: "string" } } },
+      handler: async () => "found",
+      ...tool,
+    },
+  ]);
+  return new ToolGateway({ policies, allowList: ["lookup"], registry, retry: { backoffMs: 1 }, ...config });
+}
+
+describe("ToolGateway execution policies", () => {
+  it("aborts an attempt that runs past the tool's timeout", async () => {
+    let signal: AbortSignal | undefined;
+    const gateway = createGateway({
+      timeoutMs: 20,
+      handler: (_args, context) => {
+        signal = context.signal;
+        return new Promise(() => undefined);
+      },
+    });
+
+    await expect(gateway.executeToolCall({ id: "call_1", name: "lookup", args: {} })).resolves.toEqual({
+      id: "call_1",
+      ok: false,
+      error: "Tool 'lookup' timed out after 20ms",
+      errorCode: "timeout",
+    });
+    expect(signal?.aborted).toBe(true);
+  });
+
+  it("retries idempotent tools with the same idempotency key", async () => {
+    const handler = jest.fn().mockRejectedValueOnce(new Error("Upstream unavailable")).mockResolvedValueOnce("found");
+    const gateway = createGateway({ idempotent: true, handler });
+
+    await expect(gateway.executeToolCall({ id: "call_1", name: "lookup", args: {} })).resolves.toEqual({
+      id: "call_1",
+      ok: true,
+      result: "found",
+    });
+    expect(handler).toHaveBeenCalledTimes(2);
+    expect(handler.mock.calls.map(([, context]) => context.idempotencyKey)).toEqual(["call_1", "call_1"]);
+  });
+
+  it("runs other tools once", async () => {
+    const handler = jest.fn().mockRejectedValue(new Error("Upstream unavailable"));
+    const gateway = createGateway({ handler }, { retry: { maxAttempts: 3, backoffMs: 1 } });
+
+    await expect(gateway.execute("lookup", {})).rejects.toThrow("Upstream unavailable");
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it("fails fast once the tool's circuit breaker opens", async () => {
+    const breakers = new FakeBreakers();
+    const handler = jest.fn().mockRejectedValue(new Error("Upstream unavailable"));
+    const gateway = createGateway({ timeoutMs: 1000, handler }, { breakers, circuitBreaker: { failureThreshold: 2 } });
+
+    await expect(gateway.execute("lookup", {})).rejects.toThrow("Upstream unavailable");
+    await expect(gateway.execute("lookup", {})).rejects.toThrow("Upstream unavailable");
+    await expect(gateway.executeToolCall({ id: "call_3", name: "lookup", args: {} })).resolves.toEqual({
+      id: "call_3",
+      ok: false,
+      error: "Tool 'lookup' is temporarily unavailable after repeated failures",
+      errorCode: "circuit_open",
+    });
+    expect(handler).toHaveBeenCalledTimes(2);
+    expect(breakers.breakers.get("tool:lookup")?.config).toMatchObject({ failureThreshold: 2, requestTimeout: 2000 });
+  });
+
+  it("reports every outcome to the metrics and SLO sinks", async () => {
+    const metrics = { recordToolExecution: jest.fn() };
+    const slo = { recordToolExecution: jest.fn() };
+    const handler = jest.fn().mockResolvedValueOnce("found").mockRejectedValueOnce(new Error("Upstream unavailable"));
+    const gateway = createGateway({ handler }, { metrics, slo });
+
+    await gateway.execute("lookup", {}, { sessionId: "s1" });
+    await expect(gateway.execute("lookup", {})).rejects.toThrow("Upstream unavailable");
+    await expect(gateway.execute("lookup", { q: {} })).rejects.toThrow("Invalid arguments");
+
+    expect(metrics.recordToolExecution.mock.calls).toEqual([
+      ["s1", "lookup", expect.any(Number), true],
+      ["unknown", "lookup", expect.any(Number), false],
+    ]);
+    expect(slo.recordToolExecution.mock.calls).toEqual([
+      [expect.any(Number), true],
+      [expect.any(Number), false],
+    ]);
+  });
+});
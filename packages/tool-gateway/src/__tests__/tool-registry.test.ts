@@ -0,0 +1,118 @@
+import { PolicyConfig } from "@thrivereflections/realtime-contracts";
+import { ToolGateway } from "../gateway";
+import { executeToolCall, toolRegistry } from "../handlers";
+import { namespacedToolName, ToolDefinition, ToolRegistry } from "../tool-registry";
+
+const policies: PolicyConfig = {
+  maxPayloadBytes: 10000,
+  maxSessionMinutes: 15,
+  allowUnconsentedStorage: false,
+  rateLimit: { sessions: { max: 10, window: 60 }, toolCalls: { max: 10, window: 60 } },
+};
+
+const logger = { info: () => undefined, warn: () => undefined, error: () => undefined };
+
+function createNoteTool(handler: ToolDefinition["handler"] = async (args) => ({ saved: args.text })): ToolDefinition {
+  return {
+    name: "save_note",
+    description: "Save a note",
+    parameters: {
+      type: "object",
+      properties: { text: { type: "string", minLength: 1 } },
+      required: ["text"],
+    },
+    version: "2.1.0",
+    timeoutMs: 5000,
+    scopes: ["notes:write"],
+    handler,
+  };
+}
+
+describe("ToolRegistry", () => {
+  it("generates model function definitions in the requested order", () => {
+    const registry = new ToolRegistry([createNoteTool(), { ...createNoteTool(), name: "read_note" }]);
+
+    expect(registry.toFunctionTools(["read_note", "missing", "save_note"]).map((tool) => tool.name)).toEqual([
+      "read_note",
+      "save_note",
+    ]);
+    expect(registry.toFunctionTools()[0]).toEqual({
+      type: "function",
+      name: "save_note",
+      description: "Save a note",
+      parameters: createNoteTool().parameters,
+    });
+  });
+
+  it("checks scopes and arguments before running the handler", async () => {
+    const handler = jest.fn(async () => "ok");
+    const registry = new ToolRegistry([createNoteTool(handler)]);
+
+    await expect(registry.invoke("save_note", { text: "hi" })).rejects.toThrow(
+      "Tool 'save_note' requires scope(s): notes:write"
+    );
+    await expect(registry.invoke("save_note", { text: "" }, { scopes: ["notes:write"] })).rejects.toThrow(
+      "Invalid arguments for tool 'save_note': /text must be at least 1 character(s) long"
+    );
+    await expect(registry.invoke("save_note", { text: 7 }, { userId: "u1", scopes: ["notes:write"] })).resolves.toBe(
+      "ok"
+    );
+    expect(handler).toHaveBeenCalledWith({ text: "7" }, { userId: "u1", scopes: ["notes:write"] });
+    await expect(registry.invoke("unknown", {})).rejects.toThrow("Tool 'unknown' not registered");
+  });
+
+  it("ships the built-in tools in the shared registry", () => {
+    expect(toolRegistry.getNames()).toEqual(["echo", "retrieve_docs"]);
+  });
+
+  it("turns namespaced names into function names the model accepts", () => {
+    expect(namespacedToolName("github", "create.issue")).toBe("github__create_issue");
+    expect(namespacedToolName(undefined, "get pets")).toBe("get_pets");
+    expect(namespacedToolName("a", "b".repeat(100))).toHaveLength(64);
+  });
+});
+
+describe("ToolGateway with a registry", () => {
+  it("answers tool calls with responses carrying results or validation errors", async () => {
+    const registry = new ToolRegistry([createNoteTool()]);
+    const gateway = new ToolGateway({ policies, allowList: ["save_note"], registry });
+
+    expect(gateway.getToolDefinitions().map((tool) => tool.name)).toEqual(["save_note"]);
+    await expect(
+      gateway.executeToolCall({ id: "call_1", name: "save_note", args: { text: "hi" } }, { scopes: ["notes:write"] })
+    ).resolves.toEqual({ id: "call_1", ok: true, result: { saved: "hi" } });
+    await expect(
+      gateway.executeToolCall({ id: "call_2", name: "save_note", args: {} }, { scopes: ["notes:write"] })
+    ).resolves.toEqual({
+      id: "call_2",
+      ok: false,
+      error: "Invalid arguments for tool 'save_note': /text is required",
+      errorCode: "invalid_arguments",
+      validationErrors: [{ path: "/text", message: "is required" }],
+    });
+    await expect(gateway.executeToolCall({ id: "call_3", name: "echo", args: {} })).resolves.toEqual({
+      id: "call_3",
+      ok: false,
+      error: "Tool 'echo' not in allowlist",
+    });
+  });
+});
+
+describe("executeToolCall", () => {
+  it("runs tools from the given registry with the caller's context", async () => {
+    const handler = jest.fn(async () => "saved");
+    const registry = new ToolRegistry([createNoteTool(handler)]);
+    const call = { id: "call_1", name: "save_note", args: { text: "hi" }, user: { sub: "u1", tenant: "t1" } };
+
+    await expect(
+      executeToolCall(call, ["save_note"], "allow_list", logger, { registry, context: { scopes: ["notes:write"] } })
+    ).resolves.toEqual({ id: "call_1", ok: true, result: "saved" });
+    expect(handler).toHaveBeenCalledWith({ text: "hi" }, { userId: "u1", tenant: "t1", scopes: ["notes:write"] });
+
+    await expect(executeToolCall(call, ["save_note"], "allow_list", logger, { registry })).resolves.toEqual({
+      id: "call_1",
+      ok: false,
+      error: "Tool execution failed: Tool 'save_note' requires scope(s): notes:write",
+    });
+  });
+});
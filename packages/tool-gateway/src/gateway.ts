@@ -1,15 +1,51 @@
-import { PolicyConfig } from "@thrivereflections/realtime-contracts";
+import { PolicyConfig, RealtimeFunctionTool, ToolCall, ToolCallResponse } from "@thrivereflections/realtime-contracts";
+import { JsonSchema } from "./schema";
+import {
+  DEFAULT_TOOL_CIRCUIT_BREAKER,
+  DEFAULT_TOOL_RETRY_POLICY,
+  DEFAULT_TOOL_TIMEOUT_MS,
+  delay,
+  ToolCircuitBreaker,
+  ToolCircuitBreakerConfig,
+  ToolCircuitBreakers,
+  ToolError,
+  ToolExecutionError,
+  ToolExecutionMetrics,
+  ToolExecutionSlo,
+  ToolRetryPolicy,
+  withDeadline,
+} from "./tool-execution";
+import { DEFAULT_TOOL_VERSION, ToolArgumentsError, ToolDefinition, ToolRegistry } from "./tool-registry";
 
 export type Tool = (input: unknown, context?: ToolContext) => Promise<unknown>;
 
 export interface ToolContext {
   userId?: string;
+  tenant?: string;
   sessionId?: string;
+  /** Scopes granted to the caller, checked against `ToolDefinition.scopes` */
+  scopes?: string[];
+  /** The same for every attempt of one call; `executeToolCall` uses the tool call id */
+  idempotencyKey?: string;
+  /** Aborted when an attempt runs past its deadline */
+  signal?: AbortSignal;
 }
 
 export interface ToolGatewayConfig {
   policies: PolicyConfig;
   allowList: string[];
+  /** Defaults to a new, empty registry */
+  registry?: ToolRegistry;
+  /** Deadline per attempt for tools without `timeoutMs` (default 10 s) */
+  defaultTimeoutMs?: number;
+  /** Retry policy for idempotent tools (default 2 attempts, 200 ms backoff) */
+  retry?: Partial<ToolRetryPolicy>;
+  /** Where each tool's circuit breaker is created, e.g. `circuitBreakerManager`; no breakers without it */
+  breakers?: ToolCircuitBreakers;
+  circuitBreaker?: Partial<Omit<ToolCircuitBreakerConfig, "requestTimeout">>;
+  /** Receive every outcome, e.g. `metricsCollector` and `sloTracker` from realtime-sre */
+  metrics?: ToolExecutionMetrics;
+  slo?: ToolExecutionSlo;
   logger?: {
     info: (message: string, meta?: Record<string, unknown>) => void;
     warn: (message: string, meta?: Record<string, unknown>) => void;
@@ -18,12 +54,31 @@ export interface ToolGatewayConfig {
 }
 
 export class ToolGateway {
-  private tools = new Map<string, Tool>();
+  /** The tools this gateway runs; shared with `executeToolCall` when passed in the config */
+  readonly registry: ToolRegistry;
 
-  constructor(private config: ToolGatewayConfig) {}
+  constructor(private config: ToolGatewayConfig) {
+    this.registry = config.registry ?? new ToolRegistry();
+  }
 
-  register(name: string, tool: Tool): void {
-    this.tools.set(name, tool);
+  /**
+   * Register a tool with its definition, or as a bare function. A bare
+   * function with `parameters`, the JSON Schema the model is given for it,
+   * has its input validated and coerced before it runs.
+   */
+  register(tool: ToolDefinition): void;
+  register(name: string, tool: Tool, parameters?: JsonSchema): void;
+  register(nameOrTool: string | ToolDefinition, tool?: Tool, parameters?: JsonSchema): void {
+    if (typeof nameOrTool !== "string") {
+      this.registry.register(nameOrTool);
+      return;
+    }
+    this.registry.register({
+      name: nameOrTool,
+      description: "",
+      parameters: parameters ?? {},
+      handler: tool as Tool,
+    });
   }
 
   async execute(name: string, input: unknown, context?: ToolContext): Promise<unknown> {
@@ -33,7 +88,7 @@ export class ToolGateway {
       throw new Error(error);
     }
 
-    const tool = this.tools.get(name);
+    const tool = this.registry.get(name);
     if (!tool) {
       const error = `Tool '${name}' not registered`;
       this.config.logger?.warn(error, { toolName: name, context });
@@ -48,27 +103,173 @@ export class ToolGateway {
       throw new Error(error);
     }
 
-    this.config.logger?.info(`Executing tool: ${name}`, { toolName: name, context });
+    let args: Record<string, unknown>;
+    try {
+      ({ args } = this.registry.prepare(name, input, context));
+    } catch (error) {
+      const meta = error instanceof ToolArgumentsError ? { errors: error.errors } : {};
+      this.config.logger?.warn(error instanceof Error ? error.message : "Tool call rejected", {
+        toolName: name,
+        ...meta,
+        context,
+      });
+      throw error;
+    }
+
+    const version = tool.version ?? DEFAULT_TOOL_VERSION;
+    this.config.logger?.info(`Executing tool: ${name}`, { toolName: name, version, context });
 
+    const startedAt = Date.now();
     try {
-      const result = await tool(input, context);
-      this.config.logger?.info(`Tool executed successfully: ${name}`, { toolName: name, context });
+      const result = await this.runWithRetries(tool, args, context ?? {});
+      this.recordOutcome(name, context, Date.now() - startedAt, true);
+      this.config.logger?.info(`Tool executed successfully: ${name}`, { toolName: name, version, context });
       return result;
     } catch (error) {
+      this.recordOutcome(name, context, Date.now() - startedAt, false);
       this.config.logger?.error(`Tool execution failed: ${name}`, {
         toolName: name,
+        version,
         context,
+        code: error instanceof ToolError ? error.code : undefined,
         error: error instanceof Error ? error.message : "Unknown error",
       });
       throw error;
     }
   }
 
+  /**
+   * Run a tool call from the model and describe the outcome as a
+   * `ToolCallResponse` instead of throwing; invalid arguments come back as
+   * `validationErrors` the model can correct.
+   */
+  async executeToolCall(toolCall: ToolCall, context?: ToolContext): Promise<ToolCallResponse> {
+    try {
+      const result = await this.execute(toolCall.name, toolCall.args, {
+        userId: toolCall.user?.sub,
+        tenant: toolCall.user?.tenant,
+        idempotencyKey: toolCall.id,
+        ...context,
+      });
+      return { id: toolCall.id, ok: true, result };
+    } catch (error) {
+      if (error instanceof ToolArgumentsError) {
+        return {
+          id: toolCall.id,
+          ok: false,
+          error: error.message,
+          errorCode: "invalid_arguments",
+          validationErrors: error.errors,
+        };
+      }
+      if (error instanceof ToolError) {
+        return { id: toolCall.id, ok: false, error: error.message, errorCode: error.code };
+      }
+      return { id: toolCall.id, ok: false, error: error instanceof Error ? error.message : "Unknown error" };
+    }
+  }
+
   hasTools(): boolean {
-    return this.tools.size > 0;
+    return this.registry.getNames().length > 0;
   }
 
   getToolNames(): string[] {
-    return Array.from(this.tools.keys());
+    return this.registry.getNames();
+  }
+
+  /** Function definitions for the model: the registered tools this gateway allows */
+  getToolDefinitions(): RealtimeFunctionTool[] {
+    return this.registry.toFunctionTools(this.config.allowList);
+  }
+
+  /** Attempts allowed by the retry policy; non-idempotent tools run once */
+  private async runWithRetries(tool: ToolDefinition, args: Record<string, unknown>, context: ToolContext) {
+    const retry = tool.idempotent
+      ? { ...DEFAULT_TOOL_RETRY_POLICY, ...this.config.retry, ...tool.retry }
+      : { ...DEFAULT_TOOL_RETRY_POLICY, maxAttempts: 1 };
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.runAttempt(tool, args, context, attempt);
+      } catch (error) {
+        // Neither an open breaker nor rejected arguments get better by trying again
+        const final =
+          error instanceof ToolError && (error.code === "circuit_open" || error.code === "invalid_arguments");
+        if (final || attempt >= retry.maxAttempts) {
+          throw error;
+        }
+
+        const waitMs = retry.backoffMs * 2 ** (attempt - 1);
+        this.config.logger?.warn(`Retrying tool: ${tool.name}`, {
+          toolName: tool.name,
+          attempt,
+          waitMs,
+          error: error instanceof Error ? error.message : "Unknown error",
+        });
+        await delay(waitMs);
+      }
+    }
+  }
+
+  /** One attempt with a deadline, through the tool's circuit breaker when there are breakers */
+  private async runAttempt(tool: ToolDefinition, args: Record<string, unknown>, context: ToolContext, attempt: number) {
+    const timeoutMs = tool.timeoutMs ?? this.config.defaultTimeoutMs ?? DEFAULT_TOOL_TIMEOUT_MS;
+    let started = false;
+    const run = () => {
+      started = true;
+      return withDeadline(
+        (signal) => tool.handler(args, { ...context, signal }),
+        timeoutMs,
+        () =>
+          new ToolExecutionError(tool.name, "timeout", `Tool '${tool.name}' timed out after ${timeoutMs}ms`, attempt)
+      );
+    };
+
+    const breaker = this.getBreaker(tool.name, timeoutMs);
+    if (!breaker) {
+      return run();
+    }
+
+    try {
+      return await breaker.execute(run);
+    } catch (error) {
+      if (!started) {
+        // Refused by the breaker without running the tool
+        throw new ToolExecutionError(
+          tool.name,
+          "circuit_open",
+          `Tool '${tool.name}' is temporarily unavailable after repeated failures`,
+          attempt
+        );
+      }
+      throw error;
+    }
+  }
+
+  /** The tool's breaker, created on first use so every gateway sharing `breakers` shares it */
+  private getBreaker(toolName: string, timeoutMs: number): ToolCircuitBreaker | undefined {
+    const breakers = this.config.breakers;
+    if (!breakers) {
+      return undefined;
+    }
+
+    const name = `tool:${toolName}`;
+    return (
+      breakers.getBreaker(name) ??
+      breakers.createBreaker({
+        name,
+        config: {
+          ...DEFAULT_TOOL_CIRCUIT_BREAKER,
+          ...this.config.circuitBreaker,
+          // The breaker's own deadline is a backstop; the gateway's fires first
+          requestTimeout: timeoutMs + 1000,
+        },
+      })
+    );
+  }
+
+  private recordOutcome(toolName: string, context: ToolContext | undefined, durationMs: number, success: boolean) {
+    this.config.metrics?.recordToolExecution(context?.sessionId ?? "unknown", toolName, durationMs, success);
+    this.config.slo?.recordToolExecution(durationMs, success);
   }
 }
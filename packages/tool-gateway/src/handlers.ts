@@ -1,34 +1,18 @@
-import { ToolCall, ToolCallResponse } from "@thrivereflections/realtime-contracts";
-
-export interface ToolHandler {
-  (args: Record<string, unknown>, user?: { sub?: string; tenant?: string }): Promise<unknown>;
-}
-
-export interface ToolRegistry {
-  [toolName: string]: ToolHandler;
-}
-
-// Echo tool implementation
-export async function echoTool(
-  args: Record<string, unknown>,
-  user?: { sub?: string; tenant?: string }
-): Promise<unknown> {
-  // Simply return the input arguments
-  return {
-    originalArgs: args,
-    timestamp: new Date().toISOString(),
-    user: user?.sub || "anonymous",
-  };
-}
-
-// Tool registry mapping tool names to handlers
-export const toolRegistry: ToolRegistry = {
-  echo: echoTool,
-  // Add more tools here as they are implemented
-};
-
-// Validate tool call arguments
-export function validateToolCall(toolCall: ToolCall): { valid: boolean; error?: string } {
+import { ToolArgumentError, ToolCall, ToolCallResponse } from "@thrivereflections/realtime-contracts";
+import type { ToolContext } from "./gateway";
+import { formatToolArgumentErrors, JsonSchema, validateToolArguments } from "./schema";
+import { ToolArgumentsError, ToolRegistry } from "./tool-registry";
+import { echoToolDefinition } from "./tools/echo";
+import { retrieveToolDefinition } from "./tools/retrieve";
+
+// Shared registry with the built-in tools; applications register their own tools here too
+export const toolRegistry = new ToolRegistry([echoToolDefinition, retrieveToolDefinition]);
+
+// Validate tool call arguments, against the tool's JSON Schema when given
+export function validateToolCall(
+  toolCall: ToolCall,
+  parameters?: JsonSchema
+): { valid: boolean; error?: string; validationErrors?: ToolArgumentError[] } {
   if (!toolCall.id || typeof toolCall.id !== "string") {
     return { valid: false, error: "Missing or invalid tool call ID" };
   }
@@ -41,6 +25,17 @@ export function validateToolCall(toolCall: ToolCall): { valid: boolean; error?:
     return { valid: false, error: "Missing or invalid tool arguments" };
   }
 
+  if (parameters) {
+    const validation = validateToolArguments(parameters, toolCall.args);
+    if (!validation.valid) {
+      return {
+        valid: false,
+        error: `Invalid arguments: ${formatToolArgumentErrors(validation.errors)}`,
+        validationErrors: validation.errors,
+      };
+    }
+  }
+
   return { valid: true };
 }
 
@@ -61,7 +56,7 @@ export function isToolAllowed(
   return false;
 }
 
-// Execute a tool call
+// Execute a tool call through a registry, the shared one unless given
 export async function executeToolCall(
   toolCall: ToolCall,
   allowedTools: string[],
@@ -70,8 +65,10 @@ export async function executeToolCall(
     info: (message: string, meta?: Record<string, unknown>) => void;
     warn: (message: string, meta?: Record<string, unknown>) => void;
     error: (message: string, meta?: Record<string, unknown>) => void;
-  }
+  },
+  options: { registry?: ToolRegistry; context?: ToolContext } = {}
 ): Promise<ToolCallResponse> {
+  const registry = options.registry ?? toolRegistry;
   const { id, name, args, user } = toolCall;
 
   try {
@@ -83,6 +80,7 @@ export async function executeToolCall(
         id,
         ok: false,
         error: validation.error,
+        validationErrors: validation.validationErrors,
       };
     }
 
@@ -97,8 +95,8 @@ export async function executeToolCall(
     }
 
     // Check if tool handler exists
-    const handler = toolRegistry[name];
-    if (!handler) {
+    const tool = registry.get(name);
+    if (!tool) {
       logger.error("Tool handler not found", { toolName: name });
       return {
         id,
@@ -108,8 +106,8 @@ export async function executeToolCall(
     }
 
     // Execute the tool
-    logger.info("Executing tool call", { toolName: name, toolId: id });
-    const result = await handler(args, user);
+    logger.info("Executing tool call", { toolName: name, toolId: id, version: tool.version });
+    const result = await registry.invoke(name, args, { userId: user?.sub, tenant: user?.tenant, ...options.context });
 
     logger.info("Tool call completed successfully", { toolName: name, toolId: id });
     return {
@@ -118,6 +116,11 @@ export async function executeToolCall(
       result,
     };
   } catch (error) {
+    if (error instanceof ToolArgumentsError) {
+      logger.warn("Invalid tool arguments", { toolName: name, toolId: id, errors: error.errors });
+      return { id, ok: false, error: error.message, validationErrors: error.errors };
+    }
+
     const errorMessage = error instanceof Error ? error.message : "Unknown error";
     logger.error("Tool execution failed", {
       toolName: name,
@@ -2,9 +2,82 @@
 export { ToolGateway } from "./gateway";
 export type { Tool, ToolContext, ToolGatewayConfig } from "./gateway";
 
+// Registry
+export {
+  ToolRegistry,
+  ToolArgumentsError,
+  DEFAULT_TOOL_VERSION,
+  TOOL_NAMESPACE_SEPARATOR,
+  namespacedToolName,
+} from "./tool-registry";
+export type { ToolDefinition, ToolHandler } from "./tool-registry";
+
+// Timeouts, retries and circuit breakers
+export {
+  ToolError,
+  ToolExecutionError,
+  DEFAULT_TOOL_TIMEOUT_MS,
+  DEFAULT_TOOL_RETRY_POLICY,
+  DEFAULT_TOOL_CIRCUIT_BREAKER,
+} from "./tool-execution";
+export type {
+  ToolRetryPolicy,
+  ToolCircuitBreaker,
+  ToolCircuitBreakerConfig,
+  ToolCircuitBreakers,
+  ToolExecutionMetrics,
+  ToolExecutionSlo,
+} from "./tool-execution";
+
+// MCP servers (the stdio transport is in the `/node` entry point)
+export { McpClient, McpError, MCP_PROTOCOL_VERSION } from "./mcp-client";
+export type {
+  McpClientOptions,
+  McpTransport,
+  McpTransportConnectOptions,
+  McpTool,
+  McpToolAnnotations,
+  McpContent,
+  McpCallToolResult,
+  JsonRpcId,
+  JsonRpcMessage,
+  JsonRpcRequest,
+  JsonRpcNotification,
+  JsonRpcResponse,
+} from "./mcp-client";
+export { createHttpMcpTransport } from "./mcp-http-transport";
+export type { HttpMcpTransportOptions } from "./mcp-http-transport";
+export {
+  McpToolAdapter,
+  mcpToolName,
+  MCP_TOOL_NAME_SEPARATOR,
+  DEFAULT_MCP_RECONNECT_OPTIONS,
+} from "./mcp-tool-adapter";
+export type { McpToolAdapterOptions, McpReconnectOptions } from "./mcp-tool-adapter";
+
+// OpenAPI backends
+export { createOpenApiTools, OpenApiToolError } from "./openapi-tools";
+export type {
+  OpenApiToolsOptions,
+  SecretsProvider,
+  OpenApiDocument,
+  OpenApiPathItem,
+  OpenApiOperation,
+  OpenApiMethod,
+  OpenApiParameter,
+  OpenApiRequestBody,
+  OpenApiReference,
+  OpenApiSecurityRequirement,
+  OpenApiSecurityScheme,
+} from "./openapi-tools";
+
+// Argument validation
+export { validateToolArguments, formatToolArgumentErrors } from "./schema";
+export type { JsonSchema, JsonSchemaType, ToolArgumentsValidation } from "./schema";
+
 // Tools
-export { echoTool } from "./tools/echo";
-export { retrieveTool } from "./tools/retrieve";
+export { echoTool, echoToolDefinition } from "./tools/echo";
+export { retrieveTool, retrieveToolDefinition } from "./tools/retrieve";
 
 // Handlers
 export { 
@@ -13,7 +86,6 @@ export {
   isToolAllowed, 
   executeToolCall 
 } from "./handlers";
-export type { ToolHandler, ToolRegistry } from "./handlers";
 
 // Retrieve handler
 export { handleRetrieve, formatSearchResults } from "./handlers/retrieve";
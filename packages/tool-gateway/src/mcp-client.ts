@@ -0,0 +1,271 @@
+/**
+ * MCP Client
+ *
+ * A small Model Context Protocol client: the initialize handshake, tool
+ * discovery and tool calls, as JSON-RPC over any `McpTransport`. The
+ * streamable HTTP transport is edge-safe; the stdio one needs Node and is
+ * exported from the package's `/node` entry point.
+ */
+
+import { JsonSchema } from "./schema";
+
+export const MCP_PROTOCOL_VERSION = "2025-06-18";
+
+export type JsonRpcId = string | number;
+
+export interface JsonRpcRequest {
+  jsonrpc: "2.0";
+  id: JsonRpcId;
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+export interface JsonRpcNotification {
+  jsonrpc: "2.0";
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+export interface JsonRpcResponse {
+  jsonrpc: "2.0";
+  id: JsonRpcId;
+  result?: unknown;
+  error?: { code: number; message: string; data?: unknown };
+}
+
+export type JsonRpcMessage = JsonRpcRequest | JsonRpcNotification | JsonRpcResponse;
+
+export interface McpTransportConnectOptions {
+  onMessage: (message: JsonRpcMessage) => void;
+  /** Called when the connection ends without `close()`, e.g. the server exited or lost the session */
+  onClose: (reason: string) => void;
+}
+
+export interface McpTransport {
+  connect(opts: McpTransportConnectOptions): Promise<void>;
+  send(message: JsonRpcMessage): Promise<void>;
+  close(): Promise<void>;
+  /** Told the protocol version agreed in the handshake, for transports that send it along */
+  setProtocolVersion?(version: string): void;
+}
+
+/** Hints from the server; not to be trusted for anything but convenience */
+export interface McpToolAnnotations {
+  title?: string;
+  readOnlyHint?: boolean;
+  destructiveHint?: boolean;
+  idempotentHint?: boolean;
+  openWorldHint?: boolean;
+}
+
+export interface McpTool {
+  name: string;
+  title?: string;
+  description?: string;
+  inputSchema: JsonSchema;
+  annotations?: McpToolAnnotations;
+}
+
+export type McpContent = { type: "text"; text: string } | { type: string; [key: string]: unknown };
+
+export interface McpCallToolResult {
+  content: McpContent[];
+  structuredContent?: Record<string, unknown>;
+  isError?: boolean;
+}
+
+export interface McpClientOptions {
+  transport: McpTransport;
+  clientInfo?: { name: string; version: string };
+  /** Longest to wait for any response, in milliseconds (default 30 s) */
+  requestTimeoutMs?: number;
+  /** Notifications from the server, e.g. `notifications/tools/list_changed` */
+  onNotification?: (notification: JsonRpcNotification) => void;
+  /** The connection ended without `close()` */
+  onClose?: (reason: string) => void;
+}
+
+/** A JSON-RPC error from the server, or a request that got no answer */
+export class McpError extends Error {
+  constructor(message: string, readonly code?: number, readonly data?: unknown) {
+    super(message);
+    this.name = "McpError";
+  }
+}
+
+const DEFAULT_REQUEST_TIMEOUT_MS = 30000;
+/** A server offering more pages than this is looping or hostile */
+const MAX_TOOL_LIST_PAGES = 100;
+const METHOD_NOT_FOUND = -32601;
+
+interface PendingRequest {
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+}
+
+export class McpClient {
+  private nextId = 1;
+  private pending = new Map<JsonRpcId, PendingRequest>();
+  private connected = false;
+
+  /** From the server's answer to `initialize` */
+  serverInfo?: { name: string; version: string };
+  serverCapabilities: Record<string, unknown> = {};
+
+  constructor(private options: McpClientOptions) {}
+
+  get isConnected(): boolean {
+    return this.connected;
+  }
+
+  /** Open the transport and run the initialize handshake */
+  async connect(): Promise<void> {
+    const { transport } = this.options;
+    await transport.connect({
+      onMessage: (message) => this.handleMessage(message),
+      onClose: (reason) => this.handleClose(reason),
+    });
+
+    try {
+      const result = (await this.request("initialize", {
+        protocolVersion: MCP_PROTOCOL_VERSION,
+        capabilities: {},
+        clientInfo: this.options.clientInfo ?? { name: "realtime-tool-gateway", version: "1.0.0" },
+      })) as {
+        protocolVersion: string;
+        capabilities?: Record<string, unknown>;
+        serverInfo?: { name: string; version: string };
+      };
+
+      this.serverInfo = result.serverInfo;
+      this.serverCapabilities = result.capabilities ?? {};
+      transport.setProtocolVersion?.(result.protocolVersion);
+      await transport.send({ jsonrpc: "2.0", method: "notifications/initialized" });
+      this.connected = true;
+    } catch (error) {
+      await transport.close().catch(() => undefined);
+      throw error;
+    }
+  }
+
+  /** Every tool the server offers, following `nextCursor` through the pages */
+  async listTools(): Promise<McpTool[]> {
+    const tools: McpTool[] = [];
+    const cursors = new Set<string>();
+    let cursor: string | undefined;
+    do {
+      if (cursor !== undefined) {
+        if (cursors.has(cursor)) {
+          throw new McpError(`tools/list returned cursor '${cursor}' twice`);
+        }
+        if (cursors.size >= MAX_TOOL_LIST_PAGES - 1) {
+          throw new McpError(`tools/list returned more than ${MAX_TOOL_LIST_PAGES} pages`);
+        }
+        cursors.add(cursor);
+      }
+      const page = (await this.request("tools/list", cursor ? { cursor } : {})) as {
+        tools: McpTool[];
+        nextCursor?: string;
+      };
+      tools.push(...page.tools);
+      cursor = page.nextCursor;
+    } while (cursor);
+    return tools;
+  }
+
+  /** Call a tool; aborting `signal` cancels the request on the server */
+  async callTool(name: string, args: Record<string, unknown>, signal?: AbortSignal): Promise<McpCallToolResult> {
+    return (await this.request("tools/call", { name, arguments: args }, signal)) as McpCallToolResult;
+  }
+
+  async close(): Promise<void> {
+    this.connected = false;
+    this.rejectPending(new McpError("MCP client closed"));
+    await this.options.transport.close();
+  }
+
+  private request(method: string, params: Record<string, unknown>, signal?: AbortSignal): Promise<unknown> {
+    if (signal?.aborted) {
+      return Promise.reject(signal.reason);
+    }
+
+    const id = this.nextId++;
+    const timeoutMs = this.options.requestTimeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS;
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        settle();
+        // Best effort: the server may already have answered
+        this.options.transport
+          .send({ jsonrpc: "2.0", method: "notifications/cancelled", params: { requestId: id, reason: "aborted" } })
+          .catch(() => undefined);
+        reject(signal?.reason);
+      };
+      const timer = setTimeout(() => {
+        settle();
+        reject(new McpError(`MCP request '${method}' timed out after ${timeoutMs}ms`));
+      }, timeoutMs);
+      const settle = () => {
+        clearTimeout(timer);
+        signal?.removeEventListener("abort", onAbort);
+        this.pending.delete(id);
+      };
+
+      signal?.addEventListener("abort", onAbort, { once: true });
+      this.pending.set(id, {
+        resolve: (result) => {
+          settle();
+          resolve(result);
+        },
+        reject: (error) => {
+          settle();
+          reject(error);
+        },
+      });
+
+      this.options.transport
+        .send({ jsonrpc: "2.0", id, method, params })
+        .catch((error) => this.pending.get(id)?.reject(error));
+    });
+  }
+
+  private handleMessage(message: JsonRpcMessage): void {
+    if (!("method" in message)) {
+      const request = this.pending.get(message.id);
+      if (!request) {
+        return;
+      }
+      if (message.error) {
+        request.reject(new McpError(message.error.message, message.error.code, message.error.data));
+      } else {
+        request.resolve(message.result);
+      }
+      return;
+    }
+
+    if ("id" in message) {
+      // Requests from the server: answer pings, decline the rest (sampling, roots, elicitation)
+      const reply: JsonRpcResponse =
+        message.method === "ping"
+          ? { jsonrpc: "2.0", id: message.id, result: {} }
+          : { jsonrpc: "2.0", id: message.id, error: { code: METHOD_NOT_FOUND, message: "Method not found" } };
+      this.options.transport.send(reply).catch(() => undefined);
+      return;
+    }
+
+    this.options.onNotification?.(message);
+  }
+
+  private handleClose(reason: string): void {
+    const wasConnected = this.connected;
+    this.connected = false;
+    this.rejectPending(new McpError(`MCP connection closed: ${reason}`));
+    if (wasConnected) {
+      this.options.onClose?.(reason);
+    }
+  }
+
+  private rejectPending(error: Error): void {
+    Array.from(this.pending.values()).forEach((request) => request.reject(error));
+  }
+}
@@ -0,0 +1,148 @@
+/**
+ * Streamable HTTP MCP Transport
+ *
+ * Each message is POSTed to the server's MCP endpoint; answers come back as
+ * a JSON body or as a server-sent event stream. The session id the server
+ * hands out on initialize is sent with every later request. A 404 for that
+ * session means the server restarted or dropped it, which ends the
+ * connection so the client can start over. Uses only `fetch`, so it runs on
+ * the edge.
+ */
+
+import { JsonRpcMessage, McpTransport, McpTransportConnectOptions } from "./mcp-client";
+
+export interface HttpMcpTransportOptions {
+  /** The server's MCP endpoint, e.g. "https://tools.example.com/mcp" */
+  url: string;
+  /** Sent with every request, e.g. an Authorization header */
+  headers?: Record<string, string>;
+  fetch?: typeof fetch;
+}
+
+export function createHttpMcpTransport(options: HttpMcpTransportOptions): McpTransport {
+  const fetchImpl = options.fetch ?? ((input: RequestInfo | URL, init?: RequestInit) => fetch(input, init));
+  let handlers: McpTransportConnectOptions | null = null;
+  let controller = new AbortController();
+  let sessionId: string | null = null;
+  let protocolVersion: string | null = null;
+
+  function lost(reason: string): void {
+    const current = handlers;
+    handlers = null;
+    sessionId = null;
+    current?.onClose(reason);
+  }
+
+  function headersFor(extra: Record<string, string>): Record<string, string> {
+    const headers: Record<string, string> = { ...options.headers, ...extra };
+    if (sessionId) {
+      headers["Mcp-Session-Id"] = sessionId;
+    }
+    if (protocolVersion) {
+      headers["MCP-Protocol-Version"] = protocolVersion;
+    }
+    return headers;
+  }
+
+  return {
+    async connect(opts: McpTransportConnectOptions): Promise<void> {
+      handlers = opts;
+      controller = new AbortController();
+      sessionId = null;
+      protocolVersion = null;
+    },
+
+    async send(message: JsonRpcMessage): Promise<void> {
+      const current = handlers;
+      if (!current) {
+        throw new Error("MCP transport is not connected");
+      }
+
+      let response: Response;
+      try {
+        response = await fetchImpl(options.url, {
+          method: "POST",
+          headers: headersFor({ "Content-Type": "application/json", Accept: "application/json, text/event-stream" }),
+          body: JSON.stringify(message),
+          signal: controller.signal,
+        });
+      } catch (error) {
+        if (!controller.signal.aborted) {
+          lost(`server unreachable: ${error instanceof Error ? error.message : "Unknown error"}`);
+        }
+        throw error;
+      }
+
+      if (response.status === 404 && sessionId) {
+        lost("session not found");
+        throw new Error("MCP session not found; the server may have restarted");
+      }
+      if (!response.ok) {
+        throw new Error(`MCP server responded with ${response.status}`);
+      }
+
+      sessionId = response.headers.get("mcp-session-id") ?? sessionId;
+      if (response.status === 202) {
+        return;
+      }
+
+      const contentType = response.headers.get("content-type") ?? "";
+      if (contentType.includes("text/event-stream") && response.body) {
+        await readEventStream(response.body, current.onMessage);
+      } else if (contentType.includes("application/json")) {
+        const body = (await response.json()) as JsonRpcMessage | JsonRpcMessage[];
+        (Array.isArray(body) ? body : [body]).forEach(current.onMessage);
+      }
+    },
+
+    async close(): Promise<void> {
+      const closing = sessionId;
+      handlers = null;
+      controller.abort();
+      sessionId = null;
+      if (closing) {
+        // Let the server free the session; it is fine if it already has
+        await fetchImpl(options.url, { method: "DELETE", headers: headersFor({ "Mcp-Session-Id": closing }) }).catch(
+          () => undefined
+        );
+      }
+    },
+
+    setProtocolVersion(version: string): void {
+      protocolVersion = version;
+    },
+  };
+}
+
+/** Deliver the JSON-RPC message in each event's `data` lines */
+async function readEventStream(
+  body: ReadableStream<Uint8Array>,
+  onMessage: (message: JsonRpcMessage) => void
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  const dispatch = (event: string) => {
+    const data = event
+      .split(/\r?\n/)
+      .filter((line) => line.startsWith("data:"))
+      .map((line) => line.slice(5).trimStart())
+      .join("\n");
+    if (data) {
+      onMessage(JSON.parse(data) as JsonRpcMessage);
+    }
+  };
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    buffer += decoder.decode(value, { stream: true });
+    const events = buffer.split(/\r?\n\r?\n/);
+    buffer = events.pop() ?? "";
+    events.forEach(dispatch);
+  }
+  dispatch(buffer);
+}
@@ -0,0 +1,120 @@
+/**
+ * Stdio MCP Transport (Node)
+ *
+ * Runs the MCP server as a child process and exchanges newline-delimited
+ * JSON-RPC over its stdin and stdout; the server's stderr is passed through.
+ * The process exiting ends the connection. Kept out of the main entry point
+ * so edge bundles do not pull in `child_process`.
+ */
+
+import { ChildProcess, spawn } from "child_process";
+import { JsonRpcMessage, McpTransport, McpTransportConnectOptions } from "./mcp-client";
+
+export interface StdioMcpTransportOptions {
+  command: string;
+  args?: string[];
+  /** Added to this process's environment */
+  env?: Record<string, string>;
+  cwd?: string;
+}
+
+const EXIT_GRACE_MS = 2000;
+
+export function createStdioMcpTransport(options: StdioMcpTransportOptions): McpTransport {
+  let child: ChildProcess | null = null;
+
+  return {
+    connect(opts: McpTransportConnectOptions): Promise<void> {
+      return new Promise((resolve, reject) => {
+        const proc = spawn(options.command, options.args ?? [], {
+          cwd: options.cwd,
+          env: { ...process.env, ...options.env },
+          stdio: ["pipe", "pipe", "inherit"],
+        });
+        child = proc;
+        let started = false;
+        let buffer = "";
+
+        proc.stdout?.setEncoding("utf8");
+        proc.stdout?.on("data", (chunk: string) => {
+          buffer += chunk;
+          let newline: number;
+          while ((newline = buffer.indexOf("\n")) >= 0) {
+            const line = buffer.slice(0, newline).trim();
+            buffer = buffer.slice(newline + 1);
+            if (!line) {
+              continue;
+            }
+            let message: JsonRpcMessage;
+            try {
+              message = JSON.parse(line) as JsonRpcMessage;
+            } catch {
+              // Not protocol output, e.g. a stray log line
+              continue;
+            }
+            opts.onMessage(message);
+          }
+        });
+
+        proc.once("spawn", () => {
+          started = true;
+          resolve();
+        });
+        proc.once("error", (error) => {
+          if (!started) {
+            child = null;
+            reject(error);
+          }
+        });
+        proc.once("exit", (code, signal) => {
+          if (child !== proc) {
+            return;
+          }
+          child = null;
+          opts.onClose(signal ? `server exited on ${signal}` : `server exited with code ${code}`);
+        });
+      });
+    },
+
+    async send(message: JsonRpcMessage): Promise<void> {
+      const stdin = child?.stdin;
+      if (!stdin || !stdin.writable) {
+        throw new Error("MCP server is not running");
+      }
+      await new Promise<void>((resolve, reject) =>
+        stdin.write(`${JSON.stringify(message)}\n`, (error) => (error ? reject(error) : resolve()))
+      );
+    },
+
+    async close(): Promise<void> {
+      const proc = child;
+      child = null;
+      if (!proc || proc.exitCode !== null || proc.signalCode !== null) {
+        return;
+      }
+
+      // Closing stdin asks the server to exit; escalate if it does not
+      const exited = new Promise<void>((resolve) => proc.once("exit", () => resolve()));
+      proc.stdin?.end();
+      for (const signal of ["SIGTERM", "SIGKILL"] as const) {
+        if (await exitsWithin(exited, EXIT_GRACE_MS)) {
+          return;
+        }
+        proc.kill(signal);
+      }
+      await exited;
+    },
+  };
+}
+
+async function exitsWithin(exited: Promise<void>, ms: number): Promise<boolean> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<boolean>((resolve) => {
+    timer = setTimeout(() => resolve(false), ms);
+  });
+  try {
+    return await Promise.race([exited.then(() => true), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
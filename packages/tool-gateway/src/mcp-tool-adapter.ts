@@ -0,0 +1,243 @@
+/**
+ * MCP Tool Adapter
+ *
+ * Offers an MCP server's tools through a `ToolGateway`. Discovered tools are
+ * registered as `<server>__<tool>` with the server's input schema as their
+ * parameters, and re-synced when the server says its tool list changed. When
+ * the connection drops, e.g. the server restarted, the adapter reconnects
+ * with backoff; calls made in the meantime wait for it.
+ */
+
+import { ToolGateway, ToolGatewayConfig } from "./gateway";
+import { McpCallToolResult, McpClient, McpContent, McpTool, McpTransport } from "./mcp-client";
+import { delay } from "./tool-execution";
+import { namespacedToolName, TOOL_NAMESPACE_SEPARATOR, ToolDefinition } from "./tool-registry";
+
+export const MCP_TOOL_NAME_SEPARATOR = TOOL_NAMESPACE_SEPARATOR;
+
+/** The gateway name of a server's tool, e.g. `github__create_issue` */
+export function mcpToolName(server: string, tool: string): string {
+  return namespacedToolName(server, tool);
+}
+
+export interface McpReconnectOptions {
+  maxAttempts?: number;
+  initialDelayMs?: number;
+  maxDelayMs?: number;
+}
+
+export const DEFAULT_MCP_RECONNECT_OPTIONS: Required<McpReconnectOptions> = {
+  maxAttempts: 5,
+  initialDelayMs: 500,
+  maxDelayMs: 15000,
+};
+
+export interface McpToolAdapterOptions {
+  /** The server's namespace in tool names */
+  name: string;
+  /** Called for every connection, so a restarted server gets a fresh transport */
+  createTransport: () => McpTransport;
+  gateway: ToolGateway;
+  /**
+   * Gateway names to register, e.g. `AgentConfig.allowedTools`; other tools
+   * the server offers are left out. Every tool is registered when omitted.
+   */
+  allowedTools?: string[];
+  /** Applied to every tool, e.g. the scopes a caller needs */
+  toolDefaults?: Pick<ToolDefinition, "timeoutMs" | "scopes" | "retry">;
+  requestTimeoutMs?: number;
+  reconnect?: McpReconnectOptions;
+  logger?: ToolGatewayConfig["logger"];
+}
+
+export class McpToolAdapter {
+  private client: McpClient | null = null;
+  private connecting: Promise<McpClient> | null = null;
+  private registered = new Set<string>();
+  private closed = false;
+  private reconnect: Required<McpReconnectOptions>;
+
+  constructor(private options: McpToolAdapterOptions) {
+    this.reconnect = { ...DEFAULT_MCP_RECONNECT_OPTIONS, ...options.reconnect };
+  }
+
+  get isConnected(): boolean {
+    return this.client?.isConnected ?? false;
+  }
+
+  /** Gateway names of the registered tools */
+  getToolNames(): string[] {
+    return Array.from(this.registered);
+  }
+
+  /** Connect and register the server's tools; rejects when the server cannot be reached */
+  async connect(): Promise<void> {
+    this.closed = false;
+    await this.ensureConnected(1);
+  }
+
+  /** Disconnect and remove the server's tools from the gateway */
+  async close(): Promise<void> {
+    this.closed = true;
+    const client = this.client;
+    this.client = null;
+    this.registered.forEach((name) => this.options.gateway.registry.unregister(name));
+    this.registered.clear();
+    await client?.close();
+  }
+
+  /** The live client, connecting first when needed; concurrent callers share one attempt */
+  private ensureConnected(maxAttempts = this.reconnect.maxAttempts): Promise<McpClient> {
+    if (this.client?.isConnected) {
+      return Promise.resolve(this.client);
+    }
+    if (this.closed) {
+      return Promise.reject(new Error(`MCP server '${this.options.name}' is closed`));
+    }
+    if (!this.connecting) {
+      this.connecting = this.connectWithRetries(maxAttempts).finally(() => {
+        this.connecting = null;
+      });
+    }
+    return this.connecting;
+  }
+
+  private async connectWithRetries(maxAttempts: number): Promise<McpClient> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.open();
+      } catch (error) {
+        if (this.closed || attempt >= maxAttempts) {
+          throw error;
+        }
+
+        const delayMs = Math.min(this.reconnect.maxDelayMs, this.reconnect.initialDelayMs * Math.pow(2, attempt - 1));
+        this.options.logger?.warn("Retrying MCP server connection", {
+          server: this.options.name,
+          attempt,
+          delayMs,
+          error: error instanceof Error ? error.message : "Unknown error",
+        });
+        await delay(delayMs);
+      }
+    }
+  }
+
+  private async open(): Promise<McpClient> {
+    const client: McpClient = new McpClient({
+      transport: this.options.createTransport(),
+      requestTimeoutMs: this.options.requestTimeoutMs,
+      onNotification: (notification) => {
+        if (notification.method === "notifications/tools/list_changed" && client === this.client) {
+          this.syncTools(client).catch((error) =>
+            this.options.logger?.warn("Failed to refresh MCP tools", {
+              server: this.options.name,
+              error: error instanceof Error ? error.message : "Unknown error",
+            })
+          );
+        }
+      },
+      onClose: (reason) => this.handleClose(client, reason),
+    });
+
+    await client.connect();
+    try {
+      if (this.closed) {
+        throw new Error(`MCP server '${this.options.name}' is closed`);
+      }
+      await this.syncTools(client);
+    } catch (error) {
+      await client.close().catch(() => undefined);
+      throw error;
+    }
+
+    this.client = client;
+    this.options.logger?.info("Connected to MCP server", {
+      server: this.options.name,
+      serverInfo: client.serverInfo,
+      tools: this.getToolNames(),
+    });
+    return client;
+  }
+
+  private handleClose(client: McpClient, reason: string): void {
+    if (client !== this.client || this.closed) {
+      return;
+    }
+
+    this.client = null;
+    this.options.logger?.warn("MCP server disconnected, reconnecting", { server: this.options.name, reason });
+    this.ensureConnected().catch((error) =>
+      this.options.logger?.error("Could not reconnect to MCP server", {
+        server: this.options.name,
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    );
+  }
+
+  /** Register the server's current tools and drop the ones it no longer offers */
+  private async syncTools(client: McpClient): Promise<void> {
+    const { allowedTools, gateway, name: server } = this.options;
+    const tools = (await client.listTools()).filter(
+      (tool) => !allowedTools || allowedTools.includes(mcpToolName(server, tool.name))
+    );
+
+    // Sanitizing and truncating can give two tools the same name
+    const toolNames = new Map<string, string>();
+    tools.forEach((tool) => {
+      const name = mcpToolName(server, tool.name);
+      const other = toolNames.get(name);
+      if (other !== undefined) {
+        throw new Error(`MCP tools '${other}' and '${tool.name}' of server '${server}' map to the same name '${name}'`);
+      }
+      toolNames.set(name, tool.name);
+    });
+    const definitions = tools.map((tool) => this.toDefinition(tool));
+    const names = new Set(toolNames.keys());
+
+    this.registered.forEach((name) => {
+      if (!names.has(name)) {
+        gateway.registry.unregister(name);
+      }
+    });
+    definitions.forEach((definition) => gateway.register(definition));
+    this.registered = names;
+  }
+
+  private toDefinition(tool: McpTool): ToolDefinition {
+    const hints = tool.annotations ?? {};
+    return {
+      name: mcpToolName(this.options.name, tool.name),
+      description: tool.description ?? tool.title ?? hints.title ?? "",
+      parameters: tool.inputSchema,
+      // Tools that change nothing are safe to retry
+      idempotent: hints.readOnlyHint === true || hints.idempotentHint === true,
+      ...this.options.toolDefaults,
+      handler: async (args, context) => {
+        const client = await this.ensureConnected();
+        return toToolResult(tool.name, await client.callTool(tool.name, args, context.signal));
+      },
+    };
+  }
+}
+
+function isTextContent(content: McpContent): content is { type: "text"; text: string } {
+  return content.type === "text" && typeof content.text === "string";
+}
+
+/** Structured content when the server gives it, else the text, else the content blocks */
+function toToolResult(toolName: string, result: McpCallToolResult): unknown {
+  const content = result.content ?? [];
+  const text = content
+    .filter(isTextContent)
+    .map((block) => block.text)
+    .join("\n");
+
+  if (result.isError) {
+    throw new Error(text || `MCP tool '${toolName}' failed`);
+  }
+  if (result.structuredContent !== undefined) {
+    return result.structuredContent;
+  }
+  return content.every(isTextContent) ? text : content;
+}
@@ -0,0 +1,3 @@
+// Node-only entry point: `@thrivereflections/realtime-tool-gateway/node`
+export { createStdioMcpTransport } from "./mcp-stdio-transport";
+export type { StdioMcpTransportOptions } from "./mcp-stdio-transport";
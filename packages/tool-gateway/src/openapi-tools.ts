@@ -0,0 +1,511 @@
+/**
+ * OpenAPI Tools
+ *
+ * Generates gateway tools from an OpenAPI 3 document, one per selected
+ * operation. A tool's parameters are a JSON Schema built from the
+ * operation's path, query and header parameters, with the JSON request body
+ * under `body`. Calls build the HTTP request, add credentials for the
+ * operation's security schemes from a secrets provider, cut the response
+ * down to `maxPayloadBytes` and turn HTTP errors into `ToolError`s.
+ */
+
+import { ToolFailureCode } from "@thrivereflections/realtime-contracts";
+import { JsonSchema } from "./schema";
+import { ToolError } from "./tool-execution";
+import { namespacedToolName, ToolDefinition } from "./tool-registry";
+
+export type OpenApiMethod = "get" | "put" | "post" | "delete" | "options" | "head" | "patch" | "trace";
+
+export interface OpenApiReference {
+  $ref: string;
+}
+
+export interface OpenApiParameter {
+  name: string;
+  in: "path" | "query" | "header" | "cookie";
+  required?: boolean;
+  description?: string;
+  schema?: JsonSchema;
+}
+
+export interface OpenApiRequestBody {
+  description?: string;
+  required?: boolean;
+  content: Record<string, { schema?: JsonSchema }>;
+}
+
+/** Scheme names mapped to OAuth scopes; an empty requirement makes credentials optional */
+export type OpenApiSecurityRequirement = Record<string, string[]>;
+
+export type OpenApiSecurityScheme =
+  | { type: "apiKey"; name: string; in: "header" | "query" | "cookie"; description?: string }
+  | { type: "http"; scheme: string; description?: string }
+  | { type: "oauth2" | "openIdConnect"; description?: string };
+
+export interface OpenApiOperation {
+  operationId?: string;
+  summary?: string;
+  description?: string;
+  tags?: string[];
+  parameters?: (OpenApiParameter | OpenApiReference)[];
+  requestBody?: OpenApiRequestBody | OpenApiReference;
+  security?: OpenApiSecurityRequirement[];
+}
+
+export type OpenApiPathItem = Partial<Record<OpenApiMethod, OpenApiOperation>> & {
+  parameters?: (OpenApiParameter | OpenApiReference)[];
+};
+
+export interface OpenApiDocument {
+  openapi: string;
+  info?: { title?: string; version?: string };
+  servers?: { url: string; variables?: Record<string, { default: string }> }[];
+  paths: Record<string, OpenApiPathItem>;
+  components?: {
+    schemas?: Record<string, JsonSchema>;
+    parameters?: Record<string, OpenApiParameter>;
+    requestBodies?: Record<string, OpenApiRequestBody>;
+    securitySchemes?: Record<string, OpenApiSecurityScheme>;
+  };
+  security?: OpenApiSecurityRequirement[];
+}
+
+export interface SecretsProvider {
+  /** The credential for a security scheme, by the scheme's name in the document */
+  getSecret(name: string): Promise<string | undefined>;
+}
+
+export interface OpenApiToolsOptions {
+  document: OpenApiDocument;
+  /**
+   * Operations to turn into tools: those with any of `tags`, plus those
+   * named in `operationIds`. Every operation when both are omitted.
+   */
+  tags?: string[];
+  operationIds?: string[];
+  /** Defaults to the document's first server */
+  baseUrl?: string;
+  /** Prefix for tool names: `<namespace>__<operationId>` */
+  namespace?: string;
+  /** Credentials for the document's security schemes; never part of the tool's parameters */
+  secrets?: SecretsProvider;
+  /** Sent with every request */
+  headers?: Record<string, string>;
+  /** Longest response body returned to the model, e.g. `policies.maxPayloadBytes`; the rest is cut off */
+  maxPayloadBytes: number;
+  timeoutMs?: number;
+  scopes?: string[];
+  fetch?: typeof fetch;
+}
+
+/** An HTTP error response from the backend */
+export class OpenApiToolError extends ToolError {
+  constructor(toolName: string, readonly status: number, code: ToolFailureCode, message: string) {
+    super(toolName, code, message);
+    this.name = "OpenApiToolError";
+  }
+}
+
+const METHODS: OpenApiMethod[] = ["get", "put", "post", "delete", "options", "head", "patch", "trace"];
+const IDEMPOTENT_METHODS = new Set<OpenApiMethod>(["get", "put", "delete", "options", "head", "trace"]);
+const JSON_CONTENT_TYPE = /^application\/(.+\+)?json/;
+const MAX_ERROR_DETAIL_LENGTH = 500;
+/** Header parameters OpenAPI says to ignore; the request sets these itself */
+const RESERVED_HEADERS = new Set(["accept", "content-type", "authorization"]);
+
+interface SelectedOperation {
+  path: string;
+  method: OpenApiMethod;
+  operation: OpenApiOperation;
+  parameters: OpenApiParameter[];
+}
+
+/** Tool definitions for the selected operations, ready to register */
+export function createOpenApiTools(options: OpenApiToolsOptions): ToolDefinition[] {
+  const baseUrl = resolveBaseUrl(options);
+  const tools = selectOperations(options).map((selected) => createTool(selected, baseUrl, options));
+
+  const names = new Set<string>();
+  tools.forEach((tool) => {
+    if (names.has(tool.name)) {
+      throw new Error(`OpenAPI operations map to the same tool name '${tool.name}'`);
+    }
+    names.add(tool.name);
+  });
+  return tools;
+}
+
+function resolveBaseUrl({ baseUrl, document }: OpenApiToolsOptions): string {
+  const server = document.servers?.[0];
+  const url =
+    baseUrl ?? server?.url.replace(/\{([^}]+)\}/g, (match, name: string) => server.variables?.[name]?.default ?? match);
+  if (!url || !/^https?:\/\//.test(url)) {
+    throw new Error("The OpenAPI document has no absolute server URL; pass baseUrl");
+  }
+  return url.replace(/\/+$/, "");
+}
+
+function selectOperations({ document, tags, operationIds }: OpenApiToolsOptions): SelectedOperation[] {
+  const selectAll = !tags && !operationIds;
+  const selected: SelectedOperation[] = [];
+
+  Object.entries(document.paths).forEach(([path, item]) => {
+    METHODS.forEach((method) => {
+      const operation = item[method];
+      if (!operation) {
+        return;
+      }
+      const chosen =
+        selectAll ||
+        (operation.operationId !== undefined && operationIds?.includes(operation.operationId)) ||
+        operation.tags?.some((tag) => tags?.includes(tag));
+      if (chosen) {
+        selected.push({ path, method, operation, parameters: mergeParameters(document, item, operation) });
+      }
+    });
+  });
+
+  const missing = (operationIds ?? []).filter((id) => !selected.some((s) => s.operation.operationId === id));
+  if (missing.length > 0) {
+    throw new Error(`Operation(s) not found in the OpenAPI document: ${missing.join(", ")}`);
+  }
+  return selected;
+}
+
+/** Path-level parameters, overridden by the operation's own of the same name and location */
+function mergeParameters(
+  document: OpenApiDocument,
+  item: OpenApiPathItem,
+  operation: OpenApiOperation
+): OpenApiParameter[] {
+  const merged = new Map<string, OpenApiParameter>();
+  [...(item.parameters ?? []), ...(operation.parameters ?? [])].forEach((entry) => {
+    const parameter = resolveRef<OpenApiParameter>(document, entry);
+    merged.set(`${parameter.in}:${parameter.name}`, parameter);
+  });
+  // Cookies are left to the `headers` option
+  return Array.from(merged.values()).filter(
+    (parameter) =>
+      parameter.in !== "cookie" && !(parameter.in === "header" && RESERVED_HEADERS.has(parameter.name.toLowerCase()))
+  );
+}
+
+function createTool(selected: SelectedOperation, baseUrl: string, options: OpenApiToolsOptions): ToolDefinition {
+  const { document } = options;
+  const { path, method, operation, parameters } = selected;
+  const name = namespacedToolName(options.namespace, operation.operationId ?? defaultOperationId(method, path));
+  const label = `${method.toUpperCase()} ${path}`;
+  const body = jsonBody(document, operation, label);
+  const security = operation.security ?? document.security ?? [];
+  const schemes = document.components?.securitySchemes ?? {};
+
+  security
+    .flatMap((requirement) => Object.keys(requirement))
+    .forEach((scheme) => {
+      if (!schemes[scheme]) {
+        throw new Error(`${label} uses unknown security scheme '${scheme}'`);
+      }
+    });
+
+  const properties: Record<string, JsonSchema> = {};
+  const required: string[] = [];
+  parameters.forEach((parameter) => {
+    // One property per name: a query and a header parameter can't share one, nor a parameter and the body
+    if (Object.prototype.hasOwnProperty.call(properties, parameter.name)) {
+      throw new Error(`${label} has two parameters named '${parameter.name}'`);
+    }
+    if (body && parameter.name === "body") {
+      throw new Error(`${label} has a parameter named 'body', which clashes with its request body`);
+    }
+    properties[parameter.name] = {
+      ...resolveSchema(document, parameter.schema ?? {}),
+      ...(parameter.description ? { description: parameter.description } : {}),
+    };
+    if (parameter.required || parameter.in === "path") {
+      required.push(parameter.name);
+    }
+  });
+  if (body) {
+    properties.body = body.description ? { ...body.schema, description: body.description } : body.schema;
+    if (body.required) {
+      required.push("body");
+    }
+  }
+
+  const fetchImpl = options.fetch ?? ((input: RequestInfo | URL, init?: RequestInit) => fetch(input, init));
+
+  return {
+    name,
+    description: [operation.summary, operation.description].filter(Boolean).join("\n\n") || label,
+    parameters: { type: "object", properties, ...(required.length > 0 ? { required } : {}) },
+    version: document.info?.version,
+    timeoutMs: options.timeoutMs,
+    scopes: options.scopes,
+    idempotent: IDEMPOTENT_METHODS.has(method),
+    handler: async (args, context) => {
+      const resolvedPath = path.replace(/\{([^}]+)\}/g, (_, param: string) => encodeURIComponent(String(args[param])));
+      // URL parsing resolves "." and ".." segments, which would reach another endpoint with our credentials
+      if (resolvedPath.split("/").some((segment) => segment === "." || segment === "..")) {
+        throw new ToolError(name, "invalid_arguments", `${label}: path parameters must not be "." or ".."`);
+      }
+      const url = new URL(baseUrl + resolvedPath);
+      const headers: Record<string, string> = { Accept: "application/json", ...options.headers };
+
+      parameters.forEach((parameter) => {
+        const value = args[parameter.name];
+        if (value === undefined || parameter.in === "path") {
+          return;
+        }
+        if (parameter.in === "header") {
+          headers[parameter.name] = String(value);
+        } else if (Array.isArray(value)) {
+          value.forEach((entry) => url.searchParams.append(parameter.name, String(entry)));
+        } else if (value !== null && typeof value === "object") {
+          Object.entries(value).forEach(([key, entry]) => url.searchParams.append(key, String(entry)));
+        } else {
+          url.searchParams.set(parameter.name, String(value));
+        }
+      });
+
+      let requestBody: string | undefined;
+      if (body && args.body !== undefined) {
+        headers["Content-Type"] = body.contentType;
+        requestBody = JSON.stringify(args.body);
+      }
+
+      await applyCredentials(name, security, schemes, options.secrets, url, headers);
+
+      let response: Response;
+      try {
+        response = await fetchImpl(url.toString(), {
+          method: method.toUpperCase(),
+          headers,
+          body: requestBody,
+          signal: context.signal,
+        });
+      } catch (error) {
+        if (context.signal?.aborted) {
+          throw error;
+        }
+        throw new ToolError(
+          name,
+          "tool_error",
+          `${label} failed: ${error instanceof Error ? error.message : "Unknown error"}`
+        );
+      }
+
+      const { text, truncated } = await readLimited(response, options.maxPayloadBytes);
+      if (!response.ok) {
+        const detail = text.slice(0, MAX_ERROR_DETAIL_LENGTH);
+        throw new OpenApiToolError(
+          name,
+          response.status,
+          failureCode(response.status),
+          `${label} failed with ${response.status}${detail ? `: ${detail}` : ""}`
+        );
+      }
+
+      if (truncated) {
+        return { truncated: true, body: text };
+      }
+      if (!text) {
+        return null;
+      }
+      if (JSON_CONTENT_TYPE.test(response.headers.get("content-type") ?? "")) {
+        try {
+          return JSON.parse(text);
+        } catch {
+          return text;
+        }
+      }
+      return text;
+    },
+  };
+}
+
+/** e.g. "get_pets_petId" for GET /pets/{petId} */
+function defaultOperationId(method: OpenApiMethod, path: string): string {
+  const segments = path
+    .split("/")
+    .filter(Boolean)
+    .map((segment) => segment.replace(/[{}]/g, ""));
+  return [method, ...segments].join("_");
+}
+
+function jsonBody(
+  document: OpenApiDocument,
+  operation: OpenApiOperation,
+  label: string
+): { schema: JsonSchema; contentType: string; required: boolean; description?: string } | null {
+  if (!operation.requestBody) {
+    return null;
+  }
+
+  const requestBody = resolveRef<OpenApiRequestBody>(document, operation.requestBody);
+  const contentType = Object.keys(requestBody.content).find((type) => JSON_CONTENT_TYPE.test(type));
+  if (!contentType) {
+    throw new Error(`${label} has no JSON request body; only JSON bodies are supported`);
+  }
+  return {
+    schema: resolveSchema(document, requestBody.content[contentType].schema ?? {}),
+    contentType,
+    required: requestBody.required === true,
+    description: requestBody.description,
+  };
+}
+
+/** Look up a local `#/...` reference; anything else is returned as is */
+function resolveRef<T>(document: OpenApiDocument, value: T | OpenApiReference): T {
+  if (!value || typeof value !== "object" || !("$ref" in value)) {
+    return value as T;
+  }
+
+  const ref = value.$ref;
+  if (!ref.startsWith("#/")) {
+    throw new Error(`Only local references are supported: ${ref}`);
+  }
+  const target = ref
+    .slice(2)
+    .split("/")
+    .map((segment) => segment.replace(/~1/g, "/").replace(/~0/g, "~"))
+    .reduce<unknown>((node, segment) => (node as Record<string, unknown> | undefined)?.[segment], document);
+  if (target === undefined) {
+    throw new Error(`Unresolved reference: ${ref}`);
+  }
+  return resolveRef(document, target as T | OpenApiReference);
+}
+
+/**
+ * Inline the schema's references and turn OpenAPI 3.0 `nullable` into a
+ * "null" type. A schema that refers to itself is left open past the first level.
+ */
+function resolveSchema(document: OpenApiDocument, schema: JsonSchema, seen: string[] = []): JsonSchema {
+  if (typeof schema.$ref === "string") {
+    if (seen.includes(schema.$ref)) {
+      return {};
+    }
+    return resolveSchema(document, resolveRef<JsonSchema>(document, { $ref: schema.$ref }), [
+      ...seen,
+      schema.$ref,
+    ]);
+  }
+
+  const resolved: JsonSchema = {};
+  Object.entries(schema).forEach(([keyword, value]) => {
+    if (keyword === "properties" && value && typeof value === "object") {
+      resolved.properties = Object.fromEntries(
+        Object.entries(value as Record<string, JsonSchema>).map(([name, property]) => [
+          name,
+          resolveSchema(document, property, seen),
+        ])
+      );
+    } else if ((keyword === "items" || keyword === "additionalProperties" || keyword === "not") && isSchema(value)) {
+      resolved[keyword] = resolveSchema(document, value, seen);
+    } else if ((keyword === "anyOf" || keyword === "oneOf" || keyword === "allOf") && Array.isArray(value)) {
+      resolved[keyword] = value.map((entry: JsonSchema) => resolveSchema(document, entry, seen));
+    } else if (keyword !== "nullable") {
+      resolved[keyword] = value;
+    }
+  });
+
+  if (schema.nullable === true && typeof schema.type === "string") {
+    resolved.type = [schema.type, "null"];
+  }
+  return resolved;
+}
+
+function isSchema(value: unknown): value is JsonSchema {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+/** Add credentials for the first security requirement the secrets provider can meet */
+async function applyCredentials(
+  toolName: string,
+  security: OpenApiSecurityRequirement[],
+  schemes: Record<string, OpenApiSecurityScheme>,
+  secrets: SecretsProvider | undefined,
+  url: URL,
+  headers: Record<string, string>
+): Promise<void> {
+  if (security.length === 0) {
+    return;
+  }
+
+  for (const requirement of security) {
+    const names = Object.keys(requirement);
+    const values = await Promise.all(names.map((name) => secrets?.getSecret(name)));
+    if (values.every((value): value is string => value !== undefined)) {
+      names.forEach((name, i) => addCredential(schemes[name], values[i], url, headers));
+      return;
+    }
+  }
+
+  const options = security.map((requirement) => Object.keys(requirement).join(" + ")).join(" or ");
+  throw new ToolError(toolName, "tool_error", `No credentials for tool '${toolName}': it needs ${options}`);
+}
+
+function addCredential(scheme: OpenApiSecurityScheme, secret: string, url: URL, headers: Record<string, string>) {
+  if (scheme.type === "apiKey") {
+    if (scheme.in === "header") {
+      headers[scheme.name] = secret;
+    } else if (scheme.in === "query") {
+      url.searchParams.set(scheme.name, secret);
+    } else {
+      headers.Cookie = [headers.Cookie, `${scheme.name}=${secret}`].filter(Boolean).join("; ");
+    }
+  } else if (scheme.type === "http" && scheme.scheme.toLowerCase() === "basic") {
+    // The secret is "user:password"
+    headers.Authorization = `Basic ${btoa(secret)}`;
+  } else if (scheme.type === "http" && scheme.scheme.toLowerCase() !== "bearer") {
+    headers.Authorization = `${scheme.scheme} ${secret}`;
+  } else {
+    headers.Authorization = `Bearer ${secret}`;
+  }
+}
+
+function failureCode(status: number): ToolFailureCode {
+  if (status === 400 || status === 422) {
+    return "invalid_arguments";
+  }
+  if (status === 408 || status === 504) {
+    return "timeout";
+  }
+  return "tool_error";
+}
+
+/** The body as text, stopping after `maxBytes` */
+async function readLimited(response: Response, maxBytes: number): Promise<{ text: string; truncated: boolean }> {
+  if (!response.body) {
+    return { text: "", truncated: false };
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  let truncated = false;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    if (size + value.byteLength > maxBytes) {
+      chunks.push(value.subarray(0, maxBytes - size));
+      size = maxBytes;
+      truncated = true;
+      await reader.cancel();
+      break;
+    }
+    chunks.push(value);
+    size += value.byteLength;
+  }
+
+  const bytes = new Uint8Array(size);
+  let offset = 0;
+  chunks.forEach((chunk) => {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  });
+  // A character cut in two at the limit decodes to U+FFFD
+  const text = new TextDecoder().decode(bytes);
+  return { text: truncated ? text.replace(/\uFFFD$/, "") : text, truncated };
+}
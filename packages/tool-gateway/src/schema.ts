@@ -0,0 +1,290 @@
+import { ToolArgumentError } from "@thrivereflections/realtime-contracts";
+
+/**
+ * Tool argument validation against the JSON Schema `parameters` a tool is
+ * declared with, the same object the model receives in its tool definition.
+ *
+ * Covers the subset of JSON Schema used for function tools: `type` (one or a
+ * list), `enum`, `const`, `properties`, `required`, `additionalProperties`,
+ * `default`, `items`, `minItems`/`maxItems`, `minLength`/`maxLength`,
+ * `pattern`, `format` ("date-time", "date", "email"), `minimum`/`maximum`,
+ * `exclusiveMinimum`/`exclusiveMaximum` and `anyOf`/`oneOf` (first match
+ * wins). Other keywords are ignored.
+ *
+ * Models often send near-miss values, so arguments are coerced before they
+ * are rejected: numeric strings become numbers, "true"/"false" become
+ * booleans, numbers and booleans become strings, enum strings match
+ * case-insensitively, a single value becomes a one-element array, and missing
+ * properties take their `default`.
+ */
+
+export type JsonSchemaType = "string" | "number" | "integer" | "boolean" | "object" | "array" | "null";
+
+export interface JsonSchema {
+  type?: JsonSchemaType | JsonSchemaType[];
+  description?: string;
+  enum?: unknown[];
+  const?: unknown;
+  default?: unknown;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  format?: string;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  [keyword: string]: unknown;
+}
+
+export type ToolArgumentsValidation =
+  | { valid: true; value: Record<string, unknown> }
+  | { valid: false; errors: ToolArgumentError[] };
+
+/**
+ * Validate and coerce tool call arguments. On success `value` holds the
+ * coerced arguments; the input is never modified.
+ */
+export function validateToolArguments(schema: JsonSchema, args: unknown): ToolArgumentsValidation {
+  const errors: ToolArgumentError[] = [];
+  const value = check({ type: "object", ...schema }, args, "", errors);
+  return errors.length === 0 ? { valid: true, value: value as Record<string, unknown> } : { valid: false, errors };
+}
+
+/** "/units must be one of …; /location is required", for logs and plain-text errors */
+export function formatToolArgumentErrors(errors: ToolArgumentError[]): string {
+  return errors.map((error) => `${error.path || "arguments"} ${error.message}`).join("; ");
+}
+
+const FORMATS: Record<string, RegExp> = {
+  "date-time": /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/i,
+  date: /^\d{4}-\d{2}-\d{2}$/,
+  email: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+};
+
+function check(schema: JsonSchema, input: unknown, path: string, errors: ToolArgumentError[]): unknown {
+  const alternatives = schema.anyOf ?? schema.oneOf;
+  if (alternatives) {
+    for (const alternative of alternatives) {
+      const attempt: ToolArgumentError[] = [];
+      const value = check(alternative, input, path, attempt);
+      if (attempt.length === 0) {
+        return value;
+      }
+    }
+    errors.push({ path, message: "does not match any of the allowed shapes" });
+    return input;
+  }
+
+  const types = schema.type === undefined ? [] : Array.isArray(schema.type) ? schema.type : [schema.type];
+  let value = input;
+  if (types.length > 0 && !types.some((type) => matchesType(type, value))) {
+    const coerced = types.map((type) => coerce(type, value)).find((candidate) => candidate !== undefined);
+    if (coerced === undefined) {
+      errors.push({ path, message: `must be ${types.map(describeType).join(" or ")}` });
+      return input;
+    }
+    value = coerced.value;
+  }
+
+  if (schema.enum) {
+    const match = matchEnum(schema.enum, value);
+    if (match === undefined) {
+      errors.push({
+        path,
+        message: `must be one of ${schema.enum.map((option) => JSON.stringify(option)).join(", ")}`,
+      });
+      return value;
+    }
+    value = match.value;
+  }
+  if (schema.const !== undefined && !deepEqual(schema.const, value)) {
+    errors.push({ path, message: `must be ${JSON.stringify(schema.const)}` });
+    return value;
+  }
+
+  if (typeof value === "string") {
+    checkString(schema, value, path, errors);
+  } else if (typeof value === "number") {
+    checkNumber(schema, value, path, errors);
+  } else if (Array.isArray(value)) {
+    value = checkArray(schema, value, path, errors);
+  } else if (isObject(value)) {
+    value = checkObject(schema, value, path, errors);
+  }
+  return value;
+}
+
+function checkObject(
+  schema: JsonSchema,
+  input: Record<string, unknown>,
+  path: string,
+  errors: ToolArgumentError[]
+): Record<string, unknown> {
+  const properties = schema.properties ?? {};
+  const output: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(input)) {
+    const childPath = `${path}/${escapePointer(key)}`;
+    // Assigning "__proto__" would replace the output's prototype
+    if (key === "__proto__") {
+      errors.push({ path: childPath, message: "is not an allowed property" });
+    } else if (hasOwn(properties, key)) {
+      output[key] = check(properties[key], value, childPath, errors);
+    } else if (schema.additionalProperties === false) {
+      errors.push({ path: childPath, message: "is not an allowed property" });
+    } else {
+      output[key] =
+        typeof schema.additionalProperties === "object"
+          ? check(schema.additionalProperties, value, childPath, errors)
+          : value;
+    }
+  }
+
+  for (const [key, property] of Object.entries(properties)) {
+    const missing = !hasOwn(output, key) || output[key] === undefined;
+    if (key !== "__proto__" && missing && property.default !== undefined) {
+      output[key] = property.default;
+    }
+  }
+  for (const key of schema.required ?? []) {
+    if (!hasOwn(output, key) || output[key] === undefined) {
+      errors.push({ path: `${path}/${escapePointer(key)}`, message: "is required" });
+    }
+  }
+
+  return output;
+}
+
+function checkArray(schema: JsonSchema, input: unknown[], path: string, errors: ToolArgumentError[]): unknown[] {
+  if (schema.minItems !== undefined && input.length < schema.minItems) {
+    errors.push({ path, message: `must have at least ${schema.minItems} item(s)` });
+  }
+  if (schema.maxItems !== undefined && input.length > schema.maxItems) {
+    errors.push({ path, message: `must have at most ${schema.maxItems} item(s)` });
+  }
+  const items = schema.items;
+  return items ? input.map((item, index) => check(items, item, `${path}/${index}`, errors)) : input;
+}
+
+function checkString(schema: JsonSchema, value: string, path: string, errors: ToolArgumentError[]) {
+  if (schema.minLength !== undefined && value.length < schema.minLength) {
+    errors.push({ path, message: `must be at least ${schema.minLength} character(s) long` });
+  }
+  if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+    errors.push({ path, message: `must be at most ${schema.maxLength} character(s) long` });
+  }
+  if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+    errors.push({ path, message: `must match the pattern ${schema.pattern}` });
+  }
+  const format = schema.format ? FORMATS[schema.format] : undefined;
+  if (format) {
+    // Dates must also parse, e.g. not month 13
+    const valid = format.test(value) && (schema.format === "email" || !Number.isNaN(Date.parse(value)));
+    if (!valid) {
+      errors.push({ path, message: `must be a valid ${schema.format}` });
+    }
+  }
+}
+
+function checkNumber(schema: JsonSchema, value: number, path: string, errors: ToolArgumentError[]) {
+  if (schema.minimum !== undefined && value < schema.minimum) {
+    errors.push({ path, message: `must be at least ${schema.minimum}` });
+  }
+  if (schema.maximum !== undefined && value > schema.maximum) {
+    errors.push({ path, message: `must be at most ${schema.maximum}` });
+  }
+  if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) {
+    errors.push({ path, message: `must be greater than ${schema.exclusiveMinimum}` });
+  }
+  if (schema.exclusiveMaximum !== undefined && value >= schema.exclusiveMaximum) {
+    errors.push({ path, message: `must be less than ${schema.exclusiveMaximum}` });
+  }
+}
+
+function matchesType(type: JsonSchemaType, value: unknown): boolean {
+  switch (type) {
+    case "string":
+      return typeof value === "string";
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    case "integer":
+      return typeof value === "number" && Number.isInteger(value);
+    case "boolean":
+      return typeof value === "boolean";
+    case "object":
+      return isObject(value);
+    case "array":
+      return Array.isArray(value);
+    case "null":
+      return value === null;
+  }
+}
+
+/** The value converted to `type`, or undefined when there is no sensible conversion */
+function coerce(type: JsonSchemaType, value: unknown): { value: unknown } | undefined {
+  switch (type) {
+    case "number":
+    case "integer": {
+      const number = typeof value === "string" && value.trim() !== "" ? Number(value.trim()) : NaN;
+      return matchesType(type, number) ? { value: number } : undefined;
+    }
+    case "boolean": {
+      const text = typeof value === "string" ? value.trim().toLowerCase() : "";
+      return text === "true" ? { value: true } : text === "false" ? { value: false } : undefined;
+    }
+    case "string":
+      return typeof value === "number" || typeof value === "boolean" ? { value: String(value) } : undefined;
+    case "array":
+      return value === undefined || value === null ? undefined : { value: [value] };
+    default:
+      return undefined;
+  }
+}
+
+function matchEnum(options: unknown[], value: unknown): { value: unknown } | undefined {
+  const exact = options.find((option) => deepEqual(option, value));
+  if (exact !== undefined) {
+    return { value: exact };
+  }
+  if (typeof value === "string") {
+    const text = value.trim().toLowerCase();
+    const loose = options.find((option) => typeof option === "string" && option.toLowerCase() === text);
+    if (loose !== undefined) {
+      return { value: loose };
+    }
+  }
+  return undefined;
+}
+
+function describeType(type: JsonSchemaType): string {
+  if (type === "null") {
+    return "null";
+  }
+  return type === "array" || type === "object" || type === "integer" ? `an ${type}` : `a ${type}`;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** `key in object` would also find `constructor`, `toString` and the like */
+function hasOwn(object: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(object, key);
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function escapePointer(key: string): string {
+  return key.replace(/~/g, "~0").replace(/\//g, "~1");
+}
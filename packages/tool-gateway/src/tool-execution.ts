@@ -0,0 +1,111 @@
+/**
+ * Tool Execution Policies
+ *
+ * Deadlines, retries and circuit breaking for tool calls. Every attempt has a
+ * deadline, so a hung backend cannot stall the conversation. Only idempotent
+ * tools are retried, as a call that failed or timed out may still have had
+ * its effect. Each tool gets its own circuit breaker, so a backend that keeps
+ * failing is answered at once instead of after another timeout.
+ */
+
+import { ToolFailureCode } from "@thrivereflections/realtime-contracts";
+
+export interface ToolRetryPolicy {
+  /** Attempts in total, including the first */
+  maxAttempts: number;
+  /** Wait before the second attempt, doubled before each one after */
+  backoffMs: number;
+}
+
+export interface ToolCircuitBreakerConfig {
+  failureThreshold: number;
+  /** How long the breaker stays open, in milliseconds */
+  timeout: number;
+  successThreshold: number;
+  requestTimeout: number;
+  volumeThreshold: number;
+}
+
+export interface ToolCircuitBreaker {
+  execute<T>(operation: () => Promise<T>): Promise<T>;
+  getState(): "CLOSED" | "OPEN" | "HALF_OPEN";
+}
+
+/** Creates and keeps breakers by name, e.g. `circuitBreakerManager` from realtime-sre */
+export interface ToolCircuitBreakers {
+  getBreaker(name: string): ToolCircuitBreaker | undefined;
+  createBreaker(options: { name: string; config: ToolCircuitBreakerConfig }): ToolCircuitBreaker;
+}
+
+/** Sink for tool outcomes, e.g. `metricsCollector` from realtime-sre */
+export interface ToolExecutionMetrics {
+  recordToolExecution(sessionId: string, toolName: string, duration: number, success?: boolean): void;
+}
+
+/** Sink for tool outcomes, e.g. `sloTracker` from realtime-sre */
+export interface ToolExecutionSlo {
+  recordToolExecution(duration: number, success?: boolean): void;
+}
+
+export const DEFAULT_TOOL_TIMEOUT_MS = 10000;
+
+export const DEFAULT_TOOL_RETRY_POLICY: ToolRetryPolicy = { maxAttempts: 2, backoffMs: 200 };
+
+/** As `defaultConfigs.tools` in realtime-sre; `requestTimeout` follows the tool's timeout */
+export const DEFAULT_TOOL_CIRCUIT_BREAKER: Omit<ToolCircuitBreakerConfig, "requestTimeout"> = {
+  failureThreshold: 3,
+  timeout: 15000,
+  successThreshold: 2,
+  volumeThreshold: 5,
+};
+
+/** A tool failure with a known cause; `executeToolCall` returns its code as `errorCode` */
+export class ToolError extends Error {
+  constructor(readonly toolName: string, readonly code: ToolFailureCode, message: string) {
+    super(message);
+    this.name = "ToolError";
+  }
+}
+
+/** A tool call that timed out, or was refused because the tool's circuit breaker is open */
+export class ToolExecutionError extends ToolError {
+  constructor(
+    toolName: string,
+    readonly code: Extract<ToolFailureCode, "timeout" | "circuit_open">,
+    message: string,
+    readonly attempts: number
+  ) {
+    super(toolName, code, message);
+    this.name = "ToolExecutionError";
+  }
+}
+
+/**
+ * Run `operation` with a deadline: after `timeoutMs` its signal is aborted
+ * and the returned promise rejects with `onTimeout()`.
+ */
+export async function withDeadline<T>(
+  operation: (signal: AbortSignal) => Promise<T>,
+  timeoutMs: number,
+  onTimeout: () => Error
+): Promise<T> {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const deadline = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      const error = onTimeout();
+      controller.abort(error);
+      reject(error);
+    }, timeoutMs);
+  });
+
+  try {
+    return await Promise.race([operation(controller.signal), deadline]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+export function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -0,0 +1,143 @@
+/**
+ * Tool Registry
+ *
+ * The one place a tool is declared: name, description, JSON Schema
+ * parameters, version, timeout, required scopes and handler. The registry
+ * generates the function definitions offered to the model and runs tools for
+ * both `ToolGateway.execute` and `executeToolCall`, so what the model is told
+ * and what runs cannot drift apart.
+ */
+
+import { RealtimeFunctionTool, ToolArgumentError } from "@thrivereflections/realtime-contracts";
+import type { ToolContext } from "./gateway";
+import { formatToolArgumentErrors, JsonSchema, validateToolArguments } from "./schema";
+import type { ToolRetryPolicy } from "./tool-execution";
+
+export type ToolHandler = (args: Record<string, unknown>, context: ToolContext) => Promise<unknown>;
+
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  /** JSON Schema for the arguments; sent to the model and enforced before the handler runs */
+  parameters: JsonSchema;
+  /** Default "1.0.0" */
+  version?: string;
+  /** Longest one attempt may take, in milliseconds; `ToolGateway` aborts it after that */
+  timeoutMs?: number;
+  /**
+   * Safe to run twice with the same arguments, so `ToolGateway` may retry it.
+   * Tools that dedupe on `ToolContext.idempotencyKey` can declare this too.
+   */
+  idempotent?: boolean;
+  /** Overrides the gateway's retry policy; only used for idempotent tools */
+  retry?: Partial<ToolRetryPolicy>;
+  /** Scopes the caller must hold, all of them, in `ToolContext.scopes` */
+  scopes?: string[];
+  handler: ToolHandler;
+}
+
+export const DEFAULT_TOOL_VERSION = "1.0.0";
+
+/** Separates a namespace from the tool's own name, e.g. `github__create_issue` */
+export const TOOL_NAMESPACE_SEPARATOR = "__";
+
+/**
+ * `<namespace>__<name>` as a function name the model accepts: letters,
+ * digits, "_" and "-", at most 64 long. Different names can end up the same,
+ * so callers check the results for collisions.
+ */
+export function namespacedToolName(namespace: string | undefined, name: string): string {
+  return (namespace ? `${namespace}${TOOL_NAMESPACE_SEPARATOR}${name}` : name)
+    .replace(/[^a-zA-Z0-9_-]/g, "_")
+    .slice(0, 64);
+}
+
+/** Thrown when input does not match the tool's parameters */
+export class ToolArgumentsError extends Error {
+  constructor(readonly toolName: string, readonly errors: ToolArgumentError[]) {
+    super(`Invalid arguments for tool '${toolName}': ${formatToolArgumentErrors(errors)}`);
+    this.name = "ToolArgumentsError";
+  }
+}
+
+export class ToolRegistry {
+  private tools = new Map<string, ToolDefinition>();
+
+  constructor(tools: ToolDefinition[] = []) {
+    tools.forEach((tool) => this.register(tool));
+  }
+
+  /** Add a tool, replacing any tool of the same name */
+  register(tool: ToolDefinition): void {
+    this.tools.set(tool.name, tool);
+  }
+
+  unregister(name: string): boolean {
+    return this.tools.delete(name);
+  }
+
+  get(name: string): ToolDefinition | undefined {
+    return this.tools.get(name);
+  }
+
+  has(name: string): boolean {
+    return this.tools.has(name);
+  }
+
+  getNames(): string[] {
+    return Array.from(this.tools.keys());
+  }
+
+  list(): ToolDefinition[] {
+    return Array.from(this.tools.values());
+  }
+
+  /**
+   * Function definitions for the model: the tools in `names`, in that order
+   * and skipping unknown names, or every tool.
+   */
+  toFunctionTools(names?: string[]): RealtimeFunctionTool[] {
+    const tools = names ? names.flatMap((name) => this.tools.get(name) ?? []) : Array.from(this.tools.values());
+    return tools.map((tool) => ({
+      type: "function" as const,
+      name: tool.name,
+      description: tool.description,
+      parameters: tool.parameters,
+    }));
+  }
+
+  /**
+   * Run a tool: check the caller holds its scopes, validate and coerce the
+   * input against its parameters, then call the handler. Throws
+   * `ToolArgumentsError` for invalid input.
+   */
+  async invoke(name: string, input: unknown, context: ToolContext = {}): Promise<unknown> {
+    const { tool, args } = this.prepare(name, input, context);
+    return tool.handler(args, context);
+  }
+
+  /** The checks of `invoke` without running the handler: the tool and its coerced arguments */
+  prepare(
+    name: string,
+    input: unknown,
+    context: ToolContext = {}
+  ): { tool: ToolDefinition; args: Record<string, unknown> } {
+    const tool = this.tools.get(name);
+    if (!tool) {
+      throw new Error(`Tool '${name}' not registered`);
+    }
+
+    const granted = context.scopes ?? [];
+    const missing = (tool.scopes ?? []).filter((scope) => !granted.includes(scope));
+    if (missing.length > 0) {
+      throw new Error(`Tool '${name}' requires scope(s): ${missing.join(", ")}`);
+    }
+
+    const validation = validateToolArguments(tool.parameters, input);
+    if (!validation.valid) {
+      throw new ToolArgumentsError(name, validation.errors);
+    }
+
+    return { tool, args: validation.value };
+  }
+}
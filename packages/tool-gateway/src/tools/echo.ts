@@ -1,4 +1,5 @@
 import { Tool } from "../gateway";
+import { ToolDefinition } from "../tool-registry";
 
 export const echoTool: Tool = async (input: unknown) => {
   // Simple echo tool that returns the input
@@ -8,3 +9,20 @@ export const echoTool: Tool = async (input: unknown) => {
     timestamp: new Date().toISOString(),
   };
 };
+
+export const echoToolDefinition: ToolDefinition = {
+  name: "echo",
+  description: "Echo back the input message",
+  parameters: {
+    type: "object",
+    properties: {
+      message: {
+        type: "string",
+        description: "The message to echo back",
+      },
+    },
+    required: ["message"],
+  },
+  idempotent: true,
+  handler: echoTool,
+};
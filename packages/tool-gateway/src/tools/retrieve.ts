@@ -1,4 +1,5 @@
 import { Tool } from "../gateway";
+import { ToolDefinition } from "../tool-registry";
 
 export const retrieveTool: Tool = async (input: unknown) => {
   // Simple retrieve tool that returns mock data
@@ -20,3 +21,20 @@ export const retrieveTool: Tool = async (input: unknown) => {
     timestamp: new Date().toISOString(),
   };
 };
+
+export const retrieveToolDefinition: ToolDefinition = {
+  name: "retrieve_docs",
+  description: "Retrieve relevant documentation",
+  parameters: {
+    type: "object",
+    properties: {
+      query: {
+        type: "string",
+        description: "The search query",
+      },
+    },
+    required: ["query"],
+  },
+  idempotent: true,
+  handler: retrieveTool,
+};
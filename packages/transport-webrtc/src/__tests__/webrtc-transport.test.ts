@@ -0,0 +1,91 @@
+import { TransportConnectOptions } from "@thrivereflections/realtime-contracts";
+import { createWebRTCTransport } from "../index";
+
+// Just enough of the browser for connect() to reach the microphone prompt
+class FakePeerConnection {
+  createDataChannel = () => ({ readyState: "connecting" });
+  addTrack = jest.fn();
+  close = jest.fn();
+}
+
+function fakeMicrophone() {
+  const track = { stop: jest.fn() };
+  let grant: () => void = () => {};
+  const getUserMedia = jest.fn(
+    () =>
+      new Promise<{ getTracks: () => (typeof track)[] }>(
+        (resolve) => (grant = () => resolve({ getTracks: () => [track] }))
+      )
+  );
+  Object.defineProperty(globalThis, "navigator", { value: { mediaDevices: { getUserMedia } }, configurable: true });
+  return { track, getUserMedia, grant: () => grant() };
+}
+
+beforeAll(() => {
+  // connect() logs the failures these tests provoke
+  jest.spyOn(console, "error").mockImplementation(() => undefined);
+  Object.assign(globalThis, {
+    RTCPeerConnection: FakePeerConnection,
+    document: {
+      createElement: () => ({ style: {} }),
+      body: { appendChild: jest.fn() },
+    },
+  });
+});
+
+function createTransport() {
+  return createWebRTCTransport(
+    {},
+    {
+      logLevel: "error",
+      getSessionToken: async () => ({
+        client_secret: { value: "ek_test", expires_at: "2025-01-01T12:00:00Z" },
+        session_id: "sess_1",
+        model: "gpt-realtime",
+      }),
+    }
+  );
+}
+
+async function waitForPrompt(getUserMedia: jest.Mock) {
+  for (let i = 0; i < 10 && getUserMedia.mock.calls.length === 0; i++) {
+    await Promise.resolve();
+  }
+  expect(getUserMedia).toHaveBeenCalled();
+}
+
+describe("createWebRTCTransport", () => {
+  it("stops a microphone granted after the connect was aborted", async () => {
+    const microphone = fakeMicrophone();
+    const controller = new AbortController();
+    const onNegotiating = jest.fn();
+    const options: TransportConnectOptions = {
+      token: "",
+      onEvent: () => undefined,
+      onNegotiating,
+      signal: controller.signal,
+    };
+
+    const connected = createTransport().connect(options);
+    await waitForPrompt(microphone.getUserMedia);
+    controller.abort();
+    microphone.grant();
+
+    await expect(connected).rejects.toThrow("WebRTC connect aborted");
+    expect(microphone.track.stop).toHaveBeenCalled();
+    expect(onNegotiating).not.toHaveBeenCalled();
+  });
+
+  it("stops a microphone granted after the transport was closed", async () => {
+    const microphone = fakeMicrophone();
+    const transport = createTransport();
+
+    const connected = transport.connect({ token: "", onEvent: () => undefined });
+    await waitForPrompt(microphone.getUserMedia);
+    await transport.close();
+    microphone.grant();
+
+    await expect(connected).rejects.toThrow("WebRTC connection closed while waiting for the microphone");
+    expect(microphone.track.stop).toHaveBeenCalled();
+  });
+});
@@ -1,4 +1,13 @@
-import { Transport } from "@thrivereflections/realtime-contracts";
+import {
+  AudioSource,
+  IceCandidatePairStats,
+  Transport,
+  TransportConnectOptions,
+  TransportStateChange,
+} from "@thrivereflections/realtime-contracts";
+import { createRedactingLogger, LoggingDeps } from "@thrivereflections/realtime-observability";
+import { piiRedactor } from "@thrivereflections/realtime-security";
+import { AudioCapture, createAudioCapture, REALTIME_SAMPLE_RATE } from "@thrivereflections/realtime-audio";
 
 export interface WebRTCTransportConfig {
   voice?: string;
@@ -14,77 +23,135 @@ export interface WebRTCTransportConfig {
     description: string;
     parameters: Record<string, unknown>;
   }>;
+  /** Replaces the default public STUN servers; TURN servers from the session response are added on top */
+  iceServers?: RTCIceServer[];
+  /** "relay" forces all media through TURN */
+  iceTransportPolicy?: RTCIceTransportPolicy;
 }
 
-export interface WebRTCTransportDeps {
-  getSessionToken: () => Promise<{ client_secret: { value: string; expires_at: string }; session_id: string; model: string }>;
+export interface WebRTCSessionToken {
+  client_secret: { value: string; expires_at: string };
+  session_id: string;
+  model: string;
+  /** STUN/TURN servers minted by the session route, e.g. time-limited TURN credentials */
+  ice_servers?: RTCIceServer[];
+  /** Realtime API origin, e.g. a local mock server; defaults to api.openai.com */
+  base_url?: string;
 }
 
+export interface WebRTCTransportDeps extends LoggingDeps {
+  getSessionToken: () => Promise<WebRTCSessionToken>;
+}
+
+const DEFAULT_BASE_URL = "https://api.openai.com";
+
+export const DEFAULT_ICE_SERVERS: RTCIceServer[] = [
+  { urls: "stun:stun.l.google.com:19302" },
+  { urls: "stun:stun1.l.google.com:19302" },
+];
+
 export function createWebRTCTransport(config: WebRTCTransportConfig, deps: WebRTCTransportDeps): Transport {
   let peerConnection: RTCPeerConnection | null = null;
   let dataChannel: RTCDataChannel | null = null;
   let audioElement: HTMLAudioElement | null = null;
   let micStream: MediaStream | null = null;
+  // Taps feeding `onAudio`; media flows peer to peer, so PCM has to be captured from the streams
+  let audioTaps: AudioCapture[] = [];
   let eventHandler: ((event: unknown) => void) | null = null;
+  let stateHandler: ((change: TransportStateChange) => void) | null = null;
   let sessionId: string | null = null;
   let clientSecretValue: string | null = null;
   let model: string | null = null;
+  const logger = createRedactingLogger({ ...deps, redactor: deps.redactor ?? piiRedactor });
+
+  function tapAudio(
+    stream: MediaStream,
+    source: AudioSource,
+    onAudio: NonNullable<TransportConnectOptions["onAudio"]>
+  ) {
+    createAudioCapture(stream, {
+      targetSampleRate: REALTIME_SAMPLE_RATE,
+      onFrame: (pcm) => onAudio(source, pcm),
+    })
+      .then((capture) => {
+        // The connection may have closed while the worklet loaded
+        if (peerConnection) {
+          audioTaps.push(capture);
+        } else {
+          void capture.stop();
+        }
+      })
+      .catch((error) => {
+        logger.warn("Failed to tap audio", {
+          source,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      });
+  }
 
   return {
     kind: "webrtc",
 
-    async connect(opts: { token: string; onEvent: (event: unknown) => void }) {
+    async connect(opts: TransportConnectOptions) {
       try {
-        console.log("🚀 Starting pure WebRTC connection...");
+        logger.info("Starting WebRTC connection");
         eventHandler = opts.onEvent;
+        stateHandler = opts.onStateChange ?? null;
 
         // 1. Get ephemeral secret from session route
-        console.log("📡 Fetching ephemeral secret...");
         const sessionData = await deps.getSessionToken();
+        throwIfAborted(opts.signal);
         clientSecretValue = sessionData.client_secret.value;
         sessionId = sessionData.session_id;
         model = sessionData.model;
-        console.log("✅ Ephemeral secret received", { session_id: sessionId, model, expires_at: sessionData.client_secret.expires_at });
+        logger.debug("Ephemeral secret received", {
+          sessionId,
+          model,
+          expiresAt: sessionData.client_secret.expires_at,
+        });
+        opts.onSessionToken?.({ sessionId, expiresAt: sessionData.client_secret.expires_at });
 
         // 2. Create RTCPeerConnection with ICE servers
-        console.log("🔗 Creating RTCPeerConnection...");
-        peerConnection = new RTCPeerConnection({
-          iceServers: [{ urls: "stun:stun.l.google.com:19302" }, { urls: "stun:stun1.l.google.com:19302" }],
+        const iceServers = [...(config.iceServers ?? DEFAULT_ICE_SERVERS), ...(sessionData.ice_servers ?? [])];
+        logger.debug("ICE configuration", {
+          servers: iceServers.length,
+          turn: iceServers.some((server) => [server.urls].flat().some((url) => url.startsWith("turn"))),
+          policy: config.iceTransportPolicy ?? "all",
+        });
+        const connection = new RTCPeerConnection({
+          iceServers,
+          iceTransportPolicy: config.iceTransportPolicy ?? "all",
         });
+        peerConnection = connection;
 
         // 3. Create DataChannel for events
-        console.log("📡 Creating oai-events DataChannel...");
         dataChannel = peerConnection.createDataChannel("oai-events", {
           ordered: true,
         });
 
         // Set up DataChannel event handling
         dataChannel.onopen = () => {
-          console.log("📡 Data channel opened");
-          console.log("🔍 Session ID available:", !!sessionId);
-          console.log("🔍 Event handler available:", !!eventHandler);
+          logger.debug("Data channel opened", { hasSession: !!sessionId });
 
           if (sessionId && eventHandler) {
-            console.log("🎉 Data channel opened, triggering session created event:", sessionId);
             eventHandler({
               type: "session.created",
               session: { id: sessionId },
             });
-            console.log("🎉 Session created event sent from onopen");
           }
         };
 
         dataChannel.onclose = (event) => {
-          console.log("❌ oai-events DataChannel closed", event);
+          logger.info("oai-events DataChannel closed", { type: event.type });
           // Try to reconnect if the connection was established
           if (peerConnection && peerConnection.connectionState === "connected") {
-            console.log("🔄 Attempting to reconnect DataChannel...");
+            logger.info("Attempting to reconnect DataChannel");
             const newDataChannel = peerConnection.createDataChannel("oai-events", {
               ordered: true,
             });
 
             newDataChannel.onopen = () => {
-              console.log("✅ DataChannel reconnected");
+              logger.info("DataChannel reconnected");
               if (sessionId && eventHandler) {
                 eventHandler({
                   type: "session.created",
@@ -94,22 +161,22 @@ export function createWebRTCTransport(config: WebRTCTransportConfig, deps: WebRT
             };
 
             newDataChannel.onclose = () => {
-              console.log("❌ Reconnected DataChannel closed");
+              logger.info("Reconnected DataChannel closed");
             };
 
             newDataChannel.onerror = () => {
-              console.error("❌ Reconnected DataChannel error");
+              logger.error("Reconnected DataChannel error");
             };
 
             newDataChannel.onmessage = (event) => {
               try {
                 const message = JSON.parse(event.data);
-                console.log("📨 DataChannel event:", message.type, message);
+                logger.debug("DataChannel event", { type: message.type, event: message });
                 if (eventHandler) {
                   eventHandler(message);
                 }
               } catch (error) {
-                console.warn("⚠️ Non-JSON DataChannel message:", event.data);
+                logger.warn("Non-JSON DataChannel message", { data: event.data });
               }
             };
 
@@ -118,136 +185,139 @@ export function createWebRTCTransport(config: WebRTCTransportConfig, deps: WebRT
         };
 
         dataChannel.onerror = (error) => {
-          console.error("❌ DataChannel error:", error);
+          logger.error("DataChannel error", { type: error.type });
         };
 
         dataChannel.onmessage = (event) => {
           try {
             const message = JSON.parse(event.data);
-            console.log("📨 DataChannel event:", message.type, message);
+            logger.debug("DataChannel event", { type: message.type, event: message });
 
             if (eventHandler) {
               eventHandler(message);
             }
           } catch (error) {
-            console.warn("⚠️ Non-JSON DataChannel message:", event.data);
+            logger.warn("Non-JSON DataChannel message", { data: event.data });
           }
         };
 
-        // 4. Set up audio playback
-        console.log("🔊 Setting up audio playback...");
-        audioElement = document.createElement("audio");
-        audioElement.autoplay = true;
-        (audioElement as HTMLAudioElement & { playsInline?: boolean }).playsInline = true;
-        audioElement.style.display = "none";
-        document.body.appendChild(audioElement);
-
-        peerConnection.ontrack = (event) => {
-          console.log("🎵 Remote audio track received");
-          if (audioElement) {
-            audioElement.srcObject = event.streams[0];
+        if (opts.textOnly) {
+          // No microphone or speaker; the offer still needs an audio section for the session to negotiate
+          peerConnection.addTransceiver("audio", { direction: "recvonly" });
+          logger.debug("Text-only session, skipping audio setup");
+        } else {
+          // 4. Set up audio playback
+          audioElement = document.createElement("audio");
+          audioElement.autoplay = true;
+          (audioElement as HTMLAudioElement & { playsInline?: boolean }).playsInline = true;
+          audioElement.style.display = "none";
+          document.body.appendChild(audioElement);
+
+          peerConnection.ontrack = (event) => {
+            logger.debug("Remote audio track received");
+            if (audioElement) {
+              audioElement.srcObject = event.streams[0];
+            }
+            if (opts.onAudio && event.streams[0]) {
+              tapAudio(event.streams[0], "assistant", opts.onAudio);
+            }
+          };
+
+          // 5. Add microphone track
+          const stream = await navigator.mediaDevices.getUserMedia({
+            audio: {
+              echoCancellation: true,
+              noiseSuppression: true,
+              autoGainControl: true,
+              sampleRate: 24000,
+              channelCount: 1,
+            },
+          });
+          // The prompt may have been answered after the caller gave up or closed; don't leave the mic on
+          if (opts.signal?.aborted || peerConnection !== connection) {
+            stream.getTracks().forEach((track) => track.stop());
+            throwIfAborted(opts.signal);
+            throw new Error("WebRTC connection closed while waiting for the microphone");
           }
-        };
-
-        // 5. Add microphone track
-        console.log("🎤 Requesting microphone access...");
-        micStream = await navigator.mediaDevices.getUserMedia({
-          audio: {
-            echoCancellation: true,
-            noiseSuppression: true,
-            autoGainControl: true,
-            sampleRate: 24000,
-            channelCount: 1,
-          },
-        });
+          micStream = stream;
 
-        console.log("✅ Microphone access granted");
-
-        // Add all audio tracks to peer connection
-        micStream.getTracks().forEach((track) => {
-          console.log("🎤 Adding microphone track to peer connection");
-          peerConnection!.addTrack(track, micStream!);
-        });
-
-        // 6. Create SDP offer
-        console.log("📤 Creating SDP offer...");
-        const offer = await peerConnection.createOffer({
-          offerToReceiveAudio: true,
-          offerToReceiveVideo: false,
-        });
-
-        await peerConnection.setLocalDescription(offer);
-        console.log("✅ SDP offer created and set as local description");
-
-        // 7. Send SDP offer to OpenAI
-        console.log("📡 Sending SDP offer to OpenAI...");
-        const sdpResponse = await fetch(`https://api.openai.com/v1/realtime?model=${model}`, {
-          method: "POST",
-          headers: {
-            Authorization: `Bearer ${clientSecretValue}`,
-            "Content-Type": "application/sdp",
-            "OpenAI-Beta": "realtime=v1",
-          },
-          body: offer.sdp,
-        });
+          // Add all audio tracks to peer connection
+          micStream.getTracks().forEach((track) => {
+            peerConnection!.addTrack(track, micStream!);
+          });
 
-        if (!sdpResponse.ok) {
-          const errorText = await sdpResponse.text();
-          throw new Error(`SDP exchange failed: ${sdpResponse.status} - ${errorText}`);
+          if (opts.onAudio) {
+            tapAudio(micStream, "user", opts.onAudio);
+          }
         }
 
-        const sdpAnswer = await sdpResponse.text();
-        console.log("✅ SDP answer received from OpenAI");
-
-        // 8. Set remote description
-        await peerConnection.setRemoteDescription({
-          type: "answer",
-          sdp: sdpAnswer,
-        });
-        console.log("✅ Remote description set");
+        // 6-8. Offer/answer exchange; failures are reported as "SDP exchange failed" so callers can fall back
+        opts.onNegotiating?.();
+        logger.debug("Sending SDP offer", { model });
+        await exchangeSdp(connection, model, clientSecretValue, sessionData.base_url);
+        throwIfAborted(opts.signal);
+        logger.debug("Remote description set");
 
         // 9. Monitor ICE connection state
         peerConnection.oniceconnectionstatechange = () => {
-          console.log("🧊 ICE connection state:", peerConnection!.iceConnectionState);
+          logger.debug("ICE connection state", { state: peerConnection!.iceConnectionState });
 
           if (
             peerConnection!.iceConnectionState === "connected" ||
             peerConnection!.iceConnectionState === "completed"
           ) {
-            console.log("✅ WebRTC connection established");
+            logger.info("WebRTC connection established");
+            stateHandler?.({ state: "connected" });
+
+            if (opts.onIceStats && peerConnection) {
+              const onIceStats = opts.onIceStats;
+              readSelectedCandidatePair(peerConnection)
+                .then((stats) => {
+                  if (stats) {
+                    logger.debug("ICE candidate pair", { ...stats });
+                    onIceStats(stats);
+                  }
+                })
+                .catch((error) => {
+                  logger.warn("Failed to read ICE stats", {
+                    error: error instanceof Error ? error.message : String(error),
+                  });
+                });
+            }
 
             if (sessionId && eventHandler) {
-              console.log("🎉 ICE connected, triggering session created event:", sessionId);
               eventHandler({
                 type: "session.created",
                 session: { id: sessionId },
               });
-              console.log("🎉 Session created event sent from ICE connection");
             }
           } else if (
             peerConnection!.iceConnectionState === "failed" ||
             peerConnection!.iceConnectionState === "disconnected"
           ) {
-            console.error("❌ WebRTC connection failed");
+            logger.warn("WebRTC connection lost", { state: peerConnection!.iceConnectionState });
+            stateHandler?.({
+              state: peerConnection!.iceConnectionState === "failed" ? "failed" : "disconnected",
+              reason: `ice_${peerConnection!.iceConnectionState}`,
+            });
           }
         };
 
         // Additional diagnostic monitoring
         peerConnection.onicegatheringstatechange = () => {
-          console.log("🧊 ICE gathering state:", peerConnection!.iceGatheringState);
+          logger.debug("ICE gathering state", { state: peerConnection!.iceGatheringState });
         };
 
         peerConnection.onconnectionstatechange = () => {
-          console.log("🔗 Connection state:", peerConnection!.connectionState);
+          logger.debug("Connection state", { state: peerConnection!.connectionState });
         };
 
         peerConnection.onsignalingstatechange = () => {
-          console.log("📡 Signaling state changed to:", peerConnection!.signalingState);
+          logger.debug("Signaling state", { state: peerConnection!.signalingState });
         };
 
         // 10. Optional: Send initial greeting to test the connection
         if (dataChannel.readyState === "open") {
-          console.log("👋 Sending initial greeting...");
           dataChannel.send(
             JSON.stringify({
               type: "response.create",
@@ -258,9 +328,11 @@ export function createWebRTCTransport(config: WebRTCTransportConfig, deps: WebRT
           );
         }
 
-        console.log("✅ WebRTC connection setup complete");
+        logger.info("WebRTC connection setup complete");
       } catch (error) {
-        console.error("❌ WebRTC connection failed:", error);
+        logger.error("WebRTC connection failed", {
+          error: error instanceof Error ? error.message : String(error),
+        });
         throw error;
       }
     },
@@ -268,35 +340,38 @@ export function createWebRTCTransport(config: WebRTCTransportConfig, deps: WebRT
     send(event: unknown) {
       if (dataChannel && dataChannel.readyState === "open") {
         dataChannel.send(JSON.stringify(event));
-        console.log("📤 Sent message:", (event as any).type);
+        logger.debug("Sent message", { type: (event as { type?: string }).type });
       } else {
-        console.warn("⚠️ DataChannel not open, cannot send message:", (event as any).type);
+        logger.warn("DataChannel not open, cannot send message", { type: (event as { type?: string }).type });
       }
     },
 
     async close() {
-      console.log("🧹 Cleaning up WebRTC connection...");
+      logger.info("Closing WebRTC connection");
+
+      const taps = audioTaps;
+      audioTaps = [];
+      await Promise.all(taps.map((tap) => tap.stop()));
 
       // Stop all tracks
       if (micStream) {
-        micStream.getTracks().forEach((track) => {
-          track.stop();
-          console.log("🛑 Audio track stopped");
-        });
+        micStream.getTracks().forEach((track) => track.stop());
         micStream = null;
       }
 
+      // Detach state handler so an intentional close is not reported as a drop
+      stateHandler = null;
+
       // Close peer connection
       if (peerConnection) {
+        peerConnection.oniceconnectionstatechange = null;
         peerConnection.close();
-        console.log("🔌 Peer connection closed");
         peerConnection = null;
       }
 
       // Remove audio element
       if (audioElement && audioElement.parentNode) {
         audioElement.parentNode.removeChild(audioElement);
-        console.log("🔊 Audio element removed");
         audioElement = null;
       }
 
@@ -309,3 +384,99 @@ export function createWebRTCTransport(config: WebRTCTransportConfig, deps: WebRT
     },
   };
 }
+
+function throwIfAborted(signal: AbortSignal | undefined) {
+  if (signal?.aborted) {
+    throw new Error("WebRTC connect aborted");
+  }
+}
+
+async function exchangeSdp(
+  peerConnection: RTCPeerConnection,
+  model: string | null,
+  secret: string | null,
+  baseUrl = DEFAULT_BASE_URL
+) {
+  let sdpResponse: Response;
+  try {
+    // 6. Create SDP offer
+    const offer = await peerConnection.createOffer({
+      offerToReceiveAudio: true,
+      offerToReceiveVideo: false,
+    });
+
+    await peerConnection.setLocalDescription(offer);
+
+    // 7. Send SDP offer to OpenAI
+    sdpResponse = await fetch(`${baseUrl}/v1/realtime?model=${model}`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${secret}`,
+        "Content-Type": "application/sdp",
+        "OpenAI-Beta": "realtime=v1",
+      },
+      body: offer.sdp,
+    });
+  } catch (error) {
+    throw new Error(`SDP exchange failed: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  if (!sdpResponse.ok) {
+    const errorText = await sdpResponse.text();
+    throw new Error(`SDP exchange failed: ${sdpResponse.status} - ${errorText}`);
+  }
+
+  const sdpAnswer = await sdpResponse.text();
+
+  // 8. Set remote description
+  try {
+    await peerConnection.setRemoteDescription({
+      type: "answer",
+      sdp: sdpAnswer,
+    });
+  } catch (error) {
+    throw new Error(`SDP exchange failed: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Find the candidate pair the connection is actually using: the transport's
+ * selected pair where exposed, otherwise the nominated succeeded pair.
+ */
+async function readSelectedCandidatePair(peerConnection: RTCPeerConnection): Promise<IceCandidatePairStats | null> {
+  const report = await peerConnection.getStats();
+  const entries = new Map<string, Record<string, unknown>>();
+  report.forEach((entry) => entries.set(entry.id, entry));
+
+  let pair: Record<string, unknown> | undefined;
+  for (const entry of entries.values()) {
+    if (entry.type === "transport" && typeof entry.selectedCandidatePairId === "string") {
+      pair = entries.get(entry.selectedCandidatePairId);
+      break;
+    }
+  }
+  if (!pair) {
+    pair = Array.from(entries.values()).find(
+      (entry) => entry.type === "candidate-pair" && entry.nominated === true && entry.state === "succeeded"
+    );
+  }
+  if (!pair) {
+    return null;
+  }
+
+  const local = entries.get(pair.localCandidateId as string);
+  const remote = entries.get(pair.remoteCandidateId as string);
+  const rtt = pair.currentRoundTripTime as number | undefined;
+
+  return {
+    state: String(pair.state),
+    localCandidateType: local?.candidateType as string | undefined,
+    remoteCandidateType: remote?.candidateType as string | undefined,
+    protocol: local?.protocol as string | undefined,
+    relayProtocol: local?.relayProtocol as string | undefined,
+    currentRoundTripTimeMs: rtt !== undefined ? Math.round(rtt * 1000) : undefined,
+    availableOutgoingBitrate: pair.availableOutgoingBitrate as number | undefined,
+    bytesSent: pair.bytesSent as number | undefined,
+    bytesReceived: pair.bytesReceived as number | undefined,
+  };
+}
@@ -1,4 +1,36 @@
-import { Transport } from "@thrivereflections/realtime-contracts";
+import {
+  RealtimeTurnDetection,
+  Transport,
+  TransportConnectOptions,
+  TransportStateChange,
+} from "@thrivereflections/realtime-contracts";
+import { createRedactingLogger, LoggingDeps } from "@thrivereflections/realtime-observability";
+import { piiRedactor } from "@thrivereflections/realtime-security";
+import {
+  AudioCapture,
+  AudioPlayback,
+  PlaybackPosition,
+  createAudioCapture,
+  createAudioPlayback,
+  REALTIME_SAMPLE_RATE,
+} from "@thrivereflections/realtime-audio";
+
+// Re-exported for code that imported the audio helpers from this package
+export {
+  createAudioCapture,
+  createAudioPlayback,
+  LinearResampler,
+  floatToPcm16,
+  pcm16ToFloat,
+  REALTIME_SAMPLE_RATE,
+} from "@thrivereflections/realtime-audio";
+export type {
+  AudioCapture,
+  AudioCaptureOptions,
+  AudioPlayback,
+  AudioPlaybackOptions,
+  PlaybackPosition,
+} from "@thrivereflections/realtime-audio";
 
 export interface WebSocketTransportConfig {
   voice?: string;
@@ -14,10 +46,32 @@ export interface WebSocketTransportConfig {
     description: string;
     parameters: Record<string, unknown>;
   }>;
+  /** Set `interrupt_response: false` on VAD modes; barge-in is decided client-side */
+  turnDetection?: RealtimeTurnDetection;
 }
 
-export interface WebSocketTransportDeps {
-  getSessionToken: () => Promise<{ client_secret: { value: string; expires_at: string }; session_id: string; model: string }>;
+export interface WebSocketTransportDeps extends LoggingDeps {
+  getSessionToken: () => Promise<{
+    client_secret: { value: string; expires_at: string };
+    session_id: string;
+    model: string;
+    /** Realtime API origin, e.g. a local mock server; defaults to api.openai.com */
+    base_url?: string;
+  }>;
+}
+
+export interface WebSocketTransport extends Transport {
+  /** Position of the assistant audio currently being heard, if any */
+  getPlaybackPosition(): PlaybackPosition | null;
+  /** Stop assistant audio immediately; returns where playback stopped */
+  clearPlayback(): PlaybackPosition | null;
+}
+
+const DEFAULT_BASE_URL = "https://api.openai.com";
+
+/** `wss://…/v1/realtime` for an http(s) API origin */
+export function realtimeWebSocketUrl(baseUrl: string = DEFAULT_BASE_URL): string {
+  return `${baseUrl.replace(/^http/, "ws").replace(/\/$/, "")}/v1/realtime`;
 }
 
 // Audio conversion utilities
@@ -39,66 +93,77 @@ function pcmToBase64(pcm: Int16Array): string {
 }
 
 function base64ToPcm(base64: string): Int16Array {
-  // Convert base64 to Uint8Array
   const binary = atob(base64);
-  const uint8Array = new Uint8Array(binary.length);
+  const bytes = new Uint8Array(binary.length);
   for (let i = 0; i < binary.length; i++) {
-    uint8Array[i] = binary.charCodeAt(i);
+    bytes[i] = binary.charCodeAt(i);
   }
 
   // Convert Uint8Array to Int16Array (little-endian)
-  const pcm = new Int16Array(uint8Array.length / 2);
-  const view = new DataView(uint8Array.buffer);
+  const pcm = new Int16Array(Math.floor(bytes.length / 2));
+  const view = new DataView(bytes.buffer);
   for (let i = 0; i < pcm.length; i++) {
-    pcm[i] = view.getInt16(i * 2, true); // little-endian
+    pcm[i] = view.getInt16(i * 2, true);
   }
-
   return pcm;
 }
 
-export function createWebSocketTransport(config: WebSocketTransportConfig, deps: WebSocketTransportDeps): Transport {
+export function createWebSocketTransport(
+  config: WebSocketTransportConfig,
+  deps: WebSocketTransportDeps
+): WebSocketTransport {
   let websocket: WebSocket | null = null;
-  let audioElement: HTMLAudioElement | null = null;
   let micStream: MediaStream | null = null;
   let eventHandler: ((event: unknown) => void) | null = null;
+  let stateHandler: ((change: TransportStateChange) => void) | null = null;
   let sessionId: string | null = null;
   let clientSecretValue: string | null = null;
   let model: string | null = null;
   let isConnected = false;
-  let audioContext: AudioContext | null = null;
-  let audioWorkletNode: AudioWorkletNode | null = null;
+  const logger = createRedactingLogger({ ...deps, redactor: deps.redactor ?? piiRedactor });
+  let capture: AudioCapture | null = null;
+  let playback: AudioPlayback | null = null;
 
   return {
     kind: "websocket",
 
-    async connect(opts: { token: string; onEvent: (event: unknown) => void }) {
+    async connect(opts: TransportConnectOptions) {
       try {
-        console.log("🚀 Starting WebSocket connection...");
+        logger.info("Starting WebSocket connection");
         eventHandler = opts.onEvent;
+        stateHandler = opts.onStateChange ?? null;
 
         // 1. Get ephemeral secret from session route (same as WebRTC)
-        console.log("📡 Fetching ephemeral secret...");
         const sessionData = await deps.getSessionToken();
         clientSecretValue = sessionData.client_secret.value;
         sessionId = sessionData.session_id;
         model = sessionData.model;
-        console.log("✅ Ephemeral secret received", { session_id: sessionId, model, expires_at: sessionData.client_secret.expires_at });
+        logger.debug("Ephemeral secret received", {
+          sessionId,
+          model,
+          expiresAt: sessionData.client_secret.expires_at,
+        });
+        opts.onSessionToken?.({ sessionId, expiresAt: sessionData.client_secret.expires_at });
 
-        // 2. Create WebSocket connection
-        console.log("🔗 Creating WebSocket connection...");
-        const wsUrl = `wss://api.openai.com/v1/realtime?model=${model}`;
-        websocket = new WebSocket(wsUrl);
+        // 2. Create WebSocket connection; browsers cannot set headers, so the secret goes in the subprotocols
+        const wsUrl = `${realtimeWebSocketUrl(sessionData.base_url)}?model=${model}`;
+        websocket = new WebSocket(wsUrl, [
+          "realtime",
+          `openai-insecure-api-key.${clientSecretValue}`,
+          "openai-beta.realtime-v1",
+        ]);
 
         websocket.onopen = () => {
-          console.log("✅ WebSocket connection opened");
+          logger.info("WebSocket connection opened");
           isConnected = true;
+          stateHandler?.({ state: "connected" });
 
           // Send authentication
           websocket!.send(
             JSON.stringify({
               type: "session.update",
               session: {
-                modalities: ["text", "audio"],
+                modalities: opts.textOnly ? ["text"] : ["text", "audio"],
                 instructions: config.instructions || "You are a helpful AI assistant.",
                 voice: config.voice || "alloy",
                 input_audio_format: "pcm16",
@@ -106,12 +171,8 @@ export function createWebSocketTransport(config: WebSocketTransportConfig, deps:
                 input_audio_transcription: {
                   model: "whisper-1",
                 },
-                turn_detection: {
-                  type: "server_vad",
-                  threshold: 0.5,
-                  prefix_padding_ms: 300,
-                  silence_duration_ms: 200,
-                },
+                // Omitted unless configured, so the session route's turn detection stays in effect
+                ...(config.turnDetection !== undefined ? { turn_detection: config.turnDetection } : {}),
                 tools: config.tools || [],
               },
             })
@@ -139,176 +200,78 @@ export function createWebSocketTransport(config: WebSocketTransportConfig, deps:
         websocket.onmessage = (event) => {
           try {
             const message = JSON.parse(event.data);
-            console.log("📨 WebSocket message:", message.type, message);
-
-            // Handle different message types
-            switch (message.type) {
-              case "session.created":
-                console.log("🎉 Session created via WebSocket");
-                if (eventHandler) {
-                  eventHandler(message);
-                }
-                break;
-
-              case "conversation.item.created":
-                if (eventHandler) {
-                  eventHandler(message);
-                }
-                break;
-
-              case "response.audio.delta":
-                // Handle audio response
-                if (message.delta && message.delta.type === "audio.delta") {
-                  const audioData = base64ToPcm(message.delta.audio);
-                  if (eventHandler) {
-                    eventHandler({
-                      type: "response.audio.delta",
-                      audio: audioData,
-                    });
-                  }
-                }
-                break;
-
-              case "response.text.delta":
-                // Handle text response
-                if (message.delta && message.delta.type === "text.delta") {
-                  if (eventHandler) {
-                    eventHandler({
-                      type: "response.text.delta",
-                      text: message.delta.text,
-                    });
-                  }
-                }
-                break;
-
-              case "response.done":
-                if (eventHandler) {
-                  eventHandler({
-                    type: "response.done",
-                  });
-                }
-                break;
-
-              case "input_audio_buffer.speech_started":
-                if (eventHandler) {
-                  eventHandler({
-                    type: "speech.started",
-                  });
-                }
-                break;
-
-              case "input_audio_buffer.speech_stopped":
-                if (eventHandler) {
-                  eventHandler({
-                    type: "speech.stopped",
-                  });
-                }
-                break;
-
-              case "conversation.item.input_audio_transcription.completed":
-                if (eventHandler) {
-                  eventHandler({
-                    type: "conversation.item.input_audio_transcription.completed",
-                    transcription: message.transcription,
-                  });
-                }
-                break;
-
-              case "response.function_call_arguments.delta":
-                if (eventHandler) {
-                  eventHandler({
-                    type: "response.function_call_arguments.delta",
-                    delta: message.delta,
-                  });
-                }
-                break;
-
-              default:
-                // Pass through other events
-                if (eventHandler) {
-                  eventHandler(message);
-                }
-                break;
+            logger.debug("WebSocket message", { type: message.type, event: message });
+
+            if (message.type === "response.audio.delta" && typeof message.delta === "string") {
+              const pcm = base64ToPcm(message.delta);
+              playback?.enqueue(message.item_id ?? "", pcm);
+              opts.onAudio?.("assistant", pcm);
+            } else if (message.type === "response.audio.done") {
+              playback?.endOfStream();
             }
+
+            // Server events are forwarded as-is; the event router validates them
+            eventHandler?.(message);
           } catch (error) {
-            console.warn("⚠️ Non-JSON WebSocket message:", event.data);
+            logger.warn("Non-JSON WebSocket message", { data: event.data });
           }
         };
 
         websocket.onclose = (event) => {
-          console.log("❌ WebSocket connection closed", event);
+          logger.info("WebSocket connection closed", { code: event.code, reason: event.reason });
           isConnected = false;
+          stateHandler?.({ state: "disconnected", reason: `ws_close_${event.code}` });
         };
 
         websocket.onerror = (error) => {
-          console.error("❌ WebSocket error:", error);
+          logger.error("WebSocket error", { type: error.type });
           if (eventHandler) {
             eventHandler({
               type: "error",
-              error: error,
+              error: { type: "transport_error", message: "WebSocket error" },
             });
           }
         };
 
-        // 3. Set up audio playback
-        console.log("🔊 Setting up audio playback...");
-        audioElement = document.createElement("audio");
-        audioElement.autoplay = true;
-        (audioElement as HTMLAudioElement & { playsInline?: boolean }).playsInline = true;
-        audioElement.style.display = "none";
-        document.body.appendChild(audioElement);
-
-        // Set up audio context for playback
-        audioContext = new AudioContext({ sampleRate: 24000 });
-
-        // 4. Add microphone track
-        console.log("🎤 Requesting microphone access...");
-        micStream = await navigator.mediaDevices.getUserMedia({
-          audio: {
-            echoCancellation: true,
-            noiseSuppression: true,
-            autoGainControl: true,
-            sampleRate: 24000,
-            channelCount: 1,
-          },
-        });
-
-        console.log("✅ Microphone access granted");
-
-        // Set up audio processing for microphone
-        const micAudioContext = new AudioContext({ sampleRate: 24000 });
-        const source = micAudioContext.createMediaStreamSource(micStream);
-
-        // Create a ScriptProcessorNode for audio processing
-        const processor = micAudioContext.createScriptProcessor(4096, 1, 1);
-        processor.onaudioprocess = (event) => {
-          if (isConnected && websocket && websocket.readyState === WebSocket.OPEN) {
-            const inputBuffer = event.inputBuffer;
-            const inputData = inputBuffer.getChannelData(0);
-
-            // Convert Float32Array to Int16Array
-            const pcmData = new Int16Array(inputData.length);
-            for (let i = 0; i < inputData.length; i++) {
-              pcmData[i] = Math.max(-32768, Math.min(32767, inputData[i] * 32768));
-            }
-
-            // Convert to base64 and send
-            const base64Audio = pcmToBase64(pcmData);
-            websocket.send(
-              JSON.stringify({
-                type: "input_audio_buffer.append",
-                audio: base64Audio,
-              })
-            );
-          }
-        };
-
-        source.connect(processor);
-        processor.connect(micAudioContext.destination);
-
-        console.log("✅ WebSocket connection setup complete");
+        if (opts.textOnly) {
+          logger.debug("Text-only session, skipping audio setup");
+        } else {
+          // 3. Set up jitter-buffered audio playback
+          playback = await createAudioPlayback({ sourceSampleRate: REALTIME_SAMPLE_RATE });
+
+          // 4. Capture microphone as 24 kHz PCM16 frames
+          micStream = await navigator.mediaDevices.getUserMedia({
+            audio: {
+              echoCancellation: true,
+              noiseSuppression: true,
+              autoGainControl: true,
+              sampleRate: REALTIME_SAMPLE_RATE,
+              channelCount: 1,
+            },
+          });
+
+          capture = await createAudioCapture(micStream, {
+            targetSampleRate: REALTIME_SAMPLE_RATE,
+            onFrame: (pcm) => {
+              if (isConnected && websocket && websocket.readyState === WebSocket.OPEN) {
+                websocket.send(
+                  JSON.stringify({
+                    type: "input_audio_buffer.append",
+                    audio: pcmToBase64(pcm),
+                  })
+                );
+                opts.onAudio?.("user", pcm);
+              }
+            },
+          });
+          logger.debug("Microphone capture started", { inputSampleRate: capture.inputSampleRate });
+        }
+
+        logger.info("WebSocket connection setup complete");
       } catch (error) {
-        console.error("❌ WebSocket connection failed:", error);
+        logger.error("WebSocket connection failed", {
+          error: error instanceof Error ? error.message : String(error),
+        });
         throw error;
       }
     },
@@ -316,43 +279,47 @@ export function createWebSocketTransport(config: WebSocketTransportConfig, deps:
     send(event: unknown) {
       if (websocket && websocket.readyState === WebSocket.OPEN) {
         websocket.send(JSON.stringify(event));
-        console.log("📤 Sent WebSocket message:", (event as any).type);
+        logger.debug("Sent WebSocket message", { type: (event as { type?: string }).type });
       } else {
-        console.warn("⚠️ WebSocket not open, cannot send message:", (event as any).type);
+        logger.warn("WebSocket not open, cannot send message", { type: (event as { type?: string }).type });
       }
     },
 
+    getPlaybackPosition() {
+      return playback?.getPosition() ?? null;
+    },
+
+    clearPlayback() {
+      return playback?.clear() ?? null;
+    },
+
     async close() {
-      console.log("🧹 Cleaning up WebSocket connection...");
+      logger.info("Closing WebSocket connection");
+
+      if (capture) {
+        await capture.stop();
+        capture = null;
+      }
 
       // Stop all tracks
       if (micStream) {
-        micStream.getTracks().forEach((track) => {
-          track.stop();
-          console.log("🛑 Audio track stopped");
-        });
+        micStream.getTracks().forEach((track) => track.stop());
         micStream = null;
       }
 
+      // Detach state handler so an intentional close is not reported as a drop
+      stateHandler = null;
+
       // Close WebSocket connection
       if (websocket) {
+        websocket.onclose = null;
         websocket.close();
-        console.log("🔌 WebSocket connection closed");
         websocket = null;
       }
 
-      // Close audio context
-      if (audioContext) {
-        await audioContext.close();
-        console.log("🔊 Audio context closed");
-        audioContext = null;
-      }
-
-      // Remove audio element
-      if (audioElement && audioElement.parentNode) {
-        audioElement.parentNode.removeChild(audioElement);
-        console.log("🔊 Audio element removed");
-        audioElement = null;
+      if (playback) {
+        await playback.close();
+        playback = null;
       }
 
       // Clear references
@@ -361,7 +328,6 @@ export function createWebSocketTransport(config: WebSocketTransportConfig, deps:
       clientSecretValue = null;
       model = null;
       isConnected = false;
-      audioWorkletNode = null;
     },
   };
 }
@@ -0,0 +1,237 @@
+import WebSocket from "ws";
+import { Transport, TransportConnectOptions, TransportStateChange } from "@thrivereflections/realtime-contracts";
+import { createRedactingLogger, LoggingDeps } from "@thrivereflections/realtime-observability";
+import { piiRedactor } from "@thrivereflections/realtime-security";
+
+export interface NodeWebSocketTransportConfig {
+  model?: string;
+  voice?: string;
+  instructions?: string;
+  modalities?: Array<"text" | "audio">;
+  inputAudioTranscription?: { model: string } | null;
+  turnDetection?: Record<string, unknown> | null;
+  tools?: Array<{
+    type: string;
+    name: string;
+    description: string;
+    parameters: Record<string, unknown>;
+  }>;
+  url?: string;
+}
+
+export interface NodeWebSocketTransportDeps extends LoggingDeps {
+  /**
+   * Server-side API key. When omitted, the `token` passed to `connect()` is
+   * used as an ephemeral client secret instead.
+   */
+  serverKey?: string;
+}
+
+export interface NodeWebSocketTransport extends Transport {
+  /** Stream PCM16 mono 24 kHz input audio to the session */
+  appendAudio(pcm: Int16Array): void;
+  /** Receive decoded PCM16 output audio chunks. Returns an unsubscribe function. */
+  onAudio(handler: (chunk: Int16Array) => void): () => void;
+}
+
+export const DEFAULT_REALTIME_MODEL = "gpt-realtime";
+const REALTIME_URL = "wss://api.openai.com/v1/realtime";
+
+export function encodePcm16(pcm: Int16Array): string {
+  const bytes = Buffer.alloc(pcm.length * 2);
+  for (let i = 0; i < pcm.length; i++) {
+    bytes.writeInt16LE(pcm[i], i * 2);
+  }
+  return bytes.toString("base64");
+}
+
+export function decodePcm16(base64: string): Int16Array {
+  const bytes = Buffer.from(base64, "base64");
+  const pcm = new Int16Array(Math.floor(bytes.length / 2));
+  for (let i = 0; i < pcm.length; i++) {
+    pcm[i] = bytes.readInt16LE(i * 2);
+  }
+  return pcm;
+}
+
+/**
+ * Headless WebSocket transport for Node (telephony bridges, batch evaluation).
+ * Audio goes in through `appendAudio` and comes out through `onAudio`; there is
+ * no microphone or speaker handling.
+ */
+export function createNodeWebSocketTransport(
+  config: NodeWebSocketTransportConfig = {},
+  deps: NodeWebSocketTransportDeps = {}
+): NodeWebSocketTransport {
+  let socket: WebSocket | null = null;
+  let eventHandler: ((event: unknown) => void) | null = null;
+  let stateHandler: ((change: TransportStateChange) => void) | null = null;
+  const audioHandlers = new Set<(chunk: Int16Array) => void>();
+  let audioTap: TransportConnectOptions["onAudio"] | null = null;
+  const logger = createRedactingLogger({ ...deps, redactor: deps.redactor ?? piiRedactor });
+  const model = config.model ?? DEFAULT_REALTIME_MODEL;
+
+  function sessionUpdate(textOnly?: boolean): Record<string, unknown> {
+    const session: Record<string, unknown> = {
+      input_audio_format: "pcm16",
+      output_audio_format: "pcm16",
+    };
+
+    if (textOnly) session.modalities = ["text"];
+    else if (config.modalities) session.modalities = config.modalities;
+    if (config.voice) session.voice = config.voice;
+    if (config.instructions) session.instructions = config.instructions;
+    if (config.inputAudioTranscription !== undefined) session.input_audio_transcription = config.inputAudioTranscription;
+    if (config.turnDetection !== undefined) session.turn_detection = config.turnDetection;
+    if (config.tools) session.tools = config.tools;
+
+    return { type: "session.update", session };
+  }
+
+  function handleMessage(data: WebSocket.RawData) {
+    let message: { type?: string; delta?: unknown };
+    try {
+      message = JSON.parse(data.toString());
+    } catch {
+      logger.warn("Non-JSON WebSocket message", { data: data.toString() });
+      return;
+    }
+
+    logger.debug("WebSocket message", { type: message.type, event: message });
+
+    if (
+      message.type === "response.audio.delta" &&
+      typeof message.delta === "string" &&
+      (audioHandlers.size > 0 || audioTap)
+    ) {
+      const chunk = decodePcm16(message.delta);
+      audioHandlers.forEach((handler) => handler(chunk));
+      audioTap?.("assistant", chunk);
+    }
+
+    eventHandler?.(message);
+  }
+
+  return {
+    kind: "websocket-node",
+
+    async connect(opts: TransportConnectOptions) {
+      const secret = deps.serverKey ?? opts.token;
+      if (!secret) {
+        throw new Error("Node WebSocket transport requires a server key or an ephemeral token");
+      }
+
+      eventHandler = opts.onEvent;
+      stateHandler = opts.onStateChange ?? null;
+      audioTap = opts.onAudio ?? null;
+
+      const url = `${config.url ?? REALTIME_URL}?model=${encodeURIComponent(model)}`;
+      logger.info("Starting Node WebSocket connection", {
+        model,
+        auth: deps.serverKey ? "server_key" : "ephemeral",
+      });
+
+      const ws = new WebSocket(url, {
+        headers: {
+          Authorization: `Bearer ${secret}`,
+          "OpenAI-Beta": "realtime=v1",
+        },
+      });
+      socket = ws;
+
+      let opened = false;
+
+      // Attach before "open" resolves so session.created is not missed
+      ws.on("message", handleMessage);
+
+      ws.on("error", (error) => {
+        logger.error("WebSocket error", { error: error.message });
+        if (opened) {
+          eventHandler?.({
+            type: "error",
+            error: { type: "transport_error", message: error.message },
+          });
+        }
+      });
+
+      ws.on("close", (code, reason) => {
+        logger.info("WebSocket connection closed", { code, reason: reason.toString() });
+        if (socket === ws) {
+          socket = null;
+        }
+        if (opened) {
+          stateHandler?.({ state: "disconnected", reason: `ws_close_${code}` });
+        }
+      });
+
+      await new Promise<void>((resolve, reject) => {
+        const onOpenError = (error: Error) => {
+          ws.off("open", onOpen);
+          if (socket === ws) {
+            socket = null;
+          }
+          reject(error);
+        };
+        const onOpen = () => {
+          ws.off("error", onOpenError);
+          opened = true;
+          resolve();
+        };
+        ws.once("open", onOpen);
+        ws.once("error", onOpenError);
+      });
+
+      ws.send(JSON.stringify(sessionUpdate(opts.textOnly)));
+      stateHandler?.({ state: "connected" });
+      logger.info("Node WebSocket connection established");
+    },
+
+    send(event: unknown) {
+      if (socket && socket.readyState === WebSocket.OPEN) {
+        socket.send(JSON.stringify(event));
+        logger.debug("Sent WebSocket message", { type: (event as { type?: string }).type });
+      } else {
+        logger.warn("WebSocket not open, cannot send message", { type: (event as { type?: string }).type });
+      }
+    },
+
+    appendAudio(pcm: Int16Array) {
+      if (!socket || socket.readyState !== WebSocket.OPEN) {
+        logger.debug("WebSocket not open, dropping audio frame", { samples: pcm.length });
+        return;
+      }
+
+      socket.send(
+        JSON.stringify({
+          type: "input_audio_buffer.append",
+          audio: encodePcm16(pcm),
+        })
+      );
+      audioTap?.("user", pcm);
+    },
+
+    onAudio(handler: (chunk: Int16Array) => void) {
+      audioHandlers.add(handler);
+      return () => {
+        audioHandlers.delete(handler);
+      };
+    },
+
+    async close() {
+      logger.info("Closing Node WebSocket connection");
+
+      // Detach state handler so an intentional close is not reported as a drop
+      stateHandler = null;
+
+      if (socket) {
+        const ws = socket;
+        socket = null;
+        ws.removeAllListeners("close");
+        ws.close();
+      }
+
+      eventHandler = null;
+      audioTap = null;
+    },
+  };
+}
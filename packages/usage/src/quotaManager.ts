@@ -57,6 +57,8 @@ export class InMemoryQuotaManager implements QuotaManager {
     this.cleanupInterval = setInterval(() => {
       this.cleanupExpiredQuotas();
     }, 60 * 60 * 1000);
+    // Only cleanup, so let Node exit without waiting for it (no-op in browsers)
+    this.cleanupInterval.unref?.();
   }
 
   private getQuotaKey(userId: string, period: "day" | "month"): string {
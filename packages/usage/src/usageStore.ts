@@ -77,6 +77,8 @@ export class InMemoryUsageStore implements UsageStore {
     this.cleanupInterval = setInterval(() => {
       this.cleanupOldData(7); // Clean up data older than 7 days
     }, 6 * 60 * 60 * 1000);
+    // Only cleanup, so let Node exit without waiting for it (no-op in browsers)
+    this.cleanupInterval.unref?.();
   }
 
   // Session usage operations